@@ -2,12 +2,51 @@
  * API client for inFakt API v3
  *
  * Provides a type-safe wrapper around axios for making API calls
- * with proper error handling and request/response typing.
+ * with proper error handling, request/response typing and retries.
+ *
+ * Retry policy:
+ * - Idempotent requests (GET, PUT, DELETE) are retried on network errors,
+ *   timeouts, 408, 429 and 5xx gateway/availability errors.
+ * - Non-idempotent requests (POST) are retried only when the API provably
+ *   did not process them: connection refused/DNS failures and 429. A POST
+ *   that timed out or failed with 5xx may have been applied (e.g. an invoice
+ *   created via /async/invoices.json), so it is never retried.
  */
 
-import axios, { AxiosInstance, AxiosError, AxiosRequestConfig } from "axios";
+import axios, {
+  AxiosInstance,
+  AxiosError,
+  AxiosRequestConfig,
+  AxiosResponse,
+} from "axios";
 import { McpError, ErrorCode } from "@modelcontextprotocol/sdk/types.js";
-import type { ServerConfig } from "./types.js";
+import { REQUEST_DEFAULTS } from "./config.js";
+import type { RateLimiter } from "./rate-limiter.js";
+import type { RetryConfig, ServerConfig } from "./types.js";
+
+/**
+ * HTTP methods safe to repeat without side effects
+ */
+const IDEMPOTENT_METHODS = ["get", "head", "options", "put", "delete"];
+
+/**
+ * Status codes worth retrying for idempotent requests
+ */
+const RETRYABLE_STATUSES = [408, 429, 500, 502, 503, 504];
+
+/**
+ * Network error codes meaning the request never reached the API
+ */
+const CONNECTION_ERROR_CODES = ["ECONNREFUSED", "ENOTFOUND", "EAI_AGAIN"];
+
+/**
+ * Default retry configuration
+ */
+export const DEFAULT_RETRY_CONFIG: RetryConfig = {
+  maxRetries: REQUEST_DEFAULTS.MAX_RETRIES,
+  baseDelayMs: REQUEST_DEFAULTS.RETRY_BASE_DELAY_MS,
+  maxDelayMs: REQUEST_DEFAULTS.RETRY_MAX_DELAY_MS,
+};
 
 /**
  * Custom error class for API-specific errors
@@ -36,11 +75,92 @@ export function createApiClient(config: ServerConfig): AxiosInstance {
       "X-inFakt-ApiKey": config.apiKey,
       "Content-Type": "application/json",
     },
-    timeout: 30000, // 30 second timeout
+    timeout: config.timeoutMs,
     validateStatus: (status) => status >= 200 && status < 300,
   });
 }
 
+/**
+ * Decides whether a failed request may be retried
+ *
+ * @param error - The error from the failed attempt
+ * @param method - HTTP method of the request
+ * @returns True if repeating the request is safe and may succeed
+ */
+export function isRetryableError(error: unknown, method: string): boolean {
+  if (!axios.isAxiosError(error)) {
+    return false;
+  }
+
+  const idempotent = IDEMPOTENT_METHODS.includes(method.toLowerCase());
+  const status = error.response?.status;
+
+  if (status === undefined) {
+    // Request never reached the API: safe for any method
+    if (error.code && CONNECTION_ERROR_CODES.includes(error.code)) {
+      return true;
+    }
+    // Timeout or dropped connection: the API may have processed it
+    return idempotent && error.code !== AxiosError.ERR_CANCELED;
+  }
+
+  // Rate-limited requests are rejected before processing
+  if (status === 429) {
+    return true;
+  }
+
+  return idempotent && RETRYABLE_STATUSES.includes(status);
+}
+
+/**
+ * Parses a Retry-After header (delay in seconds or HTTP date)
+ *
+ * @param error - The error from the failed attempt
+ * @returns Delay in milliseconds, or undefined if absent or invalid
+ */
+export function parseRetryAfter(error: unknown): number | undefined {
+  if (!axios.isAxiosError(error)) {
+    return undefined;
+  }
+
+  const header = error.response?.headers?.["retry-after"];
+  if (typeof header !== "string" || header.trim() === "") {
+    return undefined;
+  }
+
+  // Numbers are never dates, even ones Date.parse accepts (e.g. "-1")
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) {
+    return seconds >= 0 ? seconds * 1000 : undefined;
+  }
+
+  const date = Date.parse(header);
+  if (!isNaN(date)) {
+    return Math.max(0, date - Date.now());
+  }
+
+  return undefined;
+}
+
+/**
+ * Computes a jittered exponential backoff delay ("full jitter")
+ *
+ * @param attempt - Zero-based retry attempt
+ * @param retry - Retry configuration
+ * @returns Delay in milliseconds
+ */
+export function computeBackoffDelay(attempt: number, retry: RetryConfig): number {
+  const ceiling = Math.min(retry.maxDelayMs, retry.baseDelayMs * 2 ** attempt);
+  return Math.floor(Math.random() * ceiling);
+}
+
+/**
+ * Waits for the given number of milliseconds
+ */
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
 /**
  * Extracts a meaningful error message from an axios error
  *
@@ -138,11 +258,13 @@ export function handleApiError(error: unknown): never {
       errorCode = ErrorCode.InvalidRequest;
     }
 
+    // The status lets callers tell rejected requests from ones with unknown outcome
     throw new McpError(
       errorCode,
       `inFakt API error (${status ?? "unknown"}): ${message}${
         data ? `\nDetails: ${JSON.stringify(data)}` : ""
-      }`
+      }`,
+      { status }
     );
   }
 
@@ -177,18 +299,66 @@ export function handleApiError(error: unknown): never {
  * Provides strongly-typed methods for common HTTP operations
  */
 export class ApiClient {
-  constructor(private readonly client: AxiosInstance) {}
+  /**
+   * @param client - Configured axios instance
+   * @param retry - Retry policy
+   * @param limiter - Shared rate limiter, if any
+   * @param tenantId - Tenant the client acts for; scopes locally stored data
+   */
+  constructor(
+    private readonly client: AxiosInstance,
+    private readonly retry: RetryConfig = DEFAULT_RETRY_CONFIG,
+    private readonly limiter?: RateLimiter,
+    readonly tenantId: string = "default"
+  ) {}
+
+  /**
+   * Sends a single request attempt through the rate limiter, if any
+   */
+  private send<T>(config: AxiosRequestConfig): Promise<AxiosResponse<T>> {
+    if (!this.limiter) {
+      return this.client.request<T>(config);
+    }
+    return this.limiter.schedule(() => this.client.request<T>(config));
+  }
+
+  /**
+   * Performs a request, retrying transient failures per the retry policy
+   */
+  private async request<T>(config: AxiosRequestConfig): Promise<T> {
+    const method = config.method ?? "get";
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        const response = await this.send<T>(config);
+        return response.data;
+      } catch (error) {
+        if (attempt >= this.retry.maxRetries || !isRetryableError(error, method)) {
+          handleApiError(error);
+        }
+
+        const retryAfter = parseRetryAfter(error);
+        if (retryAfter !== undefined && retryAfter > this.retry.maxDelayMs) {
+          // Server asks us to wait longer than we are willing to
+          handleApiError(error);
+        }
+
+        const delay = retryAfter ?? computeBackoffDelay(attempt, this.retry);
+        console.error(
+          `[inFakt MCP] ${method.toUpperCase()} ${config.url} failed ` +
+            `(${axios.isAxiosError(error) ? (error.response?.status ?? error.code) : "error"}), ` +
+            `retry ${attempt + 1}/${this.retry.maxRetries} in ${delay}ms`
+        );
+        await sleep(delay);
+      }
+    }
+  }
 
   /**
    * Performs a GET request
    */
   async get<T>(url: string, config?: AxiosRequestConfig): Promise<T> {
-    try {
-      const response = await this.client.get<T>(url, config);
-      return response.data;
-    } catch (error) {
-      handleApiError(error);
-    }
+    return this.request<T>({ ...config, method: "get", url });
   }
 
   /**
@@ -199,12 +369,7 @@ export class ApiClient {
     data?: D,
     config?: AxiosRequestConfig
   ): Promise<T> {
-    try {
-      const response = await this.client.post<T>(url, data, config);
-      return response.data;
-    } catch (error) {
-      handleApiError(error);
-    }
+    return this.request<T>({ ...config, method: "post", url, data });
   }
 
   /**
@@ -215,24 +380,14 @@ export class ApiClient {
     data?: D,
     config?: AxiosRequestConfig
   ): Promise<T> {
-    try {
-      const response = await this.client.put<T>(url, data, config);
-      return response.data;
-    } catch (error) {
-      handleApiError(error);
-    }
+    return this.request<T>({ ...config, method: "put", url, data });
   }
 
   /**
    * Performs a DELETE request
    */
   async delete<T>(url: string, config?: AxiosRequestConfig): Promise<T> {
-    try {
-      const response = await this.client.delete<T>(url, config);
-      return response.data;
-    } catch (error) {
-      handleApiError(error);
-    }
+    return this.request<T>({ ...config, method: "delete", url });
   }
 
   /**
@@ -242,14 +397,11 @@ export class ApiClient {
     url: string,
     config?: AxiosRequestConfig
   ): Promise<ArrayBuffer> {
-    try {
-      const response = await this.client.get<ArrayBuffer>(url, {
-        ...config,
-        responseType: "arraybuffer",
-      });
-      return response.data;
-    } catch (error) {
-      handleApiError(error);
-    }
+    return this.request<ArrayBuffer>({
+      ...config,
+      method: "get",
+      url,
+      responseType: "arraybuffer",
+    });
   }
 }
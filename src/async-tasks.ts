@@ -0,0 +1,146 @@
+/**
+ * Async invoice task polling
+ *
+ * Invoice creation and payment marking go through inFakt's async endpoints,
+ * which return a task reference number. These helpers poll
+ * /async/invoices/status/{ref}.json with backoff until the task finishes,
+ * so tools can offer a `wait: true` mode. KSeF submissions are polled the
+ * same way until KSeF accepts or rejects the invoice.
+ */
+
+import type { ApiClient } from "./api-client.js";
+import type {
+  AsyncTaskResult,
+  InvoiceStatusResponse,
+  KsefInvoiceStatus,
+  KsefStatusResult,
+  WaitForTaskParams,
+} from "./types.js";
+import {
+  ValidationError,
+  validateBoolean,
+  validatePositiveNumber,
+} from "./validation.js";
+
+/**
+ * Polling settings
+ */
+export const TASK_POLLING = {
+  DEFAULT_TIMEOUT_MS: 30000,
+  MAX_TIMEOUT_MS: 120000,
+  INITIAL_DELAY_MS: 500,
+  MAX_DELAY_MS: 5000,
+  BACKOFF_FACTOR: 1.5,
+} as const;
+
+/**
+ * Validates `wait` and `timeout_ms` parameters
+ */
+export function validateWaitParams(params: {
+  wait?: unknown;
+  timeout_ms?: unknown;
+}): void {
+  if (params.wait !== undefined) {
+    validateBoolean(params.wait, "wait");
+  }
+
+  if (params.timeout_ms !== undefined) {
+    validatePositiveNumber(params.timeout_ms, "timeout_ms");
+    if (params.timeout_ms > TASK_POLLING.MAX_TIMEOUT_MS) {
+      throw new ValidationError(
+        "timeout_ms",
+        `must not exceed ${TASK_POLLING.MAX_TIMEOUT_MS}`
+      );
+    }
+  }
+}
+
+/**
+ * Waits for the given number of milliseconds
+ */
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Polls an async invoice task until it completes, fails or times out
+ *
+ * @param apiClient - API client
+ * @param taskReferenceNumber - Reference returned by the async endpoint
+ * @param params - Wait parameters (`timeout_ms`)
+ * @returns Final or last observed task state
+ */
+export async function waitForInvoiceTask(
+  apiClient: ApiClient,
+  taskReferenceNumber: string,
+  params: WaitForTaskParams = {}
+): Promise<AsyncTaskResult> {
+  const timeoutMs = params.timeout_ms ?? TASK_POLLING.DEFAULT_TIMEOUT_MS;
+  const startedAt = Date.now();
+  let delay: number = TASK_POLLING.INITIAL_DELAY_MS;
+
+  for (;;) {
+    const status = await apiClient.get<InvoiceStatusResponse>(
+      `/async/invoices/status/${taskReferenceNumber}.json`
+    );
+    const elapsed = Date.now() - startedAt;
+
+    if (status.status === "completed" || status.status === "failed") {
+      return {
+        task_reference_number: taskReferenceNumber,
+        status: status.status,
+        invoice: status.invoice,
+        error: status.error,
+        timed_out: false,
+        elapsed_ms: elapsed,
+      };
+    }
+
+    if (elapsed + delay > timeoutMs) {
+      return {
+        task_reference_number: taskReferenceNumber,
+        status: status.status,
+        timed_out: true,
+        elapsed_ms: elapsed,
+      };
+    }
+
+    await sleep(delay);
+    delay = Math.min(TASK_POLLING.MAX_DELAY_MS, delay * TASK_POLLING.BACKOFF_FACTOR);
+  }
+}
+
+/**
+ * Polls the KSeF state of a submitted invoice until it is accepted,
+ * rejected or the timeout elapses
+ *
+ * @param apiClient - API client
+ * @param invoiceUuid - Submitted invoice
+ * @param params - Wait parameters (`timeout_ms`)
+ * @returns Final or last observed KSeF state
+ */
+export async function waitForKsefStatus(
+  apiClient: ApiClient,
+  invoiceUuid: string,
+  params: WaitForTaskParams = {}
+): Promise<KsefStatusResult> {
+  const timeoutMs = params.timeout_ms ?? TASK_POLLING.DEFAULT_TIMEOUT_MS;
+  const startedAt = Date.now();
+  let delay: number = TASK_POLLING.INITIAL_DELAY_MS;
+
+  for (;;) {
+    const status = await apiClient.get<KsefInvoiceStatus>(`/invoices/${invoiceUuid}/ksef.json`);
+    const elapsed = Date.now() - startedAt;
+
+    if (status.ksef_status !== "pending") {
+      return { invoice_uuid: invoiceUuid, ...status, timed_out: false, elapsed_ms: elapsed };
+    }
+
+    if (elapsed + delay > timeoutMs) {
+      return { invoice_uuid: invoiceUuid, ...status, timed_out: true, elapsed_ms: elapsed };
+    }
+
+    await sleep(delay);
+    delay = Math.min(TASK_POLLING.MAX_DELAY_MS, delay * TASK_POLLING.BACKOFF_FACTOR);
+  }
+}
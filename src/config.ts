@@ -5,7 +5,18 @@
  * providing type-safe configuration access.
  */
 
-import type { ServerConfig, EnvironmentVariables } from "./types.js";
+import { readFileSync } from "node:fs";
+import { homedir } from "node:os";
+import { join } from "node:path";
+import type {
+  ServerConfig,
+  EnvironmentVariables,
+  ExchangeRateConfig,
+  RecurringConfig,
+  TenantConfig,
+  TransportConfig,
+  TransportMode,
+} from "./types.js";
 
 /**
  * Default API endpoints
@@ -15,6 +26,37 @@ export const API_ENDPOINTS = {
   SANDBOX: "https://api.sandbox-infakt.pl/api/v3",
 } as const;
 
+/**
+ * NBP (National Bank of Poland) web API
+ */
+export const NBP_API_URL = "https://api.nbp.pl/api";
+
+/**
+ * Default request and retry settings
+ */
+export const REQUEST_DEFAULTS = {
+  TIMEOUT_MS: 30000,
+  MAX_RETRIES: 3,
+  RETRY_BASE_DELAY_MS: 500,
+  RETRY_MAX_DELAY_MS: 10000,
+  RATE_LIMIT_RPS: 4,
+  MAX_CONCURRENCY: 4,
+  GLOBAL_MAX_CONCURRENCY: 0,
+} as const;
+
+/**
+ * Default HTTP transport settings
+ */
+export const HTTP_DEFAULTS = {
+  HOST: "127.0.0.1",
+  PORT: 3000,
+} as const;
+
+/**
+ * Supported transport modes
+ */
+const TRANSPORT_MODES: readonly TransportMode[] = ["stdio", "http"];
+
 /**
  * Configuration errors
  */
@@ -63,10 +105,30 @@ function parseBooleanEnvVar(
   return value === "true" || value === "1";
 }
 
+/**
+ * Parses a non-negative integer environment variable
+ */
+function parseIntegerEnvVar(
+  name: keyof EnvironmentVariables,
+  defaultValue: number
+): number {
+  const value = process.env[name];
+  if (value === undefined || value === "") {
+    return defaultValue;
+  }
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 0) {
+    throw new ConfigurationError(
+      `Invalid value for ${name}: must be a non-negative integer`
+    );
+  }
+  return parsed;
+}
+
 /**
  * Validates API key format
  */
-function validateApiKey(apiKey: string): void {
+export function validateApiKey(apiKey: string): void {
   if (apiKey.length < 10) {
     throw new ConfigurationError(
       "Invalid API key format: key appears to be too short"
@@ -85,16 +147,33 @@ function validateUrl(url: string): void {
   }
 }
 
+/**
+ * Options for loading server configuration
+ */
+export interface LoadConfigOptions {
+  /**
+   * Whether INFAKT_API_KEY must be set (default: true). Multi-tenant HTTP
+   * deployments resolve keys per session and may omit the default key.
+   */
+  requireApiKey?: boolean;
+}
+
 /**
  * Loads and validates server configuration from environment variables
  *
+ * @param options - Loading options
  * @throws {ConfigurationError} If required variables are missing or invalid
  * @returns Validated server configuration
  */
-export function loadConfig(): ServerConfig {
+export function loadConfig(options: LoadConfigOptions = {}): ServerConfig {
   // Load and validate API key
-  const apiKey = requireEnvVar("INFAKT_API_KEY");
-  validateApiKey(apiKey);
+  const apiKey =
+    options.requireApiKey === false
+      ? (process.env.INFAKT_API_KEY ?? "")
+      : requireEnvVar("INFAKT_API_KEY");
+  if (apiKey) {
+    validateApiKey(apiKey);
+  }
 
   // Determine if using sandbox
   const useSandbox = parseBooleanEnvVar("INFAKT_USE_SANDBOX", false);
@@ -111,6 +190,171 @@ export function loadConfig(): ServerConfig {
     apiKey,
     baseUrl,
     useSandbox,
+    timeoutMs: parseIntegerEnvVar("INFAKT_TIMEOUT_MS", REQUEST_DEFAULTS.TIMEOUT_MS),
+    retry: {
+      maxRetries: parseIntegerEnvVar("INFAKT_MAX_RETRIES", REQUEST_DEFAULTS.MAX_RETRIES),
+      baseDelayMs: parseIntegerEnvVar(
+        "INFAKT_RETRY_BASE_DELAY_MS",
+        REQUEST_DEFAULTS.RETRY_BASE_DELAY_MS
+      ),
+      maxDelayMs: parseIntegerEnvVar(
+        "INFAKT_RETRY_MAX_DELAY_MS",
+        REQUEST_DEFAULTS.RETRY_MAX_DELAY_MS
+      ),
+    },
+    rateLimit: {
+      requestsPerSecond: parseIntegerEnvVar("INFAKT_RATE_LIMIT_RPS", REQUEST_DEFAULTS.RATE_LIMIT_RPS),
+      maxConcurrency: parseIntegerEnvVar("INFAKT_MAX_CONCURRENCY", REQUEST_DEFAULTS.MAX_CONCURRENCY),
+      globalMaxConcurrency: parseIntegerEnvVar(
+        "INFAKT_GLOBAL_MAX_CONCURRENCY",
+        REQUEST_DEFAULTS.GLOBAL_MAX_CONCURRENCY
+      ),
+    },
+  };
+}
+
+/**
+ * Reads a CLI flag value, supporting both `--flag value` and `--flag=value`
+ */
+function getCliFlag(argv: readonly string[], flag: string): string | undefined {
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === `--${flag}`) {
+      return argv[i + 1];
+    }
+    if (arg.startsWith(`--${flag}=`)) {
+      return arg.substring(flag.length + 3);
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Validates TCP port format
+ */
+function parsePort(value: string): number {
+  const port = Number(value);
+  if (!Number.isInteger(port) || port < 0 || port > 65535) {
+    throw new ConfigurationError(`Invalid port: ${value}`);
+  }
+  return port;
+}
+
+/**
+ * Loads transport configuration from CLI flags and environment variables
+ *
+ * CLI flags (`--transport`, `--host`, `--port`) take precedence over
+ * `MCP_TRANSPORT`, `MCP_HTTP_HOST` and `MCP_HTTP_PORT`.
+ *
+ * @param argv - Command line arguments (without node and script path)
+ * @throws {ConfigurationError} If the transport mode or port is invalid
+ * @returns Validated transport configuration
+ */
+export function loadTransportConfig(
+  argv: readonly string[] = process.argv.slice(2)
+): TransportConfig {
+  const mode = getCliFlag(argv, "transport") ?? process.env.MCP_TRANSPORT ?? "stdio";
+  if (!TRANSPORT_MODES.includes(mode as TransportMode)) {
+    throw new ConfigurationError(
+      `Invalid transport: ${mode} (expected one of: ${TRANSPORT_MODES.join(", ")})`
+    );
+  }
+
+  const host = getCliFlag(argv, "host") ?? process.env.MCP_HTTP_HOST ?? HTTP_DEFAULTS.HOST;
+  const portValue = getCliFlag(argv, "port") ?? process.env.MCP_HTTP_PORT;
+  const port = portValue !== undefined ? parsePort(portValue) : HTTP_DEFAULTS.PORT;
+
+  return {
+    mode: mode as TransportMode,
+    host,
+    port,
+  };
+}
+
+/**
+ * Loads the bearer token to API key mapping from a JSON file
+ *
+ * The file must contain a flat object, e.g. `{ "token-a": "infakt-key-a" }`.
+ */
+function loadTenantKeyStore(path: string): Map<string, string> {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(readFileSync(path, "utf8"));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new ConfigurationError(`Cannot read tenant key store ${path}: ${message}`);
+  }
+
+  if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+    throw new ConfigurationError(
+      `Invalid tenant key store ${path}: expected an object mapping tokens to API keys`
+    );
+  }
+
+  const tokenKeys = new Map<string, string>();
+  for (const [token, apiKey] of Object.entries(parsed as Record<string, unknown>)) {
+    if (typeof apiKey !== "string") {
+      throw new ConfigurationError(
+        `Invalid tenant key store ${path}: API key for a token must be a string`
+      );
+    }
+    validateApiKey(apiKey);
+    tokenKeys.set(token, apiKey);
+  }
+
+  return tokenKeys;
+}
+
+/**
+ * Loads multi-tenant configuration from environment variables
+ *
+ * @throws {ConfigurationError} If the key store cannot be loaded
+ * @returns Tenant configuration
+ */
+export function loadTenantConfig(): TenantConfig {
+  const keyStorePath = process.env.MCP_TENANT_KEYS_FILE;
+
+  return {
+    tokenKeys: keyStorePath ? loadTenantKeyStore(keyStorePath) : undefined,
+    allowApiKeyHeader: parseBooleanEnvVar("MCP_ALLOW_API_KEY_HEADER", false),
+    allowDefaultApiKey: parseBooleanEnvVar("MCP_ALLOW_DEFAULT_API_KEY", false),
+  };
+}
+
+/**
+ * Whether sessions can resolve their own API keys
+ */
+export function isMultiTenant(tenantConfig: TenantConfig): boolean {
+  return tenantConfig.tokenKeys !== undefined || tenantConfig.allowApiKeyHeader;
+}
+
+/**
+ * Loads exchange rate provider configuration from environment variables
+ *
+ * @throws {ConfigurationError} If the NBP API URL is invalid
+ * @returns Exchange rate configuration
+ */
+export function loadExchangeRateConfig(): ExchangeRateConfig {
+  const httpBaseUrl = process.env.NBP_API_URL ?? NBP_API_URL;
+  validateUrl(httpBaseUrl);
+
+  return {
+    ratesFile: process.env.NBP_RATES_FILE || undefined,
+    httpEnabled: parseBooleanEnvVar("NBP_HTTP_ENABLED", false),
+    httpBaseUrl,
+  };
+}
+
+/**
+ * Loads recurring invoice schedule storage configuration
+ *
+ * @returns Storage configuration (default file: ~/.infakt-mcp/recurring-invoices.json)
+ */
+export function loadRecurringConfig(): RecurringConfig {
+  return {
+    storeFile:
+      process.env.INFAKT_RECURRING_FILE ||
+      join(homedir(), ".infakt-mcp", "recurring-invoices.json"),
   };
 }
 
@@ -123,11 +367,12 @@ let configInstance: ServerConfig | null = null;
 /**
  * Gets the current configuration, loading it if necessary
  *
+ * @param options - Loading options, used only on the first call
  * @returns Server configuration
  */
-export function getConfig(): ServerConfig {
+export function getConfig(options?: LoadConfigOptions): ServerConfig {
   if (!configInstance) {
-    configInstance = loadConfig();
+    configInstance = loadConfig(options);
   }
   return configInstance;
 }
@@ -151,6 +396,8 @@ export function getDisplayConfig(): {
   return {
     baseUrl: config.baseUrl,
     useSandbox: config.useSandbox,
-    apiKeyMasked: `${config.apiKey.substring(0, 4)}...${config.apiKey.substring(config.apiKey.length - 4)}`,
+    apiKeyMasked: config.apiKey
+      ? `${config.apiKey.substring(0, 4)}...${config.apiKey.substring(config.apiKey.length - 4)}`
+      : "(none - per-session keys only)",
   };
 }
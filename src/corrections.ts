@@ -0,0 +1,189 @@
+/**
+ * Correction invoices (faktura korygująca)
+ *
+ * A correction references an issued invoice and lists, for every corrected
+ * line, the values before and after the correction. Lines are addressed by
+ * their 1-based position on the original invoice; lines without a position
+ * are added by the correction. Before values default to the original line,
+ * and net/VAT/gross differences are computed with the same rounding as
+ * regular invoice lines.
+ */
+
+import type {
+  CorrectionLine,
+  CorrectionLineValues,
+  CorrectionSummary,
+  Invoice,
+  InvoiceService,
+  LineAmounts,
+} from "./types.js";
+import { ValidationError } from "./validation.js";
+import { DEFAULT_CURRENCY } from "./currency.js";
+import { calculateLineAmounts, getVatPercent } from "./vat.js";
+
+/**
+ * Correction line as requested by the caller (prices in minor units)
+ */
+export interface CorrectionLineInput {
+  position?: number;
+  before?: Partial<CorrectionLineValues>;
+  after: Partial<CorrectionLineValues>;
+}
+
+/**
+ * Values of an original invoice line
+ */
+function getServiceValues(service: InvoiceService): CorrectionLineValues {
+  const quantity = Number(service.quantity ?? 1);
+  const unitNetPrice =
+    service.unit_net_price !== undefined
+      ? Number(service.unit_net_price)
+      : Math.round(Number(service.net_price ?? 0) / quantity);
+
+  return {
+    name: service.name,
+    quantity,
+    unit_net_price: unitNetPrice,
+    tax_symbol: service.tax_symbol,
+  };
+}
+
+/**
+ * Fills in missing line values, validating the VAT symbol
+ */
+function completeValues(
+  values: Partial<CorrectionLineValues>,
+  defaults: Partial<CorrectionLineValues>,
+  field: string
+): CorrectionLineValues {
+  const complete = { ...defaults, ...values };
+
+  for (const key of ["name", "quantity", "unit_net_price", "tax_symbol"] as const) {
+    if (complete[key] === undefined) {
+      throw new ValidationError(`${field}.${key}`, "is required");
+    }
+  }
+
+  try {
+    getVatPercent(complete.tax_symbol!);
+  } catch (error) {
+    throw new ValidationError(`${field}.tax_symbol`, (error as Error).message);
+  }
+
+  return complete as CorrectionLineValues;
+}
+
+/**
+ * Subtracts line amounts
+ */
+function subtractAmounts(after: LineAmounts, before: LineAmounts): LineAmounts {
+  return {
+    net_price: after.net_price - before.net_price,
+    tax_price: after.tax_price - before.tax_price,
+    gross_price: after.gross_price - before.gross_price,
+  };
+}
+
+/**
+ * Computes a correction of an issued invoice
+ *
+ * @param invoice - Original invoice as returned by the API
+ * @param inputs - Corrected lines (prices in minor units of the invoice currency)
+ * @param reason - Correction reason printed on the document
+ * @throws {ValidationError} On unknown positions, duplicates or lines that change nothing
+ * @returns Before/after values and net/VAT/gross differences in minor units
+ */
+export function buildCorrection(
+  invoice: Invoice,
+  inputs: CorrectionLineInput[],
+  reason: string
+): CorrectionSummary {
+  const services = invoice.services ?? [];
+  const seenPositions = new Set<number>();
+  const lines: CorrectionLine[] = [];
+  const total: LineAmounts = { net_price: 0, tax_price: 0, gross_price: 0 };
+
+  inputs.forEach((input, index) => {
+    const field = `lines[${index}]`;
+    let beforeValues: CorrectionLineValues;
+    let afterValues: CorrectionLineValues;
+
+    if (input.position !== undefined) {
+      if (input.position > services.length) {
+        throw new ValidationError(
+          `${field}.position`,
+          `invoice ${invoice.number} has ${services.length} line(s)`
+        );
+      }
+      if (seenPositions.has(input.position)) {
+        throw new ValidationError(`${field}.position`, `line ${input.position} is corrected twice`);
+      }
+      seenPositions.add(input.position);
+
+      beforeValues = completeValues(
+        input.before ?? {},
+        getServiceValues(services[input.position - 1]),
+        `${field}.before`
+      );
+      afterValues = completeValues(input.after, beforeValues, `${field}.after`);
+    } else {
+      afterValues = completeValues(input.after, {}, `${field}.after`);
+      beforeValues = { ...afterValues, quantity: 0, unit_net_price: 0 };
+    }
+
+    if (
+      beforeValues.name === afterValues.name &&
+      beforeValues.quantity === afterValues.quantity &&
+      beforeValues.unit_net_price === afterValues.unit_net_price &&
+      String(beforeValues.tax_symbol) === String(afterValues.tax_symbol)
+    ) {
+      throw new ValidationError(field, "does not change anything");
+    }
+
+    const before = {
+      ...beforeValues,
+      ...calculateLineAmounts(beforeValues.quantity, beforeValues.unit_net_price, beforeValues.tax_symbol),
+    };
+    const after = {
+      ...afterValues,
+      ...calculateLineAmounts(afterValues.quantity, afterValues.unit_net_price, afterValues.tax_symbol),
+    };
+    const difference = subtractAmounts(after, before);
+
+    total.net_price += difference.net_price;
+    total.tax_price += difference.tax_price;
+    total.gross_price += difference.gross_price;
+
+    lines.push({ position: input.position, before, after, difference });
+  });
+
+  return {
+    corrected_invoice_uuid: invoice.uuid,
+    corrected_invoice_number: invoice.number,
+    correction_reason: reason,
+    currency: invoice.currency ?? DEFAULT_CURRENCY,
+    lines,
+    difference: total,
+  };
+}
+
+/**
+ * Maps computed correction lines to invoice services for the API
+ *
+ * Each service carries the corrected (after) values and the original
+ * values under `correction_before`.
+ */
+export function toCorrectionServices(summary: CorrectionSummary): Record<string, unknown>[] {
+  return summary.lines.map((line) => ({
+    name: line.after.name,
+    tax_symbol: line.after.tax_symbol,
+    quantity: line.after.quantity,
+    unit_net_price: line.after.unit_net_price,
+    correction_before: {
+      name: line.before.name,
+      tax_symbol: line.before.tax_symbol,
+      quantity: line.before.quantity,
+      unit_net_price: line.before.unit_net_price,
+    },
+  }));
+}
@@ -5,7 +5,72 @@
  * 100 grosze = 1 PLN
  *
  * This module provides utilities to convert between grosze and zBotych (PLN).
+ * Responses are converted grosze -> PLN, and write tools accept PLN amounts
+ * which are converted PLN -> grosze before being sent to the API.
+ *
+ * Foreign-currency invoices (EUR, USD, ...) carry amounts in the minor unit of
+ * their own currency. The number of minor units per major unit follows
+ * ISO 4217 (e.g. 100 for EUR, 1 for JPY, 1000 for KWD).
+ */
+
+/**
+ * Default currency of inFakt documents
+ */
+export const DEFAULT_CURRENCY = 'PLN';
+
+/**
+ * Checks whether a currency code is a supported ISO 4217 code
+ *
+ * @example
+ * isSupportedCurrency('EUR') // returns true
+ * isSupportedCurrency('XYZ') // returns false
+ */
+export function isSupportedCurrency(currency: string): boolean {
+  return Intl.supportedValuesOf('currency').includes(currency.toUpperCase());
+}
+
+/**
+ * Returns the number of decimal places (minor unit exponent) for a currency
+ *
+ * @param currency - ISO 4217 currency code (default: PLN)
+ * @returns Number of decimal places
+ *
+ * @example
+ * getCurrencyDecimals('PLN') // returns 2
+ * getCurrencyDecimals('JPY') // returns 0
  */
+export function getCurrencyDecimals(currency: string = DEFAULT_CURRENCY): number {
+  return (
+    new Intl.NumberFormat('en', { style: 'currency', currency: currency.toUpperCase() })
+      .resolvedOptions().maximumFractionDigits ?? 2
+  );
+}
+
+/**
+ * Converts an amount in minor units to major units of the given currency
+ *
+ * @example
+ * minorToMajor(12345, 'EUR') // returns 123.45
+ * minorToMajor(12345, 'JPY') // returns 12345
+ */
+export function minorToMajor(
+  minor: number | string,
+  currency: string = DEFAULT_CURRENCY
+): number {
+  const value = typeof minor === 'string' ? parseFloat(minor) : minor;
+  return Math.round(value) / 10 ** getCurrencyDecimals(currency);
+}
+
+/**
+ * Converts an amount in major units to minor units of the given currency
+ *
+ * @example
+ * majorToMinor(123.45, 'EUR') // returns 12345
+ * majorToMinor(12345, 'JPY') // returns 12345
+ */
+export function majorToMinor(major: number, currency: string = DEFAULT_CURRENCY): number {
+  return Math.round(major * 10 ** getCurrencyDecimals(currency));
+}
 
 /**
  * Converts grosze (pennies) to zBotych (PLN)
@@ -19,8 +84,7 @@
  * groszeToPLN(0) // returns 0.00
  */
 export function groszeToPLN(grosze: number | string): number {
-  const value = typeof grosze === 'string' ? parseFloat(grosze) : grosze;
-  return Math.round(value) / 100;
+  return minorToMajor(grosze, DEFAULT_CURRENCY);
 }
 
 /**
@@ -35,7 +99,7 @@ export function groszeToPLN(grosze: number | string): number {
  * plnToGrosze(0.00) // returns 0
  */
 export function plnToGrosze(pln: number): number {
-  return Math.round(pln * 100);
+  return majorToMinor(pln, DEFAULT_CURRENCY);
 }
 
 /**
@@ -50,11 +114,30 @@ export function plnToGrosze(pln: number): number {
  * formatGrosze(12345, 'en-US') // returns "PLN 123.45"
  */
 export function formatGrosze(grosze: number | string, locale: string = 'pl-PL'): string {
-  const pln = groszeToPLN(grosze);
+  return formatMinorAmount(grosze, DEFAULT_CURRENCY, locale);
+}
+
+/**
+ * Formats an amount in minor units with its currency symbol
+ *
+ * @param minor - Amount in minor units of the currency
+ * @param currency - ISO 4217 currency code (default: PLN)
+ * @param locale - Locale for formatting (default: 'pl-PL')
+ * @returns Formatted string with currency
+ *
+ * @example
+ * formatMinorAmount(12345, 'EUR') // returns "123,45 €"
+ * formatMinorAmount(12345, 'USD', 'en-US') // returns "$123.45"
+ */
+export function formatMinorAmount(
+  minor: number | string,
+  currency: string = DEFAULT_CURRENCY,
+  locale: string = 'pl-PL'
+): string {
   return new Intl.NumberFormat(locale, {
     style: 'currency',
-    currency: 'PLN',
-  }).format(pln);
+    currency: currency.toUpperCase(),
+  }).format(minorToMajor(minor, currency));
 }
 
 /**
@@ -86,55 +169,262 @@ export function convertMonetaryFields<T extends Record<string, unknown>>(
 }
 
 /**
- * List of standard monetary field names in inFakt API responses
+ * Describes which fields of an entity hold monetary values (in grosze)
+ *
+ * Conversion is driven by these maps rather than by field names, so
+ * non-monetary fields (counts, metadata) are never divided by 100.
  */
-export const MONETARY_FIELDS = [
-  'net_price',
-  'gross_price',
-  'tax_price',
-  'unit_net_price',
-  'unit_gross_price',
-  'price',
-  'amount',
-  'total',
-  'value',
-] as const;
+export interface MonetaryFieldMap {
+  /** Fields holding amounts in grosze */
+  readonly fields: readonly string[];
+  /** Nested objects or arrays of objects with their own field maps */
+  readonly nested?: Readonly<Record<string, MonetaryFieldMap>>;
+}
+
+/**
+ * Wraps an entity field map for list responses (`{ entities: [...] }`)
+ */
+export function listOf(map: MonetaryFieldMap): MonetaryFieldMap {
+  return { fields: [], nested: { entities: map } };
+}
+
+/**
+ * Field map for entities without monetary values
+ */
+export const NO_MONETARY_FIELDS: MonetaryFieldMap = { fields: [] };
+
+/**
+ * Invoice service/line item amounts
+ */
+export const INVOICE_SERVICE_MONETARY_FIELDS: MonetaryFieldMap = {
+  fields: ['net_price', 'gross_price', 'tax_price', 'unit_net_price', 'unit_gross_price'],
+};
+
+/**
+ * Invoice amounts
+ */
+export const INVOICE_MONETARY_FIELDS: MonetaryFieldMap = {
+  fields: ['net_price', 'gross_price', 'tax_price', 'paid_price', 'left_to_pay', 'advance_gross_price'],
+  nested: { services: INVOICE_SERVICE_MONETARY_FIELDS },
+};
 
 /**
- * Recursively converts all monetary fields in an object or array
+ * Invoice payment amounts
+ */
+export const INVOICE_PAYMENT_MONETARY_FIELDS: MonetaryFieldMap = {
+  fields: ['amount'],
+};
+
+/**
+ * Invoice payment history and balance
+ */
+export const INVOICE_PAYMENT_SUMMARY_MONETARY_FIELDS: MonetaryFieldMap = {
+  fields: ['gross_price', 'paid_price', 'left_to_pay'],
+  nested: { payments: INVOICE_PAYMENT_MONETARY_FIELDS },
+};
+
+/**
+ * Async invoice task result/status amounts
+ */
+export const ASYNC_TASK_MONETARY_FIELDS: MonetaryFieldMap = {
+  fields: [],
+  nested: { invoice: INVOICE_MONETARY_FIELDS },
+};
+
+/**
+ * Net/VAT/gross amounts of a computed line or total
+ */
+export const LINE_AMOUNTS_MONETARY_FIELDS: MonetaryFieldMap = {
+  fields: ['net_price', 'tax_price', 'gross_price'],
+};
+
+/**
+ * Invoice preview lines, per-rate totals and total
+ */
+export const INVOICE_PREVIEW_MONETARY_FIELDS: MonetaryFieldMap = {
+  fields: [],
+  nested: {
+    lines: LINE_AMOUNTS_MONETARY_FIELDS,
+    rates: LINE_AMOUNTS_MONETARY_FIELDS,
+    total: LINE_AMOUNTS_MONETARY_FIELDS,
+  },
+};
+
+/**
+ * VAT summary per-rate and overall totals
+ */
+export const VAT_SUMMARY_MONETARY_FIELDS: MonetaryFieldMap = {
+  fields: ['output_vat', 'input_vat', 'payable', 'refundable'],
+  nested: {
+    rates: { fields: ['sales_net', 'output_vat', 'purchases_net', 'input_vat'] },
+  },
+};
+
+/**
+ * Correction invoice line differences and totals
+ */
+export const CORRECTION_MONETARY_FIELDS: MonetaryFieldMap = {
+  fields: [],
+  nested: {
+    lines: {
+      fields: [],
+      nested: {
+        before: { fields: ['unit_net_price', 'net_price', 'tax_price', 'gross_price'] },
+        after: { fields: ['unit_net_price', 'net_price', 'tax_price', 'gross_price'] },
+        difference: LINE_AMOUNTS_MONETARY_FIELDS,
+      },
+    },
+    difference: LINE_AMOUNTS_MONETARY_FIELDS,
+  },
+};
+
+/**
+ * Correction submission result (async task plus computed correction)
+ */
+export const CORRECTION_RESULT_MONETARY_FIELDS: MonetaryFieldMap = {
+  fields: [],
+  nested: {
+    correction: CORRECTION_MONETARY_FIELDS,
+    invoice: INVOICE_MONETARY_FIELDS,
+  },
+};
+
+/**
+ * Product amounts
+ */
+export const PRODUCT_MONETARY_FIELDS: MonetaryFieldMap = {
+  fields: ['unit_net_price', 'unit_gross_price', 'net_price', 'gross_price'],
+};
+
+/**
+ * Cost document line item amounts
+ */
+export const COST_ITEM_MONETARY_FIELDS: MonetaryFieldMap = {
+  fields: ['net_price', 'gross_price', 'tax_price', 'unit_net_price'],
+};
+
+/**
+ * Cost document amounts
+ */
+export const COST_MONETARY_FIELDS: MonetaryFieldMap = {
+  fields: ['net_price', 'gross_price', 'tax_price'],
+  nested: { items: COST_ITEM_MONETARY_FIELDS },
+};
+
+/**
+ * Account information amounts (none: plan limits and usage are counts)
+ */
+export const ACCOUNT_INFO_MONETARY_FIELDS: MonetaryFieldMap = NO_MONETARY_FIELDS;
+
+/**
+ * Converts monetary fields described by a field map from grosze to PLN
+ *
+ * Fields not listed in the map are left untouched. Objects with a `currency`
+ * field are converted using that currency's minor units; nested objects
+ * inherit the currency of their parent (e.g. services of an EUR invoice).
  *
  * @param data - Data to convert (object, array, or primitive)
- * @returns Converted data with monetary values in PLN
+ * @param map - Field map describing the entity
+ * @param currency - Currency inherited from the parent entity (default: PLN)
+ * @returns Converted data with monetary values in major units
+ *
+ * @example
+ * convertMonetaryFieldsBySchema(
+ *   { net_price: 12345, services: [{ net_price: 12345, quantity: 2 }] },
+ *   INVOICE_MONETARY_FIELDS
+ * );
+ * // returns { net_price: 123.45, services: [{ net_price: 123.45, quantity: 2 }] }
  */
-export function convertAllMonetaryFields(data: unknown): unknown {
+export function convertMonetaryFieldsBySchema(
+  data: unknown,
+  map: MonetaryFieldMap,
+  currency: string = DEFAULT_CURRENCY
+): unknown {
   if (data === null || data === undefined) {
     return data;
   }
 
   if (Array.isArray(data)) {
-    return data.map(item => convertAllMonetaryFields(item));
+    return data.map(item => convertMonetaryFieldsBySchema(item, map, currency));
   }
 
-  if (typeof data === 'object') {
-    const obj = data as Record<string, unknown>;
-    const converted: Record<string, unknown> = {};
-
-    for (const [key, value] of Object.entries(obj)) {
-      // Check if this is a monetary field
-      if (MONETARY_FIELDS.includes(key as typeof MONETARY_FIELDS[number])) {
-        if (typeof value === 'number' || typeof value === 'string') {
-          converted[key] = groszeToPLN(value as number | string);
-        } else {
-          converted[key] = value;
-        }
-      } else {
-        // Recursively convert nested objects/arrays
-        converted[key] = convertAllMonetaryFields(value);
-      }
+  if (typeof data !== 'object') {
+    return data;
+  }
+
+  const obj = data as Record<string, unknown>;
+  const entityCurrency =
+    typeof obj.currency === 'string' && isSupportedCurrency(obj.currency)
+      ? obj.currency
+      : currency;
+  const converted: Record<string, unknown> = {};
+
+  for (const [key, value] of Object.entries(obj)) {
+    const nestedMap = map.nested?.[key];
+
+    if (map.fields.includes(key) && (typeof value === 'number' || typeof value === 'string')) {
+      converted[key] = minorToMajor(value, entityCurrency);
+    } else if (nestedMap) {
+      converted[key] = convertMonetaryFieldsBySchema(value, nestedMap, entityCurrency);
+    } else {
+      converted[key] = value;
     }
+  }
+
+  return converted;
+}
 
-    return converted;
+/**
+ * Monetary fields accepted by write tools (invoice services, products)
+ * Tools take these in major units (PLN, EUR, ...); the API expects minor units.
+ */
+export const INPUT_MONETARY_FIELDS = [
+  'net_price',
+  'unit_net_price',
+  'gross_price',
+] as const;
+
+/**
+ * Converts monetary input fields from major to minor units
+ *
+ * @param obj - Tool input object with amounts in major units
+ * @param fields - Field names to convert (default: INPUT_MONETARY_FIELDS)
+ * @param currency - Currency of the amounts (default: PLN)
+ * @returns New object with amounts in minor units (grosze for PLN)
+ *
+ * @example
+ * convertInputMonetaryFields({ name: 'Hosting', unit_net_price: 123.45 });
+ * // returns { name: 'Hosting', unit_net_price: 12345 }
+ */
+export function convertInputMonetaryFields<T extends Record<string, unknown>>(
+  obj: T,
+  fields: readonly string[] = INPUT_MONETARY_FIELDS,
+  currency: string = DEFAULT_CURRENCY
+): T {
+  const converted: Record<string, unknown> = { ...obj };
+
+  for (const field of fields) {
+    const value = converted[field];
+    if (typeof value === 'number') {
+      converted[field] = majorToMinor(value, currency);
+    }
   }
 
-  return data;
+  return converted as T;
+}
+
+/**
+ * Converts amounts on a list of invoice services (or cost items) to minor units
+ *
+ * @param services - Validated line items with amounts in major units
+ * @param currency - Document currency (default: PLN)
+ * @returns New services array with amounts in minor units
+ */
+export function convertServicesToMinorUnits<T extends Record<string, unknown>>(
+  services: T[],
+  currency: string = DEFAULT_CURRENCY
+): T[] {
+  return services.map(service =>
+    convertInputMonetaryFields(service, INPUT_MONETARY_FIELDS, currency)
+  );
 }
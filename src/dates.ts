@@ -0,0 +1,31 @@
+/**
+ * Calendar arithmetic on ISO dates
+ *
+ * Dates are plain YYYY-MM-DD strings interpreted in UTC, so adding days
+ * never shifts across a daylight saving change.
+ */
+
+import type { ISODateString } from "./types.js";
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Adds days to an ISO date string (UTC)
+ *
+ * @example
+ * addDays("2024-03-01", -1) // returns "2024-02-29"
+ */
+export function addDays(date: ISODateString, days: number): ISODateString {
+  const result = new Date(`${date}T00:00:00Z`);
+  result.setUTCDate(result.getUTCDate() + days);
+  return result.toISOString().substring(0, 10);
+}
+
+/**
+ * Whole days between two ISO dates (UTC)
+ */
+export function daysBetween(from: ISODateString, to: ISODateString): number {
+  return Math.round(
+    (Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / MS_PER_DAY
+  );
+}
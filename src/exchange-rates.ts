@@ -0,0 +1,278 @@
+/**
+ * NBP exchange rates for foreign-currency invoices
+ *
+ * Polish VAT rules require amounts on foreign-currency invoices to be
+ * converted at the NBP average rate (table A) from the last business day
+ * before the sale date. Rates come from a pluggable provider: an imported
+ * NBP table A JSON file for offline use, optionally backed by the NBP web API.
+ *
+ * Business days are not computed from a holiday calendar: the resolver looks
+ * for the most recent table published before the sale date, which by
+ * definition skips weekends and bank holidays.
+ */
+
+import { readFileSync } from "node:fs";
+import axios, { AxiosInstance } from "axios";
+import { loadExchangeRateConfig, ConfigurationError } from "./config.js";
+import { addDays } from "./dates.js";
+import type {
+  ExchangeRate,
+  ExchangeRateProvider,
+  ISODateString,
+  NbpRateSeries,
+  NbpTable,
+} from "./types.js";
+
+/**
+ * How many calendar days before the sale date to search for a table
+ * (covers the longest Polish holiday breaks)
+ */
+export const RATE_LOOKBACK_DAYS = 10;
+
+/**
+ * Provider backed by an NBP table A JSON export
+ *
+ * Accepts either an array of tables (`/exchangerates/tables/A/{from}/{to}`)
+ * or a single-currency series (`/exchangerates/rates/A/{code}/{from}/{to}`),
+ * as downloaded from api.nbp.pl with `?format=json`.
+ */
+export class FileRateProvider implements ExchangeRateProvider {
+  readonly name = "nbp-file";
+  private readonly rates = new Map<string, ExchangeRate[]>();
+
+  constructor(path: string) {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(readFileSync(path, "utf8"));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new ConfigurationError(`Cannot read NBP rates file ${path}: ${message}`);
+    }
+
+    const items = Array.isArray(parsed) ? parsed : [parsed];
+    for (const item of items) {
+      this.importItem(item, path);
+    }
+
+    for (const series of this.rates.values()) {
+      series.sort((a, b) => a.effective_date.localeCompare(b.effective_date));
+    }
+  }
+
+  /**
+   * Imports one NBP table or rate series
+   */
+  private importItem(item: unknown, path: string): void {
+    if (!item || typeof item !== "object") {
+      throw new ConfigurationError(`Invalid NBP rates file ${path}: expected tables or rate series`);
+    }
+
+    if ("effectiveDate" in item) {
+      const table = item as NbpTable;
+      for (const rate of table.rates ?? []) {
+        this.add({
+          currency: rate.code.toUpperCase(),
+          mid: rate.mid,
+          table_no: table.no,
+          effective_date: table.effectiveDate,
+        });
+      }
+      return;
+    }
+
+    if ("code" in item) {
+      const series = item as NbpRateSeries;
+      for (const rate of series.rates ?? []) {
+        this.add({
+          currency: series.code.toUpperCase(),
+          mid: rate.mid,
+          table_no: rate.no,
+          effective_date: rate.effectiveDate,
+        });
+      }
+      return;
+    }
+
+    throw new ConfigurationError(`Invalid NBP rates file ${path}: unrecognised entry format`);
+  }
+
+  /**
+   * Adds a single rate to the index
+   */
+  private add(rate: ExchangeRate): void {
+    const series = this.rates.get(rate.currency) ?? [];
+    series.push(rate);
+    this.rates.set(rate.currency, series);
+  }
+
+  async getRates(
+    currency: string,
+    from: ISODateString,
+    to: ISODateString
+  ): Promise<ExchangeRate[]> {
+    return (this.rates.get(currency.toUpperCase()) ?? []).filter(
+      (rate) => rate.effective_date >= from && rate.effective_date <= to
+    );
+  }
+
+  coveredUntil(currency: string): ISODateString | undefined {
+    return this.rates.get(currency.toUpperCase())?.at(-1)?.effective_date;
+  }
+}
+
+/**
+ * Provider fetching rates from the NBP web API
+ */
+export class NbpHttpRateProvider implements ExchangeRateProvider {
+  readonly name = "nbp-api";
+  private readonly client: AxiosInstance;
+
+  constructor(baseUrl: string) {
+    this.client = axios.create({
+      baseURL: baseUrl,
+      headers: { Accept: "application/json" },
+      timeout: 10000,
+    });
+  }
+
+  async getRates(
+    currency: string,
+    from: ISODateString,
+    to: ISODateString
+  ): Promise<ExchangeRate[]> {
+    try {
+      const response = await this.client.get<NbpRateSeries>(
+        `/exchangerates/rates/A/${currency.toLowerCase()}/${from}/${to}/`,
+        { params: { format: "json" } }
+      );
+      return response.data.rates.map((rate) => ({
+        currency: response.data.code.toUpperCase(),
+        mid: rate.mid,
+        table_no: rate.no,
+        effective_date: rate.effectiveDate,
+      }));
+    } catch (error) {
+      // NBP answers 404 when no table was published in the range
+      if (axios.isAxiosError(error) && error.response?.status === 404) {
+        return [];
+      }
+      throw error;
+    }
+  }
+}
+
+/**
+ * Provider trying several sources in order until one covers the range
+ *
+ * A source with rates that ends before the range does (e.g. a rates file
+ * not updated recently) does not shadow the next one: the rates of both are
+ * merged, the earlier source winning for tables of the same date.
+ */
+export class ChainedRateProvider implements ExchangeRateProvider {
+  constructor(private readonly providers: ExchangeRateProvider[]) {}
+
+  get name(): string {
+    return this.providers.map((provider) => provider.name).join(" -> ");
+  }
+
+  async getRates(
+    currency: string,
+    from: ISODateString,
+    to: ISODateString
+  ): Promise<ExchangeRate[]> {
+    const merged = new Map<ISODateString, ExchangeRate>();
+    for (const provider of this.providers) {
+      const rates = await provider.getRates(currency, from, to);
+      for (const rate of rates) {
+        if (!merged.has(rate.effective_date)) {
+          merged.set(rate.effective_date, rate);
+        }
+      }
+      const coveredUntil = provider.coveredUntil?.(currency) ?? to;
+      if (rates.length > 0 && coveredUntil >= to) {
+        break;
+      }
+    }
+    return [...merged.values()].sort((a, b) => a.effective_date.localeCompare(b.effective_date));
+  }
+}
+
+/**
+ * Provider singleton
+ * Created from environment configuration on first use
+ */
+let providerInstance: ExchangeRateProvider | null = null;
+
+/**
+ * Creates the provider described by NBP_RATES_FILE / NBP_HTTP_ENABLED
+ *
+ * @throws {ConfigurationError} If no source is configured
+ */
+export function createExchangeRateProvider(): ExchangeRateProvider {
+  const config = loadExchangeRateConfig();
+  const providers: ExchangeRateProvider[] = [];
+
+  if (config.ratesFile) {
+    providers.push(new FileRateProvider(config.ratesFile));
+  }
+  if (config.httpEnabled) {
+    providers.push(new NbpHttpRateProvider(config.httpBaseUrl));
+  }
+
+  if (providers.length === 0) {
+    throw new ConfigurationError(
+      "No exchange rate source configured: set NBP_RATES_FILE and/or NBP_HTTP_ENABLED=true"
+    );
+  }
+
+  return providers.length === 1 ? providers[0] : new ChainedRateProvider(providers);
+}
+
+/**
+ * Gets the current exchange rate provider, creating it if necessary
+ */
+export function getExchangeRateProvider(): ExchangeRateProvider {
+  if (!providerInstance) {
+    providerInstance = createExchangeRateProvider();
+  }
+  return providerInstance;
+}
+
+/**
+ * Replaces the exchange rate provider (custom sources, testing)
+ *
+ * @param provider - Provider to use, or null to recreate from configuration
+ */
+export function setExchangeRateProvider(provider: ExchangeRateProvider | null): void {
+  providerInstance = provider;
+}
+
+/**
+ * Resolves the NBP rate applicable to a sale date
+ *
+ * Returns the most recent table A rate published strictly before the sale
+ * date (the last business day preceding it).
+ *
+ * @param provider - Rate source
+ * @param currency - ISO 4217 currency code
+ * @param saleDate - Sale (or service) date
+ * @returns Applicable rate, or undefined if none was found in the lookback window
+ */
+export async function resolveRateForSaleDate(
+  provider: ExchangeRateProvider,
+  currency: string,
+  saleDate: ISODateString
+): Promise<ExchangeRate | undefined> {
+  const to = addDays(saleDate, -1);
+  const from = addDays(saleDate, -RATE_LOOKBACK_DAYS);
+
+  const rates = await provider.getRates(currency, from, to);
+
+  return rates
+    .filter((rate) => rate.effective_date < saleDate)
+    .reduce<ExchangeRate | undefined>(
+      (latest, rate) =>
+        !latest || rate.effective_date > latest.effective_date ? rate : latest,
+      undefined
+    );
+}
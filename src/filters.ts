@@ -0,0 +1,301 @@
+/**
+ * Structured ransack filters for list tools
+ *
+ * List tools accept a `filters` array of `{ field, predicate, value }`
+ * conditions next to their convenience parameters. Fields are checked
+ * against a per-entity whitelist and mapped to `q[<field>_<predicate>]`,
+ * with amounts converted to minor units of PLN, or of the currency named by
+ * a `currency` "eq" condition.
+ */
+
+import type {
+  FilterCondition,
+  FilterFieldMap,
+  FilterFieldType,
+  FilterPredicate,
+  RansackQueryParams,
+} from "./types.js";
+import {
+  ValidationError,
+  validateArray,
+  validateBoolean,
+  validateCurrencyCode,
+  validateDateString,
+  validateEnum,
+  validateRequiredString,
+} from "./validation.js";
+import { DEFAULT_CURRENCY, majorToMinor } from "./currency.js";
+
+/**
+ * Supported ransack predicates
+ */
+export const FILTER_PREDICATES = ["eq", "cont", "gteq", "lteq", "in", "null"] as const;
+
+/**
+ * Maximum number of structured conditions per request
+ */
+export const MAX_FILTER_CONDITIONS = 20;
+
+/**
+ * Filterable invoice fields
+ */
+export const INVOICE_FILTER_FIELDS: FilterFieldMap = {
+  number: "string",
+  status: "string",
+  kind: "string",
+  currency: "string",
+  payment_method: "string",
+  client_id: "number",
+  client_company_name: "string",
+  client_tax_code: "string",
+  invoice_date: "date",
+  sale_date: "date",
+  payment_date: "date",
+  paid_date: "date",
+  net_price: "money",
+  gross_price: "money",
+  tax_price: "money",
+  ksef_status: "string",
+  ksef_number: "string",
+  created_at: "date",
+  updated_at: "date",
+};
+
+/**
+ * Filterable client fields
+ */
+export const CLIENT_FILTER_FIELDS: FilterFieldMap = {
+  company_name: "string",
+  first_name: "string",
+  last_name: "string",
+  nip: "string",
+  city: "string",
+  post_code: "string",
+  country: "string",
+  email: "string",
+  phone: "string",
+  business_activity_kind: "string",
+  created_at: "date",
+  updated_at: "date",
+};
+
+/**
+ * Filterable product fields
+ */
+export const PRODUCT_FILTER_FIELDS: FilterFieldMap = {
+  name: "string",
+  tax_symbol: "string",
+  unit: "string",
+  pkwiu: "string",
+  unit_net_price: "money",
+  created_at: "date",
+  updated_at: "date",
+};
+
+/**
+ * Filterable cost document fields
+ */
+export const COST_FILTER_FIELDS: FilterFieldMap = {
+  number: "string",
+  currency: "string",
+  category: "string",
+  vat_deduction: "string",
+  payment_method: "string",
+  supplier_id: "number",
+  supplier_company_name: "string",
+  supplier_tax_code: "string",
+  issue_date: "date",
+  sale_date: "date",
+  received_date: "date",
+  payment_date: "date",
+  paid_date: "date",
+  net_price: "money",
+  gross_price: "money",
+  tax_price: "money",
+  created_at: "date",
+  updated_at: "date",
+};
+
+/**
+ * Predicates allowed for each field type
+ */
+const PREDICATES_BY_TYPE: Record<FilterFieldType, readonly FilterPredicate[]> = {
+  string: ["eq", "cont", "in", "null"],
+  number: ["eq", "gteq", "lteq", "in", "null"],
+  date: ["eq", "gteq", "lteq", "in", "null"],
+  money: ["eq", "gteq", "lteq", "in", "null"],
+};
+
+/**
+ * Validates and converts a single filter value to its API representation
+ */
+function convertFilterValue(
+  value: unknown,
+  type: FilterFieldType,
+  fieldName: string,
+  currency: string
+): string | number {
+  switch (type) {
+    case "string":
+      validateRequiredString(value, fieldName);
+      return value;
+    case "date":
+      validateDateString(value, fieldName);
+      return value;
+    case "number":
+    case "money":
+      if (typeof value !== "number" || !Number.isFinite(value)) {
+        throw new ValidationError(fieldName, "must be a number");
+      }
+      return type === "money" ? majorToMinor(value, currency) : value;
+  }
+}
+
+/**
+ * Currency of the amounts in filter conditions
+ *
+ * Amounts are in the currency of a `currency` "eq" condition, PLN otherwise.
+ *
+ * @param value - Raw `filters` argument of a list tool
+ * @throws {ValidationError} If the condition names an unsupported currency
+ */
+export function getFilterCurrency(value: unknown): string {
+  if (!Array.isArray(value)) {
+    return DEFAULT_CURRENCY;
+  }
+
+  const index = value.findIndex(
+    (condition) =>
+      condition &&
+      typeof condition === "object" &&
+      condition.field === "currency" &&
+      condition.predicate === "eq"
+  );
+  if (index === -1) {
+    return DEFAULT_CURRENCY;
+  }
+
+  const currency: unknown = value[index].value;
+  validateCurrencyCode(currency, `filters[${index}].value`);
+  return currency;
+}
+
+/**
+ * Validates a single filter condition against the field whitelist
+ */
+function validateFilterCondition(
+  value: unknown,
+  index: number,
+  fields: FilterFieldMap
+): asserts value is FilterCondition {
+  if (!value || typeof value !== "object") {
+    throw new ValidationError(`filters[${index}]`, "must be an object");
+  }
+
+  const condition = value as Record<string, unknown>;
+  validateRequiredString(condition.field, "field");
+  validateEnum(condition.predicate, "predicate", FILTER_PREDICATES);
+
+  const type = Object.hasOwn(fields, condition.field) ? fields[condition.field] : undefined;
+  if (!type) {
+    throw new ValidationError(
+      "field",
+      `'${condition.field}' is not filterable. Allowed: ${Object.keys(fields).join(", ")}`
+    );
+  }
+  if (!PREDICATES_BY_TYPE[type].includes(condition.predicate)) {
+    throw new ValidationError(
+      "predicate",
+      `'${condition.predicate}' is not supported for ${type} field '${condition.field}'`
+    );
+  }
+}
+
+/**
+ * Maps structured filter conditions to ransack `q` parameters
+ *
+ * @param value - Raw `filters` argument of a list tool
+ * @param fields - Whitelist of filterable fields for the entity
+ * @throws {ValidationError} On unknown fields, predicates or invalid values
+ * @returns Ransack filters keyed `<field>_<predicate>`
+ *
+ * @example
+ * buildRansackFilters([{ field: "gross_price", predicate: "gteq", value: 100 }], COST_FILTER_FIELDS)
+ * // returns { gross_price_gteq: 10000 }
+ */
+export function buildRansackFilters(
+  value: unknown,
+  fields: FilterFieldMap
+): Record<string, unknown> {
+  validateArray<FilterCondition>(value, "filters", (item, index) =>
+    validateFilterCondition(item, index, fields)
+  );
+  if (value.length > MAX_FILTER_CONDITIONS) {
+    throw new ValidationError("filters", `must not contain more than ${MAX_FILTER_CONDITIONS} conditions`);
+  }
+
+  const filters: Record<string, unknown> = {};
+  const currency = getFilterCurrency(value);
+
+  value.forEach((condition, index) => {
+    const key = `${condition.field}_${condition.predicate}`;
+    const valueName = `filters[${index}].value`;
+    const type = fields[condition.field];
+
+    if (key in filters) {
+      throw new ValidationError("filters", `contains more than one '${key}' condition`);
+    }
+
+    switch (condition.predicate) {
+      case "null":
+        if (condition.value !== undefined) {
+          validateBoolean(condition.value, valueName);
+        }
+        filters[key] = condition.value ?? true;
+        break;
+      case "in":
+        if (!Array.isArray(condition.value) || condition.value.length === 0) {
+          throw new ValidationError(valueName, "must be a non-empty array");
+        }
+        filters[key] = condition.value.map((item, i) =>
+          convertFilterValue(item, type, `${valueName}[${i}]`, currency)
+        );
+        break;
+      default:
+        filters[key] = convertFilterValue(condition.value, type, valueName, currency);
+    }
+  });
+
+  return filters;
+}
+
+/**
+ * Sets `q` on list query parameters from convenience and structured filters
+ *
+ * @param queryParams - Query parameters to update
+ * @param filters - Filters built from the tool's convenience parameters
+ * @param conditions - Raw `filters` argument, if any
+ * @param fields - Whitelist of filterable fields for the entity
+ * @throws {ValidationError} If a structured condition repeats a convenience filter
+ */
+export function applyRansackFilters(
+  queryParams: RansackQueryParams,
+  filters: Record<string, unknown>,
+  conditions: unknown,
+  fields: FilterFieldMap
+): void {
+  const merged = { ...filters };
+
+  if (conditions !== undefined) {
+    for (const [key, value] of Object.entries(buildRansackFilters(conditions, fields))) {
+      if (key in merged) {
+        throw new ValidationError("filters", `'${key}' is already set by a tool parameter`);
+      }
+      merged[key] = value;
+    }
+  }
+
+  if (Object.keys(merged).length > 0) {
+    queryParams.q = merged;
+  }
+}
@@ -12,6 +12,7 @@ import type {
   // ListClientsParams,
   UpdateClientParams,
   RansackQueryParams,
+  FetchAllParams,
 } from "../types.js";
 import {
   validateRequiredString,
@@ -20,7 +21,8 @@ import {
   sanitizeParams,
   validatePositiveNumber,
 } from "../validation.js";
-import { convertAllMonetaryFields } from "../currency.js";
+import { fetchAllPages, isFetchAll, validateFetchAllParams } from "../pagination.js";
+import { applyRansackFilters, CLIENT_FILTER_FIELDS } from "../filters.js";
 
 const BUSINESS_ACTIVITY_KINDS = [
   "company",
@@ -30,14 +32,14 @@ const BUSINESS_ACTIVITY_KINDS = [
 
 /**
  * Creates a JSON text response
+ * Client data has no monetary fields, so no currency conversion is applied
  */
 function createJsonResponse(data: unknown): ToolResponse {
-  const convertedData = convertAllMonetaryFields(data);
   return {
     content: [
       {
         type: "text",
-        text: JSON.stringify(convertedData, null, 2),
+        text: JSON.stringify(data, null, 2),
       },
     ],
   };
@@ -68,6 +70,7 @@ export async function listClients(
 
   // Validate pagination
   validatePaginationParams(params);
+  validateFetchAllParams(params);
 
   // Build query parameters
   const queryParams: RansackQueryParams = sanitizeParams({
@@ -92,8 +95,16 @@ export async function listClients(
     filters.email_eq = params.email;
   }
 
-  if (Object.keys(filters).length > 0) {
-    queryParams.q = filters;
+  applyRansackFilters(queryParams, filters, params.filters, CLIENT_FILTER_FIELDS);
+
+  if (isFetchAll(params)) {
+    const result = await fetchAllPages<Client>(
+      apiClient,
+      "/clients.json",
+      queryParams,
+      params as FetchAllParams
+    );
+    return createJsonResponse(result);
   }
 
   const response = await apiClient.get<{ entities: Client[] }>(
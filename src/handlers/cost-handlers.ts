@@ -1,28 +1,60 @@
 /**
  * Cost document management tool handlers
  *
- * Implements handlers for retrieving cost documents.
+ * Implements all cost-related operations including CRUD operations.
  */
 
 import type { ApiClient } from "../api-client.js";
 import type {
   ToolResponse,
   Cost,
+  CreateCostRequest,
   // ListCostsParams,
+  UpdateCostParams,
   RansackQueryParams,
+  FetchAllParams,
 } from "../types.js";
 import {
+  validateRequiredString,
   validateUUID,
+  validateArray,
+  validateCostItem,
+  validateDateString,
   validatePaginationParams,
+  validateEnum,
+  validateBoolean,
+  validateCurrencyCode,
+  validateNonNegativeNumber,
+  validateSortOrder,
   sanitizeParams,
+  PAYMENT_METHODS,
+  VAT_DEDUCTIONS,
 } from "../validation.js";
-import { convertAllMonetaryFields } from "../currency.js";
+import {
+  convertMonetaryFieldsBySchema,
+  convertServicesToMinorUnits,
+  majorToMinor,
+  listOf,
+  DEFAULT_CURRENCY,
+  MonetaryFieldMap,
+  COST_MONETARY_FIELDS,
+} from "../currency.js";
+import { fetchAllPages, isFetchAll, validateFetchAllParams } from "../pagination.js";
+import { applyRansackFilters, getFilterCurrency, COST_FILTER_FIELDS } from "../filters.js";
 
 /**
  * Creates a JSON text response
+ * Converts the monetary fields described by the field map from grosze to PLN,
+ * unless raw amounts were requested
  */
-function createJsonResponse(data: unknown): ToolResponse {
-  const convertedData = convertAllMonetaryFields(data);
+function createJsonResponse(
+  data: unknown,
+  moneyFields: MonetaryFieldMap,
+  rawAmounts: boolean = false
+): ToolResponse {
+  const convertedData = rawAmounts
+    ? data
+    : convertMonetaryFieldsBySchema(data, moneyFields);
   return {
     content: [
       {
@@ -33,6 +65,58 @@ function createJsonResponse(data: unknown): ToolResponse {
   };
 }
 
+/**
+ * Creates a text response
+ */
+function createTextResponse(text: string): ToolResponse {
+  return {
+    content: [
+      {
+        type: "text",
+        text,
+      },
+    ],
+  };
+}
+
+/**
+ * Valid payment status filters for cost documents
+ */
+const COST_PAYMENT_STATUSES = ["paid", "unpaid"] as const;
+
+/**
+ * Validates the optional fields shared by cost creation and update
+ */
+function validateCostFields(params: Record<string, unknown>): void {
+  for (const field of [
+    "issue_date",
+    "sale_date",
+    "received_date",
+    "payment_date",
+    "paid_date",
+  ]) {
+    if (params[field] !== undefined) {
+      validateDateString(params[field], field);
+    }
+  }
+
+  if (params.payment_method !== undefined) {
+    validateEnum(params.payment_method, "payment_method", PAYMENT_METHODS);
+  }
+  if (params.currency !== undefined) {
+    validateCurrencyCode(params.currency, "currency");
+  }
+  if (params.category !== undefined) {
+    validateRequiredString(params.category, "category");
+  }
+  if (params.vat_deduction !== undefined) {
+    validateEnum(params.vat_deduction, "vat_deduction", VAT_DEDUCTIONS);
+  }
+  if (params.items !== undefined) {
+    validateArray(params.items, "items", validateCostItem);
+  }
+}
+
 /**
  * List cost documents
  */
@@ -44,20 +128,90 @@ export async function listCosts(
 
   // Validate pagination
   validatePaginationParams(params);
+  validateFetchAllParams(params);
+  if (params.raw_amounts !== undefined) {
+    validateBoolean(params.raw_amounts, "raw_amounts");
+  }
+  if (params.order !== undefined) {
+    validateSortOrder(params.order, "order", Object.keys(COST_FILTER_FIELDS));
+  }
 
   // Build query parameters
   const queryParams: RansackQueryParams = sanitizeParams({
     offset: params.offset as number | undefined,
     limit: params.limit as number | undefined,
+    order: params.order as string | undefined,
     fields: params.fields as string | undefined,
   });
 
+  // Build ransack-style filters; amounts are in the filtered currency, PLN by default
+  const filters: Record<string, unknown> = {};
+  const amountCurrency = getFilterCurrency(params.filters);
+
+  if (params.number) {
+    validateRequiredString(params.number, "number");
+    filters.number_eq = params.number;
+  }
+  if (params.supplier_company_name) {
+    validateRequiredString(params.supplier_company_name, "supplier_company_name");
+    filters.supplier_company_name_cont = params.supplier_company_name;
+  }
+  if (params.supplier_tax_code) {
+    validateRequiredString(params.supplier_tax_code, "supplier_tax_code");
+    // NIP is stored without separators
+    filters.supplier_tax_code_eq = params.supplier_tax_code.replace(/[\s-]/g, "");
+  }
+  if (params.issue_date_from) {
+    validateDateString(params.issue_date_from, "issue_date_from");
+    filters.issue_date_gteq = params.issue_date_from;
+  }
+  if (params.issue_date_to) {
+    validateDateString(params.issue_date_to, "issue_date_to");
+    filters.issue_date_lteq = params.issue_date_to;
+  }
+  if (params.gross_price_from !== undefined) {
+    validateNonNegativeNumber(params.gross_price_from, "gross_price_from");
+    filters.gross_price_gteq = majorToMinor(params.gross_price_from as number, amountCurrency);
+  }
+  if (params.gross_price_to !== undefined) {
+    validateNonNegativeNumber(params.gross_price_to, "gross_price_to");
+    filters.gross_price_lteq = majorToMinor(params.gross_price_to as number, amountCurrency);
+  }
+  if (params.payment_status) {
+    validateEnum(params.payment_status, "payment_status", COST_PAYMENT_STATUSES);
+    if (params.payment_status === "paid") {
+      filters.paid_date_not_null = true;
+    } else {
+      filters.paid_date_null = true;
+    }
+  }
+
+  applyRansackFilters(queryParams, filters, params.filters, COST_FILTER_FIELDS);
+
+  if (isFetchAll(params)) {
+    const result = await fetchAllPages<Cost>(
+      apiClient,
+      "/documents/costs.json",
+      queryParams,
+      params as FetchAllParams
+    );
+    return createJsonResponse(
+      result,
+      listOf(COST_MONETARY_FIELDS),
+      params.raw_amounts === true
+    );
+  }
+
   const response = await apiClient.get<{ entities: Cost[] }>(
     "/documents/costs.json",
     { params: queryParams }
   );
 
-  return createJsonResponse(response);
+  return createJsonResponse(
+    response,
+    listOf(COST_MONETARY_FIELDS),
+    params.raw_amounts === true
+  );
 }
 
 /**
@@ -70,10 +224,118 @@ export async function getCost(
   const params = args as Record<string, unknown>;
 
   validateUUID(params.cost_uuid, "cost_uuid");
+  if (params.raw_amounts !== undefined) {
+    validateBoolean(params.raw_amounts, "raw_amounts");
+  }
 
   const response = await apiClient.get<Cost>(
     `/documents/costs/${params.cost_uuid}.json`
   );
 
-  return createJsonResponse(response);
+  return createJsonResponse(
+    response,
+    COST_MONETARY_FIELDS,
+    params.raw_amounts === true
+  );
+}
+
+/**
+ * Create a new cost document
+ */
+export async function createCost(
+  apiClient: ApiClient,
+  args: unknown
+): Promise<ToolResponse> {
+  const params = args as Record<string, unknown>;
+
+  // Validate required fields
+  validateRequiredString(params.number, "number");
+  validateDateString(params.issue_date, "issue_date");
+  if (params.supplier_id === undefined) {
+    validateRequiredString(params.supplier_company_name, "supplier_company_name");
+  }
+  if (!params.items) {
+    throw new Error("items is required");
+  }
+
+  validateCostFields(params);
+
+  const currency = (params.currency as string | undefined) ?? DEFAULT_CURRENCY;
+  const costData = { ...params };
+
+  // Convert item amounts to minor units of the cost currency
+  costData.items = convertServicesToMinorUnits(
+    params.items as Record<string, unknown>[],
+    currency
+  );
+
+  const response = await apiClient.post<Cost>("/documents/costs.json", {
+    cost: costData as unknown as CreateCostRequest,
+  });
+
+  return createJsonResponse(response, COST_MONETARY_FIELDS);
+}
+
+/**
+ * Update an existing cost document
+ */
+export async function updateCost(
+  apiClient: ApiClient,
+  args: unknown
+): Promise<ToolResponse> {
+  const params = args as Record<string, unknown>;
+
+  validateUUID(params.cost_uuid, "cost_uuid");
+
+  // Validate optional fields if provided
+  if (params.number !== undefined) {
+    validateRequiredString(params.number, "number");
+  }
+  if (params.supplier_company_name !== undefined) {
+    validateRequiredString(params.supplier_company_name, "supplier_company_name");
+  }
+  validateCostFields(params);
+
+  const { cost_uuid, ...costData } = params;
+
+  // Convert item amounts to minor units of the cost currency
+  if (params.items !== undefined) {
+    let currency = params.currency as string | undefined;
+    if (currency === undefined) {
+      const current = await apiClient.get<Pick<Cost, "currency">>(
+        `/documents/costs/${cost_uuid}.json`,
+        { params: { fields: "currency" } }
+      );
+      currency = current.currency;
+    }
+    costData.items = convertServicesToMinorUnits(
+      params.items as Record<string, unknown>[],
+      currency ?? DEFAULT_CURRENCY
+    );
+  }
+
+  const response = await apiClient.put<Cost>(
+    `/documents/costs/${cost_uuid}.json`,
+    { cost: costData as unknown as Omit<UpdateCostParams, "cost_uuid"> }
+  );
+
+  return createJsonResponse(response, COST_MONETARY_FIELDS);
+}
+
+/**
+ * Delete a cost document
+ */
+export async function deleteCost(
+  apiClient: ApiClient,
+  args: unknown
+): Promise<ToolResponse> {
+  const params = args as Record<string, unknown>;
+
+  validateUUID(params.cost_uuid, "cost_uuid");
+
+  await apiClient.delete(`/documents/costs/${params.cost_uuid}.json`);
+
+  return createTextResponse(
+    `Cost ${params.cost_uuid} deleted successfully`
+  );
 }
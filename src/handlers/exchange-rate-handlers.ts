@@ -0,0 +1,94 @@
+/**
+ * Exchange rate tool handlers
+ *
+ * Implements lookup of NBP average rates for foreign-currency invoices.
+ */
+
+import { McpError, ErrorCode } from "@modelcontextprotocol/sdk/types.js";
+import type { ApiClient } from "../api-client.js";
+import type { ExchangeRateProvider, ToolResponse } from "../types.js";
+import { ConfigurationError } from "../config.js";
+import { DEFAULT_CURRENCY } from "../currency.js";
+import {
+  getExchangeRateProvider,
+  resolveRateForSaleDate,
+  RATE_LOOKBACK_DAYS,
+} from "../exchange-rates.js";
+import {
+  validateCurrencyCode,
+  validateDateString,
+  ValidationError,
+} from "../validation.js";
+
+/**
+ * Creates a JSON text response
+ */
+function createJsonResponse(data: unknown): ToolResponse {
+  return {
+    content: [
+      {
+        type: "text",
+        text: JSON.stringify(data, null, 2),
+      },
+    ],
+  };
+}
+
+/**
+ * Gets the configured provider, reporting missing configuration to the agent
+ */
+function getProvider(): ExchangeRateProvider {
+  try {
+    return getExchangeRateProvider();
+  } catch (error) {
+    if (error instanceof ConfigurationError) {
+      throw new McpError(ErrorCode.InvalidRequest, error.message);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Get the NBP average rate applicable to a foreign-currency sale
+ */
+export async function getExchangeRate(
+  _apiClient: ApiClient,
+  args: unknown
+): Promise<ToolResponse> {
+  const params = args as Record<string, unknown>;
+
+  validateCurrencyCode(params.currency, "currency");
+  if (params.currency === DEFAULT_CURRENCY) {
+    throw new ValidationError("currency", "PLN invoices need no exchange rate");
+  }
+
+  const saleDate =
+    (params.sale_date as string | undefined) ?? new Date().toISOString().substring(0, 10);
+  validateDateString(saleDate, "sale_date");
+
+  const provider = getProvider();
+  const rate = await resolveRateForSaleDate(provider, params.currency, saleDate);
+
+  if (!rate) {
+    throw new McpError(
+      ErrorCode.InvalidRequest,
+      `No NBP table A rate for ${params.currency} found in the ${RATE_LOOKBACK_DAYS} days ` +
+        `before ${saleDate} (source: ${provider.name})`
+    );
+  }
+
+  return createJsonResponse({
+    currency: rate.currency,
+    rate: rate.mid,
+    table_no: rate.table_no,
+    effective_date: rate.effective_date,
+    sale_date: saleDate,
+    source: provider.name,
+    // Ready to pass to infakt_create_invoice
+    invoice_fields: {
+      currency: rate.currency,
+      exchange_rate: rate.mid,
+      exchange_rate_date: rate.effective_date,
+    },
+  });
+}
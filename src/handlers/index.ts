@@ -7,14 +7,22 @@
 // Invoice handlers
 export {
   createInvoice,
+  previewInvoice,
   checkInvoiceStatus,
   listInvoices,
+  listOverdueInvoices,
+  getRevenueReport,
   getInvoice,
   updateInvoice,
   deleteInvoice,
   downloadInvoicePdf,
   sendInvoiceEmail,
   markInvoicePaid,
+  recordInvoicePayment,
+  listInvoicePayments,
+  createCorrectionInvoice,
+  convertProformaToInvoice,
+  cloneInvoice,
 } from "./invoice-handlers.js";
 
 // Client handlers
@@ -43,4 +51,32 @@ export {
 } from "./reference-handlers.js";
 
 // Cost handlers
-export { listCosts, getCost } from "./cost-handlers.js";
+export {
+  listCosts,
+  getCost,
+  createCost,
+  updateCost,
+  deleteCost,
+} from "./cost-handlers.js";
+
+// Exchange rate handlers
+export { getExchangeRate } from "./exchange-rate-handlers.js";
+
+// KSeF handlers
+export {
+  exportInvoiceKsefXml,
+  submitInvoiceToKsef,
+  getInvoiceKsefStatus,
+} from "./ksef-handlers.js";
+
+// Recurring invoice handlers
+export {
+  createRecurringInvoice,
+  listRecurringInvoices,
+  pauseRecurringInvoice,
+  deleteRecurringInvoice,
+  runDueRecurringInvoices,
+} from "./recurring-handlers.js";
+
+// Tax reporting handlers
+export { generateJpk, getVatSummary } from "./tax-handlers.js";
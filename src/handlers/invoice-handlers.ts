@@ -18,38 +18,74 @@ import type {
   SendInvoiceEmailParams,
   // MarkInvoicePaidParams,
   RansackQueryParams,
+  AsyncTaskResult,
+  FetchAllParams,
+  InvoicePayment,
+  InvoicePaymentSummary,
+  RecordInvoicePaymentParams,
+  InvoiceService,
+  VatRateConfig,
+  Cost,
+  RevenueGroupBy,
 } from "../types.js";
 import {
   validateRequiredString,
   validateUUID,
   validateArray,
   validateInvoiceService,
+  validateCorrectionLine,
+  validateLineOverride,
   validateDateString,
   validatePaginationParams,
   validateEnum,
+  validateBoolean,
+  validateCurrencyCode,
+  validatePositiveNumber,
   sanitizeParams,
+  ValidationError,
+  PAYMENT_METHODS,
 } from "../validation.js";
-import { convertAllMonetaryFields } from "../currency.js";
-
-const PAYMENT_METHODS = [
-  "cash",
-  "transfer",
-  "card",
-  "barter",
-  "check",
-  "bill_of_sale",
-  "delivery",
-  "compensation",
-  "accredited",
-  "paypal",
-  "payu",
-  "tpay",
-  "przelewy24",
-  "dotpay",
-  "other",
-] as const;
+import {
+  convertMonetaryFieldsBySchema,
+  convertServicesToMinorUnits,
+  DEFAULT_CURRENCY,
+  listOf,
+  MonetaryFieldMap,
+  NO_MONETARY_FIELDS,
+  INVOICE_MONETARY_FIELDS,
+  ASYNC_TASK_MONETARY_FIELDS,
+  INVOICE_PAYMENT_SUMMARY_MONETARY_FIELDS,
+  CORRECTION_MONETARY_FIELDS,
+  CORRECTION_RESULT_MONETARY_FIELDS,
+  INVOICE_PREVIEW_MONETARY_FIELDS,
+  majorToMinor,
+  minorToMajor,
+} from "../currency.js";
+import {
+  fetchAllPages,
+  isFetchAll,
+  validateFetchAllParams,
+  MAX_ITEMS_LIMIT,
+} from "../pagination.js";
+import { applyRansackFilters, INVOICE_FILTER_FIELDS } from "../filters.js";
+import { validateWaitParams, waitForInvoiceTask } from "../async-tasks.js";
+import {
+  buildOverdueReport,
+  buildPaymentSummary,
+  getOutstandingMinor,
+  UNPAID_INVOICE_STATUSES,
+} from "../receivables.js";
+import { buildCorrection, toCorrectionServices, CorrectionLineInput } from "../corrections.js";
+import { addDays, daysBetween } from "../dates.js";
+import { buildInvoicePreview } from "../vat.js";
+import { fetchIssuedInvoices } from "../vat-registers.js";
+import { buildRevenueReport, PRODUCT_LINE_REQUEST_LIMIT, REVENUE_GROUP_BY } from "../revenue.js";
 
 const INVOICE_STATUSES = ["draft", "paid", "printed", "sent"] as const;
+const INVOICE_KINDS = ["vat", "proforma", "advance", "final", "correction"] as const;
+const KSEF_STATUSES = ["not_sent", "pending", "accepted", "rejected"] as const;
+// Corrections are created with infakt_create_correction_invoice
+const CREATABLE_INVOICE_KINDS = ["vat", "proforma", "advance", "final"] as const;
 const DOCUMENT_TYPES = [
   "original",
   "copy",
@@ -62,13 +98,166 @@ const DOCUMENT_TYPES = [
 ] as const;
 const LOCALES = ["pl", "en", "pe"] as const;
 
+/**
+ * Buyer fields copied between invoices and changeable by corrections
+ */
+const INVOICE_CLIENT_FIELDS = [
+  "client_company_name",
+  "client_first_name",
+  "client_last_name",
+  "client_tax_code",
+  "client_street",
+  "client_street_number",
+  "client_flat_number",
+  "client_city",
+  "client_post_code",
+  "client_country",
+] as const;
+
+/**
+ * Validates currency and exchange rate fields
+ *
+ * @param params - Tool arguments
+ * @param currency - Resolved invoice currency
+ */
+function validateCurrencyParams(
+  params: Record<string, unknown>,
+  currency: string
+): void {
+  if (params.currency !== undefined) {
+    validateCurrencyCode(params.currency, "currency");
+  }
+  if (params.exchange_rate !== undefined) {
+    validatePositiveNumber(params.exchange_rate, "exchange_rate");
+    if (currency === DEFAULT_CURRENCY) {
+      throw new ValidationError(
+        "exchange_rate",
+        "only applies to invoices in a foreign currency"
+      );
+    }
+  }
+  if (params.exchange_rate_date !== undefined) {
+    validateDateString(params.exchange_rate_date, "exchange_rate_date");
+  }
+}
+
+/**
+ * Validates kind-specific fields of proforma, advance and final invoices
+ *
+ * Final invoices must settle issued advance invoices in the same currency.
+ *
+ * @param apiClient - API client used to look up advance invoices
+ * @param params - Tool arguments
+ * @param currency - Resolved invoice currency
+ */
+async function validateInvoiceKind(
+  apiClient: ApiClient,
+  params: Record<string, unknown>,
+  currency: string
+): Promise<void> {
+  const kind = params.kind ?? "vat";
+  validateEnum(kind, "kind", CREATABLE_INVOICE_KINDS);
+
+  if (params.advance_gross_price !== undefined && kind !== "advance") {
+    throw new ValidationError("advance_gross_price", "only applies to advance invoices");
+  }
+  if (params.advance_invoice_uuids !== undefined && kind !== "final") {
+    throw new ValidationError("advance_invoice_uuids", "only applies to final invoices");
+  }
+  if (kind === "proforma" && params.status === "paid") {
+    throw new ValidationError("status", "proforma invoices cannot be marked as paid");
+  }
+
+  if (kind === "advance") {
+    validatePositiveNumber(params.advance_gross_price, "advance_gross_price");
+  }
+
+  if (kind === "final") {
+    if (params.advance_invoice_uuids === undefined) {
+      throw new ValidationError("advance_invoice_uuids", "is required for final invoices");
+    }
+    validateArray(params.advance_invoice_uuids, "advance_invoice_uuids", (uuid) =>
+      validateUUID(uuid, "uuid")
+    );
+
+    const advances = await Promise.all(
+      params.advance_invoice_uuids.map((uuid) =>
+        apiClient.get<Pick<Invoice, "number" | "kind" | "status" | "currency">>(
+          `/invoices/${uuid}.json`,
+          { params: { fields: "number,kind,status,currency" } }
+        )
+      )
+    );
+
+    for (const advance of advances) {
+      if (advance.kind !== "advance") {
+        throw new ValidationError(
+          "advance_invoice_uuids",
+          `invoice ${advance.number} is not an advance invoice`
+        );
+      }
+      if (advance.status === "draft") {
+        throw new ValidationError(
+          "advance_invoice_uuids",
+          `advance invoice ${advance.number} has not been issued`
+        );
+      }
+      if ((advance.currency ?? DEFAULT_CURRENCY) !== currency) {
+        throw new ValidationError(
+          "advance_invoice_uuids",
+          `advance invoice ${advance.number} is in ${advance.currency}, not ${currency}`
+        );
+      }
+    }
+  }
+}
+
+/**
+ * Builds a creation payload copying client, terms and services of an invoice
+ *
+ * Amounts stay in minor units as returned by the API.
+ */
+function copyInvoiceForCreation(invoice: Invoice): Record<string, unknown> {
+  return sanitizeParams({
+    payment_method: invoice.payment_method,
+    client_id: invoice.client_id,
+    ...Object.fromEntries(INVOICE_CLIENT_FIELDS.map((field) => [field, invoice[field]])),
+    currency: invoice.currency,
+    exchange_rate: invoice.exchange_rate,
+    exchange_rate_date: invoice.exchange_rate_date,
+    bank_account_id: invoice.bank_account_id,
+    notes: invoice.notes,
+    services: (invoice.services ?? []).map((service: InvoiceService) =>
+      sanitizeParams({
+        name: service.name,
+        tax_symbol: service.tax_symbol,
+        quantity: service.quantity,
+        unit: service.unit,
+        pkwiu: service.pkwiu,
+        description: service.description,
+        // Only one price field may be sent
+        ...(service.unit_net_price !== undefined
+          ? { unit_net_price: service.unit_net_price }
+          : { net_price: service.net_price }),
+      })
+    ),
+  });
+}
+
 /**
  * Creates a JSON text response with automatic currency conversion
- * Converts all monetary values from grosze (API format) to PLN (user-friendly)
+ * Converts the monetary fields described by the field map from grosze
+ * (API format) to PLN (user-friendly), unless raw amounts were requested
  */
-function createJsonResponse(data: unknown): ToolResponse {
-  // Convert all monetary fields from grosze to PLN
-  const convertedData = convertAllMonetaryFields(data);
+function createJsonResponse(
+  data: unknown,
+  moneyFields: MonetaryFieldMap,
+  rawAmounts: boolean = false
+): ToolResponse {
+  // Convert monetary fields from grosze to PLN
+  const convertedData = rawAmounts
+    ? data
+    : convertMonetaryFieldsBySchema(data, moneyFields);
 
   return {
     content: [
@@ -80,6 +269,18 @@ function createJsonResponse(data: unknown): ToolResponse {
   };
 }
 
+/**
+ * Creates a response for a finished (or timed out) async task
+ * Failed tasks are flagged as errors so the agent sees the failure reason
+ */
+function createTaskResultResponse(result: AsyncTaskResult): ToolResponse {
+  const response = createJsonResponse(result, ASYNC_TASK_MONETARY_FIELDS);
+  if (result.status === "failed") {
+    response.isError = true;
+  }
+  return response;
+}
+
 /**
  * Creates a text response
  */
@@ -95,14 +296,12 @@ function createTextResponse(text: string): ToolResponse {
 }
 
 /**
- * Create a new VAT invoice asynchronously
+ * Validates the fields of a new invoice shared by creation and preview
+ *
+ * @param params - Tool arguments
+ * @returns Resolved invoice currency
  */
-export async function createInvoice(
-  apiClient: ApiClient,
-  args: unknown
-): Promise<ToolResponse> {
-  const params = args as Record<string, unknown>;
-
+function validateNewInvoiceParams(params: Record<string, unknown>): string {
   // Validate required fields
   validateRequiredString(params.client_company_name, "client_company_name");
   validateRequiredString(params.payment_method, "payment_method");
@@ -138,12 +337,81 @@ export async function createInvoice(
     validateDateString(params.payment_date, "payment_date");
   }
 
+  // Validate optional currency and exchange rate
+  const currency = (params.currency as string | undefined) ?? DEFAULT_CURRENCY;
+  validateCurrencyParams(params, currency);
+
+  return currency;
+}
+
+/**
+ * Create a new VAT invoice asynchronously
+ * With `wait: true`, polls the task until the invoice is created or fails
+ */
+export async function createInvoice(
+  apiClient: ApiClient,
+  args: unknown
+): Promise<ToolResponse> {
+  const params = args as Record<string, unknown>;
+
+  const currency = validateNewInvoiceParams(params);
+
+  // Validate optional wait mode
+  validateWaitParams(params);
+
+  // Validate document kind (proforma, advance, final)
+  await validateInvoiceKind(apiClient, params, currency);
+
+  const { wait, timeout_ms, ...invoiceData } = params;
+
+  // Convert service amounts to minor units of the invoice currency
+  invoiceData.services = convertServicesToMinorUnits(
+    params.services as Record<string, unknown>[],
+    currency
+  );
+  if (typeof params.advance_gross_price === "number") {
+    invoiceData.advance_gross_price = majorToMinor(params.advance_gross_price, currency);
+  }
+
   const response = await apiClient.post<CreateInvoiceResponse>(
     "/async/invoices.json",
-    { invoice: params as unknown as CreateInvoiceRequest }
+    { invoice: invoiceData as unknown as CreateInvoiceRequest }
   );
 
-  return createJsonResponse(response);
+  if (wait === true) {
+    const result = await waitForInvoiceTask(
+      apiClient,
+      response.task_reference_number,
+      { timeout_ms: timeout_ms as number | undefined }
+    );
+    return createTaskResultResponse(result);
+  }
+
+  return createJsonResponse(response, NO_MONETARY_FIELDS);
+}
+
+/**
+ * Preview invoice totals without creating the invoice
+ * Takes the same input as createInvoice; VAT rates come from the account
+ */
+export async function previewInvoice(
+  apiClient: ApiClient,
+  args: unknown
+): Promise<ToolResponse> {
+  const params = args as Record<string, unknown>;
+
+  const currency = validateNewInvoiceParams(params);
+  await validateInvoiceKind(apiClient, params, currency);
+
+  const vatRates = await apiClient.get<{ entities: VatRateConfig[] }>("/vat_rates.json");
+
+  const preview = buildInvoicePreview(
+    convertServicesToMinorUnits(params.services as Record<string, unknown>[], currency),
+    vatRates.entities,
+    currency
+  );
+
+  return createJsonResponse(preview, INVOICE_PREVIEW_MONETARY_FIELDS);
 }
 
 /**
@@ -156,12 +424,19 @@ export async function checkInvoiceStatus(
   const params = args as Record<string, unknown>;
 
   validateRequiredString(params.task_reference_number, "task_reference_number");
+  if (params.raw_amounts !== undefined) {
+    validateBoolean(params.raw_amounts, "raw_amounts");
+  }
 
   const response = await apiClient.get<InvoiceStatusResponse>(
     `/async/invoices/status/${params.task_reference_number}.json`
   );
 
-  return createJsonResponse(response);
+  return createJsonResponse(
+    response,
+    ASYNC_TASK_MONETARY_FIELDS,
+    params.raw_amounts === true
+  );
 }
 
 /**
@@ -175,6 +450,10 @@ export async function listInvoices(
 
   // Validate pagination
   validatePaginationParams(params);
+  validateFetchAllParams(params);
+  if (params.raw_amounts !== undefined) {
+    validateBoolean(params.raw_amounts, "raw_amounts");
+  }
 
   // Build query parameters
   const queryParams: RansackQueryParams = sanitizeParams({
@@ -195,10 +474,18 @@ export async function listInvoices(
     validateRequiredString(params.client_company_name, "client_company_name");
     filters.client_company_name_cont = params.client_company_name;
   }
+  if (params.kind) {
+    validateEnum(params.kind, "kind", INVOICE_KINDS);
+    filters.kind_eq = params.kind;
+  }
   if (params.status) {
     validateEnum(params.status, "status", INVOICE_STATUSES);
     filters.status_eq = params.status;
   }
+  if (params.ksef_status) {
+    validateEnum(params.ksef_status, "ksef_status", KSEF_STATUSES);
+    filters.ksef_status_eq = params.ksef_status;
+  }
   if (params.invoice_date_from) {
     validateDateString(params.invoice_date_from, "invoice_date_from");
     filters.invoice_date_gteq = params.invoice_date_from;
@@ -208,8 +495,20 @@ export async function listInvoices(
     filters.invoice_date_lteq = params.invoice_date_to;
   }
 
-  if (Object.keys(filters).length > 0) {
-    queryParams.q = filters;
+  applyRansackFilters(queryParams, filters, params.filters, INVOICE_FILTER_FIELDS);
+
+  if (isFetchAll(params)) {
+    const result = await fetchAllPages<Invoice>(
+      apiClient,
+      "/invoices.json",
+      queryParams,
+      params as FetchAllParams
+    );
+    return createJsonResponse(
+      result,
+      listOf(INVOICE_MONETARY_FIELDS),
+      params.raw_amounts === true
+    );
   }
 
   const response = await apiClient.get<{ entities: Invoice[] }>(
@@ -217,7 +516,123 @@ export async function listInvoices(
     { params: queryParams }
   );
 
-  return createJsonResponse(response);
+  return createJsonResponse(
+    response,
+    listOf(INVOICE_MONETARY_FIELDS),
+    params.raw_amounts === true
+  );
+}
+
+/**
+ * List unpaid invoices past their payment date, grouped by client with aging
+ */
+export async function listOverdueInvoices(
+  apiClient: ApiClient,
+  args: unknown
+): Promise<ToolResponse> {
+  const params = args as Record<string, unknown>;
+
+  validateFetchAllParams(params);
+  if (params.as_of !== undefined) {
+    validateDateString(params.as_of, "as_of");
+  }
+  const asOf = (params.as_of as string | undefined) ?? new Date().toISOString().substring(0, 10);
+
+  // Narrow the scan server-side; the report re-checks status and dates
+  const filters: Record<string, unknown> = {
+    status_in: [...UNPAID_INVOICE_STATUSES],
+    payment_date_lt: asOf,
+  };
+
+  if (params.client_id !== undefined) {
+    validatePositiveNumber(params.client_id, "client_id");
+    filters.client_id_eq = params.client_id;
+  }
+  if (params.client_company_name) {
+    validateRequiredString(params.client_company_name, "client_company_name");
+    filters.client_company_name_cont = params.client_company_name;
+  }
+
+  const result = await fetchAllPages<Invoice>(
+    apiClient,
+    "/invoices.json",
+    { order: "payment_date asc", q: filters },
+    { max_items: params.max_items as number | undefined }
+  );
+
+  // Report amounts are already in PLN
+  return createJsonResponse(
+    buildOverdueReport(result.entities, asOf, result.truncated),
+    NO_MONETARY_FIELDS
+  );
+}
+
+/**
+ * Aggregate issued invoices (and optionally costs) over a date range by
+ * client, month, product or payment method, with period-over-period change
+ */
+export async function getRevenueReport(
+  apiClient: ApiClient,
+  args: unknown
+): Promise<ToolResponse> {
+  const params = args as Record<string, unknown>;
+
+  validateDateString(params.date_from, "date_from");
+  validateDateString(params.date_to, "date_to");
+  if (params.date_to < params.date_from) {
+    throw new ValidationError("date_to", "must not be before date_from");
+  }
+  validateEnum(params.group_by, "group_by", REVENUE_GROUP_BY);
+  if (params.date_field !== undefined) {
+    validateEnum(params.date_field, "date_field", ["invoice_date", "sale_date"] as const);
+  }
+  if (params.include_costs !== undefined) {
+    validateBoolean(params.include_costs, "include_costs");
+  }
+  if (params.compare_previous !== undefined) {
+    validateBoolean(params.compare_previous, "compare_previous");
+  }
+
+  const dateFrom = params.date_from;
+  const dateTo = params.date_to;
+  const dateField = (params.date_field as "invoice_date" | "sale_date" | undefined) ?? "invoice_date";
+  const groupBy = params.group_by as RevenueGroupBy;
+  const withServices = groupBy === "product";
+  const lineRequestLimit = withServices ? PRODUCT_LINE_REQUEST_LIMIT : undefined;
+
+  // Preceding period of the same length, ending the day before date_from
+  const previousTo = addDays(dateFrom, -1);
+  const previousFrom = addDays(previousTo, -daysBetween(dateFrom, dateTo));
+
+  const [current, previous, costs] = await Promise.all([
+    fetchIssuedInvoices(apiClient, dateField, dateFrom, dateTo, withServices, lineRequestLimit),
+    params.compare_previous !== false
+      ? fetchIssuedInvoices(apiClient, dateField, previousFrom, previousTo, withServices, lineRequestLimit)
+      : undefined,
+    params.include_costs === true
+      ? fetchAllPages<Cost>(
+          apiClient,
+          "/documents/costs.json",
+          {
+            order: "issue_date asc",
+            q: { issue_date_gteq: dateFrom, issue_date_lteq: dateTo },
+          },
+          { max_items: MAX_ITEMS_LIMIT }
+        )
+      : undefined,
+  ]);
+
+  const report = buildRevenueReport({
+    dateField,
+    groupBy,
+    current: { from: dateFrom, to: dateTo, invoices: current.invoices },
+    previous: previous && { from: previousFrom, to: previousTo, invoices: previous.invoices },
+    costs: costs?.entities,
+    truncated: current.truncated || Boolean(previous?.truncated) || Boolean(costs?.truncated),
+  });
+
+  // Report amounts are already in PLN
+  return createJsonResponse(report, NO_MONETARY_FIELDS);
 }
 
 /**
@@ -230,6 +645,9 @@ export async function getInvoice(
   const params = args as Record<string, unknown>;
 
   validateUUID(params.invoice_uuid, "invoice_uuid");
+  if (params.raw_amounts !== undefined) {
+    validateBoolean(params.raw_amounts, "raw_amounts");
+  }
 
   const queryParams = sanitizeParams({
     fields: params.fields as string | undefined,
@@ -240,7 +658,11 @@ export async function getInvoice(
     { params: queryParams }
   );
 
-  return createJsonResponse(response);
+  return createJsonResponse(
+    response,
+    INVOICE_MONETARY_FIELDS,
+    params.raw_amounts === true
+  );
 }
 
 /**
@@ -273,12 +695,35 @@ export async function updateInvoice(
 
   const { invoice_uuid, ...invoiceData } = params;
 
+  // Resolve the invoice currency when amounts or rates depend on it
+  let currency = params.currency as string | undefined;
+  if (
+    currency === undefined &&
+    (params.services !== undefined || params.exchange_rate !== undefined)
+  ) {
+    const current = await apiClient.get<Pick<Invoice, "currency">>(
+      `/invoices/${invoice_uuid}.json`,
+      { params: { fields: "currency" } }
+    );
+    currency = current.currency;
+  }
+  currency = currency ?? DEFAULT_CURRENCY;
+  validateCurrencyParams(params, currency);
+
+  // Convert service amounts to minor units of the invoice currency
+  if (params.services !== undefined) {
+    invoiceData.services = convertServicesToMinorUnits(
+      params.services as Record<string, unknown>[],
+      currency
+    );
+  }
+
   const response = await apiClient.put<Invoice>(
     `/invoices/${invoice_uuid}.json`,
     { invoice: invoiceData as unknown as Omit<UpdateInvoiceParams, 'invoice_uuid'> }
   );
 
-  return createJsonResponse(response);
+  return createJsonResponse(response, INVOICE_MONETARY_FIELDS);
 }
 
 /**
@@ -362,7 +807,7 @@ export async function sendInvoiceEmail(
     sanitizeParams(emailData as unknown as Omit<SendInvoiceEmailParams, 'invoice_uuid'>)
   );
 
-  return createJsonResponse(response);
+  return createJsonResponse(response, NO_MONETARY_FIELDS);
 }
 
 /**
@@ -376,11 +821,407 @@ export async function markInvoicePaid(
 
   validateUUID(params.invoice_uuid, "invoice_uuid");
   validateDateString(params.paid_date, "paid_date");
+  validateWaitParams(params);
 
-  const response = await apiClient.post<{ success: boolean }>(
+  const response = await apiClient.post<{
+    success?: boolean;
+    task_reference_number?: string;
+  }>(
     `/async/invoices/${params.invoice_uuid}/paid.json`,
     { paid_date: params.paid_date }
   );
 
-  return createJsonResponse(response);
+  if (params.wait === true && response.task_reference_number) {
+    const result = await waitForInvoiceTask(
+      apiClient,
+      response.task_reference_number,
+      { timeout_ms: params.timeout_ms as number | undefined }
+    );
+    return createTaskResultResponse(result);
+  }
+
+  return createJsonResponse(response, NO_MONETARY_FIELDS);
+}
+
+/**
+ * Fetches an invoice together with its payment history
+ */
+async function getPaymentSummary(
+  apiClient: ApiClient,
+  invoiceUuid: string
+): Promise<InvoicePaymentSummary> {
+  const [invoice, payments] = await Promise.all([
+    apiClient.get<Invoice>(`/invoices/${invoiceUuid}.json`),
+    apiClient.get<{ entities: InvoicePayment[] }>(
+      `/invoices/${invoiceUuid}/payments.json`
+    ),
+  ]);
+
+  return buildPaymentSummary(invoice, payments.entities ?? []);
+}
+
+/**
+ * Record a full or partial payment on an invoice
+ */
+export async function recordInvoicePayment(
+  apiClient: ApiClient,
+  args: unknown
+): Promise<ToolResponse> {
+  const params = args as Record<string, unknown>;
+
+  validateUUID(params.invoice_uuid, "invoice_uuid");
+  validatePositiveNumber(params.amount, "amount");
+  if (params.paid_date !== undefined) {
+    validateDateString(params.paid_date, "paid_date");
+  }
+  if (params.payment_method !== undefined) {
+    validateEnum(params.payment_method, "payment_method", PAYMENT_METHODS);
+  }
+  if (params.description !== undefined) {
+    validateRequiredString(params.description, "description");
+  }
+
+  const invoice = await apiClient.get<Invoice>(
+    `/invoices/${params.invoice_uuid}.json`
+  );
+  const currency = invoice.currency ?? DEFAULT_CURRENCY;
+
+  if (invoice.status === "draft") {
+    throw new ValidationError("invoice_uuid", "payments cannot be recorded on draft invoices");
+  }
+
+  // Amount is given in the invoice currency
+  const amount = majorToMinor(params.amount as number, currency);
+  const outstanding = getOutstandingMinor(invoice);
+  if (amount > outstanding) {
+    throw new ValidationError(
+      "amount",
+      `exceeds the amount left to pay (${minorToMajor(outstanding, currency)} ${currency})`
+    );
+  }
+
+  const payment = sanitizeParams({
+    amount,
+    paid_date:
+      (params.paid_date as string | undefined) ?? new Date().toISOString().substring(0, 10),
+    payment_method: params.payment_method as string | undefined,
+    description: params.description as string | undefined,
+  });
+
+  await apiClient.post<InvoicePayment>(
+    `/invoices/${params.invoice_uuid}/payments.json`,
+    { payment: payment as Omit<RecordInvoicePaymentParams, "invoice_uuid"> }
+  );
+
+  const summary = await getPaymentSummary(apiClient, params.invoice_uuid);
+  return createJsonResponse(summary, INVOICE_PAYMENT_SUMMARY_MONETARY_FIELDS);
+}
+
+/**
+ * List the payment history and remaining balance of an invoice
+ */
+export async function listInvoicePayments(
+  apiClient: ApiClient,
+  args: unknown
+): Promise<ToolResponse> {
+  const params = args as Record<string, unknown>;
+
+  validateUUID(params.invoice_uuid, "invoice_uuid");
+  if (params.raw_amounts !== undefined) {
+    validateBoolean(params.raw_amounts, "raw_amounts");
+  }
+
+  const summary = await getPaymentSummary(apiClient, params.invoice_uuid);
+  return createJsonResponse(
+    summary,
+    INVOICE_PAYMENT_SUMMARY_MONETARY_FIELDS,
+    params.raw_amounts === true
+  );
+}
+
+/**
+ * Converts before/after unit prices of a correction line to minor units
+ */
+function toCorrectionLineInput(
+  line: Record<string, unknown>,
+  currency: string
+): CorrectionLineInput {
+  const convert = (values: unknown) => {
+    const converted = { ...(values as Record<string, unknown>) };
+    if (typeof converted.unit_net_price === "number") {
+      converted.unit_net_price = majorToMinor(converted.unit_net_price, currency);
+    }
+    return converted as CorrectionLineInput["after"];
+  };
+
+  return {
+    position: line.position as number | undefined,
+    before: line.before !== undefined ? convert(line.before) : undefined,
+    after: convert(line.after),
+  };
+}
+
+/**
+ * Create a correction invoice for an issued invoice
+ */
+export async function createCorrectionInvoice(
+  apiClient: ApiClient,
+  args: unknown
+): Promise<ToolResponse> {
+  const params = args as Record<string, unknown>;
+
+  validateUUID(params.invoice_uuid, "invoice_uuid");
+  validateRequiredString(params.correction_reason, "correction_reason");
+  if (params.lines !== undefined) {
+    validateArray(params.lines, "lines", validateCorrectionLine);
+  }
+  if (params.invoice_date !== undefined) {
+    validateDateString(params.invoice_date, "invoice_date");
+  }
+  if (params.dry_run !== undefined) {
+    validateBoolean(params.dry_run, "dry_run");
+  }
+  validateWaitParams(params);
+
+  const clientChanges: Record<string, unknown> = {};
+  for (const field of INVOICE_CLIENT_FIELDS) {
+    if (params[field] !== undefined) {
+      validateRequiredString(params[field], field);
+      clientChanges[field] = params[field];
+    }
+  }
+
+  if (params.lines === undefined && Object.keys(clientChanges).length === 0) {
+    throw new ValidationError("lines", "provide corrected lines and/or buyer fields to correct");
+  }
+
+  const original = await apiClient.get<Invoice>(`/invoices/${params.invoice_uuid}.json`);
+  if (original.status === "draft") {
+    throw new ValidationError(
+      "invoice_uuid",
+      "draft invoices are edited with infakt_update_invoice, not corrected"
+    );
+  }
+
+  const currency = original.currency ?? DEFAULT_CURRENCY;
+  const correction = buildCorrection(
+    original,
+    ((params.lines as Record<string, unknown>[] | undefined) ?? []).map((line) =>
+      toCorrectionLineInput(line, currency)
+    ),
+    params.correction_reason
+  );
+
+  if (params.dry_run === true) {
+    return createJsonResponse(correction, CORRECTION_MONETARY_FIELDS);
+  }
+
+  const invoiceData = sanitizeParams({
+    kind: "correction",
+    corrected_invoice_uuid: original.uuid,
+    correction_reason: params.correction_reason,
+    invoice_date: params.invoice_date as string | undefined,
+    sale_date: original.sale_date,
+    payment_method: original.payment_method,
+    currency,
+    exchange_rate: original.exchange_rate,
+    exchange_rate_date: original.exchange_rate_date,
+    client_id: original.client_id,
+    ...Object.fromEntries(INVOICE_CLIENT_FIELDS.map((field) => [field, original[field]])),
+    ...clientChanges,
+    services: toCorrectionServices(correction),
+  });
+
+  const response = await apiClient.post<CreateInvoiceResponse>(
+    "/async/invoices.json",
+    { invoice: invoiceData as unknown as CreateInvoiceRequest }
+  );
+
+  if (params.wait === true) {
+    const result = await waitForInvoiceTask(
+      apiClient,
+      response.task_reference_number,
+      { timeout_ms: params.timeout_ms as number | undefined }
+    );
+    const waited = createJsonResponse(
+      { ...result, correction },
+      CORRECTION_RESULT_MONETARY_FIELDS
+    );
+    if (result.status === "failed") {
+      waited.isError = true;
+    }
+    return waited;
+  }
+
+  return createJsonResponse({ ...response, correction }, CORRECTION_RESULT_MONETARY_FIELDS);
+}
+
+/**
+ * Convert a proforma invoice into a VAT invoice
+ * Creates the VAT invoice through the async creation path
+ */
+export async function convertProformaToInvoice(
+  apiClient: ApiClient,
+  args: unknown
+): Promise<ToolResponse> {
+  const params = args as Record<string, unknown>;
+
+  validateUUID(params.invoice_uuid, "invoice_uuid");
+  for (const field of ["invoice_date", "sale_date", "payment_date"]) {
+    if (params[field] !== undefined) {
+      validateDateString(params[field], field);
+    }
+  }
+  validateWaitParams(params);
+
+  const proforma = await apiClient.get<Invoice>(`/invoices/${params.invoice_uuid}.json`);
+  if (proforma.kind !== "proforma") {
+    throw new ValidationError(
+      "invoice_uuid",
+      `invoice ${proforma.number} is not a proforma (kind: ${proforma.kind ?? "vat"})`
+    );
+  }
+
+  const invoiceData = {
+    ...copyInvoiceForCreation(proforma),
+    ...sanitizeParams({
+      invoice_date: params.invoice_date as string | undefined,
+      sale_date: params.sale_date as string | undefined,
+      payment_date: params.payment_date as string | undefined,
+    }),
+    kind: "vat",
+    proforma_uuid: proforma.uuid,
+  };
+
+  const response = await apiClient.post<CreateInvoiceResponse>(
+    "/async/invoices.json",
+    { invoice: invoiceData as unknown as CreateInvoiceRequest }
+  );
+
+  if (params.wait === true) {
+    const result = await waitForInvoiceTask(
+      apiClient,
+      response.task_reference_number,
+      { timeout_ms: params.timeout_ms as number | undefined }
+    );
+    return createTaskResultResponse(result);
+  }
+
+  return createJsonResponse(response, NO_MONETARY_FIELDS);
+}
+
+/**
+ * Clone an existing invoice into a new draft
+ * Copies client, terms and services; dates, lines and notes can be overridden
+ */
+export async function cloneInvoice(
+  apiClient: ApiClient,
+  args: unknown
+): Promise<ToolResponse> {
+  const params = args as Record<string, unknown>;
+
+  validateUUID(params.invoice_uuid, "invoice_uuid");
+  for (const field of ["invoice_date", "sale_date", "payment_date"]) {
+    if (params[field] !== undefined) {
+      validateDateString(params[field], field);
+    }
+  }
+  if (params.notes !== undefined && typeof params.notes !== "string") {
+    throw new ValidationError("notes", "must be a string");
+  }
+  if (params.line_overrides !== undefined) {
+    validateArray(params.line_overrides, "line_overrides", validateLineOverride);
+  }
+  validateWaitParams(params);
+
+  const source = await apiClient.get<Invoice>(`/invoices/${params.invoice_uuid}.json`);
+  const kind = source.kind ?? "vat";
+  if (kind !== "vat" && kind !== "proforma") {
+    throw new ValidationError(
+      "invoice_uuid",
+      `${kind} invoices cannot be cloned; only VAT and proforma invoices can`
+    );
+  }
+
+  const invoiceData = copyInvoiceForCreation(source);
+  const services = invoiceData.services as Record<string, unknown>[];
+  const currency = source.currency ?? DEFAULT_CURRENCY;
+
+  for (const override of (params.line_overrides as Record<string, unknown>[] | undefined) ?? []) {
+    const position = override.position as number;
+    if (position > services.length) {
+      throw new ValidationError(
+        "line_overrides",
+        `invoice ${source.number} has ${services.length} line(s), no line ${position}`
+      );
+    }
+
+    const service = services[position - 1];
+    if (override.name !== undefined) {
+      service.name = override.name;
+    }
+    // A line priced by its net amount keeps that amount whatever the quantity,
+    // so it is repriced per unit before the quantity changes
+    if (
+      override.quantity !== undefined &&
+      override.unit_net_price === undefined &&
+      service.unit_net_price === undefined
+    ) {
+      const quantity = Number(service.quantity ?? 1);
+      const unitNetPrice = Number(service.net_price ?? 0) / quantity;
+      if (!Number.isInteger(unitNetPrice)) {
+        throw new ValidationError(
+          "line_overrides",
+          `line ${position} has no unit price and its net amount ` +
+            `${minorToMajor(Number(service.net_price), currency)} ${currency} does not divide ` +
+            `by quantity ${quantity}; set unit_net_price together with quantity`
+        );
+      }
+      delete service.net_price;
+      service.unit_net_price = unitNetPrice;
+    }
+    if (override.quantity !== undefined) {
+      service.quantity = override.quantity;
+    }
+    if (override.unit_net_price !== undefined) {
+      delete service.net_price;
+      service.unit_net_price = majorToMinor(override.unit_net_price as number, currency);
+    }
+  }
+
+  // Keep the original payment term unless a payment date is given
+  const invoiceDate =
+    (params.invoice_date as string | undefined) ?? new Date().toISOString().substring(0, 10);
+  let paymentDate = params.payment_date as string | undefined;
+  if (paymentDate === undefined && source.invoice_date && source.payment_date) {
+    paymentDate = addDays(invoiceDate, daysBetween(source.invoice_date, source.payment_date));
+  }
+
+  Object.assign(
+    invoiceData,
+    sanitizeParams({
+      kind,
+      status: "draft",
+      invoice_date: invoiceDate,
+      sale_date: params.sale_date as string | undefined,
+      payment_date: paymentDate,
+      notes: params.notes as string | undefined,
+    })
+  );
+
+  const response = await apiClient.post<CreateInvoiceResponse>(
+    "/async/invoices.json",
+    { invoice: invoiceData as unknown as CreateInvoiceRequest }
+  );
+
+  if (params.wait === true) {
+    const result = await waitForInvoiceTask(
+      apiClient,
+      response.task_reference_number,
+      { timeout_ms: params.timeout_ms as number | undefined }
+    );
+    return createTaskResultResponse(result);
+  }
+
+  return createJsonResponse(response, NO_MONETARY_FIELDS);
 }
@@ -0,0 +1,188 @@
+/**
+ * KSeF tool handlers
+ *
+ * Implements export of invoices as KSeF (Krajowy System e-Faktur) XML and
+ * submission to KSeF through inFakt, with status and UPO tracking.
+ */
+
+import type { ApiClient } from "../api-client.js";
+import type {
+  AccountInfo,
+  BankAccount,
+  Invoice,
+  KsefInvoiceStatus,
+  KsefSchemaVersion,
+  KsefStatusResult,
+  ToolResponse,
+} from "../types.js";
+import {
+  validateBoolean,
+  validateEnum,
+  validateRequiredString,
+  validateUUID,
+  ValidationError,
+} from "../validation.js";
+import { validateWaitParams, waitForKsefStatus } from "../async-tasks.js";
+import {
+  DEFAULT_KSEF_SCHEMA_VERSION,
+  exportKsefInvoice,
+  KSEF_SCHEMA_VERSIONS,
+} from "../ksef.js";
+
+/**
+ * Creates a JSON text response
+ */
+function createJsonResponse(data: unknown): ToolResponse {
+  return {
+    content: [
+      {
+        type: "text",
+        text: JSON.stringify(data, null, 2),
+      },
+    ],
+  };
+}
+
+/**
+ * Creates a response for a KSeF state, flagged as an error when rejected
+ */
+function createStatusResponse(result: KsefStatusResult): ToolResponse {
+  const response = createJsonResponse(result);
+  if (result.ksef_status === "rejected") {
+    response.isError = true;
+  }
+  return response;
+}
+
+/**
+ * Gets the bank account printed on an invoice, if any
+ */
+async function getInvoiceBankAccount(
+  apiClient: ApiClient,
+  invoice: Invoice
+): Promise<BankAccount | undefined> {
+  if (invoice.bank_account_id === undefined || invoice.bank_account_id === null) {
+    return undefined;
+  }
+
+  const response = await apiClient.get<{ entities: BankAccount[] }>("/bank_accounts.json");
+  return response.entities.find((account) => account.id === invoice.bank_account_id);
+}
+
+/**
+ * Export an invoice as KSeF FA(2)/FA(3) XML with offline schema validation
+ */
+export async function exportInvoiceKsefXml(
+  apiClient: ApiClient,
+  args: unknown
+): Promise<ToolResponse> {
+  const params = args as Record<string, unknown>;
+
+  validateUUID(params.invoice_uuid, "invoice_uuid");
+  if (params.schema_version !== undefined) {
+    validateEnum(params.schema_version, "schema_version", KSEF_SCHEMA_VERSIONS);
+  }
+  if (params.exemption_basis !== undefined) {
+    validateRequiredString(params.exemption_basis, "exemption_basis");
+  }
+
+  const [invoice, seller] = await Promise.all([
+    apiClient.get<Invoice>(`/invoices/${params.invoice_uuid}.json`),
+    apiClient.get<AccountInfo>("/account.json"),
+  ]);
+  const bankAccount = await getInvoiceBankAccount(apiClient, invoice);
+
+  const result = exportKsefInvoice(invoice, seller, {
+    version: (params.schema_version as KsefSchemaVersion | undefined) ?? DEFAULT_KSEF_SCHEMA_VERSION,
+    bankAccount,
+    exemptionBasis: params.exemption_basis as string | undefined,
+  });
+
+  return createJsonResponse(result);
+}
+
+/**
+ * Submit an issued invoice to KSeF through inFakt
+ * With `wait: true`, polls until KSeF accepts or rejects the invoice
+ */
+export async function submitInvoiceToKsef(
+  apiClient: ApiClient,
+  args: unknown
+): Promise<ToolResponse> {
+  const params = args as Record<string, unknown>;
+
+  validateUUID(params.invoice_uuid, "invoice_uuid");
+  validateWaitParams(params);
+
+  const invoice = await apiClient.get<
+    Pick<Invoice, "number" | "kind" | "status" | "ksef_status" | "ksef_number">
+  >(`/invoices/${params.invoice_uuid}.json`, {
+    params: { fields: "number,kind,status,ksef_status,ksef_number" },
+  });
+
+  if (invoice.kind === "proforma") {
+    throw new ValidationError(
+      "invoice_uuid",
+      `invoice ${invoice.number} is a proforma, which is not a tax document`
+    );
+  }
+  if (invoice.status === "draft") {
+    throw new ValidationError(
+      "invoice_uuid",
+      `invoice ${invoice.number} is a draft; issue it before submitting to KSeF`
+    );
+  }
+  if (invoice.ksef_status === "accepted") {
+    throw new ValidationError(
+      "invoice_uuid",
+      `invoice ${invoice.number} is already in KSeF as ${invoice.ksef_number}`
+    );
+  }
+  if (invoice.ksef_status === "pending") {
+    throw new ValidationError(
+      "invoice_uuid",
+      `invoice ${invoice.number} is already being processed by KSeF; check infakt_get_invoice_ksef_status`
+    );
+  }
+
+  const submission = await apiClient.post<KsefInvoiceStatus>(
+    `/invoices/${params.invoice_uuid}/ksef.json`
+  );
+
+  if (params.wait === true) {
+    const result = await waitForKsefStatus(apiClient, params.invoice_uuid, {
+      timeout_ms: params.timeout_ms as number | undefined,
+    });
+    return createStatusResponse(result);
+  }
+
+  return createStatusResponse({ invoice_uuid: params.invoice_uuid, ...submission });
+}
+
+/**
+ * Get the KSeF state, KSeF number and optionally the UPO of an invoice
+ */
+export async function getInvoiceKsefStatus(
+  apiClient: ApiClient,
+  args: unknown
+): Promise<ToolResponse> {
+  const params = args as Record<string, unknown>;
+
+  validateUUID(params.invoice_uuid, "invoice_uuid");
+  if (params.include_upo !== undefined) {
+    validateBoolean(params.include_upo, "include_upo");
+  }
+
+  const status = await apiClient.get<KsefInvoiceStatus>(
+    `/invoices/${params.invoice_uuid}/ksef.json`
+  );
+  const result: KsefStatusResult = { invoice_uuid: params.invoice_uuid, ...status };
+
+  // The UPO (official receipt) exists only for accepted invoices
+  if (params.include_upo === true && status.ksef_status === "accepted") {
+    const upo = await apiClient.getBinary(`/invoices/${params.invoice_uuid}/ksef/upo.xml`);
+    result.upo = Buffer.from(upo).toString("utf8");
+  }
+
+  return createStatusResponse(result);
+}
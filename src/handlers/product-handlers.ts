@@ -12,20 +12,38 @@ import type {
   // ListProductsParams,
   UpdateProductParams,
   RansackQueryParams,
+  FetchAllParams,
 } from "../types.js";
 import {
   validateRequiredString,
   validatePositiveNumber,
   validatePaginationParams,
+  validateBoolean,
   sanitizeParams,
 } from "../validation.js";
-import { convertAllMonetaryFields } from "../currency.js";
+import {
+  convertMonetaryFieldsBySchema,
+  convertInputMonetaryFields,
+  listOf,
+  MonetaryFieldMap,
+  PRODUCT_MONETARY_FIELDS,
+} from "../currency.js";
+import { fetchAllPages, isFetchAll, validateFetchAllParams } from "../pagination.js";
+import { applyRansackFilters, PRODUCT_FILTER_FIELDS } from "../filters.js";
 
 /**
  * Creates a JSON text response
+ * Converts the monetary fields described by the field map from grosze to PLN,
+ * unless raw amounts were requested
  */
-function createJsonResponse(data: unknown): ToolResponse {
-  const convertedData = convertAllMonetaryFields(data);
+function createJsonResponse(
+  data: unknown,
+  moneyFields: MonetaryFieldMap,
+  rawAmounts: boolean = false
+): ToolResponse {
+  const convertedData = rawAmounts
+    ? data
+    : convertMonetaryFieldsBySchema(data, moneyFields);
   return {
     content: [
       {
@@ -61,6 +79,10 @@ export async function listProducts(
 
   // Validate pagination
   validatePaginationParams(params);
+  validateFetchAllParams(params);
+  if (params.raw_amounts !== undefined) {
+    validateBoolean(params.raw_amounts, "raw_amounts");
+  }
 
   // Build query parameters
   const queryParams: RansackQueryParams = sanitizeParams({
@@ -77,8 +99,20 @@ export async function listProducts(
     filters.name_cont = params.name;
   }
 
-  if (Object.keys(filters).length > 0) {
-    queryParams.q = filters;
+  applyRansackFilters(queryParams, filters, params.filters, PRODUCT_FILTER_FIELDS);
+
+  if (isFetchAll(params)) {
+    const result = await fetchAllPages<Product>(
+      apiClient,
+      "/products.json",
+      queryParams,
+      params as FetchAllParams
+    );
+    return createJsonResponse(
+      result,
+      listOf(PRODUCT_MONETARY_FIELDS),
+      params.raw_amounts === true
+    );
   }
 
   const response = await apiClient.get<{ entities: Product[] }>(
@@ -86,7 +120,11 @@ export async function listProducts(
     { params: queryParams }
   );
 
-  return createJsonResponse(response);
+  return createJsonResponse(
+    response,
+    listOf(PRODUCT_MONETARY_FIELDS),
+    params.raw_amounts === true
+  );
 }
 
 /**
@@ -99,12 +137,19 @@ export async function getProduct(
   const params = args as Record<string, unknown>;
 
   validatePositiveNumber(params.product_id, "product_id");
+  if (params.raw_amounts !== undefined) {
+    validateBoolean(params.raw_amounts, "raw_amounts");
+  }
 
   const response = await apiClient.get<Product>(
     `/products/${params.product_id}.json`
   );
 
-  return createJsonResponse(response);
+  return createJsonResponse(
+    response,
+    PRODUCT_MONETARY_FIELDS,
+    params.raw_amounts === true
+  );
 }
 
 /**
@@ -127,11 +172,14 @@ export async function createProduct(
     throw new Error("tax_symbol is required and must be a string or number");
   }
 
+  // Convert price from PLN to grosze
+  const productData = convertInputMonetaryFields(params);
+
   const response = await apiClient.post<Product>("/products.json", {
-    product: params as unknown as CreateProductRequest,
+    product: productData as unknown as CreateProductRequest,
   });
 
-  return createJsonResponse(response);
+  return createJsonResponse(response, PRODUCT_MONETARY_FIELDS);
 }
 
 /**
@@ -154,10 +202,15 @@ export async function updateProduct(
 
   const response = await apiClient.put<Product>(
     `/products/${product_id}.json`,
-    { product: productData as unknown as Omit<UpdateProductParams, "product_id"> }
+    {
+      product: convertInputMonetaryFields(productData) as unknown as Omit<
+        UpdateProductParams,
+        "product_id"
+      >,
+    }
   );
 
-  return createJsonResponse(response);
+  return createJsonResponse(response, PRODUCT_MONETARY_FIELDS);
 }
 
 /**
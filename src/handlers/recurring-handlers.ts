@@ -0,0 +1,320 @@
+/**
+ * Recurring invoice tool handlers
+ *
+ * Implements management of locally stored recurring invoice schedules and
+ * the run that issues due invoices through createInvoice.
+ */
+
+import { randomUUID } from "node:crypto";
+import type { ApiClient } from "../api-client.js";
+import type {
+  CreateInvoiceResponse,
+  RecurringInvoiceTemplate,
+  RecurringSchedule,
+  ToolResponse,
+} from "../types.js";
+import {
+  validateArray,
+  validateBoolean,
+  validateCurrencyCode,
+  validateDateString,
+  validateEnum,
+  validateInvoiceService,
+  validateNonNegativeNumber,
+  validatePositiveNumber,
+  validateRequiredString,
+  validateUUID,
+  ValidationError,
+  PAYMENT_METHODS,
+} from "../validation.js";
+import {
+  FREQUENCY_MONTHS,
+  firstOccurrenceIndex,
+  getRecurringStore,
+  runDueSchedules,
+  skipOccurrencesBefore,
+  updateNextRunDate,
+} from "../recurring.js";
+import { addDays } from "../dates.js";
+import { createInvoice } from "./invoice-handlers.js";
+
+/**
+ * Default payment term in days
+ */
+const DEFAULT_PAYMENT_DAYS = 14;
+
+/**
+ * Creates a JSON text response
+ */
+function createJsonResponse(data: unknown): ToolResponse {
+  return {
+    content: [
+      {
+        type: "text",
+        text: JSON.stringify(data, null, 2),
+      },
+    ],
+  };
+}
+
+/**
+ * Creates a text response
+ */
+function createTextResponse(text: string): ToolResponse {
+  return {
+    content: [
+      {
+        type: "text",
+        text,
+      },
+    ],
+  };
+}
+
+/**
+ * Today's date (UTC)
+ */
+function today(): string {
+  return new Date().toISOString().substring(0, 10);
+}
+
+/**
+ * Finds a schedule of the calling tenant
+ *
+ * @throws {ValidationError} If no such schedule exists for the tenant
+ */
+function findSchedule(
+  schedules: RecurringSchedule[],
+  apiClient: ApiClient,
+  scheduleId: string
+): RecurringSchedule {
+  const schedule = schedules.find(
+    (entry) => entry.id === scheduleId && entry.tenant_id === apiClient.tenantId
+  );
+  if (!schedule) {
+    throw new ValidationError("schedule_id", `schedule ${scheduleId} not found`);
+  }
+  return schedule;
+}
+
+/**
+ * Create a recurring invoice schedule
+ */
+export async function createRecurringInvoice(
+  apiClient: ApiClient,
+  args: unknown
+): Promise<ToolResponse> {
+  const params = args as Record<string, unknown>;
+
+  // Schedule
+  validateRequiredString(params.name, "name");
+  validateEnum(params.frequency, "frequency", Object.keys(FREQUENCY_MONTHS) as [string, ...string[]]);
+  validatePositiveNumber(params.day_of_month, "day_of_month");
+  if (!Number.isInteger(params.day_of_month) || params.day_of_month > 31) {
+    throw new ValidationError("day_of_month", "must be an integer between 1 and 31");
+  }
+  if (params.start_date !== undefined) {
+    validateDateString(params.start_date, "start_date");
+  }
+  if (params.end_date !== undefined) {
+    validateDateString(params.end_date, "end_date");
+  }
+
+  // Invoice template
+  validateRequiredString(params.client_company_name, "client_company_name");
+  validateEnum(params.payment_method, "payment_method", PAYMENT_METHODS);
+  if (!params.services) {
+    throw new ValidationError("services", "is required");
+  }
+  validateArray(params.services, "services", validateInvoiceService);
+  if (params.client_id !== undefined) {
+    validatePositiveNumber(params.client_id, "client_id");
+  }
+  if (params.payment_days !== undefined) {
+    validateNonNegativeNumber(params.payment_days, "payment_days");
+    if (!Number.isInteger(params.payment_days)) {
+      throw new ValidationError("payment_days", "must be an integer");
+    }
+  }
+  if (params.currency !== undefined) {
+    validateCurrencyCode(params.currency, "currency");
+  }
+  if (params.bank_account_id !== undefined) {
+    validatePositiveNumber(params.bank_account_id, "bank_account_id");
+  }
+  if (params.notes !== undefined && typeof params.notes !== "string") {
+    throw new ValidationError("notes", "must be a string");
+  }
+
+  const startDate = (params.start_date as string | undefined) ?? today();
+  if (params.end_date !== undefined && params.end_date < startDate) {
+    throw new ValidationError("end_date", "must not be before start_date");
+  }
+
+  const cadence = {
+    frequency: params.frequency as RecurringSchedule["cadence"]["frequency"],
+    day_of_month: params.day_of_month,
+  };
+  const template: RecurringInvoiceTemplate = {
+    client_id: params.client_id as number | undefined,
+    client_company_name: params.client_company_name,
+    payment_method: params.payment_method,
+    services: params.services as unknown as RecurringInvoiceTemplate["services"],
+    payment_days: (params.payment_days as number | undefined) ?? DEFAULT_PAYMENT_DAYS,
+    currency: params.currency as string | undefined,
+    bank_account_id: params.bank_account_id as number | undefined,
+    notes: params.notes as string | undefined,
+  };
+
+  const now = new Date().toISOString();
+  const schedule: RecurringSchedule = {
+    id: randomUUID(),
+    tenant_id: apiClient.tenantId,
+    name: params.name,
+    status: "active",
+    cadence,
+    start_date: startDate,
+    end_date: params.end_date as string | undefined,
+    next_occurrence: firstOccurrenceIndex(cadence, startDate),
+    template,
+    runs: [],
+    created_at: now,
+    updated_at: now,
+  };
+  updateNextRunDate(schedule);
+
+  await getRecurringStore().update((schedules) => {
+    schedules.push(schedule);
+  });
+
+  return createJsonResponse(schedule);
+}
+
+/**
+ * List recurring invoice schedules
+ */
+export async function listRecurringInvoices(
+  apiClient: ApiClient,
+  args: unknown
+): Promise<ToolResponse> {
+  const params = args as Record<string, unknown>;
+
+  if (params.status !== undefined) {
+    validateEnum(params.status, "status", ["active", "paused"] as const);
+  }
+
+  const schedules = await getRecurringStore().list(apiClient.tenantId);
+
+  return createJsonResponse(
+    schedules.filter((schedule) => params.status === undefined || schedule.status === params.status)
+  );
+}
+
+/**
+ * Pause or resume a recurring invoice schedule
+ *
+ * Resuming skips the occurrences missed while paused unless `catch_up` is set.
+ */
+export async function pauseRecurringInvoice(
+  apiClient: ApiClient,
+  args: unknown
+): Promise<ToolResponse> {
+  const params = args as Record<string, unknown>;
+
+  validateUUID(params.schedule_id, "schedule_id");
+  if (params.paused !== undefined) {
+    validateBoolean(params.paused, "paused");
+  }
+  if (params.catch_up !== undefined) {
+    validateBoolean(params.catch_up, "catch_up");
+  }
+
+  const resume = params.paused === false;
+  const schedule = await getRecurringStore().update((schedules) => {
+    const found = findSchedule(schedules, apiClient, params.schedule_id as string);
+    if (resume && found.status === "paused" && params.catch_up !== true) {
+      skipOccurrencesBefore(found, today());
+    }
+    found.status = resume ? "active" : "paused";
+    found.updated_at = new Date().toISOString();
+    return found;
+  });
+
+  return createJsonResponse(schedule);
+}
+
+/**
+ * Delete a recurring invoice schedule (invoices already issued are kept)
+ */
+export async function deleteRecurringInvoice(
+  apiClient: ApiClient,
+  args: unknown
+): Promise<ToolResponse> {
+  const params = args as Record<string, unknown>;
+
+  validateUUID(params.schedule_id, "schedule_id");
+
+  await getRecurringStore().update((schedules) => {
+    const found = findSchedule(schedules, apiClient, params.schedule_id as string);
+    schedules.splice(schedules.indexOf(found), 1);
+  });
+
+  return createTextResponse(
+    `Recurring invoice schedule ${params.schedule_id} deleted successfully`
+  );
+}
+
+/**
+ * Create all recurring invoices that are due
+ */
+export async function runDueRecurringInvoices(
+  apiClient: ApiClient,
+  args: unknown
+): Promise<ToolResponse> {
+  const params = args as Record<string, unknown>;
+
+  if (params.as_of !== undefined) {
+    validateDateString(params.as_of, "as_of");
+  }
+  if (params.dry_run !== undefined) {
+    validateBoolean(params.dry_run, "dry_run");
+  }
+  if (params.retry_pending !== undefined) {
+    validateBoolean(params.retry_pending, "retry_pending");
+  }
+
+  const asOf = (params.as_of as string | undefined) ?? today();
+
+  const outcomes = await runDueSchedules(
+    getRecurringStore(),
+    apiClient.tenantId,
+    asOf,
+    async (schedule, date) => {
+      const { payment_days, ...template } = schedule.template;
+      const response = await createInvoice(apiClient, {
+        ...template,
+        invoice_date: date,
+        sale_date: date,
+        payment_date: addDays(date, payment_days),
+      });
+      const task = JSON.parse(response.content[0].text) as CreateInvoiceResponse;
+      return task.task_reference_number;
+    },
+    {
+      dry_run: params.dry_run === true,
+      retry_pending: params.retry_pending === true,
+    }
+  );
+
+  const response = createJsonResponse({
+    as_of: asOf,
+    dry_run: params.dry_run === true,
+    created: outcomes.filter((outcome) => outcome.result === "created").length,
+    failed: outcomes.filter((outcome) => outcome.result === "failed").length,
+    outcomes,
+  });
+  if (outcomes.some((outcome) => outcome.result === "failed")) {
+    response.isError = true;
+  }
+  return response;
+}
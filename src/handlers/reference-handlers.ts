@@ -12,13 +12,22 @@ import type {
   BankAccount,
   AccountInfo,
 } from "../types.js";
-import { convertAllMonetaryFields } from "../currency.js";
+import {
+  convertMonetaryFieldsBySchema,
+  MonetaryFieldMap,
+  NO_MONETARY_FIELDS,
+  ACCOUNT_INFO_MONETARY_FIELDS,
+} from "../currency.js";
 
 /**
  * Creates a JSON text response
+ * Converts the monetary fields described by the field map from grosze to PLN
  */
-function createJsonResponse(data: unknown): ToolResponse {
-  const convertedData = convertAllMonetaryFields(data);
+function createJsonResponse(
+  data: unknown,
+  moneyFields: MonetaryFieldMap
+): ToolResponse {
+  const convertedData = convertMonetaryFieldsBySchema(data, moneyFields);
   return {
     content: [
       {
@@ -40,7 +49,7 @@ export async function getVatRates(
     "/vat_rates.json"
   );
 
-  return createJsonResponse(response);
+  return createJsonResponse(response, NO_MONETARY_FIELDS);
 }
 
 /**
@@ -54,7 +63,7 @@ export async function getBankAccounts(
     "/bank_accounts.json"
   );
 
-  return createJsonResponse(response);
+  return createJsonResponse(response, NO_MONETARY_FIELDS);
 }
 
 /**
@@ -66,5 +75,5 @@ export async function getAccountInfo(
 ): Promise<ToolResponse> {
   const response = await apiClient.get<AccountInfo>("/account.json");
 
-  return createJsonResponse(response);
+  return createJsonResponse(response, ACCOUNT_INFO_MONETARY_FIELDS);
 }
@@ -0,0 +1,177 @@
+/**
+ * Tax reporting tool handlers
+ *
+ * Implements JPK file generation and the VAT summary from the sales and
+ * purchase documents of a settlement period.
+ */
+
+import type { ApiClient } from "../api-client.js";
+import type { AccountInfo, JpkFormat, JpkTaxpayer, ToolResponse } from "../types.js";
+import {
+  validateBoolean,
+  validateDateString,
+  validateEmail,
+  validateEnum,
+  validateNonNegativeNumber,
+  validateRequiredString,
+  ValidationError,
+} from "../validation.js";
+import {
+  convertMonetaryFieldsBySchema,
+  MonetaryFieldMap,
+  NO_MONETARY_FIELDS,
+  VAT_SUMMARY_MONETARY_FIELDS,
+} from "../currency.js";
+import {
+  buildVatRegisterCsv,
+  fetchIssuedInvoices,
+  fetchVatRegisters,
+  resolveVatPeriod,
+  summarizeVatRegisters,
+} from "../vat-registers.js";
+import { buildJpkFa, buildJpkV7m, finalizeJpk } from "../jpk.js";
+
+/**
+ * Supported JPK structures
+ */
+const JPK_FORMATS: readonly JpkFormat[] = ["JPK_V7M", "JPK_FA"];
+
+/**
+ * Creates a JSON text response
+ */
+function createJsonResponse(
+  data: unknown,
+  moneyFields: MonetaryFieldMap,
+  rawAmounts: boolean = false
+): ToolResponse {
+  const convertedData = rawAmounts
+    ? data
+    : convertMonetaryFieldsBySchema(data, moneyFields);
+  return {
+    content: [
+      {
+        type: "text",
+        text: JSON.stringify(convertedData, null, 2),
+      },
+    ],
+  };
+}
+
+/**
+ * Validates the taxpayer data of a JPK file
+ */
+function validateTaxpayer(params: Record<string, unknown>): JpkTaxpayer {
+  validateRequiredString(params.tax_office_code, "tax_office_code");
+  if (!/^\d{4}$/.test(params.tax_office_code)) {
+    throw new ValidationError("tax_office_code", "must be a 4-digit tax office code");
+  }
+  if (params.email !== undefined) {
+    validateEmail(params.email, "email");
+  }
+  if (params.birth_date !== undefined) {
+    validateDateString(params.birth_date, "birth_date");
+  }
+  for (const field of ["phone", "first_name", "last_name", "voivodeship", "county", "municipality"]) {
+    if (params[field] !== undefined) {
+      validateRequiredString(params[field], field);
+    }
+  }
+
+  return {
+    tax_office_code: params.tax_office_code,
+    email: params.email as string | undefined,
+    phone: params.phone as string | undefined,
+    first_name: params.first_name as string | undefined,
+    last_name: params.last_name as string | undefined,
+    birth_date: params.birth_date as string | undefined,
+    voivodeship: params.voivodeship as string | undefined,
+    county: params.county as string | undefined,
+    municipality: params.municipality as string | undefined,
+  };
+}
+
+/**
+ * Generate a JPK_V7M or JPK_FA file for a period with offline schema validation
+ */
+export async function generateJpk(apiClient: ApiClient, args: unknown): Promise<ToolResponse> {
+  const params = args as Record<string, unknown>;
+
+  validateEnum(params.format, "format", JPK_FORMATS);
+  if (params.format === "JPK_V7M" && params.quarter !== undefined) {
+    throw new ValidationError("quarter", "JPK_V7M is filed monthly; set month instead");
+  }
+  const period = resolveVatPeriod(params.year, params.month, params.quarter);
+  const taxpayer = validateTaxpayer(params);
+
+  if (params.purpose !== undefined && params.purpose !== 1 && params.purpose !== 2) {
+    throw new ValidationError("purpose", "must be 1 (original) or 2 (correction)");
+  }
+  if (params.carried_forward_vat !== undefined) {
+    validateNonNegativeNumber(params.carried_forward_vat, "carried_forward_vat");
+    if (!Number.isInteger(params.carried_forward_vat)) {
+      throw new ValidationError("carried_forward_vat", "must be an amount in whole PLN");
+    }
+  }
+  if (params.exemption_basis !== undefined) {
+    validateRequiredString(params.exemption_basis, "exemption_basis");
+  }
+
+  const options = {
+    taxpayer,
+    purpose: params.purpose as 1 | 2 | undefined,
+    carriedForwardVat: params.carried_forward_vat as number | undefined,
+    exemptionBasis: params.exemption_basis as string | undefined,
+  };
+
+  const seller = await apiClient.get<AccountInfo>("/account.json");
+
+  if (params.format === "JPK_V7M") {
+    const registers = await fetchVatRegisters(apiClient, period);
+    const result = finalizeJpk(
+      "JPK_V7M",
+      period,
+      buildJpkV7m(registers, seller, options),
+      registers.skipped,
+      registers.truncated
+    );
+    return createJsonResponse(result, NO_MONETARY_FIELDS);
+  }
+
+  const { invoices, truncated } = await fetchIssuedInvoices(
+    apiClient,
+    "invoice_date",
+    period.from,
+    period.to
+  );
+  const result = finalizeJpk(
+    "JPK_FA",
+    period,
+    buildJpkFa(invoices, seller, period, options),
+    [],
+    truncated
+  );
+  return createJsonResponse(result, NO_MONETARY_FIELDS);
+}
+
+/**
+ * Get output and input VAT per rate and the VAT payable for a month or quarter
+ */
+export async function getVatSummary(apiClient: ApiClient, args: unknown): Promise<ToolResponse> {
+  const params = args as Record<string, unknown>;
+
+  const period = resolveVatPeriod(params.year, params.month, params.quarter);
+  if (params.include_register !== undefined) {
+    validateBoolean(params.include_register, "include_register");
+  }
+  if (params.raw_amounts !== undefined) {
+    validateBoolean(params.raw_amounts, "raw_amounts");
+  }
+
+  const registers = await fetchVatRegisters(apiClient, period);
+  const summary = summarizeVatRegisters(registers);
+  if (params.include_register === true) {
+    summary.register_csv = buildVatRegisterCsv(registers);
+  }
+
+  return createJsonResponse(summary, VAT_SUMMARY_MONETARY_FIELDS, params.raw_amounts === true);
+}
@@ -0,0 +1,359 @@
+/**
+ * HTTP transport for inFakt MCP Server
+ *
+ * Hosts the MCP server over HTTP so several agents or web-based clients can
+ * share one instance. Supports the MCP Streamable HTTP transport as well as
+ * the legacy HTTP+SSE transport, a health endpoint and graceful shutdown.
+ *
+ * Every session is bound to the tenant that opened it; requests presenting
+ * other credentials for an existing session are rejected.
+ *
+ * Endpoints:
+ * - POST/GET/DELETE /mcp - Streamable HTTP transport
+ * - GET /sse, POST /messages?sessionId=... - Legacy SSE transport
+ * - GET /health - Health check
+ */
+
+import { createServer, IncomingMessage, ServerResponse } from "node:http";
+import { randomUUID } from "node:crypto";
+import type { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
+import { isInitializeRequest, ErrorCode } from "@modelcontextprotocol/sdk/types.js";
+
+/**
+ * Maximum accepted request body size (4 MB)
+ */
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+
+/**
+ * Endpoint paths
+ */
+const PATHS = {
+  MCP: "/mcp",
+  SSE: "/sse",
+  MESSAGES: "/messages",
+  HEALTH: "/health",
+} as const;
+
+/**
+ * HTTP error with status code, surfaced to the client as a JSON-RPC error
+ */
+export class HttpError extends Error {
+  constructor(
+    public readonly statusCode: number,
+    message: string
+  ) {
+    super(message);
+    this.name = "HttpError";
+  }
+}
+
+/**
+ * Tenant owning a session
+ */
+export interface SessionTenant {
+  /** Opaque identifier, safe to log */
+  id: string;
+  /** inFakt API key used for the session */
+  apiKey: string;
+}
+
+/**
+ * Options for starting the HTTP server
+ */
+export interface HttpServerOptions {
+  host: string;
+  port: number;
+  /** Resolves the tenant for a request; throws HttpError when unauthenticated */
+  authenticate: (req: IncomingMessage) => SessionTenant;
+  /** Factory creating a fresh MCP server for every session */
+  createServer: (tenant: SessionTenant) => Server;
+  /** Called once for every server created by createServer, when its session ends */
+  onSessionClosed?: (tenant: SessionTenant) => void;
+}
+
+/**
+ * Handle to a running HTTP server
+ */
+export interface HttpServerHandle {
+  /** Address the server is listening on */
+  url: string;
+  /** Closes all sessions and stops accepting connections */
+  close(): Promise<void>;
+}
+
+/**
+ * An active MCP session bound to one transport
+ */
+interface Session {
+  transport: StreamableHTTPServerTransport | SSEServerTransport;
+  server: Server;
+  tenantId: string;
+}
+
+/**
+ * Sends a JSON response
+ */
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+}
+
+/**
+ * Sends a JSON-RPC error response
+ */
+function sendJsonRpcError(
+  res: ServerResponse,
+  status: number,
+  code: ErrorCode,
+  message: string
+): void {
+  sendJson(res, status, {
+    jsonrpc: "2.0",
+    error: { code, message },
+    id: null,
+  });
+}
+
+/**
+ * Reads and parses a JSON request body
+ */
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+
+  for await (const chunk of req) {
+    size += (chunk as Buffer).length;
+    if (size > MAX_BODY_BYTES) {
+      throw new Error(`Request body exceeds ${MAX_BODY_BYTES} bytes`);
+    }
+    chunks.push(chunk as Buffer);
+  }
+
+  const raw = Buffer.concat(chunks).toString("utf8");
+  return raw.length > 0 ? JSON.parse(raw) : undefined;
+}
+
+/**
+ * Starts the HTTP server hosting the MCP endpoints
+ *
+ * @param options - Bind address and MCP server factory
+ * @returns Handle used to stop the server
+ */
+export async function startHttpServer(
+  options: HttpServerOptions
+): Promise<HttpServerHandle> {
+  const sessions = new Map<string, Session>();
+
+  /**
+   * Returns a callback reporting the end of a session once, however many
+   * close events its transport emits
+   */
+  function sessionCloser(tenant: SessionTenant): () => void {
+    let closed = false;
+    return () => {
+      if (!closed) {
+        closed = true;
+        options.onSessionClosed?.(tenant);
+      }
+    };
+  }
+
+  /**
+   * Looks up a session and checks that it belongs to the requesting tenant
+   */
+  function getSession(sessionId: string, tenant: SessionTenant): Session | undefined {
+    const session = sessions.get(sessionId);
+    if (session && session.tenantId !== tenant.id) {
+      throw new HttpError(403, "Session belongs to a different tenant");
+    }
+    return session;
+  }
+
+  /**
+   * Handles Streamable HTTP requests on /mcp
+   */
+  async function handleStreamableRequest(
+    req: IncomingMessage,
+    res: ServerResponse,
+    tenant: SessionTenant
+  ): Promise<void> {
+    const sessionId = req.headers["mcp-session-id"];
+    const session = typeof sessionId === "string" ? getSession(sessionId, tenant) : undefined;
+
+    if (session && !(session.transport instanceof StreamableHTTPServerTransport)) {
+      sendJsonRpcError(res, 400, ErrorCode.InvalidRequest, "Session uses a different transport");
+      return;
+    }
+
+    // Unknown (e.g. expired) sessions get 404 so that clients start a new one
+    if (typeof sessionId === "string" && !session) {
+      sendJsonRpcError(res, 404, ErrorCode.InvalidRequest, "Session not found");
+      return;
+    }
+
+    if (req.method !== "POST") {
+      if (!session) {
+        sendJsonRpcError(res, 400, ErrorCode.InvalidRequest, "Invalid or missing session ID");
+        return;
+      }
+      await (session.transport as StreamableHTTPServerTransport).handleRequest(req, res);
+      return;
+    }
+
+    const body = await readJsonBody(req);
+
+    if (session) {
+      await (session.transport as StreamableHTTPServerTransport).handleRequest(req, res, body);
+      return;
+    }
+
+    if (sessionId !== undefined || !isInitializeRequest(body)) {
+      sendJsonRpcError(res, 400, ErrorCode.InvalidRequest, "Invalid or missing session ID");
+      return;
+    }
+
+    const server = options.createServer(tenant);
+    const closeSession = sessionCloser(tenant);
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (id) => {
+        sessions.set(id, { transport, server, tenantId: tenant.id });
+        console.error(`[inFakt MCP] Session opened: ${id} (streamable HTTP, tenant ${tenant.id})`);
+      },
+    });
+
+    transport.onclose = () => {
+      if (transport.sessionId) {
+        sessions.delete(transport.sessionId);
+        console.error(`[inFakt MCP] Session closed: ${transport.sessionId}`);
+      }
+      closeSession();
+    };
+
+    await server.connect(transport);
+    await transport.handleRequest(req, res, body);
+
+    // Initialization rejected by the transport (e.g. a wrong Accept header)
+    if (!transport.sessionId) {
+      await transport.close();
+    }
+  }
+
+  /**
+   * Opens a legacy SSE stream on /sse
+   */
+  async function handleSseStream(
+    res: ServerResponse,
+    tenant: SessionTenant
+  ): Promise<void> {
+    const server = options.createServer(tenant);
+    const transport = new SSEServerTransport(PATHS.MESSAGES, res);
+    const sessionId = transport.sessionId;
+
+    sessions.set(sessionId, { transport, server, tenantId: tenant.id });
+    console.error(`[inFakt MCP] Session opened: ${sessionId} (SSE, tenant ${tenant.id})`);
+
+    res.on("close", () => {
+      sessions.delete(sessionId);
+      console.error(`[inFakt MCP] Session closed: ${sessionId}`);
+      options.onSessionClosed?.(tenant);
+    });
+
+    await server.connect(transport);
+  }
+
+  /**
+   * Handles legacy SSE client messages on /messages
+   */
+  async function handleSseMessage(
+    req: IncomingMessage,
+    res: ServerResponse,
+    url: URL,
+    tenant: SessionTenant
+  ): Promise<void> {
+    const sessionId = url.searchParams.get("sessionId");
+    const session = sessionId ? getSession(sessionId, tenant) : undefined;
+
+    if (!session || !(session.transport instanceof SSEServerTransport)) {
+      sendJsonRpcError(res, 404, ErrorCode.InvalidRequest, "Unknown SSE session");
+      return;
+    }
+
+    const body = await readJsonBody(req);
+    await session.transport.handlePostMessage(req, res, body);
+  }
+
+  /**
+   * Routes an incoming request
+   */
+  async function route(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const url = new URL(req.url ?? "/", `http://${req.headers.host ?? "localhost"}`);
+
+    if (url.pathname === PATHS.HEALTH && req.method === "GET") {
+      sendJson(res, 200, { status: "ok", sessions: sessions.size });
+      return;
+    }
+
+    if (url.pathname === PATHS.MCP) {
+      await handleStreamableRequest(req, res, options.authenticate(req));
+      return;
+    }
+
+    if (url.pathname === PATHS.SSE && req.method === "GET") {
+      await handleSseStream(res, options.authenticate(req));
+      return;
+    }
+
+    if (url.pathname === PATHS.MESSAGES && req.method === "POST") {
+      await handleSseMessage(req, res, url, options.authenticate(req));
+      return;
+    }
+
+    sendJson(res, 404, { error: "Not found" });
+  }
+
+  const httpServer = createServer((req, res) => {
+    route(req, res).catch((error: unknown) => {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error("[inFakt MCP] HTTP request failed:", message);
+
+      if (error instanceof HttpError && !res.headersSent) {
+        sendJsonRpcError(res, error.statusCode, ErrorCode.InvalidRequest, message);
+      } else if (!res.headersSent) {
+        const status = error instanceof SyntaxError ? 400 : 500;
+        const code = error instanceof SyntaxError ? ErrorCode.ParseError : ErrorCode.InternalError;
+        sendJsonRpcError(res, status, code, message);
+      } else {
+        res.end();
+      }
+    });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once("error", reject);
+    httpServer.listen(options.port, options.host, () => {
+      httpServer.off("error", reject);
+      resolve();
+    });
+  });
+
+  const address = httpServer.address();
+  const port = address && typeof address === "object" ? address.port : options.port;
+
+  return {
+    url: `http://${options.host}:${port}`,
+    async close(): Promise<void> {
+      const active = [...sessions.values()];
+      sessions.clear();
+
+      await Promise.allSettled(active.map((session) => session.transport.close()));
+
+      await new Promise<void>((resolve, reject) => {
+        httpServer.close((error) => (error ? reject(error) : resolve()));
+        httpServer.closeAllConnections();
+      });
+    },
+  };
+}
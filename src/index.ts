@@ -4,7 +4,7 @@
  * inFakt MCP Server
  *
  * A Model Context Protocol (MCP) server for the inFakt API - Polish invoicing
- * and accounting service. Provides 28 tools for managing invoices, clients,
+ * and accounting service. Provides 49 tools for managing invoices, clients,
  * products, costs, and reference data.
  *
  * @version 1.0.0
@@ -21,10 +21,26 @@ import {
   ErrorCode,
 } from "@modelcontextprotocol/sdk/types.js";
 
-import { getConfig, getDisplayConfig, ConfigurationError } from "./config.js";
+import {
+  getConfig,
+  getDisplayConfig,
+  loadTransportConfig,
+  loadTenantConfig,
+  isMultiTenant,
+  ConfigurationError,
+} from "./config.js";
 import { createApiClient, ApiClient, handleApiError } from "./api-client.js";
+import { startHttpServer, HttpServerHandle } from "./http-server.js";
+import { resolveTenant, getTenantId, TenantClientPool } from "./tenants.js";
+import { RateLimiter } from "./rate-limiter.js";
 import { TOOLS } from "./tools.js";
-import type { ToolResponse, ToolHandler } from "./types.js";
+import type {
+  ServerConfig,
+  ToolResponse,
+  ToolHandler,
+  TenantConfig,
+  TransportConfig,
+} from "./types.js";
 
 // Import all tool handlers
 import * as handlers from "./handlers/index.js";
@@ -35,14 +51,22 @@ import * as handlers from "./handlers/index.js";
 const TOOL_HANDLERS: Record<string, ToolHandler> = {
   // Invoice handlers
   infakt_create_invoice: handlers.createInvoice,
+  infakt_preview_invoice: handlers.previewInvoice,
   infakt_check_invoice_status: handlers.checkInvoiceStatus,
   infakt_list_invoices: handlers.listInvoices,
+  infakt_list_overdue_invoices: handlers.listOverdueInvoices,
+  infakt_revenue_report: handlers.getRevenueReport,
   infakt_get_invoice: handlers.getInvoice,
   infakt_update_invoice: handlers.updateInvoice,
   infakt_delete_invoice: handlers.deleteInvoice,
   infakt_download_invoice_pdf: handlers.downloadInvoicePdf,
   infakt_send_invoice_email: handlers.sendInvoiceEmail,
   infakt_mark_invoice_paid: handlers.markInvoicePaid,
+  infakt_record_invoice_payment: handlers.recordInvoicePayment,
+  infakt_list_invoice_payments: handlers.listInvoicePayments,
+  infakt_create_correction_invoice: handlers.createCorrectionInvoice,
+  infakt_convert_proforma_to_invoice: handlers.convertProformaToInvoice,
+  infakt_clone_invoice: handlers.cloneInvoice,
 
   // Client handlers
   infakt_list_clients: handlers.listClients,
@@ -66,6 +90,28 @@ const TOOL_HANDLERS: Record<string, ToolHandler> = {
   // Cost handlers
   infakt_list_costs: handlers.listCosts,
   infakt_get_cost: handlers.getCost,
+  infakt_create_cost: handlers.createCost,
+  infakt_update_cost: handlers.updateCost,
+  infakt_delete_cost: handlers.deleteCost,
+
+  // Exchange rate handlers
+  infakt_get_exchange_rate: handlers.getExchangeRate,
+
+  // KSeF handlers
+  infakt_export_invoice_ksef_xml: handlers.exportInvoiceKsefXml,
+  infakt_submit_invoice_to_ksef: handlers.submitInvoiceToKsef,
+  infakt_get_invoice_ksef_status: handlers.getInvoiceKsefStatus,
+
+  // Recurring invoice handlers
+  infakt_create_recurring_invoice: handlers.createRecurringInvoice,
+  infakt_list_recurring_invoices: handlers.listRecurringInvoices,
+  infakt_pause_recurring_invoice: handlers.pauseRecurringInvoice,
+  infakt_delete_recurring_invoice: handlers.deleteRecurringInvoice,
+  infakt_run_due_recurring_invoices: handlers.runDueRecurringInvoices,
+
+  // Tax reporting handlers
+  infakt_generate_jpk: handlers.generateJpk,
+  infakt_vat_summary: handlers.getVatSummary,
 } as const;
 
 /**
@@ -127,6 +173,8 @@ async function handleToolCall(
 
 /**
  * Creates and configures the MCP server
+ *
+ * Called once for stdio and once per session for HTTP transports.
  */
 function createMcpServer(apiClient: ApiClient): Server {
   const server = new Server(
@@ -159,6 +207,73 @@ function createMcpServer(apiClient: ApiClient): Server {
   return server;
 }
 
+/**
+ * Starts the server on stdio transport
+ */
+async function startStdio(apiClient: ApiClient): Promise<void> {
+  const server = createMcpServer(apiClient);
+  const transport = new StdioServerTransport();
+  await server.connect(transport);
+
+  console.error("Server started successfully on stdio transport");
+  console.error("Ready to receive requests...");
+}
+
+/**
+ * Starts the server on HTTP transport (Streamable HTTP and legacy SSE)
+ *
+ * Each session resolves its own tenant and gets that tenant's API client.
+ */
+async function startHttp(
+  config: ServerConfig,
+  transportConfig: TransportConfig,
+  tenantConfig: TenantConfig
+): Promise<void> {
+  const clientPool = new TenantClientPool(config);
+
+  const handle = await startHttpServer({
+    host: transportConfig.host,
+    port: transportConfig.port,
+    authenticate: (req) => resolveTenant(req, tenantConfig, config.apiKey),
+    createServer: (tenant) => createMcpServer(clientPool.acquire(tenant)),
+    onSessionClosed: (tenant) => clientPool.release(tenant.id),
+  });
+
+  registerShutdownHandlers(handle);
+
+  console.error(`Server started successfully on HTTP transport: ${handle.url}`);
+  console.error(`  Streamable HTTP: ${handle.url}/mcp`);
+  console.error(`  Legacy SSE:      ${handle.url}/sse`);
+  console.error(`  Health check:    ${handle.url}/health`);
+  console.error("Ready to receive requests...");
+}
+
+/**
+ * Closes the HTTP server and open sessions on SIGINT/SIGTERM
+ */
+function registerShutdownHandlers(handle: HttpServerHandle): void {
+  let shuttingDown = false;
+
+  const shutdown = (signal: string): void => {
+    if (shuttingDown) {
+      return;
+    }
+    shuttingDown = true;
+
+    console.error(`Received ${signal}, shutting down...`);
+    handle
+      .close()
+      .then(() => process.exit(0))
+      .catch((error) => {
+        console.error("Error during shutdown:", error);
+        process.exit(1);
+      });
+  };
+
+  process.on("SIGINT", () => shutdown("SIGINT"));
+  process.on("SIGTERM", () => shutdown("SIGTERM"));
+}
+
 /**
  * Main server initialization and startup
  */
@@ -168,7 +283,12 @@ async function main(): Promise<void> {
     validateToolHandlers();
 
     // Load and validate configuration
-    const config = getConfig();
+    const transportConfig = loadTransportConfig();
+    const tenantConfig = loadTenantConfig();
+    const multiTenant = transportConfig.mode === "http" && isMultiTenant(tenantConfig);
+    const config = getConfig({
+      requireApiKey: !multiTenant || tenantConfig.allowDefaultApiKey,
+    });
     const displayConfig = getDisplayConfig();
 
     console.error("=".repeat(60));
@@ -178,30 +298,55 @@ async function main(): Promise<void> {
     console.error(`API Base URL: ${displayConfig.baseUrl}`);
     console.error(`Sandbox Mode: ${displayConfig.useSandbox ? "YES" : "NO"}`);
     console.error(`API Key: ${displayConfig.apiKeyMasked}`);
+    console.error(
+      `Rate Limit: ${config.rateLimit.requestsPerSecond || "unlimited"} req/s, ` +
+        `max ${config.rateLimit.maxConcurrency || "unlimited"} concurrent`
+    );
+    if (transportConfig.mode === "http") {
+      console.error(
+        `Global Concurrency: ${config.rateLimit.globalMaxConcurrency || "unlimited"} across tenants`
+      );
+    }
+    console.error(`Transport: ${transportConfig.mode}`);
+    if (multiTenant) {
+      console.error(
+        `Tenants: ${tenantConfig.tokenKeys?.size ?? 0} token(s) in key store, ` +
+          `API key header ${tenantConfig.allowApiKeyHeader ? "allowed" : "disabled"}, ` +
+          `default key fallback ${tenantConfig.allowDefaultApiKey ? "enabled" : "disabled"}`
+      );
+    }
     console.error(`Available Tools: ${TOOLS.length}`);
     console.error("=".repeat(60));
 
-    // Create API client
-    const axiosInstance = createApiClient(config);
-    const apiClient = new ApiClient(axiosInstance);
-
-    // Create and configure MCP server
-    const server = createMcpServer(apiClient);
-
-    // Create transport and connect
-    const transport = new StdioServerTransport();
-    await server.connect(transport);
-
-    console.error("Server started successfully on stdio transport");
-    console.error("Ready to receive requests...");
+    // Start the selected transport
+    if (transportConfig.mode === "http") {
+      await startHttp(config, transportConfig, tenantConfig);
+    } else {
+      const axiosInstance = createApiClient(config);
+      const limiter = new RateLimiter(config.rateLimit);
+      const apiClient = new ApiClient(
+        axiosInstance,
+        config.retry,
+        limiter,
+        getTenantId(config.apiKey)
+      );
+      await startStdio(apiClient);
+    }
   } catch (error) {
     if (error instanceof ConfigurationError) {
       console.error("Configuration Error:", error.message);
       console.error("\nRequired environment variables:");
-      console.error("  INFAKT_API_KEY - Your inFakt API key (required)");
+      console.error("  INFAKT_API_KEY - Your inFakt API key (required unless HTTP sessions bring their own)");
       console.error("\nOptional environment variables:");
       console.error("  INFAKT_USE_SANDBOX - Set to 'true' to use sandbox API (default: false)");
       console.error("  INFAKT_BASE_URL - Custom API base URL (default: production URL)");
+      console.error("  MCP_TRANSPORT - 'stdio' or 'http' (default: stdio, or --transport flag)");
+      console.error("  MCP_HTTP_HOST - HTTP bind address (default: 127.0.0.1, or --host flag)");
+      console.error("  MCP_HTTP_PORT - HTTP port (default: 3000, or --port flag)");
+      console.error("  MCP_TENANT_KEYS_FILE - JSON file mapping bearer tokens to inFakt API keys");
+      console.error("  MCP_ALLOW_API_KEY_HEADER - Set to 'true' to accept X-inFakt-ApiKey per session");
+      console.error("  MCP_ALLOW_DEFAULT_API_KEY - Set to 'true' to serve sessions without credentials with INFAKT_API_KEY");
+      console.error("  INFAKT_RECURRING_FILE - Recurring invoice schedules file (default: ~/.infakt-mcp/recurring-invoices.json)");
       process.exit(1);
     }
 
@@ -0,0 +1,399 @@
+/**
+ * JPK (Jednolity Plik Kontrolny) schemas JPK_V7M(2) and JPK_FA(4)
+ *
+ * Transcribed from the official XSD published by the Ministry of Finance
+ * (Schemat_JPK_V7M(2)_v1-0E.xsd with the VAT-7(22) declaration part,
+ * Schemat_JPK_FA(4)_v1-0.xsd and the imported etd:DefinicjeTypy). Every
+ * element of the header, taxpayer, declaration positions, register rows and
+ * invoice records is declared in XSD order with its occurrence bounds.
+ * Values are checked for the elements this server emits; the elements it
+ * never emits (procedure and GTU markers, other declaration positions,
+ * attachments, correction and advance invoice data) are opaque.
+ */
+
+import type { JpkFormat, XmlElement } from "./types.js";
+import {
+  childText,
+  choice,
+  element,
+  opaque,
+  optional,
+  withAssertions,
+  ElementDef,
+  SimpleTypeDef,
+} from "./xml-schema.js";
+
+/**
+ * Namespaces and form codes of each JPK structure
+ */
+export const JPK_SCHEMAS: Record<
+  JpkFormat,
+  { namespace: string; etdNamespace: string; systemCode: string; schemaVersion: string; variant: string }
+> = {
+  JPK_V7M: {
+    namespace: "http://crd.gov.pl/wzor/2021/12/27/11148/",
+    etdNamespace: "http://crd.gov.pl/xml/schematy/dziedzinowe/mf/2021/06/08/eD/DefinicjeTypy/",
+    systemCode: "JPK_V7M (2)",
+    schemaVersion: "1-0E",
+    variant: "2",
+  },
+  JPK_FA: {
+    namespace: "http://jpk.mf.gov.pl/wzor/2022/02/17/02171/",
+    etdNamespace: "http://crd.gov.pl/xml/schematy/dziedzinowe/mf/2018/08/24/eD/DefinicjeTypy/",
+    systemCode: "JPK_FA (4)",
+    schemaVersion: "1-0",
+    variant: "4",
+  },
+};
+
+/**
+ * VAT-7 declaration form code embedded in JPK_V7M(2)
+ */
+export const VAT7_DECLARATION = {
+  systemCode: "VAT-7 (22)",
+  variant: "22",
+} as const;
+
+// Elementary types (etd:DefinicjeTypy, StrukturyDanych)
+const TZnakowy: SimpleTypeDef = { base: "string", minLength: 1, maxLength: 256 };
+const TZnakowy30: SimpleTypeDef = { base: "string", minLength: 1, maxLength: 30 };
+const TNrNIP: SimpleTypeDef = { base: "string", pattern: "[1-9]((\\d[1-9])|([1-9]\\d))\\d{7}" };
+const TNrIdentyfikacjiPodatkowej: SimpleTypeDef = { base: "string", minLength: 1, maxLength: 50 };
+const TKodKraju: SimpleTypeDef = { base: "string", pattern: "[A-Z]{2}" };
+const TKodWaluty: SimpleTypeDef = { base: "string", pattern: "[A-Z]{3}" };
+const TKodUS: SimpleTypeDef = { base: "string", pattern: "\\d{4}" };
+const TKodPocztowy: SimpleTypeDef = { base: "string", minLength: 1, maxLength: 8 };
+const TAdresEmail: SimpleTypeDef = { base: "string", pattern: "[^@\\s]+@[^@\\s]+", maxLength: 255 };
+const TData: SimpleTypeDef = { base: "date", minInclusive: "2016-01-01", maxInclusive: "2050-12-31" };
+const TDataCzas: SimpleTypeDef = { base: "dateTime" };
+const TKwotowy: SimpleTypeDef = { base: "decimal", totalDigits: 18, fractionDigits: 2 };
+const TKwotaCalkowita: SimpleTypeDef = { base: "integer", totalDigits: 14 };
+const TKwotaCNieujemna: SimpleTypeDef = { base: "integer", totalDigits: 14, minInclusive: 0 };
+const TNaturalny: SimpleTypeDef = { base: "integer", minInclusive: 1 };
+const TLiczbaWierszy: SimpleTypeDef = { base: "integer", minInclusive: 0 };
+const TIlosci: SimpleTypeDef = { base: "decimal", totalDigits: 22, fractionDigits: 6 };
+const TKwotowy2: SimpleTypeDef = { base: "decimal", totalDigits: 22, fractionDigits: 8 };
+const TBoolean: SimpleTypeDef = { base: "boolean" };
+
+/**
+ * Declares optional amount fields
+ */
+function amounts(names: string[]): ElementDef[] {
+  return names.map((name) => optional(name, TKwotowy));
+}
+
+/**
+ * Declares numbered fields from `prefix` + `from` to `prefix` + `to`, each
+ * checked by `declare` or opaque if it is not in `checked`
+ */
+function numberedFields(
+  prefix: string,
+  from: number,
+  to: number,
+  checked: readonly string[],
+  declare: (name: string) => ElementDef
+): ElementDef[] {
+  const fields: ElementDef[] = [];
+  for (let number = from; number <= to; number++) {
+    const name = `${prefix}${number}`;
+    fields.push(checked.includes(name) ? declare(name) : opaque(name));
+  }
+  return fields;
+}
+
+/**
+ * Sales register amounts (K_x) emitted by this server
+ */
+const EMITTED_SALES_FIELDS = [
+  "K_10", "K_11", "K_12", "K_13", "K_15", "K_16", "K_17", "K_18", "K_19", "K_20", "K_21", "K_22", "K_31",
+];
+
+/**
+ * Optional declaration positions (P_x) emitted by this server
+ */
+const EMITTED_DECLARATION_FIELDS = [
+  "P_10", "P_11", "P_12", "P_13", "P_15", "P_16", "P_17", "P_18", "P_19", "P_20", "P_21", "P_22", "P_31",
+];
+
+/**
+ * Builds the JPK_V7M(2) root element declaration
+ */
+function buildV7MSchema(): ElementDef {
+  const schema = JPK_SCHEMAS.JPK_V7M;
+
+  const naglowek = element("Naglowek", [
+    element("KodFormularza", { base: "string", enumeration: ["JPK_VAT"] }, {}, [
+      { name: "kodSystemowy", type: TZnakowy, fixed: schema.systemCode },
+      { name: "wersjaSchemy", type: TZnakowy, fixed: schema.schemaVersion },
+    ]),
+    element("WariantFormularza", { base: "string", enumeration: [schema.variant] }),
+    element("DataWytworzeniaJPK", TDataCzas),
+    optional("NazwaSystemu", TZnakowy),
+    element("CelZlozenia", { base: "string", enumeration: ["1", "2"] }, {}, [
+      { name: "poz", type: TZnakowy, fixed: "P_7" },
+    ]),
+    element("KodUrzedu", TKodUS),
+    element("Rok", { base: "integer", minInclusive: 2022 }),
+    element("Miesiac", { base: "integer", minInclusive: 1, maxInclusive: 12 }),
+  ]);
+
+  const podmiot1 = element(
+    "Podmiot1",
+    [
+      choice([
+        element("OsobaFizyczna", [
+          element("etd:NIP", TNrNIP),
+          element("etd:ImiePierwsze", TZnakowy30),
+          element("etd:Nazwisko", { base: "string", minLength: 1, maxLength: 81 }),
+          element("etd:DataUrodzenia", { base: "date", minInclusive: "1900-01-01" }),
+          element("Email", TAdresEmail),
+          optional("Telefon", { base: "string", minLength: 1, maxLength: 16 }),
+        ]),
+        element("OsobaNiefizyczna", [
+          element("NIP", TNrNIP),
+          element("PelnaNazwa", { base: "string", minLength: 1, maxLength: 240 }),
+          element("Email", TAdresEmail),
+          optional("Telefon", { base: "string", minLength: 1, maxLength: 16 }),
+        ]),
+      ]),
+    ],
+    {},
+    [{ name: "rola", type: TZnakowy, fixed: "Podatnik" }]
+  );
+
+  const deklaracja = optional("Deklaracja", [
+    element("Naglowek", [
+      element("KodFormularzaDekl", { base: "string", enumeration: ["VAT-7"] }, {}, [
+        { name: "kodSystemowy", type: TZnakowy, fixed: VAT7_DECLARATION.systemCode },
+        { name: "kodPodatku", type: TZnakowy, fixed: "VAT" },
+        { name: "rodzajZobowiazania", type: TZnakowy, fixed: "Z" },
+        { name: "wersjaSchemy", type: TZnakowy, fixed: "1-0E" },
+      ]),
+      element("WariantFormularzaDekl", { base: "string", enumeration: [VAT7_DECLARATION.variant] }),
+    ]),
+    element("PozycjeSzczegolowe", [
+      ...numberedFields("P_", 10, 36, EMITTED_DECLARATION_FIELDS, (name) =>
+        optional(name, TKwotaCalkowita)
+      ),
+      element("P_37", TKwotaCNieujemna),
+      element("P_38", TKwotaCalkowita),
+      optional("P_39", TKwotaCNieujemna),
+      opaque("P_40"),
+      opaque("P_41"),
+      optional("P_42", TKwotaCalkowita),
+      optional("P_43", TKwotaCalkowita),
+      ...["P_44", "P_45", "P_46", "P_47"].map((name) => opaque(name)),
+      element("P_48", TKwotaCalkowita),
+      opaque("P_49"),
+      opaque("P_50"),
+      element("P_51", TKwotaCNieujemna),
+      opaque("P_52"),
+      optional("P_53", TKwotaCNieujemna),
+      ...["P_54", "P_540", "P_55", "P_56", "P_560", "P_57", "P_58", "P_59", "P_60", "P_61"].map(
+        (name) => opaque(name)
+      ),
+      optional("P_62", TKwotaCNieujemna),
+      ...["P_63", "P_64", "P_65", "P_66", "P_660", "P_67", "P_68", "P_69", "P_ORDZU"].map(
+        (name) => opaque(name)
+      ),
+    ]),
+    element("Pouczenia", { base: "decimal", enumeration: ["1"] }),
+    opaque("Zalaczniki"),
+  ]);
+
+  const ewidencja = optional("Ewidencja", [
+    element(
+      "SprzedazWiersz",
+      [
+        element("LpSprzedazy", TNaturalny),
+        optional("KodKrajuNadaniaTIN", TKodKraju),
+        element("NrKontrahenta", TNrIdentyfikacjiPodatkowej),
+        element("NazwaKontrahenta", TZnakowy),
+        element("DowodSprzedazy", TZnakowy),
+        element("DataWystawienia", TData),
+        optional("DataSprzedazy", TData),
+        opaque("TypDokumentu"),
+        ...numberedFields("GTU_0", 1, 9, [], opaque),
+        ...numberedFields("GTU_", 10, 13, [], opaque),
+        ...[
+          "WSTO_EE", "IED", "TP", "TT_WNT", "TT_D", "MR_T", "MR_UZ", "I_42", "I_63", "B_SPV",
+          "B_SPV_DOSTAWA", "B_MPV_PROWIZJA", "KorektaPodstawyOpodt", "TerminPlatnosci",
+          "DataZaplaty",
+        ].map((name) => opaque(name)),
+        ...numberedFields("K_", 10, 36, EMITTED_SALES_FIELDS, (name) => optional(name, TKwotowy)),
+        opaque("SprzedazVAT_Marza"),
+      ],
+      { min: 0, max: Infinity }
+    ),
+    element("SprzedazCtrl", [
+      element("LiczbaWierszySprzedazy", TLiczbaWierszy),
+      element("PodatekNalezny", TKwotowy),
+    ]),
+    element(
+      "ZakupWiersz",
+      [
+        element("LpZakupu", TNaturalny),
+        optional("KodKrajuNadaniaTIN", TKodKraju),
+        element("NrDostawcy", TNrIdentyfikacjiPodatkowej),
+        element("NazwaDostawcy", TZnakowy),
+        element("DowodZakupu", TZnakowy),
+        element("DataZakupu", TData),
+        optional("DataWplywu", TData),
+        opaque("DokumentZakupu"),
+        opaque("IMP"),
+        ...numberedFields("K_", 40, 47, ["K_42", "K_43"], (name) => optional(name, TKwotowy)),
+        opaque("ZakupVAT_Marza"),
+      ],
+      { min: 0, max: Infinity }
+    ),
+    element("ZakupCtrl", [
+      element("LiczbaWierszyZakupow", TLiczbaWierszy),
+      element("PodatekNaliczony", TKwotowy),
+    ]),
+  ]);
+
+  return element("JPK", [naglowek, podmiot1, deklaracja, ewidencja]);
+}
+
+/**
+ * Builds the JPK_FA(4) root element declaration
+ */
+function buildFaSchema(): ElementDef {
+  const schema = JPK_SCHEMAS.JPK_FA;
+
+  const naglowek = element("Naglowek", [
+    element("KodFormularza", { base: "string", enumeration: ["JPK_FA"] }, {}, [
+      { name: "kodSystemowy", type: TZnakowy, fixed: schema.systemCode },
+      { name: "wersjaSchemy", type: TZnakowy, fixed: schema.schemaVersion },
+    ]),
+    element("WariantFormularza", { base: "string", enumeration: [schema.variant] }),
+    element("CelZlozenia", { base: "string", enumeration: ["1"] }),
+    element("DataWytworzeniaJPK", TDataCzas),
+    element("DataOd", TData),
+    element("DataDo", TData),
+    element("KodUrzedu", TKodUS),
+  ]);
+
+  const podmiot1 = element("Podmiot1", [
+    element("IdentyfikatorPodmiotu", [
+      element("etd:NIP", TNrNIP),
+      element("etd:PelnaNazwa", { base: "string", minLength: 1, maxLength: 240 }),
+    ]),
+    element("AdresPodmiotu", [
+      element("etd:KodKraju", { base: "string", enumeration: ["PL"] }),
+      element("etd:Wojewodztwo", TZnakowy),
+      element("etd:Powiat", TZnakowy),
+      element("etd:Gmina", TZnakowy),
+      optional("etd:Ulica", TZnakowy),
+      element("etd:NrDomu", { base: "string", minLength: 1, maxLength: 9 }),
+      optional("etd:NrLokalu", { base: "string", minLength: 1, maxLength: 10 }),
+      element("etd:Miejscowosc", TZnakowy),
+      element("etd:KodPocztowy", TKodPocztowy),
+    ]),
+  ]);
+
+  const faktura = element(
+    "Faktura",
+    [
+      element("KodWaluty", TKodWaluty),
+      element("P_1", TData),
+      element("P_2A", TZnakowy),
+      element("P_3A", TZnakowy),
+      element("P_3B", TZnakowy),
+      element("P_3C", TZnakowy),
+      element("P_3D", TZnakowy),
+      optional("P_4A", TKodKraju),
+      optional("P_4B", TNrIdentyfikacjiPodatkowej),
+      optional("P_5A", TKodKraju),
+      optional("P_5B", TNrIdentyfikacjiPodatkowej),
+      optional("P_6", TData),
+      ...["1", "2", "3", "4"].flatMap((suffix) =>
+        amounts([`P_13_${suffix}`, `P_14_${suffix}`, `P_14_${suffix}W`])
+      ),
+      opaque("P_13_5"),
+      opaque("P_14_5"),
+      ...amounts(["P_13_6", "P_13_7"]),
+      element("P_15", TKwotowy),
+      element("P_16", TBoolean),
+      element("P_17", TBoolean),
+      element("P_18", TBoolean),
+      element("P_18A", TBoolean),
+      element("P_19", TBoolean),
+      optional("P_19A", TZnakowy),
+      optional("P_19B", TZnakowy),
+      optional("P_19C", TZnakowy),
+      element("P_20", TBoolean),
+      opaque("P_20A"),
+      opaque("P_20B"),
+      element("P_21", TBoolean),
+      opaque("P_21A"),
+      opaque("P_21B"),
+      opaque("P_21C"),
+      element("P_22", TBoolean),
+      opaque("P_22A"),
+      opaque("P_22B"),
+      opaque("P_22C"),
+      element("P_23", TBoolean),
+      element("P_106E_2", TBoolean),
+      element("P_106E_3", TBoolean),
+      opaque("P_106E_3A"),
+      element("RodzajFaktury", { base: "string", enumeration: ["VAT", "KOREKTA", "ZAL", "ROZ", "UPR"] }),
+      // Correction and advance invoice data
+      ...["PrzyczynaKorekty", "NrFaKorygowanej", "OkresFaKorygowanej", "NrFaZaliczkowej"].map(
+        (name) => opaque(name)
+      ),
+      opaque("ZALZaplata"),
+      opaque("ZALPodatek"),
+    ],
+    { min: 0, max: Infinity }
+  );
+
+  const fakturaWiersz = element(
+    "FakturaWiersz",
+    [
+      element("P_2B", TZnakowy),
+      optional("P_7", TZnakowy),
+      optional("P_8A", TZnakowy),
+      optional("P_8B", TIlosci),
+      optional("P_9A", TKwotowy2),
+      opaque("P_9B"),
+      opaque("P_10"),
+      optional("P_11", TKwotowy),
+      opaque("P_11A"),
+      optional("P_12", {
+        base: "string",
+        enumeration: ["23", "22", "8", "7", "5", "4", "3", "0", "zw", "oo", "np"],
+      }),
+      opaque("P_12_XII"),
+    ],
+    { min: 0, max: Infinity }
+  );
+
+  // Stated in the XSD annotation of P_19 rather than in its content model
+  const exemptionBasis = {
+    test: (invoice: XmlElement) =>
+      !["true", "1"].includes(childText(invoice, "P_19") ?? "") ||
+      ["P_19A", "P_19B", "P_19C"].some((name) => childText(invoice, name) !== undefined),
+    message: "P_19 (exempt supply) requires the legal basis of the exemption in P_19A, P_19B or P_19C",
+  };
+
+  return element("JPK", [
+    naglowek,
+    podmiot1,
+    withAssertions(faktura, [exemptionBasis]),
+    element("FakturaCtrl", [element("LiczbaFaktur", TLiczbaWierszy), element("WartoscFaktur", TKwotowy)]),
+    fakturaWiersz,
+    element("FakturaWierszCtrl", [
+      element("LiczbaWierszyFaktur", TLiczbaWierszy),
+      element("WartoscWierszyFaktur", TKwotowy),
+    ]),
+  ]);
+}
+
+/**
+ * Root element declarations by JPK structure
+ */
+export const JPK_DOCUMENT_SCHEMAS: Record<JpkFormat, ElementDef> = {
+  JPK_V7M: buildV7MSchema(),
+  JPK_FA: buildFaSchema(),
+};
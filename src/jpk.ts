@@ -0,0 +1,702 @@
+/**
+ * JPK (Jednolity Plik Kontrolny) file generation
+ *
+ * - JPK_V7M: monthly VAT return. The Ewidencja part lists one SprzedazWiersz
+ *   per sales register entry and one ZakupWiersz per purchase entry; the
+ *   Deklaracja part sums them per rate in whole złoty. 0% and not-subject
+ *   sales are classified by the buyer's country like in KSeF export:
+ *   domestic (K_13), intra-Community supply (K_21), export (K_22), supply
+ *   outside the country (K_11) and, within it, services taxed where the EU
+ *   buyer is (K_12). All purchases are reported as other than fixed assets
+ *   (K_42/K_43), since inFakt does not record the distinction.
+ * - JPK_FA: issued invoices with their lines, amounts in the invoice currency.
+ *
+ * Like KSeF export, missing data is left out of the document so that offline
+ * validation reports it instead of failing the generation.
+ */
+
+import type {
+  AccountInfo,
+  DeclaredVatBalance,
+  Invoice,
+  JpkFormat,
+  JpkResult,
+  JpkTaxpayer,
+  SkippedDocument,
+  VatPeriod,
+  VatRegisterEntry,
+  VatRegisters,
+  XmlElement,
+} from "./types.js";
+import { DEFAULT_CURRENCY, getCurrencyDecimals, minorToMajor } from "./currency.js";
+import {
+  classifyVatRate,
+  getIssuedLineAmounts,
+  normalizeVatSymbol,
+  roundHalfAwayFromZero,
+} from "./vat.js";
+import { normalizeTaxCode } from "./ksef.js";
+import { serializeXml, xmlElement, xmlText } from "./xml.js";
+import { validateXml } from "./xml-schema.js";
+import { JPK_DOCUMENT_SCHEMAS, JPK_SCHEMAS, VAT7_DECLARATION } from "./jpk-schema.js";
+
+/**
+ * Sales register fields (K_x net, K_x VAT) of each rate code (see
+ * classifyVatRate); `part` is a "of which" field also holding the net amount
+ */
+const SALES_FIELDS: Record<string, { net: string; tax?: string; part?: string }> = {
+  "23": { net: "K_19", tax: "K_20" },
+  "22": { net: "K_19", tax: "K_20" },
+  "8": { net: "K_17", tax: "K_18" },
+  "7": { net: "K_17", tax: "K_18" },
+  "5": { net: "K_15", tax: "K_16" },
+  "0 KR": { net: "K_13" },
+  "0 WDT": { net: "K_21" },
+  "0 EX": { net: "K_22" },
+  zw: { net: "K_10" },
+  "np I": { net: "K_11" },
+  "np II": { net: "K_11", part: "K_12" },
+  oo: { net: "K_31" },
+};
+
+/**
+ * Order of the sales register fields in the schema
+ */
+const SALES_FIELD_ORDER = [
+  "K_10", "K_11", "K_12", "K_13", "K_15", "K_16", "K_17", "K_18", "K_19", "K_20", "K_21", "K_22", "K_31",
+];
+
+/**
+ * Sales register fields holding output VAT
+ */
+const SALES_TAX_FIELDS = ["K_16", "K_18", "K_20"];
+
+/**
+ * JPK_FA VAT summary fields of each rate (P_13_x/P_14_x); reverse charge and
+ * out-of-scope sales only count towards the gross amount
+ */
+const INVOICE_RATE_GROUPS: Record<string, { net: string; tax?: string }> = {
+  "23": { net: "P_13_1", tax: "P_14_1" },
+  "22": { net: "P_13_1", tax: "P_14_1" },
+  "8": { net: "P_13_2", tax: "P_14_2" },
+  "7": { net: "P_13_2", tax: "P_14_2" },
+  "5": { net: "P_13_3", tax: "P_14_3" },
+  "4": { net: "P_13_4", tax: "P_14_4" },
+  "3": { net: "P_13_4", tax: "P_14_4" },
+  "0": { net: "P_13_6" },
+  zw: { net: "P_13_7" },
+};
+
+/**
+ * Order of the JPK_FA VAT summary fields in the schema
+ */
+const INVOICE_SUMMARY_FIELDS = [
+  "P_13_1", "P_14_1", "P_13_2", "P_14_2", "P_13_3", "P_14_3", "P_13_4", "P_14_4",
+  "P_13_6", "P_13_7",
+];
+
+/**
+ * Options for building a JPK file
+ */
+export interface JpkOptions {
+  taxpayer: JpkTaxpayer;
+  /** JPK_V7M filing purpose: 1 original, 2 correction (default 1) */
+  purpose?: 1 | 2;
+  /** JPK_V7M input VAT carried forward from the previous period (P_39), whole złoty */
+  carriedForwardVat?: number;
+  /** JPK_FA legal basis of the VAT exemption (P_19A), required for "zw" lines */
+  exemptionBasis?: string;
+  /** Document creation time (default: now) */
+  generatedAt?: Date;
+}
+
+/**
+ * Formats an amount in minor units as a decimal in major units
+ */
+function formatAmount(minor: number, currency: string): string {
+  return minorToMajor(minor, currency).toFixed(getCurrencyDecimals(currency));
+}
+
+/**
+ * Converts an amount in minor units to hundredths of the major unit, the
+ * precision of the JPK_FA control sums
+ */
+function toHundredths(minor: number, currency: string): number {
+  return Math.round(minorToMajor(minor, currency) * 100);
+}
+
+/**
+ * Rounds grosze to whole złoty, as declaration fields require
+ */
+function toWholeZloty(grosze: number): number {
+  return roundHalfAwayFromZero(grosze / 100);
+}
+
+/**
+ * Formats the document creation time (DataWytworzeniaJPK)
+ */
+function formatGeneratedAt(options: JpkOptions): string {
+  return (options.generatedAt ?? new Date()).toISOString().replace(/\.\d{3}Z$/, "Z");
+}
+
+/**
+ * Builds the counterparty identification of a register entry: Polish NIP,
+ * foreign tax ID with its country, or BRAK for counterparties without one
+ */
+function buildCounterparty(entry: VatRegisterEntry, idName: string, nameName: string): XmlElement[] {
+  const country = entry.counterparty_country;
+  const foreign = country !== "PL" && entry.counterparty_tax_code !== undefined;
+  const taxCode = entry.counterparty_tax_code
+    ? normalizeTaxCode(entry.counterparty_tax_code, country === "GR" ? "EL" : country)
+    : "BRAK";
+
+  return [
+    foreign ? xmlText("KodKrajuNadaniaTIN", country) : undefined,
+    xmlText(idName, taxCode),
+    xmlText(nameName, entry.counterparty_name || "BRAK"),
+  ].filter((element): element is XmlElement => element !== undefined);
+}
+
+/**
+ * Sums the amounts of a sales register entry per field
+ *
+ * @returns Amounts per field in grosze, or the reason the entry cannot be included
+ */
+function getSalesFields(entry: VatRegisterEntry): Map<string, number> | string {
+  const fields = new Map<string, number>();
+  for (const rate of entry.rates) {
+    const key = classifyVatRate(rate.tax_symbol, entry.counterparty_country, entry.counterparty_tax_code);
+    if (typeof key !== "string") {
+      return `${key.reason}; enter it manually`;
+    }
+    const target = SALES_FIELDS[key];
+    if (!target) {
+      return `VAT rate ${rate.tax_symbol} has no JPK_V7M field; enter it manually`;
+    }
+    fields.set(target.net, (fields.get(target.net) ?? 0) + rate.net_price);
+    if (target.tax) {
+      fields.set(target.tax, (fields.get(target.tax) ?? 0) + rate.tax_price);
+    }
+    if (target.part) {
+      fields.set(target.part, (fields.get(target.part) ?? 0) + rate.net_price);
+    }
+  }
+  return fields;
+}
+
+/**
+ * Builds the sales register row of an entry
+ *
+ * @returns The row and its amounts per field, or the reason it cannot be included
+ */
+function buildSalesRow(
+  entry: VatRegisterEntry,
+  index: number
+): { row: XmlElement; fields: Map<string, number> } | string {
+  const fields = getSalesFields(entry);
+  if (typeof fields === "string") {
+    return fields;
+  }
+
+  const row = xmlElement("SprzedazWiersz", [
+    xmlText("LpSprzedazy", index + 1),
+    ...buildCounterparty(entry, "NrKontrahenta", "NazwaKontrahenta"),
+    xmlText("DowodSprzedazy", entry.number),
+    xmlText("DataWystawienia", entry.issue_date),
+    entry.tax_date !== entry.issue_date ? xmlText("DataSprzedazy", entry.tax_date) : undefined,
+    ...SALES_FIELD_ORDER.map((field) =>
+      fields.has(field) ? xmlText(field, formatAmount(fields.get(field)!, DEFAULT_CURRENCY)) : undefined
+    ),
+  ]);
+  return { row, fields };
+}
+
+/**
+ * Builds the purchase register row of an entry; all rates are reported
+ * together as purchases other than fixed assets
+ */
+function buildPurchaseRow(entry: VatRegisterEntry, index: number): { row: XmlElement; net: number; tax: number } {
+  const net = entry.rates.reduce((sum, rate) => sum + rate.net_price, 0);
+  const tax = entry.rates.reduce((sum, rate) => sum + rate.tax_price, 0);
+
+  const row = xmlElement("ZakupWiersz", [
+    xmlText("LpZakupu", index + 1),
+    ...buildCounterparty(entry, "NrDostawcy", "NazwaDostawcy"),
+    xmlText("DowodZakupu", entry.number),
+    xmlText("DataZakupu", entry.issue_date),
+    entry.tax_date !== entry.issue_date ? xmlText("DataWplywu", entry.tax_date) : undefined,
+    xmlText("K_42", formatAmount(net, DEFAULT_CURRENCY)),
+    xmlText("K_43", formatAmount(tax, DEFAULT_CURRENCY)),
+  ]);
+  return { row, net, tax };
+}
+
+/**
+ * Builds the taxpayer identification of JPK_V7M: natural persons when a
+ * first and last name are given, otherwise the account company
+ */
+function buildV7mTaxpayer(seller: AccountInfo, taxpayer: JpkTaxpayer): XmlElement {
+  const nip = seller.tax_code && normalizeTaxCode(seller.tax_code, "PL");
+
+  const identification =
+    taxpayer.first_name || taxpayer.last_name
+      ? xmlElement("OsobaFizyczna", [
+          xmlText("etd:NIP", nip),
+          xmlText("etd:ImiePierwsze", taxpayer.first_name),
+          xmlText("etd:Nazwisko", taxpayer.last_name),
+          xmlText("etd:DataUrodzenia", taxpayer.birth_date),
+          xmlText("Email", taxpayer.email),
+          xmlText("Telefon", taxpayer.phone),
+        ])
+      : xmlElement("OsobaNiefizyczna", [
+          xmlText("NIP", nip),
+          xmlText("PelnaNazwa", seller.company_name),
+          xmlText("Email", taxpayer.email),
+          xmlText("Telefon", taxpayer.phone),
+        ]);
+
+  return xmlElement("Podmiot1", [identification], { rola: "Podatnik" });
+}
+
+/**
+ * Declaration fields (P_x) of the register totals in whole złoty and the
+ * resulting VAT balance
+ *
+ * @param salesTotals - Sales register totals per field (K_x), in grosze
+ * @param purchaseTax - Input VAT of the purchase register, in grosze
+ * @param carriedForward - Surplus carried forward (P_39), whole złoty
+ */
+function declareVat(
+  salesTotals: Map<string, number>,
+  purchaseTax: number,
+  carriedForward: number
+): { declared: Map<string, number>; balance: DeclaredVatBalance } {
+  const declared = new Map<string, number>();
+  salesTotals.forEach((amount, field) => declared.set(`P_${field.substring(2)}`, toWholeZloty(amount)));
+
+  const outputVat = ["P_16", "P_18", "P_20"].reduce((total, field) => total + (declared.get(field) ?? 0), 0);
+  const inputVat = carriedForward + toWholeZloty(purchaseTax);
+
+  return {
+    declared,
+    balance: {
+      output_vat: outputVat,
+      input_vat: inputVat,
+      payable: Math.max(0, outputVat - inputVat),
+      refundable: Math.max(0, inputVat - outputVat),
+    },
+  };
+}
+
+/**
+ * Computes the VAT balance of registers as a JPK_V7M declaration states it:
+ * output VAT rounded to whole złoty per rate, input VAT on its total
+ *
+ * Sales entries that JPK_V7M cannot include are left out, like in the file.
+ *
+ * @param registers - Sales and purchase registers
+ * @param carriedForwardVat - Surplus carried forward from the previous period, whole złoty
+ */
+export function computeDeclaredVat(registers: VatRegisters, carriedForwardVat = 0): DeclaredVatBalance {
+  const salesTotals = new Map<string, number>();
+  for (const entry of registers.sales) {
+    const fields = getSalesFields(entry);
+    if (typeof fields !== "string") {
+      fields.forEach((amount, field) => salesTotals.set(field, (salesTotals.get(field) ?? 0) + amount));
+    }
+  }
+  const purchaseTax = registers.purchases.reduce(
+    (total, entry) => total + entry.rates.reduce((sum, rate) => sum + rate.tax_price, 0),
+    0
+  );
+
+  return declareVat(salesTotals, purchaseTax, carriedForwardVat).balance;
+}
+
+/**
+ * Builds a JPK_V7M file from the VAT registers of a month
+ *
+ * @param registers - Sales and purchase registers of the month
+ * @param seller - Account details of the taxpayer
+ * @param options - Taxpayer data and declaration options
+ * @returns Document root element and the entries left out of it
+ */
+export function buildJpkV7m(
+  registers: VatRegisters,
+  seller: AccountInfo,
+  options: JpkOptions
+): { document: XmlElement; skipped: SkippedDocument[] } {
+  const schema = JPK_SCHEMAS.JPK_V7M;
+  const skipped: SkippedDocument[] = [];
+
+  const salesTotals = new Map<string, number>();
+  const salesRows: XmlElement[] = [];
+  for (const entry of registers.sales) {
+    const result = buildSalesRow(entry, salesRows.length);
+    if (typeof result === "string") {
+      skipped.push({ type: "invoice", uuid: entry.uuid, number: entry.number, reason: result });
+      continue;
+    }
+    salesRows.push(result.row);
+    result.fields.forEach((amount, field) =>
+      salesTotals.set(field, (salesTotals.get(field) ?? 0) + amount)
+    );
+  }
+
+  let purchaseNet = 0;
+  let purchaseTax = 0;
+  const purchaseRows = registers.purchases.map((entry, index) => {
+    const result = buildPurchaseRow(entry, index);
+    purchaseNet += result.net;
+    purchaseTax += result.tax;
+    return result.row;
+  });
+
+  // Declaration fields (P_x) are the register totals (K_x) in whole złoty
+  const carriedForward = options.carriedForwardVat ?? 0;
+  const { declared, balance } = declareVat(salesTotals, purchaseTax, carriedForward);
+  const sum = (fields: string[]) => fields.reduce((total, field) => total + (declared.get(field) ?? 0), 0);
+  const surplus = balance.refundable;
+
+  const outputVatGrosze = SALES_TAX_FIELDS.reduce((total, field) => total + (salesTotals.get(field) ?? 0), 0);
+
+  const document = xmlElement(
+    "JPK",
+    [
+      xmlElement("Naglowek", [
+        xmlText("KodFormularza", "JPK_VAT", {
+          kodSystemowy: schema.systemCode,
+          wersjaSchemy: schema.schemaVersion,
+        }),
+        xmlText("WariantFormularza", schema.variant),
+        xmlText("DataWytworzeniaJPK", formatGeneratedAt(options)),
+        xmlText("NazwaSystemu", "infakt-mcp-server"),
+        xmlText("CelZlozenia", options.purpose ?? 1, { poz: "P_7" }),
+        xmlText("KodUrzedu", options.taxpayer.tax_office_code),
+        xmlText("Rok", registers.period.year),
+        xmlText("Miesiac", registers.period.month),
+      ]),
+      buildV7mTaxpayer(seller, options.taxpayer),
+      xmlElement("Deklaracja", [
+        xmlElement("Naglowek", [
+          xmlText("KodFormularzaDekl", "VAT-7", {
+            kodSystemowy: VAT7_DECLARATION.systemCode,
+            kodPodatku: "VAT",
+            rodzajZobowiazania: "Z",
+            wersjaSchemy: "1-0E",
+          }),
+          xmlText("WariantFormularzaDekl", VAT7_DECLARATION.variant),
+        ]),
+        xmlElement("PozycjeSzczegolowe", [
+          ...[
+            "P_10", "P_11", "P_12", "P_13", "P_15", "P_16", "P_17", "P_18", "P_19", "P_20", "P_21", "P_22",
+            "P_31",
+          ].map((field) => xmlText(field, declared.get(field))),
+          xmlText("P_37", sum(["P_10", "P_11", "P_13", "P_15", "P_17", "P_19", "P_21", "P_22", "P_31"])),
+          xmlText("P_38", balance.output_vat),
+          carriedForward > 0 ? xmlText("P_39", carriedForward) : undefined,
+          purchaseRows.length > 0 ? xmlText("P_42", toWholeZloty(purchaseNet)) : undefined,
+          purchaseRows.length > 0 ? xmlText("P_43", toWholeZloty(purchaseTax)) : undefined,
+          xmlText("P_48", balance.input_vat),
+          xmlText("P_51", balance.payable),
+          surplus > 0 ? xmlText("P_53", surplus) : undefined,
+          surplus > 0 ? xmlText("P_62", surplus) : undefined,
+        ]),
+        xmlText("Pouczenia", "1"),
+      ]),
+      xmlElement("Ewidencja", [
+        ...salesRows,
+        xmlElement("SprzedazCtrl", [
+          xmlText("LiczbaWierszySprzedazy", salesRows.length),
+          xmlText("PodatekNalezny", formatAmount(outputVatGrosze, DEFAULT_CURRENCY)),
+        ]),
+        ...purchaseRows,
+        xmlElement("ZakupCtrl", [
+          xmlText("LiczbaWierszyZakupow", purchaseRows.length),
+          xmlText("PodatekNaliczony", formatAmount(purchaseTax, DEFAULT_CURRENCY)),
+        ]),
+      ]),
+    ],
+    {
+      xmlns: schema.namespace,
+      "xmlns:etd": schema.etdNamespace,
+    }
+  );
+
+  return { document, skipped };
+}
+
+/**
+ * Joins address parts into one line: street, number and flat, postal code and city
+ */
+function formatAddress(
+  street: string | undefined,
+  streetNumber: string | undefined,
+  flatNumber: string | undefined,
+  postCode: string | undefined,
+  city: string | undefined
+): string {
+  const line1 = [street, [streetNumber, flatNumber].filter(Boolean).join("/")]
+    .filter(Boolean)
+    .join(" ");
+  const line2 = [postCode, city].filter(Boolean).join(" ");
+  return [line1, line2].filter(Boolean).join(", ");
+}
+
+/**
+ * Builds the Faktura element and lines of an invoice
+ *
+ * @returns The elements with the gross and line net totals in hundredths of
+ *   the major unit, or the reason the invoice cannot be included
+ */
+function buildInvoiceRecord(
+  invoice: Invoice,
+  seller: AccountInfo,
+  options: JpkOptions
+): { faktura: XmlElement; lines: XmlElement[]; gross: number; linesNet: number } | string {
+  const kind = invoice.kind ?? "vat";
+  if (kind !== "vat") {
+    return `${kind} invoices are not included automatically; enter it manually`;
+  }
+
+  const currency = invoice.currency ?? DEFAULT_CURRENCY;
+  const foreign = currency !== DEFAULT_CURRENCY;
+  if (foreign && !invoice.exchange_rate) {
+    return `invoice in ${currency} has no exchange_rate`;
+  }
+
+  const services = invoice.services ?? [];
+  const symbols = services.map((service) => normalizeVatSymbol(service.tax_symbol));
+  const unsupported = symbols.find(
+    (symbol) => !INVOICE_RATE_GROUPS[symbol] && symbol !== "np" && symbol !== "oo"
+  );
+  if (unsupported !== undefined) {
+    return `VAT rate ${unsupported} has no JPK_FA field; enter it manually`;
+  }
+
+  const summary = new Map<string, number>();
+  let linesNet = 0;
+  const lines = services.map((service, index) => {
+    const amounts = getIssuedLineAmounts(service);
+    const group = INVOICE_RATE_GROUPS[symbols[index]];
+    if (group) {
+      summary.set(group.net, (summary.get(group.net) ?? 0) + amounts.net_price);
+      if (group.tax) {
+        summary.set(group.tax, (summary.get(group.tax) ?? 0) + amounts.tax_price);
+      }
+    }
+    linesNet += amounts.net_price;
+
+    const quantity = Number(service.quantity ?? 1);
+    const unitNetPrice =
+      service.unit_net_price !== undefined
+        ? Number(service.unit_net_price)
+        : Math.round(amounts.net_price / quantity);
+
+    return xmlElement("FakturaWiersz", [
+      xmlText("P_2B", invoice.number),
+      xmlText("P_7", service.name),
+      xmlText("P_8A", service.unit),
+      xmlText("P_8B", quantity),
+      xmlText("P_9A", formatAmount(unitNetPrice, currency)),
+      xmlText("P_11", formatAmount(amounts.net_price, currency)),
+      xmlText("P_12", symbols[index]),
+    ]);
+  });
+
+  const summaryElements = INVOICE_SUMMARY_FIELDS.flatMap((field) => {
+    const amount = summary.get(field);
+    if (amount === undefined) {
+      return [];
+    }
+    const elements = [xmlText(field, formatAmount(amount, currency))];
+    // VAT of foreign-currency invoices is also stated in PLN
+    if (foreign && field.startsWith("P_14_")) {
+      const pln = Math.round(minorToMajor(amount, currency) * invoice.exchange_rate! * 100);
+      elements.push(xmlText(`${field}W`, formatAmount(pln, DEFAULT_CURRENCY)));
+    }
+    return elements;
+  });
+
+  const buyerCountry = (invoice.client_country || "PL").toUpperCase();
+  const exempt = symbols.includes("zw");
+  const gross = Number(invoice.gross_price);
+
+  const faktura = xmlElement("Faktura", [
+    xmlText("KodWaluty", currency),
+    xmlText("P_1", invoice.invoice_date),
+    xmlText("P_2A", invoice.number),
+    xmlText(
+      "P_3A",
+      invoice.client_company_name ||
+        [invoice.client_first_name, invoice.client_last_name].filter(Boolean).join(" ")
+    ),
+    xmlText(
+      "P_3B",
+      formatAddress(
+        invoice.client_street,
+        invoice.client_street_number,
+        invoice.client_flat_number,
+        invoice.client_post_code,
+        invoice.client_city
+      )
+    ),
+    xmlText("P_3C", seller.company_name),
+    xmlText(
+      "P_3D",
+      formatAddress(seller.street, seller.street_number, seller.flat_number, seller.post_code, seller.city)
+    ),
+    xmlText("P_4A", seller.tax_code ? "PL" : undefined),
+    xmlText("P_4B", seller.tax_code && normalizeTaxCode(seller.tax_code, "PL")),
+    xmlText("P_5A", invoice.client_tax_code ? buyerCountry : undefined),
+    xmlText(
+      "P_5B",
+      invoice.client_tax_code &&
+        normalizeTaxCode(invoice.client_tax_code, buyerCountry === "GR" ? "EL" : buyerCountry)
+    ),
+    invoice.sale_date !== invoice.invoice_date ? xmlText("P_6", invoice.sale_date) : undefined,
+    ...summaryElements,
+    xmlText("P_15", formatAmount(gross, currency)),
+    xmlText("P_16", "false"),
+    xmlText("P_17", "false"),
+    xmlText("P_18", String(symbols.includes("oo"))),
+    xmlText("P_18A", "false"),
+    xmlText("P_19", String(exempt)),
+    exempt ? xmlText("P_19A", options.exemptionBasis) : undefined,
+    xmlText("P_20", "false"),
+    xmlText("P_21", "false"),
+    xmlText("P_22", "false"),
+    xmlText("P_23", "false"),
+    xmlText("P_106E_2", "false"),
+    xmlText("P_106E_3", "false"),
+    xmlText("RodzajFaktury", "VAT"),
+  ]);
+
+  return {
+    faktura,
+    lines,
+    gross: toHundredths(gross, currency),
+    linesNet: toHundredths(linesNet, currency),
+  };
+}
+
+/**
+ * Builds a JPK_FA file from the invoices issued in a period
+ *
+ * Control sums add up amounts as stated, across currencies, as the
+ * structure defines them. They are summed in whole hundredths so that
+ * many invoices do not accumulate floating-point error.
+ *
+ * @param invoices - Invoices issued in the period (amounts in minor units)
+ * @param seller - Account details of the seller
+ * @param period - Period covered by the file
+ * @param options - Taxpayer data and exemption basis
+ * @returns Document root element and the invoices left out of it
+ */
+export function buildJpkFa(
+  invoices: Invoice[],
+  seller: AccountInfo,
+  period: VatPeriod,
+  options: JpkOptions
+): { document: XmlElement; skipped: SkippedDocument[] } {
+  const schema = JPK_SCHEMAS.JPK_FA;
+  const skipped: SkippedDocument[] = [];
+  const fakturas: XmlElement[] = [];
+  const lines: XmlElement[] = [];
+  let grossTotal = 0;
+  let linesNetTotal = 0;
+
+  for (const invoice of invoices) {
+    const record = buildInvoiceRecord(invoice, seller, options);
+    if (typeof record === "string") {
+      skipped.push({ type: "invoice", uuid: invoice.uuid, number: invoice.number, reason: record });
+      continue;
+    }
+    fakturas.push(record.faktura);
+    lines.push(...record.lines);
+    grossTotal += record.gross;
+    linesNetTotal += record.linesNet;
+  }
+
+  const taxpayer = options.taxpayer;
+
+  const document = xmlElement(
+    "JPK",
+    [
+      xmlElement("Naglowek", [
+        xmlText("KodFormularza", "JPK_FA", {
+          kodSystemowy: schema.systemCode,
+          wersjaSchemy: schema.schemaVersion,
+        }),
+        xmlText("WariantFormularza", schema.variant),
+        xmlText("CelZlozenia", "1"),
+        xmlText("DataWytworzeniaJPK", formatGeneratedAt(options)),
+        xmlText("DataOd", period.from),
+        xmlText("DataDo", period.to),
+        xmlText("KodUrzedu", taxpayer.tax_office_code),
+      ]),
+      xmlElement("Podmiot1", [
+        xmlElement("IdentyfikatorPodmiotu", [
+          xmlText("etd:NIP", seller.tax_code && normalizeTaxCode(seller.tax_code, "PL")),
+          xmlText("etd:PelnaNazwa", seller.company_name),
+        ]),
+        xmlElement("AdresPodmiotu", [
+          xmlText("etd:KodKraju", (seller.country || "PL").toUpperCase()),
+          xmlText("etd:Wojewodztwo", taxpayer.voivodeship),
+          xmlText("etd:Powiat", taxpayer.county),
+          xmlText("etd:Gmina", taxpayer.municipality),
+          xmlText("etd:Ulica", seller.street),
+          xmlText("etd:NrDomu", seller.street_number),
+          xmlText("etd:NrLokalu", seller.flat_number),
+          xmlText("etd:Miejscowosc", seller.city),
+          xmlText("etd:KodPocztowy", seller.post_code),
+        ]),
+      ]),
+      ...fakturas,
+      xmlElement("FakturaCtrl", [
+        xmlText("LiczbaFaktur", fakturas.length),
+        xmlText("WartoscFaktur", formatAmount(grossTotal, DEFAULT_CURRENCY)),
+      ]),
+      ...lines,
+      xmlElement("FakturaWierszCtrl", [
+        xmlText("LiczbaWierszyFaktur", lines.length),
+        xmlText("WartoscWierszyFaktur", formatAmount(linesNetTotal, DEFAULT_CURRENCY)),
+      ]),
+    ],
+    {
+      xmlns: schema.namespace,
+      "xmlns:etd": schema.etdNamespace,
+    }
+  );
+
+  return { document, skipped };
+}
+
+/**
+ * Validates and serializes a JPK document
+ *
+ * @param format - JPK structure of the document
+ * @param period - Period covered by the file
+ * @param built - Document root element and the documents left out of it
+ * @param sourceSkipped - Documents already left out of the source registers
+ * @param truncated - Whether fetching the period's documents was truncated
+ */
+export function finalizeJpk(
+  format: JpkFormat,
+  period: VatPeriod,
+  built: { document: XmlElement; skipped: SkippedDocument[] },
+  sourceSkipped: SkippedDocument[],
+  truncated: boolean
+): JpkResult {
+  const violations = validateXml(built.document, JPK_DOCUMENT_SCHEMAS[format]);
+
+  return {
+    format,
+    period,
+    valid: violations.length === 0,
+    violations,
+    skipped: [...sourceSkipped, ...built.skipped],
+    truncated,
+    xml: serializeXml(built.document),
+  };
+}
@@ -0,0 +1,344 @@
+/**
+ * KSeF e-invoice schemas FA(2) and FA(3)
+ *
+ * Transcribed from the official XSD published by the Ministry of Finance
+ * (schemat_FA(2)_v1-0E.xsd, schemat_FA(3)_v1-0E.xsd and the imported
+ * StrukturyDanych/ElementarneTypyDanych definitions). Every element of
+ * Faktura, its parties, Fa, Adnotacje, FaWiersz and Platnosc is declared
+ * in XSD order with its occurrence bounds, so required elements, order and
+ * unexpected elements are always checked. Values and content are checked
+ * for the elements this server emits; the optional subtrees it never emits
+ * (third parties, corrections, advance payments, settlement, transaction
+ * terms, footer and the like) are opaque. Country codes are checked by
+ * pattern instead of the full enumeration.
+ */
+
+import type { KsefSchemaVersion } from "./types.js";
+import { EU_COUNTRY_CODES } from "./vat.js";
+import {
+  choice,
+  element,
+  opaque,
+  optional,
+  sequence,
+  ElementDef,
+  SimpleTypeDef,
+} from "./xml-schema.js";
+
+/**
+ * Namespace and form code of each schema version
+ */
+export const KSEF_SCHEMAS: Record<
+  KsefSchemaVersion,
+  { namespace: string; systemCode: string; schemaVersion: string; variant: string }
+> = {
+  "FA(2)": {
+    namespace: "http://crd.gov.pl/wzor/2023/06/29/12648/",
+    systemCode: "FA (2)",
+    schemaVersion: "1-0E",
+    variant: "2",
+  },
+  "FA(3)": {
+    namespace: "http://crd.gov.pl/wzor/2025/06/25/13775/",
+    systemCode: "FA (3)",
+    schemaVersion: "1-0E",
+    variant: "3",
+  },
+};
+
+/**
+ * VAT rates (P_12) accepted by each schema version
+ */
+export const KSEF_VAT_RATES: Record<KsefSchemaVersion, readonly string[]> = {
+  "FA(2)": ["23", "22", "8", "7", "5", "4", "3", "0", "zw", "oo", "np"],
+  "FA(3)": ["23", "22", "8", "7", "5", "4", "3", "0 KR", "0 WDT", "0 EX", "zw", "oo", "np I", "np II"],
+};
+
+// Elementary types (ElementarneTypyDanych)
+const TZnakowy: SimpleTypeDef = { base: "string", minLength: 1, maxLength: 256 };
+const TZnakowy50: SimpleTypeDef = { base: "string", minLength: 1, maxLength: 50 };
+const TZnakowy512: SimpleTypeDef = { base: "string", minLength: 1, maxLength: 512 };
+const TNIP: SimpleTypeDef = { base: "string", pattern: "[1-9]((\\d[1-9])|([1-9]\\d))\\d{7}" };
+const TKodKraju: SimpleTypeDef = { base: "string", pattern: "[A-Z]{2}" };
+const TKodUE: SimpleTypeDef = { base: "string", enumeration: EU_COUNTRY_CODES };
+const TNrVatUE: SimpleTypeDef = { base: "string", pattern: "(\\d|[A-Z]|\\+|\\*){1,12}" };
+const TKodWaluty: SimpleTypeDef = { base: "string", pattern: "[A-Z]{3}" };
+const TData: SimpleTypeDef = { base: "date", minInclusive: "2006-01-01", maxInclusive: "2050-01-01" };
+const TDataCzas: SimpleTypeDef = { base: "dateTime" };
+const TKwotowy: SimpleTypeDef = { base: "decimal", totalDigits: 18, fractionDigits: 2 };
+const TKwotowy2: SimpleTypeDef = { base: "decimal", totalDigits: 22, fractionDigits: 8 };
+const TIlosci: SimpleTypeDef = { base: "decimal", totalDigits: 22, fractionDigits: 6 };
+const TKursWaluty: SimpleTypeDef = { base: "decimal", totalDigits: 22, fractionDigits: 6, minInclusive: 0 };
+const TNaturalny: SimpleTypeDef = { base: "integer", minInclusive: 1 };
+const TWybor1: SimpleTypeDef = { base: "string", enumeration: ["1"] };
+const TWybor1_2: SimpleTypeDef = { base: "string", enumeration: ["1", "2"] };
+const TNrRB: SimpleTypeDef = { base: "string", pattern: "[0-9A-Z]{10,34}" };
+const TFormaPlatnosci: SimpleTypeDef = {
+  base: "string",
+  enumeration: ["1", "2", "3", "4", "5", "6", "7"],
+};
+const TRodzajFaktury: SimpleTypeDef = {
+  base: "string",
+  enumeration: ["VAT", "KOR", "ZAL", "ROZ", "UPR", "KOR_ZAL", "KOR_ROZ"],
+};
+
+/**
+ * Address (TAdres)
+ */
+function address(name: string, min: number): ElementDef {
+  return element(
+    name,
+    [
+      element("KodKraju", TKodKraju),
+      element("AdresL1", TZnakowy512),
+      optional("AdresL2", TZnakowy512),
+      opaque("GLN"),
+    ],
+    { min }
+  );
+}
+
+/**
+ * Net amount, VAT and VAT in PLN of one rate group (P_13_x, P_14_x, P_14_xW)
+ */
+function rateTotals(suffix: string) {
+  return [
+    optional(`P_13_${suffix}`, TKwotowy),
+    optional(`P_14_${suffix}`, TKwotowy),
+    optional(`P_14_${suffix}W`, TKwotowy),
+  ];
+}
+
+/**
+ * Builds the root element declaration of a schema version
+ *
+ * @param version - FA(2) or FA(3)
+ * @returns Declaration of the Faktura element
+ */
+function buildSchema(version: KsefSchemaVersion): ElementDef {
+  const schema = KSEF_SCHEMAS[version];
+  const fa3 = version === "FA(3)";
+
+  const naglowek = element("Naglowek", [
+    element("KodFormularza", { base: "string", enumeration: ["FA"] }, {}, [
+      { name: "kodSystemowy", type: TZnakowy, fixed: schema.systemCode },
+      { name: "wersjaSchemy", type: TZnakowy, fixed: schema.schemaVersion },
+    ]),
+    element("WariantFormularza", { base: "string", enumeration: [schema.variant] }),
+    element("DataWytworzeniaFa", TDataCzas),
+    optional("SystemInfo", TZnakowy),
+  ]);
+
+  const podmiot1 = element("Podmiot1", [
+    opaque("PrefiksPodatnika"),
+    opaque("NrEORI"),
+    element("DaneIdentyfikacyjne", [element("NIP", TNIP), element("Nazwa", TZnakowy512)]),
+    address("Adres", 1),
+    opaque("AdresKoresp"),
+    opaque("DaneKontaktowe", { min: 0, max: 3 }),
+    opaque("StatusInfoPodatnika"),
+  ]);
+
+  const podmiot2 = element("Podmiot2", [
+    opaque("NrEORI"),
+    element("DaneIdentyfikacyjne", [
+      choice([
+        element("NIP", TNIP),
+        sequence([element("KodUE", TKodUE), element("NrVatUE", TNrVatUE)]),
+        sequence([optional("KodKraju", TKodKraju), element("NrID", TZnakowy50)]),
+        element("BrakID", TWybor1),
+      ]),
+      optional("Nazwa", TZnakowy512),
+    ]),
+    address("Adres", 0),
+    opaque("AdresKoresp"),
+    opaque("DaneKontaktowe", { min: 0, max: 3 }),
+    opaque("NrKlienta"),
+    // FA(3): buyer ID, local government unit and VAT group member markers
+    ...(fa3 ? [opaque("IDNabywcy"), element("JST", TWybor1_2), element("GV", TWybor1_2)] : []),
+  ]);
+
+  const adnotacje = element("Adnotacje", [
+    element("P_16", TWybor1_2),
+    element("P_17", TWybor1_2),
+    element("P_18", TWybor1_2),
+    element("P_18A", TWybor1_2),
+    element("Zwolnienie", [
+      choice([
+        sequence([
+          element("P_19", TWybor1),
+          choice([
+            element("P_19A", TZnakowy),
+            element("P_19B", TZnakowy),
+            element("P_19C", TZnakowy),
+          ]),
+        ]),
+        element("P_19N", TWybor1),
+      ]),
+    ]),
+    element("NoweSrodkiTransportu", [
+      choice([
+        sequence([
+          element("P_22", TWybor1),
+          element("P_42_5", TWybor1_2),
+          opaque("NowySrodekTransportu", { min: 1, max: 10000 }),
+        ]),
+        element("P_22N", TWybor1),
+      ]),
+    ]),
+    element("P_23", TWybor1_2),
+    element("PMarzy", [
+      choice([
+        sequence([
+          element("P_PMarzy", TWybor1),
+          choice([
+            element("P_PMarzy_2", TWybor1),
+            element("P_PMarzy_3_1", TWybor1),
+            element("P_PMarzy_3_2", TWybor1),
+            element("P_PMarzy_3_3", TWybor1),
+          ]),
+        ]),
+        element("P_PMarzyN", TWybor1),
+      ]),
+    ]),
+  ]);
+
+  const faWiersz = element(
+    "FaWiersz",
+    [
+      element("NrWierszaFa", TNaturalny),
+      opaque("UU_ID"),
+      opaque("P_6A"),
+      optional("P_7", TZnakowy512),
+      opaque("Indeks"),
+      opaque("GTIN"),
+      optional("PKWiU", TZnakowy50),
+      opaque("CN"),
+      opaque("PKOB"),
+      optional("P_8A", TZnakowy),
+      optional("P_8B", TIlosci),
+      optional("P_9A", TKwotowy2),
+      opaque("P_9B"),
+      opaque("P_10"),
+      optional("P_11", TKwotowy),
+      opaque("P_11A"),
+      opaque("P_11Vat"),
+      optional("P_12", { base: "string", enumeration: KSEF_VAT_RATES[version] }),
+      opaque("P_12_XII"),
+      opaque("P_12_Zal_15"),
+      opaque("KwotaAkcyzy"),
+      opaque("GTU"),
+      opaque("Procedura"),
+      optional("KursWaluty", TKursWaluty),
+      opaque("StanPrzed"),
+    ],
+    { min: 0, max: 10000 }
+  );
+
+  const platnosc = optional("Platnosc", [
+    choice(
+      [
+        sequence([element("Zaplacono", TWybor1), element("DataZaplaty", TData)]),
+        sequence([
+          element("ZnacznikZaplatyCzesciowej", TWybor1),
+          opaque("ZaplataCzesciowa", { min: 1, max: 100 }),
+        ]),
+      ],
+      { min: 0 }
+    ),
+    element("TerminPlatnosci", [optional("Termin", TData), opaque("TerminOpis")], {
+      min: 0,
+      max: 100,
+    }),
+    choice(
+      [
+        element("FormaPlatnosci", TFormaPlatnosci),
+        sequence([element("PlatnoscInna", TWybor1), element("OpisPlatnosci", TZnakowy)]),
+      ],
+      { min: 0 }
+    ),
+    element(
+      "RachunekBankowy",
+      [
+        element("NrRB", TNrRB),
+        opaque("SWIFT"),
+        opaque("RachunekWlasnyBanku"),
+        optional("NazwaBanku", TZnakowy),
+        opaque("OpisRachunku"),
+      ],
+      { min: 0, max: 100 }
+    ),
+    opaque("RachunekBankowyFaktora", { min: 0, max: 20 }),
+    opaque("Skonto"),
+    // FA(3): payment link and its identifier
+    ...(fa3 ? [opaque("LinkDoPlatnosci"), opaque("IPKSeF")] : []),
+  ]);
+
+  const fa = element("Fa", [
+    element("KodWaluty", TKodWaluty),
+    element("P_1", TData),
+    optional("P_1M", TZnakowy),
+    element("P_2", TZnakowy),
+    opaque("WZ", { min: 0, max: 1000 }),
+    choice([element("P_6", TData), opaque("OkresFa", { min: 1 })], { min: 0 }),
+    ...rateTotals("1"),
+    ...rateTotals("2"),
+    ...rateTotals("3"),
+    ...rateTotals("4"),
+    opaque("P_13_5"),
+    opaque("P_14_5"),
+    optional("P_13_6_1", TKwotowy),
+    optional("P_13_6_2", TKwotowy),
+    optional("P_13_6_3", TKwotowy),
+    optional("P_13_7", TKwotowy),
+    optional("P_13_8", TKwotowy),
+    optional("P_13_9", TKwotowy),
+    optional("P_13_10", TKwotowy),
+    opaque("P_13_11"),
+    element("P_15", TKwotowy),
+    opaque("KursWalutyZ"),
+    adnotacje,
+    element("RodzajFaktury", TRodzajFaktury),
+    // Corrections and advance invoices
+    opaque("PrzyczynaKorekty"),
+    opaque("TypKorekty"),
+    opaque("DaneFaKorygowanej", { min: 0, max: 50000 }),
+    opaque("OkresFaKorygowanej"),
+    opaque("NrFaKorygowany"),
+    opaque("Podmiot1K"),
+    opaque("Podmiot2K", { min: 0, max: 101 }),
+    opaque("P_15ZK"),
+    opaque("KursWalutyZK"),
+    opaque("ZaliczkaCzesciowa", { min: 0, max: 31 }),
+    opaque("FP"),
+    opaque("TP"),
+    opaque("DodatkowyOpis", { min: 0, max: 10000 }),
+    opaque("FakturaZaliczkowa", { min: 0, max: 100 }),
+    opaque("ZwrotAkcyzy"),
+    faWiersz,
+    opaque("Rozliczenie"),
+    platnosc,
+    opaque("WarunkiTransakcji"),
+    opaque("Zamowienie"),
+  ]);
+
+  return element("Faktura", [
+    naglowek,
+    podmiot1,
+    podmiot2,
+    opaque("Podmiot3", { min: 0, max: 100 }),
+    opaque("PodmiotUpowazniony"),
+    fa,
+    opaque("Stopka"),
+    // FA(3): structured attachment
+    ...(fa3 ? [opaque("Zalacznik")] : []),
+  ]);
+}
+
+/**
+ * Root element declarations by schema version
+ */
+export const KSEF_INVOICE_SCHEMAS: Record<KsefSchemaVersion, ElementDef> = {
+  "FA(2)": buildSchema("FA(2)"),
+  "FA(3)": buildSchema("FA(3)"),
+};
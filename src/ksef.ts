@@ -0,0 +1,403 @@
+/**
+ * KSeF (Krajowy System e-Faktur) e-invoice export
+ *
+ * Maps inFakt invoices to the FA(2)/FA(3) logical structure: seller from the
+ * account details, buyer from the invoice client fields, one FaWiersz per
+ * service and the VAT summary in the P_13_x/P_14_x fields. 0% and
+ * not-subject lines are classified by the buyer's country. Missing data is
+ * left out of the document so that offline validation reports it instead of
+ * failing the export.
+ */
+
+import type {
+  AccountInfo,
+  BankAccount,
+  Invoice,
+  KsefExportResult,
+  KsefSchemaVersion,
+  PaymentMethod,
+  XmlElement,
+} from "./types.js";
+import { ValidationError } from "./validation.js";
+import { DEFAULT_CURRENCY, getCurrencyDecimals, minorToMajor } from "./currency.js";
+import {
+  classifyVatRate,
+  EU_COUNTRY_CODES,
+  getIssuedLineAmounts,
+  normalizeVatSymbol,
+  toEuCountryCode,
+} from "./vat.js";
+import { serializeXml, xmlElement, xmlText } from "./xml.js";
+import { validateXml } from "./xml-schema.js";
+import { KSEF_INVOICE_SCHEMAS, KSEF_SCHEMAS } from "./ksef-schema.js";
+
+/**
+ * Schema version used when none is requested (mandatory since February 2026)
+ */
+export const DEFAULT_KSEF_SCHEMA_VERSION: KsefSchemaVersion = "FA(3)";
+
+/**
+ * Supported schema versions
+ */
+export const KSEF_SCHEMA_VERSIONS: readonly KsefSchemaVersion[] = ["FA(2)", "FA(3)"];
+
+/**
+ * Payment methods with a KSeF payment form code (FormaPlatnosci)
+ *
+ * Other methods are exported as PlatnoscInna with the method as description.
+ */
+const PAYMENT_FORMS: Partial<Record<PaymentMethod, string>> = {
+  cash: "1",
+  card: "2",
+  check: "4",
+  transfer: "6",
+  paypal: "7",
+  payu: "7",
+  tpay: "7",
+  przelewy24: "7",
+  dotpay: "7",
+};
+
+/**
+ * VAT summary fields of each rate code (see classifyVatRate); rates without
+ * VAT have only a net amount field
+ */
+const RATE_GROUPS: Record<string, { net: string; tax?: string }> = {
+  "23": { net: "P_13_1", tax: "P_14_1" },
+  "22": { net: "P_13_1", tax: "P_14_1" },
+  "8": { net: "P_13_2", tax: "P_14_2" },
+  "7": { net: "P_13_2", tax: "P_14_2" },
+  "5": { net: "P_13_3", tax: "P_14_3" },
+  "4": { net: "P_13_4", tax: "P_14_4" },
+  "3": { net: "P_13_4", tax: "P_14_4" },
+  "0 KR": { net: "P_13_6_1" },
+  "0 WDT": { net: "P_13_6_2" },
+  "0 EX": { net: "P_13_6_3" },
+  zw: { net: "P_13_7" },
+  "np I": { net: "P_13_8" },
+  "np II": { net: "P_13_9" },
+  oo: { net: "P_13_10" },
+};
+
+/**
+ * Order of the VAT summary fields in the schema
+ */
+const SUMMARY_FIELDS = [
+  "P_13_1", "P_14_1", "P_13_2", "P_14_2", "P_13_3", "P_14_3", "P_13_4", "P_14_4",
+  "P_13_6_1", "P_13_6_2", "P_13_6_3", "P_13_7", "P_13_8", "P_13_9", "P_13_10",
+];
+
+/**
+ * Options for building a KSeF invoice
+ */
+export interface KsefExportOptions {
+  version: KsefSchemaVersion;
+  /** Bank account printed in the payment section */
+  bankAccount?: BankAccount;
+  /** Legal basis of the VAT exemption (P_19A), required for "zw" lines */
+  exemptionBasis?: string;
+  /** Document creation time (default: now) */
+  generatedAt?: Date;
+}
+
+/**
+ * Formats an amount in minor units as a decimal in major units
+ */
+function formatAmount(minor: number, currency: string): string {
+  return minorToMajor(minor, currency).toFixed(getCurrencyDecimals(currency));
+}
+
+/**
+ * Maps a rate code to the P_12 value of a schema version; FA(2) does not
+ * distinguish the kinds of 0% and not-subject sales in P_12
+ */
+function toKsefRate(rate: string, version: KsefSchemaVersion): string {
+  return version === "FA(2)" ? rate.split(" ")[0] : rate;
+}
+
+/**
+ * Normalizes a tax identifier: strips spaces, dashes and the country prefix
+ */
+export function normalizeTaxCode(taxCode: string, countryCode: string): string {
+  const compact = taxCode.replace(/[\s-]/g, "").toUpperCase();
+  return compact.startsWith(countryCode) ? compact.substring(countryCode.length) : compact;
+}
+
+/**
+ * Builds the two address lines (street, postal code and city)
+ */
+function buildAddress(
+  country: string | undefined,
+  street: string | undefined,
+  streetNumber: string | undefined,
+  flatNumber: string | undefined,
+  postCode: string | undefined,
+  city: string | undefined
+): XmlElement | undefined {
+  const line1 = [street, [streetNumber, flatNumber].filter(Boolean).join("/")]
+    .filter(Boolean)
+    .join(" ");
+  const line2 = [postCode, city].filter(Boolean).join(" ");
+  if (!line1 && !line2) {
+    return undefined;
+  }
+
+  return xmlElement("Adres", [
+    xmlText("KodKraju", (country || "PL").toUpperCase()),
+    xmlText("AdresL1", line1 || line2),
+    xmlText("AdresL2", line1 ? line2 : undefined),
+  ]);
+}
+
+/**
+ * Builds the buyer identification: Polish NIP, EU VAT number, other tax ID
+ * or BrakID for buyers without one (consumers)
+ */
+function buildBuyerIdentification(invoice: Invoice): XmlElement {
+  const country = (invoice.client_country || "PL").toUpperCase();
+  const name =
+    invoice.client_company_name ||
+    [invoice.client_first_name, invoice.client_last_name].filter(Boolean).join(" ");
+  const nameElement = xmlText("Nazwa", name);
+
+  if (!invoice.client_tax_code) {
+    return xmlElement("DaneIdentyfikacyjne", [xmlText("BrakID", "1"), nameElement]);
+  }
+  if (country === "PL") {
+    return xmlElement("DaneIdentyfikacyjne", [
+      xmlText("NIP", normalizeTaxCode(invoice.client_tax_code, "PL")),
+      nameElement,
+    ]);
+  }
+
+  const euCode = toEuCountryCode(country);
+  if ((EU_COUNTRY_CODES as readonly string[]).includes(euCode)) {
+    return xmlElement("DaneIdentyfikacyjne", [
+      xmlText("KodUE", euCode),
+      xmlText("NrVatUE", normalizeTaxCode(invoice.client_tax_code, euCode)),
+      nameElement,
+    ]);
+  }
+  return xmlElement("DaneIdentyfikacyjne", [
+    xmlText("KodKraju", country),
+    xmlText("NrID", invoice.client_tax_code.trim()),
+    nameElement,
+  ]);
+}
+
+/**
+ * Builds the payment section: paid date or due date, form and bank account
+ */
+function buildPayment(invoice: Invoice, bankAccount?: BankAccount): XmlElement {
+  const paid = invoice.status === "paid" && invoice.paid_date !== undefined;
+  const form = PAYMENT_FORMS[invoice.payment_method];
+
+  return xmlElement("Platnosc", [
+    paid ? xmlText("Zaplacono", "1") : undefined,
+    paid ? xmlText("DataZaplaty", invoice.paid_date) : undefined,
+    paid ? undefined : xmlElement("TerminPlatnosci", [xmlText("Termin", invoice.payment_date)]),
+    form ? xmlText("FormaPlatnosci", form) : xmlText("PlatnoscInna", "1"),
+    form ? undefined : xmlText("OpisPlatnosci", invoice.payment_method),
+    bankAccount &&
+      xmlElement("RachunekBankowy", [
+        xmlText("NrRB", bankAccount.account_number.replace(/[\s-]/g, "").toUpperCase()),
+        xmlText("NazwaBanku", bankAccount.bank_name),
+      ]),
+  ]);
+}
+
+/**
+ * Builds the FA document of an invoice
+ *
+ * @param invoice - Invoice as returned by the API (amounts in minor units)
+ * @param seller - Account details of the seller
+ * @param options - Schema version and additional document data
+ * @throws {ValidationError} If the invoice cannot be represented in KSeF
+ * @returns Document root element
+ */
+export function buildKsefInvoice(
+  invoice: Invoice,
+  seller: AccountInfo,
+  options: KsefExportOptions
+): XmlElement {
+  const kind = invoice.kind ?? "vat";
+  if (kind !== "vat") {
+    throw new ValidationError(
+      "invoice_uuid",
+      `invoice ${invoice.number} is a ${kind} invoice; only VAT invoices can be exported to KSeF`
+    );
+  }
+
+  const currency = invoice.currency ?? DEFAULT_CURRENCY;
+  const foreign = currency !== DEFAULT_CURRENCY;
+  if (foreign && !invoice.exchange_rate) {
+    throw new ValidationError(
+      "invoice_uuid",
+      `invoice ${invoice.number} in ${currency} has no exchange_rate; set it with infakt_update_invoice`
+    );
+  }
+
+  const schema = KSEF_SCHEMAS[options.version];
+  const services = invoice.services ?? [];
+  const symbols = services.map((service) => normalizeVatSymbol(service.tax_symbol));
+
+  // VAT summary per KSeF rate group (minor units of the invoice currency)
+  const summary = new Map<string, number>();
+  const lines = services.map((service, index) => {
+    const rate = classifyVatRate(symbols[index], invoice.client_country, invoice.client_tax_code);
+    if (typeof rate !== "string") {
+      throw new ValidationError(`services[${index}].tax_symbol`, rate.reason);
+    }
+    const group = RATE_GROUPS[rate];
+    if (!group) {
+      throw new ValidationError(
+        `services[${index}].tax_symbol`,
+        `VAT rate ${service.tax_symbol} has no KSeF equivalent`
+      );
+    }
+
+    const amounts = getIssuedLineAmounts(service);
+    summary.set(group.net, (summary.get(group.net) ?? 0) + amounts.net_price);
+    if (group.tax) {
+      summary.set(group.tax, (summary.get(group.tax) ?? 0) + amounts.tax_price);
+    }
+
+    const quantity = Number(service.quantity ?? 1);
+    const unitNetPrice =
+      service.unit_net_price !== undefined
+        ? Number(service.unit_net_price)
+        : Math.round(amounts.net_price / quantity);
+
+    return xmlElement("FaWiersz", [
+      xmlText("NrWierszaFa", index + 1),
+      xmlText("P_7", service.name),
+      xmlText("PKWiU", service.pkwiu),
+      xmlText("P_8A", service.unit),
+      xmlText("P_8B", quantity),
+      xmlText("P_9A", formatAmount(unitNetPrice, currency)),
+      xmlText("P_11", formatAmount(amounts.net_price, currency)),
+      xmlText("P_12", toKsefRate(rate, options.version)),
+      foreign ? xmlText("KursWaluty", invoice.exchange_rate) : undefined,
+    ]);
+  });
+
+  const summaryElements = SUMMARY_FIELDS.flatMap((field) => {
+    const amount = summary.get(field);
+    if (amount === undefined) {
+      return [];
+    }
+    const elements = [xmlText(field, formatAmount(amount, currency))];
+    // VAT of foreign-currency invoices is also stated in PLN
+    if (foreign && field.startsWith("P_14_")) {
+      const pln = Math.round(minorToMajor(amount, currency) * invoice.exchange_rate! * 100);
+      elements.push(xmlText(`${field}W`, formatAmount(pln, DEFAULT_CURRENCY)));
+    }
+    return elements;
+  });
+
+  const exempt = symbols.includes("zw");
+  const reverseCharge = symbols.includes("oo");
+
+  const fa = xmlElement("Fa", [
+    xmlText("KodWaluty", currency),
+    xmlText("P_1", invoice.invoice_date),
+    xmlText("P_2", invoice.number),
+    invoice.sale_date !== invoice.invoice_date ? xmlText("P_6", invoice.sale_date) : undefined,
+    ...summaryElements,
+    xmlText("P_15", formatAmount(Number(invoice.gross_price), currency)),
+    xmlElement("Adnotacje", [
+      xmlText("P_16", "2"),
+      xmlText("P_17", "2"),
+      xmlText("P_18", reverseCharge ? "1" : "2"),
+      xmlText("P_18A", "2"),
+      xmlElement(
+        "Zwolnienie",
+        exempt
+          ? [xmlText("P_19", "1"), xmlText("P_19A", options.exemptionBasis)]
+          : [xmlText("P_19N", "1")]
+      ),
+      xmlElement("NoweSrodkiTransportu", [xmlText("P_22N", "1")]),
+      xmlText("P_23", "2"),
+      xmlElement("PMarzy", [xmlText("P_PMarzyN", "1")]),
+    ]),
+    xmlText("RodzajFaktury", "VAT"),
+    ...lines,
+    buildPayment(invoice, options.bankAccount),
+  ]);
+
+  const sellerCountry = (seller.country || "PL").toUpperCase();
+
+  return xmlElement(
+    "Faktura",
+    [
+      xmlElement("Naglowek", [
+        xmlText("KodFormularza", "FA", {
+          kodSystemowy: schema.systemCode,
+          wersjaSchemy: schema.schemaVersion,
+        }),
+        xmlText("WariantFormularza", schema.variant),
+        xmlText(
+          "DataWytworzeniaFa",
+          (options.generatedAt ?? new Date()).toISOString().replace(/\.\d{3}Z$/, "Z")
+        ),
+        xmlText("SystemInfo", "infakt-mcp-server"),
+      ]),
+      xmlElement("Podmiot1", [
+        xmlElement("DaneIdentyfikacyjne", [
+          xmlText("NIP", seller.tax_code && normalizeTaxCode(seller.tax_code, "PL")),
+          xmlText("Nazwa", seller.company_name),
+        ]),
+        buildAddress(
+          sellerCountry,
+          seller.street,
+          seller.street_number,
+          seller.flat_number,
+          seller.post_code,
+          seller.city
+        ),
+      ]),
+      xmlElement("Podmiot2", [
+        buildBuyerIdentification(invoice),
+        buildAddress(
+          invoice.client_country,
+          invoice.client_street,
+          invoice.client_street_number,
+          invoice.client_flat_number,
+          invoice.client_post_code,
+          invoice.client_city
+        ),
+        options.version === "FA(3)" ? xmlText("JST", "2") : undefined,
+        options.version === "FA(3)" ? xmlText("GV", "2") : undefined,
+      ]),
+      fa,
+    ],
+    { xmlns: schema.namespace }
+  );
+}
+
+/**
+ * Exports an invoice as KSeF XML and validates it against the schema
+ *
+ * @param invoice - Invoice as returned by the API (amounts in minor units)
+ * @param seller - Account details of the seller
+ * @param options - Schema version and additional document data
+ * @throws {ValidationError} If the invoice cannot be represented in KSeF
+ * @returns XML document and schema violations (empty if valid)
+ */
+export function exportKsefInvoice(
+  invoice: Invoice,
+  seller: AccountInfo,
+  options: KsefExportOptions
+): KsefExportResult {
+  const document = buildKsefInvoice(invoice, seller, options);
+  const violations = validateXml(document, KSEF_INVOICE_SCHEMAS[options.version]);
+
+  return {
+    invoice_uuid: invoice.uuid,
+    invoice_number: invoice.number,
+    schema_version: options.version,
+    valid: violations.length === 0,
+    violations,
+    xml: serializeXml(document),
+  };
+}
@@ -0,0 +1,118 @@
+/**
+ * Server-side pagination for list endpoints
+ *
+ * inFakt list endpoints return at most 100 entities per page. When a list
+ * tool is called with `all: true` or `max_items`, these helpers walk the
+ * pages and merge them into a single result, bounded by a safety cap.
+ */
+
+import type { ApiClient } from "./api-client.js";
+import type {
+  EntityListResponse,
+  FetchAllParams,
+  FetchAllResult,
+  RansackQueryParams,
+} from "./types.js";
+import {
+  ValidationError,
+  validateBoolean,
+  validatePositiveNumber,
+} from "./validation.js";
+
+/**
+ * Maximum page size accepted by the inFakt API
+ */
+export const MAX_PAGE_SIZE = 100;
+
+/**
+ * Default number of items fetched in "fetch all" mode
+ */
+export const DEFAULT_MAX_ITEMS = 1000;
+
+/**
+ * Hard upper bound for `max_items`
+ */
+export const MAX_ITEMS_LIMIT = 10000;
+
+/**
+ * Validates `all` and `max_items` parameters
+ */
+export function validateFetchAllParams(params: {
+  all?: unknown;
+  max_items?: unknown;
+}): void {
+  if (params.all !== undefined) {
+    validateBoolean(params.all, "all");
+  }
+
+  if (params.max_items !== undefined) {
+    validatePositiveNumber(params.max_items, "max_items");
+    if (!Number.isInteger(params.max_items)) {
+      throw new ValidationError("max_items", "must be an integer");
+    }
+    if (params.max_items > MAX_ITEMS_LIMIT) {
+      throw new ValidationError("max_items", `must not exceed ${MAX_ITEMS_LIMIT}`);
+    }
+  }
+}
+
+/**
+ * Whether the caller requested "fetch all" mode
+ */
+export function isFetchAll(params: FetchAllParams): boolean {
+  return params.all === true || params.max_items !== undefined;
+}
+
+/**
+ * Walks all pages of a list endpoint and merges the entities
+ *
+ * @param apiClient - API client
+ * @param url - List endpoint URL
+ * @param queryParams - Base query parameters (filters, order, fields, starting offset)
+ * @param params - Fetch-all parameters (`max_items` caps the total)
+ * @returns Merged entities with total count, pages fetched and truncation flag
+ */
+export async function fetchAllPages<T>(
+  apiClient: ApiClient,
+  url: string,
+  queryParams: RansackQueryParams,
+  params: FetchAllParams
+): Promise<FetchAllResult<T>> {
+  const maxItems = params.max_items ?? DEFAULT_MAX_ITEMS;
+  const startOffset = queryParams.offset ?? 0;
+  const entities: T[] = [];
+  let pagesFetched = 0;
+  let totalCount: number | undefined;
+  let exhausted = false;
+
+  while (entities.length < maxItems) {
+    const limit = Math.min(MAX_PAGE_SIZE, maxItems - entities.length);
+    const page = await apiClient.get<EntityListResponse<T>>(url, {
+      params: { ...queryParams, offset: startOffset + entities.length, limit },
+    });
+    pagesFetched++;
+
+    const pageEntities = page.entities ?? [];
+    entities.push(...pageEntities);
+    totalCount = page.metainfo?.total_count ?? totalCount;
+
+    if (
+      pageEntities.length < limit ||
+      (totalCount !== undefined && startOffset + entities.length >= totalCount)
+    ) {
+      exhausted = true;
+      break;
+    }
+  }
+
+  // Without metainfo the total is unknown: a cap hit means more may exist
+  const fetchedUpTo = startOffset + entities.length;
+  const truncated = !exhausted && (totalCount === undefined || fetchedUpTo < totalCount);
+
+  return {
+    entities,
+    total_count: totalCount ?? fetchedUpTo,
+    pages_fetched: pagesFetched,
+    truncated,
+  };
+}
@@ -0,0 +1,146 @@
+/**
+ * Client-side rate limiting for inFakt API requests
+ *
+ * inFakt enforces rate limits per IP address, so requests are admitted
+ * through a token bucket (requests per second) combined with a cap on
+ * concurrent requests. Calls over the limit wait in a FIFO queue instead
+ * of failing with 429. A value of 0 disables the respective limit.
+ *
+ * A limiter may be chained to a parent limiter shared by several limiters,
+ * e.g. a global concurrency cap above the per-tenant buckets.
+ */
+
+import type { RateLimitConfig } from "./types.js";
+
+/**
+ * Token bucket rate limiter with a concurrency cap and request queue
+ */
+export class RateLimiter {
+  private tokens: number;
+  private lastRefill = Date.now();
+  private active = 0;
+  private readonly queue: Array<() => void> = [];
+  private timer: NodeJS.Timeout | undefined;
+
+  /**
+   * @param config - Limits of this limiter
+   * @param parent - Limiter every admitted request must also pass
+   */
+  constructor(
+    private readonly config: RateLimitConfig,
+    private readonly parent?: RateLimiter
+  ) {
+    this.tokens = this.capacity;
+  }
+
+  /**
+   * Number of requests waiting for a slot
+   */
+  get queueDepth(): number {
+    return this.queue.length;
+  }
+
+  /**
+   * Number of requests currently in flight
+   */
+  get activeCount(): number {
+    return this.active;
+  }
+
+  /**
+   * Runs a task once the rate limit and concurrency cap allow it
+   *
+   * @param task - Function performing the request
+   * @returns Result of the task
+   */
+  async schedule<T>(task: () => Promise<T>): Promise<T> {
+    await this.acquire();
+    try {
+      return await (this.parent ? this.parent.schedule(task) : task());
+    } finally {
+      this.active--;
+      this.drain();
+    }
+  }
+
+  /**
+   * Bucket size: allows bursts of up to one second worth of requests
+   */
+  private get capacity(): number {
+    return Math.max(1, this.config.requestsPerSecond);
+  }
+
+  /**
+   * Whether another request may start (maxConcurrency 0 means unlimited)
+   */
+  private hasFreeSlot(): boolean {
+    return this.config.maxConcurrency <= 0 || this.active < this.config.maxConcurrency;
+  }
+
+  /**
+   * Waits for a free slot in the queue
+   */
+  private acquire(): Promise<void> {
+    return new Promise((resolve) => {
+      this.queue.push(resolve);
+      this.drain();
+
+      if (this.queue.length > 0) {
+        console.error(
+          `[inFakt MCP] Rate limiter: request queued ` +
+            `(queue depth ${this.queue.length}, in flight ${this.active})`
+        );
+      }
+    });
+  }
+
+  /**
+   * Refills tokens according to elapsed time
+   */
+  private refill(): void {
+    if (this.config.requestsPerSecond <= 0) {
+      this.tokens = this.capacity;
+      return;
+    }
+
+    const now = Date.now();
+    const elapsed = (now - this.lastRefill) / 1000;
+    this.tokens = Math.min(
+      this.capacity,
+      this.tokens + elapsed * this.config.requestsPerSecond
+    );
+    this.lastRefill = now;
+  }
+
+  /**
+   * Starts queued requests while tokens and concurrency slots are available
+   */
+  private drain(): void {
+    this.refill();
+
+    while (
+      this.queue.length > 0 &&
+      this.hasFreeSlot() &&
+      this.tokens >= 1
+    ) {
+      if (this.config.requestsPerSecond > 0) {
+        this.tokens -= 1;
+      }
+      this.active++;
+      this.queue.shift()!();
+    }
+
+    // Waiting for tokens rather than for a concurrency slot: schedule a refill
+    if (
+      this.queue.length > 0 &&
+      this.hasFreeSlot() &&
+      this.timer === undefined
+    ) {
+      const waitMs = ((1 - this.tokens) / this.config.requestsPerSecond) * 1000;
+      this.timer = setTimeout(() => {
+        this.timer = undefined;
+        this.drain();
+      }, Math.ceil(waitMs));
+    }
+  }
+}
@@ -0,0 +1,236 @@
+/**
+ * Overdue receivables, aging and invoice balances
+ *
+ * Builds an aging report from unpaid invoices whose payment date has passed:
+ * days overdue per invoice, per-client totals and the usual 0-30, 31-60,
+ * 61-90 and 90+ day buckets. Totals are summed in grosze and reported in PLN;
+ * foreign-currency invoices are converted at their invoice exchange rate.
+ */
+
+import type {
+  AgingBucket,
+  AgingBucketLabel,
+  ISODateString,
+  Invoice,
+  InvoicePayment,
+  InvoicePaymentSummary,
+  OverdueClientSummary,
+  OverdueReport,
+} from "./types.js";
+import { DEFAULT_CURRENCY, minorToMajor, groszeToPLN } from "./currency.js";
+import { daysBetween } from "./dates.js";
+
+/**
+ * Upper bound (inclusive) of each aging bucket in days
+ */
+export const AGING_BUCKETS: ReadonlyArray<{ label: AgingBucketLabel; maxDays: number }> = [
+  { label: "0-30", maxDays: 30 },
+  { label: "31-60", maxDays: 60 },
+  { label: "61-90", maxDays: 90 },
+  { label: "90+", maxDays: Infinity },
+];
+
+/**
+ * Invoice statuses that are issued but not paid
+ */
+export const UNPAID_INVOICE_STATUSES = ["printed", "sent"] as const;
+
+/**
+ * Aging bucket for a number of days overdue
+ */
+export function getAgingBucket(daysOverdue: number): AgingBucketLabel {
+  return AGING_BUCKETS.find((bucket) => daysOverdue <= bucket.maxDays)!.label;
+}
+
+/**
+ * Creates empty aging buckets
+ */
+function emptyAging(): Record<AgingBucketLabel, AgingBucket> {
+  return Object.fromEntries(
+    AGING_BUCKETS.map(({ label }) => [label, { count: 0, total_pln: 0 }])
+  ) as Record<AgingBucketLabel, AgingBucket>;
+}
+
+/**
+ * Running totals in grosze, converted to PLN once all invoices are counted
+ * to avoid floating point drift
+ */
+class AgingTotals {
+  total = 0;
+  count = 0;
+  private readonly buckets = new Map<AgingBucketLabel, { count: number; grosze: number }>();
+
+  add(bucket: AgingBucketLabel, grosze: number | null): void {
+    const entry = this.buckets.get(bucket) ?? { count: 0, grosze: 0 };
+    entry.count++;
+    entry.grosze += grosze ?? 0;
+    this.buckets.set(bucket, entry);
+    this.total += grosze ?? 0;
+    this.count++;
+  }
+
+  toAging(): Record<AgingBucketLabel, AgingBucket> {
+    const aging = emptyAging();
+    for (const [bucket, entry] of this.buckets) {
+      aging[bucket] = { count: entry.count, total_pln: groszeToPLN(entry.grosze) };
+    }
+    return aging;
+  }
+}
+
+/**
+ * Amount still due on an invoice, in minor units of its currency
+ *
+ * Uses left_to_pay when the API reports it (partial payments), otherwise
+ * the gross amount.
+ */
+export function getOutstandingMinor(invoice: Invoice): number {
+  if (invoice.left_to_pay !== undefined && invoice.left_to_pay !== null) {
+    return Number(invoice.left_to_pay);
+  }
+  return Number(invoice.gross_price) - Number(invoice.paid_price ?? 0);
+}
+
+/**
+ * Builds the payment history and balance of an invoice
+ *
+ * Amounts stay in minor units of the invoice currency. When the invoice does
+ * not report paid_price, it is derived from the payment history.
+ */
+export function buildPaymentSummary(
+  invoice: Invoice,
+  payments: InvoicePayment[]
+): InvoicePaymentSummary {
+  const grossPrice = Number(invoice.gross_price);
+  const paidPrice =
+    invoice.paid_price !== undefined && invoice.paid_price !== null
+      ? Number(invoice.paid_price)
+      : payments.reduce((sum, payment) => sum + Number(payment.amount), 0);
+  const leftToPay =
+    invoice.left_to_pay !== undefined && invoice.left_to_pay !== null
+      ? Number(invoice.left_to_pay)
+      : Math.max(0, grossPrice - paidPrice);
+
+  return {
+    invoice_uuid: invoice.uuid,
+    number: invoice.number,
+    status: invoice.status,
+    currency: invoice.currency ?? DEFAULT_CURRENCY,
+    gross_price: grossPrice,
+    paid_price: paidPrice,
+    left_to_pay: leftToPay,
+    fully_paid: leftToPay <= 0,
+    payments: [...payments].sort((a, b) => a.paid_date.localeCompare(b.paid_date)),
+  };
+}
+
+/**
+ * Converts an invoice amount to grosze using the invoice exchange rate
+ *
+ * @returns Amount in grosze, or null for foreign currency without a rate
+ */
+export function toGrosze(minor: number, invoice: Invoice): number | null {
+  const currency = invoice.currency ?? DEFAULT_CURRENCY;
+  if (currency === DEFAULT_CURRENCY) {
+    return minor;
+  }
+  if (!invoice.exchange_rate) {
+    return null;
+  }
+  return Math.round(minorToMajor(minor, currency) * Number(invoice.exchange_rate) * 100);
+}
+
+/**
+ * Builds the overdue receivables report
+ *
+ * @param invoices - Invoices as returned by the API (amounts in minor units)
+ * @param asOf - Reference date; invoices with payment_date before it are overdue
+ * @param truncated - Whether the invoice list was cut short
+ * @returns Report grouped by client, largest amount due first
+ */
+export function buildOverdueReport(
+  invoices: Invoice[],
+  asOf: ISODateString,
+  truncated: boolean = false
+): OverdueReport {
+  const clients = new Map<string, { summary: OverdueClientSummary; totals: AgingTotals }>();
+  const totals = new AgingTotals();
+  let unconvertedCount = 0;
+
+  for (const invoice of invoices) {
+    if (
+      !invoice.payment_date ||
+      invoice.payment_date >= asOf ||
+      !(UNPAID_INVOICE_STATUSES as readonly string[]).includes(invoice.status)
+    ) {
+      continue;
+    }
+
+    const outstandingMinor = getOutstandingMinor(invoice);
+    if (outstandingMinor <= 0) {
+      continue;
+    }
+
+    const currency = invoice.currency ?? DEFAULT_CURRENCY;
+    const daysOverdue = daysBetween(invoice.payment_date, asOf);
+    const bucket = getAgingBucket(daysOverdue);
+    const grosze = toGrosze(outstandingMinor, invoice);
+    if (grosze === null) {
+      unconvertedCount++;
+    }
+
+    const key = invoice.client_id ? `id:${invoice.client_id}` : `name:${invoice.client_company_name}`;
+    let client = clients.get(key);
+    if (!client) {
+      client = {
+        summary: {
+          client_id: invoice.client_id || undefined,
+          client_company_name: invoice.client_company_name,
+          client_tax_code: invoice.client_tax_code,
+          invoice_count: 0,
+          total_pln: 0,
+          max_days_overdue: 0,
+          aging: emptyAging(),
+          invoices: [],
+        },
+        totals: new AgingTotals(),
+      };
+      clients.set(key, client);
+    }
+
+    client.summary.invoices.push({
+      uuid: invoice.uuid,
+      number: invoice.number,
+      invoice_date: invoice.invoice_date,
+      payment_date: invoice.payment_date,
+      days_overdue: daysOverdue,
+      bucket,
+      currency,
+      outstanding: minorToMajor(outstandingMinor, currency),
+      outstanding_pln: grosze === null ? null : groszeToPLN(grosze),
+    });
+    client.summary.max_days_overdue = Math.max(client.summary.max_days_overdue, daysOverdue);
+    client.totals.add(bucket, grosze);
+    totals.add(bucket, grosze);
+  }
+
+  const summaries = [...clients.values()].map(({ summary, totals: clientTotals }) => ({
+    ...summary,
+    invoice_count: clientTotals.count,
+    total_pln: groszeToPLN(clientTotals.total),
+    aging: clientTotals.toAging(),
+    invoices: summary.invoices.sort((a, b) => b.days_overdue - a.days_overdue),
+  }));
+
+  return {
+    as_of: asOf,
+    invoice_count: totals.count,
+    total_pln: groszeToPLN(totals.total),
+    unconverted_count: unconvertedCount,
+    aging: totals.toAging(),
+    clients: summaries.sort(
+      (a, b) => b.total_pln - a.total_pln || b.max_days_overdue - a.max_days_overdue
+    ),
+    truncated,
+  };
+}
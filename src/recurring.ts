@@ -0,0 +1,357 @@
+/**
+ * Recurring invoice schedules
+ *
+ * Schedules (an invoice template plus a cadence) are persisted in a local
+ * JSON file and scoped to the tenant that created them. A run creates every
+ * occurrence that is due; each occurrence is recorded as pending before the
+ * invoice is requested and as created afterwards, so repeated runs never
+ * issue the same occurrence twice. A request whose outcome is unknown leaves
+ * the occurrence pending until it is retried explicitly.
+ */
+
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import { dirname } from "node:path";
+import { McpError } from "@modelcontextprotocol/sdk/types.js";
+import { ConfigurationError, loadRecurringConfig } from "./config.js";
+import { ValidationError } from "./validation.js";
+import type {
+  ISODateString,
+  RecurringCadence,
+  RecurringFrequency,
+  RecurringRunOutcome,
+  RecurringSchedule,
+} from "./types.js";
+
+/**
+ * Months between occurrences for each frequency
+ */
+export const FREQUENCY_MONTHS: Record<RecurringFrequency, number> = {
+  monthly: 1,
+  quarterly: 3,
+  yearly: 12,
+};
+
+/**
+ * Maximum occurrences of one schedule created in a single run (catch-up cap)
+ */
+export const MAX_CATCH_UP = 12;
+
+/**
+ * Number of run records kept per schedule
+ */
+export const MAX_RUN_HISTORY = 50;
+
+/**
+ * Store file format version
+ */
+const STORE_VERSION = 1;
+
+/**
+ * Date of the n-th occurrence, counted from the start date's month
+ *
+ * @example
+ * occurrenceDate({ frequency: "monthly", day_of_month: 31 }, "2024-01-15", 1) // returns "2024-02-29"
+ */
+export function occurrenceDate(
+  cadence: RecurringCadence,
+  startDate: ISODateString,
+  index: number
+): ISODateString {
+  const start = new Date(`${startDate}T00:00:00Z`);
+  const month = start.getUTCMonth() + index * FREQUENCY_MONTHS[cadence.frequency];
+  const year = start.getUTCFullYear() + Math.floor(month / 12);
+  const monthOfYear = month % 12;
+  const daysInMonth = new Date(Date.UTC(year, monthOfYear + 1, 0)).getUTCDate();
+
+  return new Date(Date.UTC(year, monthOfYear, Math.min(cadence.day_of_month, daysInMonth)))
+    .toISOString()
+    .substring(0, 10);
+}
+
+/**
+ * Index of the first occurrence on or after the start date
+ */
+export function firstOccurrenceIndex(
+  cadence: RecurringCadence,
+  startDate: ISODateString
+): number {
+  return occurrenceDate(cadence, startDate, 0) >= startDate ? 0 : 1;
+}
+
+/**
+ * Refreshes next_run_date from next_occurrence (undefined once past end_date)
+ */
+export function updateNextRunDate(schedule: RecurringSchedule): void {
+  const next = occurrenceDate(schedule.cadence, schedule.start_date, schedule.next_occurrence);
+  schedule.next_run_date =
+    schedule.end_date !== undefined && next > schedule.end_date ? undefined : next;
+}
+
+/**
+ * Moves a schedule past its occurrences dated before a date, e.g. the ones
+ * missed while it was paused
+ *
+ * An occurrence left pending by an interrupted run is not skipped: its
+ * invoice may exist and must be checked first.
+ *
+ * @returns Number of occurrences skipped
+ */
+export function skipOccurrencesBefore(schedule: RecurringSchedule, date: ISODateString): number {
+  let skipped = 0;
+  for (;;) {
+    const next = occurrenceDate(schedule.cadence, schedule.start_date, schedule.next_occurrence);
+    if (
+      next >= date ||
+      (schedule.end_date !== undefined && next > schedule.end_date) ||
+      schedule.runs.some((run) => run.scheduled_date === next && run.status === "pending")
+    ) {
+      break;
+    }
+    schedule.next_occurrence++;
+    skipped++;
+  }
+  updateNextRunDate(schedule);
+  return skipped;
+}
+
+/**
+ * Persistent schedule store backed by a JSON file
+ *
+ * Updates are serialized within the process and written atomically.
+ */
+export class RecurringScheduleStore {
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(readonly path: string) {}
+
+  /**
+   * Reads all schedules
+   */
+  private async load(): Promise<RecurringSchedule[]> {
+    let raw: string;
+    try {
+      raw = await readFile(this.path, "utf8");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return [];
+      }
+      throw error;
+    }
+
+    try {
+      const parsed = JSON.parse(raw) as { version?: number; schedules?: RecurringSchedule[] };
+      if (parsed.version !== STORE_VERSION || !Array.isArray(parsed.schedules)) {
+        throw new Error(`unsupported format (expected version ${STORE_VERSION})`);
+      }
+      return parsed.schedules;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new ConfigurationError(`Cannot read recurring invoice store ${this.path}: ${message}`);
+    }
+  }
+
+  /**
+   * Writes all schedules (temporary file + rename)
+   */
+  private async save(schedules: RecurringSchedule[]): Promise<void> {
+    await mkdir(dirname(this.path), { recursive: true });
+    const tmpPath = `${this.path}.tmp`;
+    await writeFile(
+      tmpPath,
+      JSON.stringify({ version: STORE_VERSION, schedules }, null, 2),
+      { encoding: "utf8", mode: 0o600 }
+    );
+    await rename(tmpPath, this.path);
+  }
+
+  /**
+   * Runs a read-modify-write transaction on the schedules
+   *
+   * @param fn - Receives the schedules (mutable) and a function persisting
+   *   them mid-transaction; changes are saved again when fn returns
+   */
+  async update<T>(
+    fn: (schedules: RecurringSchedule[], save: () => Promise<void>) => Promise<T> | T
+  ): Promise<T> {
+    const run = async (): Promise<T> => {
+      const schedules = await this.load();
+      const result = await fn(schedules, () => this.save(schedules));
+      await this.save(schedules);
+      return result;
+    };
+
+    const result = this.queue.then(run, run);
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  /**
+   * Reads the schedules of one tenant
+   */
+  async list(tenantId: string): Promise<RecurringSchedule[]> {
+    const read = () => this.load();
+    const result = this.queue.then(read, read);
+    return (await result).filter((schedule) => schedule.tenant_id === tenantId);
+  }
+}
+
+/**
+ * Store singleton
+ * Created from environment configuration on first use
+ */
+let storeInstance: RecurringScheduleStore | null = null;
+
+/**
+ * Gets the schedule store, creating it if necessary
+ */
+export function getRecurringStore(): RecurringScheduleStore {
+  if (!storeInstance) {
+    storeInstance = new RecurringScheduleStore(loadRecurringConfig().storeFile);
+  }
+  return storeInstance;
+}
+
+/**
+ * Replaces the schedule store (custom locations, testing)
+ *
+ * @param store - Store to use, or null to recreate from configuration
+ */
+export function setRecurringStore(store: RecurringScheduleStore | null): void {
+  storeInstance = store;
+}
+
+/**
+ * Whether an invoice request failed before inFakt could create the invoice
+ *
+ * Only validation errors and definite 4xx rejections qualify. Timeouts,
+ * dropped connections and 5xx responses leave the outcome unknown: the
+ * invoice may exist, so the occurrence must not be retried automatically.
+ */
+function isRejectedBeforeSubmission(error: unknown): boolean {
+  if (error instanceof ValidationError) {
+    return true;
+  }
+  const status =
+    error instanceof McpError ? (error.data as { status?: number } | undefined)?.status : undefined;
+  return status !== undefined && status >= 400 && status < 500 && status !== 408;
+}
+
+/**
+ * Creates every due occurrence of the tenant's active schedules
+ *
+ * @param store - Schedule store
+ * @param tenantId - Tenant whose schedules are run
+ * @param asOf - Occurrences dated on or before this date are due
+ * @param createInvoice - Requests the invoice for an occurrence, returns the task reference
+ * @param options - `dry_run` reports without creating; `retry_pending` retries
+ *   occurrences left pending by an interrupted run or a request with unknown
+ *   outcome (check inFakt first)
+ * @returns One outcome per processed occurrence
+ */
+export async function runDueSchedules(
+  store: RecurringScheduleStore,
+  tenantId: string,
+  asOf: ISODateString,
+  createInvoice: (schedule: RecurringSchedule, date: ISODateString) => Promise<string>,
+  options: { dry_run?: boolean; retry_pending?: boolean } = {}
+): Promise<RecurringRunOutcome[]> {
+  return store.update(async (schedules, save) => {
+    const outcomes: RecurringRunOutcome[] = [];
+
+    for (const stored of schedules) {
+      if (stored.tenant_id !== tenantId || stored.status !== "active") {
+        continue;
+      }
+
+      // Dry runs work on a copy and are never persisted
+      const schedule: RecurringSchedule = options.dry_run ? structuredClone(stored) : stored;
+
+      for (let created = 0; ; created++) {
+        const date = occurrenceDate(schedule.cadence, schedule.start_date, schedule.next_occurrence);
+        if (date > asOf || (schedule.end_date !== undefined && date > schedule.end_date)) {
+          break;
+        }
+
+        const outcome: RecurringRunOutcome = {
+          schedule_id: schedule.id,
+          schedule_name: schedule.name,
+          scheduled_date: date,
+          result: "skipped",
+        };
+
+        if (created >= MAX_CATCH_UP) {
+          outcome.reason = `catch-up limit of ${MAX_CATCH_UP} occurrences reached; run again`;
+          outcomes.push(outcome);
+          break;
+        }
+
+        let run = schedule.runs.find((entry) => entry.scheduled_date === date);
+
+        if (run?.status === "created") {
+          // Already issued (e.g. the schedule was edited by hand): just move on
+          schedule.next_occurrence++;
+          continue;
+        }
+        if (run?.status === "pending" && !options.retry_pending) {
+          outcome.reason =
+            "a previous run was interrupted while creating this invoice; check inFakt and " +
+            "run again with retry_pending: true if it was not created";
+          outcomes.push(outcome);
+          break;
+        }
+
+        if (options.dry_run) {
+          outcome.result = "would_create";
+          outcomes.push(outcome);
+          schedule.next_occurrence++;
+          continue;
+        }
+
+        if (!run) {
+          run = { scheduled_date: date, status: "pending", updated_at: "" };
+          schedule.runs.push(run);
+        }
+        run.status = "pending";
+        run.error = undefined;
+        run.updated_at = new Date().toISOString();
+        await save();
+
+        try {
+          run.task_reference_number = await createInvoice(schedule, date);
+          run.status = "created";
+          outcome.result = "created";
+          outcome.task_reference_number = run.task_reference_number;
+        } catch (error) {
+          run.error = error instanceof Error ? error.message : String(error);
+          outcome.result = "failed";
+          outcome.reason = run.error;
+          if (isRejectedBeforeSubmission(error)) {
+            run.status = "failed";
+          } else {
+            // Left pending: only retried with retry_pending after a manual check
+            outcome.reason +=
+              "; the invoice may have been created: check inFakt and run again with " +
+              "retry_pending: true if it was not";
+          }
+        }
+        run.updated_at = new Date().toISOString();
+        outcomes.push(outcome);
+
+        if (run.status !== "created") {
+          await save();
+          break;
+        }
+
+        schedule.next_occurrence++;
+        updateNextRunDate(schedule);
+        schedule.runs = schedule.runs.slice(-MAX_RUN_HISTORY);
+        schedule.updated_at = run.updated_at;
+        await save();
+      }
+
+      updateNextRunDate(schedule);
+    }
+
+    return outcomes;
+  });
+}
@@ -0,0 +1,322 @@
+/**
+ * Revenue and profit analytics
+ *
+ * Aggregates issued invoices over a date range by client, month, product or
+ * payment method, with totals, counts, averages and the change against the
+ * preceding period. Totals are summed in grosze and reported in PLN;
+ * foreign-currency invoices are converted at their invoice exchange rate.
+ * Product grouping works on invoice lines, the other groupings on invoice
+ * totals.
+ */
+
+import type {
+  Cost,
+  ISODateString,
+  Invoice,
+  RevenueGroup,
+  RevenueGroupBy,
+  RevenueReport,
+  RevenueTotals,
+} from "./types.js";
+import { DEFAULT_CURRENCY, groszeToPLN } from "./currency.js";
+import { getIssuedLineAmounts } from "./vat.js";
+import { toGrosze } from "./receivables.js";
+
+/**
+ * Supported group-by dimensions
+ */
+export const REVENUE_GROUP_BY: readonly RevenueGroupBy[] = [
+  "client",
+  "month",
+  "product",
+  "payment_method",
+];
+
+/**
+ * Most invoices per period whose lines a product report fetches one by one
+ * (list responses may omit line items); longer ranges are truncated
+ */
+export const PRODUCT_LINE_REQUEST_LIMIT = 200;
+
+/**
+ * Invoices of a date range
+ */
+export interface RevenuePeriod {
+  from: ISODateString;
+  to: ISODateString;
+  invoices: Invoice[];
+}
+
+/**
+ * Data a revenue report is built from
+ */
+export interface RevenueReportInput {
+  dateField: RevenueReport["date_field"];
+  groupBy: RevenueGroupBy;
+  current: RevenuePeriod;
+  /** Preceding period of the same length, for period-over-period change */
+  previous?: RevenuePeriod;
+  /** Cost documents issued in the current range */
+  costs?: Cost[];
+  truncated: boolean;
+}
+
+/**
+ * Running totals in grosze, converted to PLN once all documents are counted
+ */
+class RevenueAccumulator {
+  net = 0;
+  gross = 0;
+  quantity = 0;
+  costsNet = 0;
+  private readonly invoices = new Set<string>();
+
+  constructor(readonly label: string) {}
+
+  add(invoiceUuid: string, net: number, gross: number, quantity: number = 0): void {
+    this.invoices.add(invoiceUuid);
+    this.net += net;
+    this.gross += gross;
+    this.quantity += quantity;
+  }
+
+  toTotals(): RevenueTotals {
+    const count = this.invoices.size;
+    return {
+      invoice_count: count,
+      net_pln: groszeToPLN(this.net),
+      gross_pln: groszeToPLN(this.gross),
+      average_net_pln: count > 0 ? groszeToPLN(Math.round(this.net / count)) : 0,
+    };
+  }
+}
+
+/**
+ * Percentage rounded to one decimal place
+ */
+function percent(value: number, base: number): number {
+  return Math.round((value / base) * 1000) / 10;
+}
+
+/**
+ * Change from a previous amount in percent, or null if it was zero
+ */
+function changePct(current: number, previous: number): number | null {
+  return previous === 0 ? null : percent(current - previous, Math.abs(previous));
+}
+
+/**
+ * Month preceding a YYYY-MM key
+ */
+function previousMonth(key: string): string {
+  const [year, month] = key.split("-").map(Number);
+  return month === 1 ? `${year - 1}-12` : `${year}-${String(month - 1).padStart(2, "0")}`;
+}
+
+/**
+ * YYYY-MM keys of the months from one date to another, inclusive
+ */
+function monthsBetween(from: ISODateString, to: ISODateString): string[] {
+  const months: string[] = [];
+  const last = to.substring(0, 7);
+  for (let [year, month] = from.split("-").map(Number); ; month++) {
+    if (month > 12) {
+      year++;
+      month = 1;
+    }
+    const key = `${year}-${String(month).padStart(2, "0")}`;
+    if (key > last) {
+      return months;
+    }
+    months.push(key);
+  }
+}
+
+/**
+ * Group key and label of an invoice (all groupings except product)
+ */
+function getInvoiceGroup(
+  invoice: Invoice,
+  groupBy: Exclude<RevenueGroupBy, "product">,
+  dateField: RevenueReport["date_field"]
+): { key: string; label: string } {
+  switch (groupBy) {
+    case "client": {
+      const name =
+        invoice.client_company_name ||
+        [invoice.client_first_name, invoice.client_last_name].filter(Boolean).join(" ");
+      return {
+        key: invoice.client_id ? `id:${invoice.client_id}` : `name:${name}`,
+        label: name,
+      };
+    }
+    case "month": {
+      const month = (invoice[dateField] ?? invoice.invoice_date).substring(0, 7);
+      return { key: month, label: month };
+    }
+    case "payment_method":
+      return { key: invoice.payment_method, label: invoice.payment_method };
+  }
+}
+
+/**
+ * Groups the invoices of a period
+ *
+ * @returns Accumulators by group key, period totals and the number of
+ *   invoices that could not be converted to PLN
+ */
+function aggregate(
+  invoices: Invoice[],
+  groupBy: RevenueGroupBy,
+  dateField: RevenueReport["date_field"]
+): { groups: Map<string, RevenueAccumulator>; totals: RevenueAccumulator; unconverted: number } {
+  const groups = new Map<string, RevenueAccumulator>();
+  const totals = new RevenueAccumulator("");
+  let unconverted = 0;
+
+  const addTo = (key: string, label: string, invoice: Invoice, net: number, gross: number, quantity?: number) => {
+    const group = groups.get(key) ?? new RevenueAccumulator(label);
+    group.add(invoice.uuid, net, gross, quantity);
+    groups.set(key, group);
+  };
+
+  for (const invoice of invoices) {
+    const net = toGrosze(Number(invoice.net_price), invoice);
+    const gross = toGrosze(Number(invoice.gross_price), invoice);
+    if (net === null || gross === null) {
+      unconverted++;
+      continue;
+    }
+    totals.add(invoice.uuid, net, gross);
+
+    if (groupBy !== "product") {
+      const { key, label } = getInvoiceGroup(invoice, groupBy, dateField);
+      addTo(key, label, invoice, net, gross);
+      continue;
+    }
+
+    for (const service of invoice.services ?? []) {
+      const amounts = getIssuedLineAmounts(service);
+      const name = service.name.trim();
+      addTo(
+        name.toLowerCase(),
+        name,
+        invoice,
+        toGrosze(amounts.net_price, invoice)!,
+        toGrosze(amounts.gross_price, invoice)!,
+        Number(service.quantity ?? 1)
+      );
+    }
+  }
+
+  return { groups, totals, unconverted };
+}
+
+/**
+ * Builds the revenue report
+ *
+ * @param input - Invoices of the range and of the preceding period, costs
+ * @returns Report with groups by month in calendar order, other groupings
+ *   by net revenue, largest first
+ */
+export function buildRevenueReport(input: RevenueReportInput): RevenueReport {
+  const { groupBy, dateField } = input;
+  const current = aggregate(input.current.invoices, groupBy, dateField);
+  const previous = input.previous && aggregate(input.previous.invoices, groupBy, dateField);
+  let unconverted = current.unconverted;
+
+  // Costs are only attributable to months
+  let costs: { count: number; net: number; gross: number } | undefined;
+  if (input.costs) {
+    costs = { count: 0, net: 0, gross: 0 };
+    for (const cost of input.costs) {
+      if ((cost.currency ?? DEFAULT_CURRENCY) !== DEFAULT_CURRENCY) {
+        unconverted++;
+        continue;
+      }
+      costs.count++;
+      costs.net += Number(cost.net_price);
+      costs.gross += Number(cost.gross_price);
+
+      if (groupBy === "month") {
+        const month = cost.issue_date.substring(0, 7);
+        const group = current.groups.get(month) ?? new RevenueAccumulator(month);
+        group.costsNet += Number(cost.net_price);
+        current.groups.set(month, group);
+      }
+    }
+  }
+
+  // Months without revenue are reported too, so that the next month is
+  // compared with zero rather than with nothing
+  if (groupBy === "month") {
+    for (const month of monthsBetween(input.current.from, input.current.to)) {
+      if (!current.groups.has(month)) {
+        current.groups.set(month, new RevenueAccumulator(month));
+      }
+    }
+  }
+
+  const groups: RevenueGroup[] = [...current.groups.entries()].map(([key, accumulator]) => {
+    const group: RevenueGroup = {
+      key,
+      label: accumulator.label,
+      ...accumulator.toTotals(),
+      share_pct: current.totals.net !== 0 ? percent(accumulator.net, current.totals.net) : 0,
+    };
+    if (groupBy === "product") {
+      group.quantity = accumulator.quantity;
+    }
+
+    // Months compare with the month before, other groups with the previous period
+    const previousGroup =
+      groupBy === "month"
+        ? current.groups.get(previousMonth(key)) ??
+          (previous && (previous.groups.get(previousMonth(key)) ?? new RevenueAccumulator(previousMonth(key))))
+        : previous && (previous.groups.get(key) ?? new RevenueAccumulator(accumulator.label));
+    if (previousGroup) {
+      group.previous_net_pln = groszeToPLN(previousGroup.net);
+      group.change_pct = changePct(accumulator.net, previousGroup.net);
+    }
+
+    if (groupBy === "month" && costs) {
+      group.costs_net_pln = groszeToPLN(accumulator.costsNet);
+      group.profit_pln = groszeToPLN(accumulator.net - accumulator.costsNet);
+    }
+    return group;
+  });
+
+  groups.sort((a, b) =>
+    groupBy === "month" ? a.key.localeCompare(b.key) : b.net_pln - a.net_pln || a.label.localeCompare(b.label)
+  );
+
+  const report: RevenueReport = {
+    date_from: input.current.from,
+    date_to: input.current.to,
+    date_field: dateField,
+    group_by: groupBy,
+    totals: current.totals.toTotals(),
+    groups,
+    unconverted_count: unconverted,
+    truncated: input.truncated,
+  };
+
+  if (input.previous && previous) {
+    report.previous = {
+      date_from: input.previous.from,
+      date_to: input.previous.to,
+      ...previous.totals.toTotals(),
+    };
+    report.change_pct = changePct(current.totals.net, previous.totals.net);
+  }
+  if (costs) {
+    report.costs = {
+      count: costs.count,
+      net_pln: groszeToPLN(costs.net),
+      gross_pln: groszeToPLN(costs.gross),
+    };
+    report.profit_pln = groszeToPLN(current.totals.net - costs.net);
+  }
+
+  return report;
+}
@@ -0,0 +1,159 @@
+/**
+ * Multi-tenant API key resolution for HTTP deployments
+ *
+ * Every HTTP session carries its own inFakt API key, resolved from a bearer
+ * token (mapped through the tenant key store) or from the X-inFakt-ApiKey
+ * header. Each tenant gets a dedicated ApiClient, so data never crosses
+ * between companies served by one server instance.
+ */
+
+import { createHash } from "node:crypto";
+import type { IncomingMessage } from "node:http";
+import { createApiClient, ApiClient } from "./api-client.js";
+import { validateApiKey, ConfigurationError, isMultiTenant } from "./config.js";
+import { HttpError, SessionTenant } from "./http-server.js";
+import { RateLimiter } from "./rate-limiter.js";
+import type { ServerConfig, TenantConfig } from "./types.js";
+
+/**
+ * Header carrying a client-supplied inFakt API key
+ */
+export const API_KEY_HEADER = "x-infakt-apikey";
+
+/**
+ * Derives a stable, non-reversible tenant identifier from an API key
+ *
+ * Used to bind sessions to tenants and in logs instead of the key itself.
+ */
+export function getTenantId(apiKey: string): string {
+  return createHash("sha256").update(apiKey).digest("hex").substring(0, 16);
+}
+
+/**
+ * Extracts the bearer token from the Authorization header
+ */
+function getBearerToken(req: IncomingMessage): string | undefined {
+  const header = req.headers.authorization;
+  if (!header) {
+    return undefined;
+  }
+  const match = /^Bearer\s+(.+)$/i.exec(header);
+  return match ? match[1].trim() : undefined;
+}
+
+/**
+ * Resolves the inFakt API key for an HTTP request
+ *
+ * Resolution order: bearer token from the key store, X-inFakt-ApiKey header
+ * (if allowed), then the default INFAKT_API_KEY. In multi-tenant mode the
+ * default key is only used when MCP_ALLOW_DEFAULT_API_KEY is set, so a
+ * request without credentials is never served with another tenant's key.
+ *
+ * @param req - Incoming HTTP request
+ * @param tenantConfig - Multi-tenant configuration
+ * @param defaultApiKey - Process-wide key, empty if none
+ * @throws {HttpError} 401 if no key can be resolved, or a bearer token is
+ *   sent while no key store is configured
+ * @returns Tenant the request belongs to
+ */
+export function resolveTenant(
+  req: IncomingMessage,
+  tenantConfig: TenantConfig,
+  defaultApiKey: string
+): SessionTenant {
+  const token = getBearerToken(req);
+  if (token !== undefined) {
+    if (!tenantConfig.tokenKeys) {
+      throw new HttpError(401, "Bearer tokens are not accepted: no tenant key store is configured");
+    }
+    const apiKey = tenantConfig.tokenKeys.get(token);
+    if (!apiKey) {
+      throw new HttpError(401, "Unknown bearer token");
+    }
+    return { id: getTenantId(apiKey), apiKey };
+  }
+
+  const headerKey = req.headers[API_KEY_HEADER];
+  if (typeof headerKey === "string" && headerKey.length > 0) {
+    if (!tenantConfig.allowApiKeyHeader) {
+      throw new HttpError(401, "Passing the API key in a header is disabled on this server");
+    }
+    try {
+      validateApiKey(headerKey);
+    } catch (error) {
+      if (error instanceof ConfigurationError) {
+        throw new HttpError(401, error.message);
+      }
+      throw error;
+    }
+    return { id: getTenantId(headerKey), apiKey: headerKey };
+  }
+
+  const useDefault = !isMultiTenant(tenantConfig) || tenantConfig.allowDefaultApiKey;
+  if (useDefault && defaultApiKey) {
+    return { id: getTenantId(defaultApiKey), apiKey: defaultApiKey };
+  }
+
+  throw new HttpError(401, "Missing credentials: provide a bearer token or API key");
+}
+
+/**
+ * Pool of per-tenant API clients
+ *
+ * Sessions of the same tenant share one client; different tenants never do.
+ * A tenant's client is dropped with its last session, so the pool does not
+ * grow with every API key ever seen. Each tenant gets its own rate limiter,
+ * so one tenant's backlog cannot starve the others; since inFakt counts
+ * requests per IP, an optional global concurrency cap
+ * (rateLimit.globalMaxConcurrency) bounds the requests of all tenants.
+ */
+export class TenantClientPool {
+  private readonly clients = new Map<string, { client: ApiClient; sessions: number }>();
+  private readonly globalLimiter: RateLimiter | undefined;
+
+  constructor(private readonly baseConfig: ServerConfig) {
+    const globalMaxConcurrency = baseConfig.rateLimit.globalMaxConcurrency ?? 0;
+    if (globalMaxConcurrency > 0) {
+      this.globalLimiter = new RateLimiter({ requestsPerSecond: 0, maxConcurrency: globalMaxConcurrency });
+    }
+  }
+
+  /**
+   * Gets (or creates) the API client for a new session of a tenant
+   */
+  acquire(tenant: SessionTenant): ApiClient {
+    let entry = this.clients.get(tenant.id);
+    if (!entry) {
+      entry = {
+        client: new ApiClient(
+          createApiClient({ ...this.baseConfig, apiKey: tenant.apiKey }),
+          this.baseConfig.retry,
+          new RateLimiter(this.baseConfig.rateLimit, this.globalLimiter),
+          tenant.id
+        ),
+        sessions: 0,
+      };
+      this.clients.set(tenant.id, entry);
+    }
+    entry.sessions++;
+    return entry.client;
+  }
+
+  /**
+   * Releases a session's client; the client is dropped with the tenant's
+   * last session
+   */
+  release(tenantId: string): void {
+    const entry = this.clients.get(tenantId);
+    if (entry && --entry.sessions <= 0) {
+      this.clients.delete(tenantId);
+    }
+  }
+
+  /**
+   * Number of tenants with an active client
+   */
+  get size(): number {
+    return this.clients.size;
+  }
+}
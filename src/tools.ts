@@ -1,11 +1,53 @@
 /**
  * Tool definitions for inFakt MCP Server
  *
- * Defines all 28 tools available through the MCP server interface,
+ * Defines all 49 tools available through the MCP server interface,
  * including their schemas and input validation specifications.
  */
 
 import type { Tool } from "@modelcontextprotocol/sdk/types.js";
+import {
+  FILTER_PREDICATES,
+  INVOICE_FILTER_FIELDS,
+  CLIENT_FILTER_FIELDS,
+  PRODUCT_FILTER_FIELDS,
+  COST_FILTER_FIELDS,
+} from "./filters.js";
+import type { FilterFieldMap } from "./types.js";
+
+/**
+ * Schema of the structured `filters` parameter shared by list tools
+ */
+function filtersProperty(fields: FilterFieldMap): Record<string, unknown> {
+  return {
+    type: "array",
+    description:
+      "Structured ransack filters combined with AND, e.g. " +
+      "[{ field: 'invoice_date', predicate: 'gteq', value: '2024-01-01' }]. " +
+      "'cont' applies to text fields only, 'gteq'/'lteq' to dates and numbers; " +
+      "'in' takes an array and 'null' a boolean (default: true). " +
+      "Amounts are in PLN, or in the currency of a 'currency' 'eq' condition",
+    items: {
+      type: "object",
+      properties: {
+        field: {
+          type: "string",
+          description: "Field to filter on",
+          enum: Object.keys(fields),
+        },
+        predicate: {
+          type: "string",
+          description: "Comparison predicate",
+          enum: [...FILTER_PREDICATES],
+        },
+        value: {
+          description: "Value to compare with (array for 'in', boolean for 'null')",
+        },
+      },
+      required: ["field", "predicate"],
+    },
+  };
+}
 
 /**
  * All available tools for the inFakt MCP server
@@ -17,7 +59,8 @@ export const TOOLS: Tool[] = [
   {
     name: "infakt_create_invoice",
     description:
-      "Create a new VAT invoice asynchronously. Returns a task reference number to check status. " +
+      "Create a new VAT invoice asynchronously. Returns a task reference number to check status, " +
+      "or the created invoice when called with wait: true. " +
       "Invoices can be created with existing client (via client_id) or with new client details. " +
       "At least one service/product is required with pricing information.",
     inputSchema: {
@@ -48,6 +91,14 @@ export const TOOLS: Tool[] = [
             "other",
           ],
         },
+        kind: {
+          type: "string",
+          description:
+            "Document kind (default: vat): 'proforma' (not a tax document, convert later with " +
+            "infakt_convert_proforma_to_invoice), 'advance' (faktura zaliczkowa, requires advance_gross_price) " +
+            "or 'final' (faktura końcowa, requires advance_invoice_uuids)",
+          enum: ["vat", "proforma", "advance", "final"],
+        },
         status: {
           type: "string",
           description: "Invoice status (default: draft)",
@@ -59,7 +110,9 @@ export const TOOLS: Tool[] = [
         },
         services: {
           type: "array",
-          description: "Array of services/products on the invoice",
+          description:
+            "Array of services/products on the invoice. Amounts are in the invoice currency " +
+            "(PLN by default) and converted to minor units (grosze) automatically",
           items: {
             type: "object",
             properties: {
@@ -69,15 +122,221 @@ export const TOOLS: Tool[] = [
               },
               net_price: {
                 type: "number",
-                description: "Net price (mutually exclusive with unit_net_price and gross_price)",
+                description:
+                  "Net price in invoice currency (PLN by default), e.g. 123.45 (mutually exclusive with unit_net_price and gross_price)",
               },
               unit_net_price: {
                 type: "number",
-                description: "Unit net price (mutually exclusive with net_price and gross_price)",
+                description:
+                  "Unit net price in invoice currency (PLN by default), e.g. 123.45 (mutually exclusive with net_price and gross_price)",
               },
               gross_price: {
                 type: "number",
-                description: "Gross price (mutually exclusive with net_price and unit_net_price)",
+                description:
+                  "Gross price in invoice currency (PLN by default), e.g. 123.45 (mutually exclusive with net_price and unit_net_price)",
+              },
+              tax_symbol: {
+                type: ["string", "number"],
+                description: "VAT rate (required): 23, 8, 5, 0, 'zw', 'oo', 'np', etc.",
+              },
+              quantity: {
+                type: "number",
+                description: "Quantity (default: 1)",
+              },
+              unit: {
+                type: "string",
+                description: "Unit of measure (e.g., 'szt', 'kg', 'h')",
+              },
+              pkwiu: {
+                type: "string",
+                description: "PKWiU classification code",
+              },
+            },
+            required: ["name", "tax_symbol"],
+          },
+        },
+        advance_gross_price: {
+          type: "number",
+          description:
+            "Advance invoices: gross advance received, in invoice currency (services describe the full order)",
+        },
+        advance_invoice_uuids: {
+          type: "array",
+          description: "Final invoices: UUIDs of the issued advance invoices being settled",
+          items: { type: "string" },
+        },
+        client_id: {
+          type: "number",
+          description: "ID of existing client (alternative to providing client details)",
+        },
+        client_first_name: {
+          type: "string",
+          description: "Client first name (for new clients)",
+        },
+        client_last_name: {
+          type: "string",
+          description: "Client last name (for new clients)",
+        },
+        client_tax_code: {
+          type: "string",
+          description: "Client NIP tax code (for new clients)",
+        },
+        client_street: {
+          type: "string",
+          description: "Client street name (for new clients)",
+        },
+        client_street_number: {
+          type: "string",
+          description: "Client street number (for new clients)",
+        },
+        client_flat_number: {
+          type: "string",
+          description: "Client flat/apartment number (for new clients)",
+        },
+        client_city: {
+          type: "string",
+          description: "Client city (for new clients)",
+        },
+        client_post_code: {
+          type: "string",
+          description: "Client postal code (for new clients)",
+        },
+        client_country: {
+          type: "string",
+          description: "Client country code, e.g., 'PL' (for new clients)",
+        },
+        client_email: {
+          type: "string",
+          description: "Client email address (for new clients)",
+        },
+        client_phone: {
+          type: "string",
+          description: "Client phone number (for new clients)",
+        },
+        notes: {
+          type: "string",
+          description: "Additional notes to appear on the invoice",
+        },
+        invoice_date: {
+          type: "string",
+          description: "Invoice issue date in YYYY-MM-DD format (default: today)",
+        },
+        sale_date: {
+          type: "string",
+          description: "Sale/service date in YYYY-MM-DD format (default: today)",
+        },
+        payment_date: {
+          type: "string",
+          description: "Payment due date in YYYY-MM-DD format",
+        },
+        bank_account_id: {
+          type: "number",
+          description: "Bank account ID for payment (use infakt_get_bank_accounts to list available accounts)",
+        },
+        currency: {
+          type: "string",
+          description: "Invoice currency as ISO 4217 code, e.g. 'EUR', 'USD' (default: PLN)",
+        },
+        exchange_rate: {
+          type: "number",
+          description: "Exchange rate to PLN for foreign-currency invoices (e.g., 4.3012)",
+        },
+        exchange_rate_date: {
+          type: "string",
+          description: "Date of the exchange rate table in YYYY-MM-DD format (NBP rate from the business day before sale)",
+        },
+        wait: {
+          type: "boolean",
+          description:
+            "Wait for the async task to finish and return the final invoice or failure reason " +
+            "instead of only a task reference number (default: false)",
+        },
+        timeout_ms: {
+          type: "number",
+          description: "Maximum time to wait in milliseconds when wait is true (default: 30000, max: 120000)",
+        },
+      },
+      required: ["client_company_name", "payment_method", "services"],
+    },
+  },
+
+  {
+    name: "infakt_preview_invoice",
+    description:
+      "Preview the totals of an invoice without creating it. Takes the same input as " +
+      "infakt_create_invoice, resolves VAT rates of the account and returns per-line and " +
+      "per-rate net/VAT/gross amounts, with VAT calculated per rate as printed on the invoice.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        client_company_name: {
+          type: "string",
+          description: "Client company name (required)",
+        },
+        payment_method: {
+          type: "string",
+          description: "Payment method",
+          enum: [
+            "cash",
+            "transfer",
+            "card",
+            "barter",
+            "check",
+            "bill_of_sale",
+            "delivery",
+            "compensation",
+            "accredited",
+            "paypal",
+            "payu",
+            "tpay",
+            "przelewy24",
+            "dotpay",
+            "other",
+          ],
+        },
+        kind: {
+          type: "string",
+          description:
+            "Document kind (default: vat): 'proforma' (not a tax document, convert later with " +
+            "infakt_convert_proforma_to_invoice), 'advance' (faktura zaliczkowa, requires advance_gross_price) " +
+            "or 'final' (faktura końcowa, requires advance_invoice_uuids)",
+          enum: ["vat", "proforma", "advance", "final"],
+        },
+        status: {
+          type: "string",
+          description: "Invoice status (default: draft)",
+          enum: ["draft", "paid", "printed"],
+        },
+        paid_date: {
+          type: "string",
+          description: "Payment date in YYYY-MM-DD format (required if status is 'paid')",
+        },
+        services: {
+          type: "array",
+          description:
+            "Array of services/products on the invoice. Amounts are in the invoice currency " +
+            "(PLN by default) and converted to minor units (grosze) automatically",
+          items: {
+            type: "object",
+            properties: {
+              name: {
+                type: "string",
+                description: "Service/product name (required)",
+              },
+              net_price: {
+                type: "number",
+                description:
+                  "Net price in invoice currency (PLN by default), e.g. 123.45 (mutually exclusive with unit_net_price and gross_price)",
+              },
+              unit_net_price: {
+                type: "number",
+                description:
+                  "Unit net price in invoice currency (PLN by default), e.g. 123.45 (mutually exclusive with net_price and gross_price)",
+              },
+              gross_price: {
+                type: "number",
+                description:
+                  "Gross price in invoice currency (PLN by default), e.g. 123.45 (mutually exclusive with net_price and unit_net_price)",
               },
               tax_symbol: {
                 type: ["string", "number"],
@@ -99,6 +358,16 @@ export const TOOLS: Tool[] = [
             required: ["name", "tax_symbol"],
           },
         },
+        advance_gross_price: {
+          type: "number",
+          description:
+            "Advance invoices: gross advance received, in invoice currency (services describe the full order)",
+        },
+        advance_invoice_uuids: {
+          type: "array",
+          description: "Final invoices: UUIDs of the issued advance invoices being settled",
+          items: { type: "string" },
+        },
         client_id: {
           type: "number",
           description: "ID of existing client (alternative to providing client details)",
@@ -167,6 +436,18 @@ export const TOOLS: Tool[] = [
           type: "number",
           description: "Bank account ID for payment (use infakt_get_bank_accounts to list available accounts)",
         },
+        currency: {
+          type: "string",
+          description: "Invoice currency as ISO 4217 code, e.g. 'EUR', 'USD' (default: PLN)",
+        },
+        exchange_rate: {
+          type: "number",
+          description: "Exchange rate to PLN for foreign-currency invoices (e.g., 4.3012)",
+        },
+        exchange_rate_date: {
+          type: "string",
+          description: "Date of the exchange rate table in YYYY-MM-DD format (NBP rate from the business day before sale)",
+        },
       },
       required: ["client_company_name", "payment_method", "services"],
     },
@@ -184,6 +465,10 @@ export const TOOLS: Tool[] = [
           type: "string",
           description: "The task reference number returned from infakt_create_invoice",
         },
+        raw_amounts: {
+          type: "boolean",
+          description: "Return amounts as sent by the API (grosze) instead of converting to PLN (default: false)",
+        },
       },
       required: ["task_reference_number"],
     },
@@ -193,7 +478,7 @@ export const TOOLS: Tool[] = [
     name: "infakt_list_invoices",
     description:
       "List all VAT invoices with optional filtering, pagination, and sorting. " +
-      "Supports filtering by invoice number, client name, status, and date ranges. " +
+      "Supports filtering by invoice number, client name, status, KSeF state and date ranges. " +
       "Use the 'fields' parameter to request only specific fields for better performance.",
     inputSchema: {
       type: "object",
@@ -218,11 +503,21 @@ export const TOOLS: Tool[] = [
           type: "string",
           description: "Filter by client name (contains)",
         },
+        kind: {
+          type: "string",
+          description: "Filter by document kind",
+          enum: ["vat", "proforma", "advance", "final", "correction"],
+        },
         status: {
           type: "string",
           description: "Filter by status",
           enum: ["draft", "sent", "paid", "printed"],
         },
+        ksef_status: {
+          type: "string",
+          description: "Filter by KSeF state",
+          enum: ["not_sent", "pending", "accepted", "rejected"],
+        },
         invoice_date_from: {
           type: "string",
           description: "Filter by invoice date from (YYYY-MM-DD, inclusive)",
@@ -235,7 +530,96 @@ export const TOOLS: Tool[] = [
           type: "string",
           description: "Comma-separated fields to return (e.g., 'number,client_company_name,net_price')",
         },
+        filters: filtersProperty(INVOICE_FILTER_FIELDS),
+        all: {
+          type: "boolean",
+          description:
+            "Fetch all pages server-side and return merged entities with total_count, " +
+            "pages_fetched and truncated flag (offset is the starting point, limit is ignored)",
+        },
+        max_items: {
+          type: "number",
+          description: "Maximum items to fetch across pages, implies 'all' (default: 1000, max: 10000)",
+        },
+        raw_amounts: {
+          type: "boolean",
+          description: "Return amounts as sent by the API (grosze) instead of converting to PLN (default: false)",
+        },
+      },
+    },
+  },
+
+  {
+    name: "infakt_list_overdue_invoices",
+    description:
+      "List unpaid (printed or sent) invoices past their payment date, grouped by client. " +
+      "Returns days overdue per invoice, totals in PLN and aging buckets (0-30, 31-60, 61-90, 90+ days) " +
+      "per client and overall. Foreign-currency invoices are converted at their invoice exchange rate.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        as_of: {
+          type: "string",
+          description: "Reference date in YYYY-MM-DD format (default: today)",
+        },
+        client_id: {
+          type: "number",
+          description: "Only invoices of this client",
+        },
+        client_company_name: {
+          type: "string",
+          description: "Only invoices of clients matching this name (partial match)",
+        },
+        max_items: {
+          type: "number",
+          description: "Maximum invoices to scan across pages (default: 1000, max: 10000)",
+        },
+      },
+    },
+  },
+
+  {
+    name: "infakt_revenue_report",
+    description:
+      "Aggregate issued invoices (all kinds except proforma) over a date range, grouped by client, month, " +
+      "product name or payment method. Returns net and gross totals in PLN, invoice counts, average net " +
+      "per invoice, each group's share, and the change against the preceding period of the same length " +
+      "(months compare with the month before; months without invoices are listed with zero revenue). " +
+      "Optionally adds costs issued in the range and the net profit. " +
+      "Foreign-currency invoices are converted at their invoice exchange rate. " +
+      "Product grouping fetches every invoice whose lines the list omits with a separate request, up to " +
+      "200 per period; longer ranges are truncated, so group short ranges by product.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        date_from: {
+          type: "string",
+          description: "First day of the range in YYYY-MM-DD format",
+        },
+        date_to: {
+          type: "string",
+          description: "Last day of the range in YYYY-MM-DD format",
+        },
+        group_by: {
+          type: "string",
+          description: "Dimension to group by; product groups invoice lines by name",
+          enum: ["client", "month", "product", "payment_method"],
+        },
+        date_field: {
+          type: "string",
+          description: "Invoice date the range applies to (default: invoice_date)",
+          enum: ["invoice_date", "sale_date"],
+        },
+        include_costs: {
+          type: "boolean",
+          description: "Include costs issued in the range and net profit; per month when grouped by month (default: false)",
+        },
+        compare_previous: {
+          type: "boolean",
+          description: "Compare with the preceding period of the same length (default: true)",
+        },
       },
+      required: ["date_from", "date_to", "group_by"],
     },
   },
 
@@ -255,6 +639,10 @@ export const TOOLS: Tool[] = [
           type: "string",
           description: "Comma-separated fields to return (optional)",
         },
+        raw_amounts: {
+          type: "boolean",
+          description: "Return amounts as sent by the API (grosze) instead of converting to PLN (default: false)",
+        },
       },
       required: ["invoice_uuid"],
     },
@@ -299,7 +687,9 @@ export const TOOLS: Tool[] = [
         },
         services: {
           type: "array",
-          description: "Update services (replaces all existing services)",
+          description:
+            "Update services (replaces all existing services). Same shape as in infakt_create_invoice, " +
+            "amounts in the invoice currency",
           items: {
             type: "object",
           },
@@ -320,6 +710,18 @@ export const TOOLS: Tool[] = [
           type: "string",
           description: "Update payment due date (YYYY-MM-DD)",
         },
+        currency: {
+          type: "string",
+          description: "Update invoice currency (ISO 4217 code, e.g. 'EUR')",
+        },
+        exchange_rate: {
+          type: "number",
+          description: "Update exchange rate to PLN (foreign-currency invoices only)",
+        },
+        exchange_rate_date: {
+          type: "string",
+          description: "Update exchange rate table date (YYYY-MM-DD)",
+        },
       },
       required: ["invoice_uuid"],
     },
@@ -423,19 +825,340 @@ export const TOOLS: Tool[] = [
           type: "string",
           description: "Payment date in YYYY-MM-DD format",
         },
+        wait: {
+          type: "boolean",
+          description:
+            "Wait for the async task to finish and return the final invoice or failure reason " +
+            "instead of only a task reference number (default: false)",
+        },
+        timeout_ms: {
+          type: "number",
+          description: "Maximum time to wait in milliseconds when wait is true (default: 30000, max: 120000)",
+        },
       },
       required: ["invoice_uuid", "paid_date"],
     },
   },
 
-  // =========================================================================
-  // Client Management Tools
-  // =========================================================================
   {
-    name: "infakt_list_clients",
+    name: "infakt_record_invoice_payment",
     description:
-      "List all clients with optional filtering and pagination. " +
-      "Supports filtering by company name, NIP tax code, and email address.",
+      "Record a full or partial payment (instalment) on an issued invoice. " +
+      "Returns the payment history and the remaining balance (left_to_pay). " +
+      "Payments larger than the amount left to pay are rejected.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        invoice_uuid: {
+          type: "string",
+          description: "Invoice UUID",
+        },
+        amount: {
+          type: "number",
+          description: "Paid amount in invoice currency (PLN by default), e.g. 500.00",
+        },
+        paid_date: {
+          type: "string",
+          description: "Payment date in YYYY-MM-DD format (default: today)",
+        },
+        payment_method: {
+          type: "string",
+          description: "Payment method",
+          enum: [
+            "cash",
+            "transfer",
+            "card",
+            "barter",
+            "check",
+            "bill_of_sale",
+            "delivery",
+            "compensation",
+            "accredited",
+            "paypal",
+            "payu",
+            "tpay",
+            "przelewy24",
+            "dotpay",
+            "other",
+          ],
+        },
+        description: {
+          type: "string",
+          description: "Payment note, e.g. 'Instalment 2 of 3'",
+        },
+      },
+      required: ["invoice_uuid", "amount"],
+    },
+  },
+
+  {
+    name: "infakt_list_invoice_payments",
+    description:
+      "List the payments recorded on an invoice with gross amount, amount paid, " +
+      "remaining balance (left_to_pay) and whether it is fully paid.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        invoice_uuid: {
+          type: "string",
+          description: "Invoice UUID",
+        },
+        raw_amounts: {
+          type: "boolean",
+          description: "Return amounts as sent by the API (grosze) instead of converting to PLN (default: false)",
+        },
+      },
+      required: ["invoice_uuid"],
+    },
+  },
+
+  {
+    name: "infakt_create_correction_invoice",
+    description:
+      "Create a correction invoice (faktura korygująca) for an issued invoice. " +
+      "For each corrected line give its position on the original invoice and the values after " +
+      "the correction (before values default to the original line); lines without a position are added. " +
+      "Buyer details can be corrected too. Net, VAT and gross differences are computed and returned; " +
+      "use dry_run to review them without submitting.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        invoice_uuid: {
+          type: "string",
+          description: "UUID of the invoice being corrected",
+        },
+        correction_reason: {
+          type: "string",
+          description: "Reason for the correction, printed on the document (required)",
+        },
+        lines: {
+          type: "array",
+          description: "Corrected lines with before/after values",
+          items: {
+            type: "object",
+            properties: {
+              position: {
+                type: "number",
+                description: "1-based line position on the original invoice (omit to add a line)",
+              },
+              before: {
+                type: "object",
+                description: "Values before the correction (default: the original line)",
+                properties: {
+                  name: { type: "string", description: "Line name" },
+                  quantity: { type: "number", description: "Quantity (0 removes the line)" },
+                  unit_net_price: {
+                    type: "number",
+                    description: "Unit net price in invoice currency, e.g. 123.45",
+                  },
+                  tax_symbol: {
+                    type: ["string", "number"],
+                    description: "VAT rate: 23, 8, 5, 0, 'zw', 'oo', 'np', etc.",
+                  },
+                },
+              },
+              after: {
+                type: "object",
+                description: "Values after the correction (required; omitted fields keep the before value)",
+                properties: {
+                  name: { type: "string", description: "Line name" },
+                  quantity: { type: "number", description: "Quantity (0 removes the line)" },
+                  unit_net_price: {
+                    type: "number",
+                    description: "Unit net price in invoice currency, e.g. 123.45",
+                  },
+                  tax_symbol: {
+                    type: ["string", "number"],
+                    description: "VAT rate: 23, 8, 5, 0, 'zw', 'oo', 'np', etc.",
+                  },
+                },
+              },
+            },
+            required: ["after"],
+          },
+        },
+        client_company_name: {
+          type: "string",
+          description: "Corrected buyer company name",
+        },
+        client_first_name: {
+          type: "string",
+          description: "Corrected buyer first name",
+        },
+        client_last_name: {
+          type: "string",
+          description: "Corrected buyer last name",
+        },
+        client_tax_code: {
+          type: "string",
+          description: "Corrected buyer NIP tax code",
+        },
+        client_street: {
+          type: "string",
+          description: "Corrected buyer street name",
+        },
+        client_street_number: {
+          type: "string",
+          description: "Corrected buyer street number",
+        },
+        client_flat_number: {
+          type: "string",
+          description: "Corrected buyer flat/apartment number",
+        },
+        client_city: {
+          type: "string",
+          description: "Corrected buyer city",
+        },
+        client_post_code: {
+          type: "string",
+          description: "Corrected buyer postal code",
+        },
+        client_country: {
+          type: "string",
+          description: "Corrected buyer country code",
+        },
+        invoice_date: {
+          type: "string",
+          description: "Correction issue date in YYYY-MM-DD format (default: today)",
+        },
+        dry_run: {
+          type: "boolean",
+          description: "Only compute and return the differences, do not create the correction (default: false)",
+        },
+        wait: {
+          type: "boolean",
+          description:
+            "Wait for the async task to finish and return the final invoice or failure reason " +
+            "instead of only a task reference number (default: false)",
+        },
+        timeout_ms: {
+          type: "number",
+          description: "Maximum time to wait in milliseconds when wait is true (default: 30000, max: 120000)",
+        },
+      },
+      required: ["invoice_uuid", "correction_reason"],
+    },
+  },
+
+  {
+    name: "infakt_convert_proforma_to_invoice",
+    description:
+      "Convert a proforma invoice into a VAT invoice with the same client, terms and services. " +
+      "The VAT invoice is created asynchronously; dates can be overridden.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        invoice_uuid: {
+          type: "string",
+          description: "Proforma invoice UUID",
+        },
+        invoice_date: {
+          type: "string",
+          description: "VAT invoice issue date in YYYY-MM-DD format (default: today)",
+        },
+        sale_date: {
+          type: "string",
+          description: "Sale date in YYYY-MM-DD format",
+        },
+        payment_date: {
+          type: "string",
+          description: "Payment due date in YYYY-MM-DD format",
+        },
+        wait: {
+          type: "boolean",
+          description:
+            "Wait for the async task to finish and return the final invoice or failure reason " +
+            "instead of only a task reference number (default: false)",
+        },
+        timeout_ms: {
+          type: "number",
+          description: "Maximum time to wait in milliseconds when wait is true (default: 30000, max: 120000)",
+        },
+      },
+      required: ["invoice_uuid"],
+    },
+  },
+
+  {
+    name: "infakt_clone_invoice",
+    description:
+      "Create a new draft invoice by copying an existing one (client, payment terms and services). " +
+      "Dates, line names, quantities, unit prices and notes can be overridden. " +
+      "Without payment_date, the original payment term (days after issue) is kept.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        invoice_uuid: {
+          type: "string",
+          description: "UUID of the invoice to copy",
+        },
+        invoice_date: {
+          type: "string",
+          description: "Issue date in YYYY-MM-DD format (default: today)",
+        },
+        sale_date: {
+          type: "string",
+          description: "Sale date in YYYY-MM-DD format",
+        },
+        payment_date: {
+          type: "string",
+          description: "Payment due date in YYYY-MM-DD format (default: same term as the original)",
+        },
+        notes: {
+          type: "string",
+          description: "Notes replacing the original ones",
+        },
+        line_overrides: {
+          type: "array",
+          description: "Changes to copied lines, addressed by 1-based position",
+          items: {
+            type: "object",
+            properties: {
+              position: {
+                type: "number",
+                description: "1-based line position on the original invoice",
+              },
+              name: {
+                type: "string",
+                description: "New line name, e.g. 'Retainer - March 2024'",
+              },
+              quantity: {
+                type: "number",
+                description:
+                  "New quantity. Lines copied without a unit price are repriced at their net amount " +
+                  "divided by the original quantity; if it does not divide evenly, set unit_net_price too",
+              },
+              unit_net_price: {
+                type: "number",
+                description: "New unit net price in invoice currency, e.g. 123.45",
+              },
+            },
+            required: ["position"],
+          },
+        },
+        wait: {
+          type: "boolean",
+          description:
+            "Wait for the async task to finish and return the final invoice or failure reason " +
+            "instead of only a task reference number (default: false)",
+        },
+        timeout_ms: {
+          type: "number",
+          description: "Maximum time to wait in milliseconds when wait is true (default: 30000, max: 120000)",
+        },
+      },
+      required: ["invoice_uuid"],
+    },
+  },
+
+  // =========================================================================
+  // Client Management Tools
+  // =========================================================================
+  {
+    name: "infakt_list_clients",
+    description:
+      "List all clients with optional filtering and pagination. " +
+      "Supports filtering by company name, NIP tax code, and email address.",
     inputSchema: {
       type: "object",
       properties: {
@@ -463,6 +1186,17 @@ export const TOOLS: Tool[] = [
           type: "string",
           description: "Comma-separated fields to return",
         },
+        filters: filtersProperty(CLIENT_FILTER_FIELDS),
+        all: {
+          type: "boolean",
+          description:
+            "Fetch all pages server-side and return merged entities with total_count, " +
+            "pages_fetched and truncated flag (offset is the starting point, limit is ignored)",
+        },
+        max_items: {
+          type: "number",
+          description: "Maximum items to fetch across pages, implies 'all' (default: 1000, max: 10000)",
+        },
       },
     },
   },
@@ -659,6 +1393,21 @@ export const TOOLS: Tool[] = [
           type: "string",
           description: "Comma-separated fields to return",
         },
+        filters: filtersProperty(PRODUCT_FILTER_FIELDS),
+        all: {
+          type: "boolean",
+          description:
+            "Fetch all pages server-side and return merged entities with total_count, " +
+            "pages_fetched and truncated flag (offset is the starting point, limit is ignored)",
+        },
+        max_items: {
+          type: "number",
+          description: "Maximum items to fetch across pages, implies 'all' (default: 1000, max: 10000)",
+        },
+        raw_amounts: {
+          type: "boolean",
+          description: "Return amounts as sent by the API (grosze) instead of converting to PLN (default: false)",
+        },
       },
     },
   },
@@ -675,6 +1424,10 @@ export const TOOLS: Tool[] = [
           type: "number",
           description: "Product ID",
         },
+        raw_amounts: {
+          type: "boolean",
+          description: "Return amounts as sent by the API (grosze) instead of converting to PLN (default: false)",
+        },
       },
       required: ["product_id"],
     },
@@ -694,7 +1447,7 @@ export const TOOLS: Tool[] = [
         },
         unit_net_price: {
           type: "number",
-          description: "Unit net price (required)",
+          description: "Unit net price in PLN, e.g. 123.45 (required)",
         },
         tax_symbol: {
           type: ["string", "number"],
@@ -735,7 +1488,7 @@ export const TOOLS: Tool[] = [
         },
         unit_net_price: {
           type: "number",
-          description: "Update unit net price",
+          description: "Update unit net price in PLN, e.g. 123.45",
         },
         tax_symbol: {
           type: ["string", "number"],
@@ -817,8 +1570,9 @@ export const TOOLS: Tool[] = [
   {
     name: "infakt_list_costs",
     description:
-      "List cost documents (expenses) with optional pagination. " +
-      "Cost documents track business expenses for accounting purposes.",
+      "List cost documents (expenses) with optional pagination, sorting and filters. " +
+      "Supports filtering by issue date range, supplier name or NIP, number, gross amount range " +
+      "and payment status. Cost documents track business expenses for accounting purposes.",
     inputSchema: {
       type: "object",
       properties: {
@@ -830,10 +1584,64 @@ export const TOOLS: Tool[] = [
           type: "number",
           description: "Results per page (max: 100)",
         },
+        order: {
+          type: "string",
+          description:
+            "Sort order: a filterable field, optionally followed by asc or desc " +
+            "(e.g., 'issue_date desc', 'gross_price asc')",
+        },
         fields: {
           type: "string",
           description: "Comma-separated fields to return",
         },
+        number: {
+          type: "string",
+          description: "Filter by exact cost document number",
+        },
+        supplier_company_name: {
+          type: "string",
+          description: "Filter by supplier name (partial match)",
+        },
+        supplier_tax_code: {
+          type: "string",
+          description: "Filter by supplier NIP (exact match, separators ignored)",
+        },
+        issue_date_from: {
+          type: "string",
+          description: "Filter costs issued from this date (YYYY-MM-DD)",
+        },
+        issue_date_to: {
+          type: "string",
+          description: "Filter costs issued until this date (YYYY-MM-DD)",
+        },
+        gross_price_from: {
+          type: "number",
+          description: "Minimum gross amount, e.g. 100.00, in PLN or in the currency of a 'currency' 'eq' filter",
+        },
+        gross_price_to: {
+          type: "number",
+          description: "Maximum gross amount, e.g. 5000.00, in PLN or in the currency of a 'currency' 'eq' filter",
+        },
+        payment_status: {
+          type: "string",
+          description: "Filter by payment status",
+          enum: ["paid", "unpaid"],
+        },
+        filters: filtersProperty(COST_FILTER_FIELDS),
+        all: {
+          type: "boolean",
+          description:
+            "Fetch all pages server-side and return merged entities with total_count, " +
+            "pages_fetched and truncated flag (offset is the starting point, limit is ignored)",
+        },
+        max_items: {
+          type: "number",
+          description: "Maximum items to fetch across pages, implies 'all' (default: 1000, max: 10000)",
+        },
+        raw_amounts: {
+          type: "boolean",
+          description: "Return amounts as sent by the API (grosze) instead of converting to PLN (default: false)",
+        },
       },
     },
   },
@@ -850,8 +1658,803 @@ export const TOOLS: Tool[] = [
           type: "string",
           description: "Cost document UUID",
         },
+        raw_amounts: {
+          type: "boolean",
+          description: "Return amounts as sent by the API (grosze) instead of converting to PLN (default: false)",
+        },
       },
       required: ["cost_uuid"],
     },
   },
+
+  {
+    name: "infakt_create_cost",
+    description:
+      "Record a new cost (purchase) document with supplier details, line items, " +
+      "VAT deduction settings and cost category. Either supplier_id or supplier details are required.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        number: {
+          type: "string",
+          description: "Cost document number as printed by the supplier (required)",
+        },
+        issue_date: {
+          type: "string",
+          description: "Issue date in YYYY-MM-DD format (required)",
+        },
+        sale_date: {
+          type: "string",
+          description: "Sale/service date in YYYY-MM-DD format",
+        },
+        received_date: {
+          type: "string",
+          description: "Date the document was received, in YYYY-MM-DD format",
+        },
+        payment_date: {
+          type: "string",
+          description: "Payment due date in YYYY-MM-DD format",
+        },
+        paid_date: {
+          type: "string",
+          description: "Date the cost was paid, in YYYY-MM-DD format",
+        },
+        payment_method: {
+          type: "string",
+          description: "Payment method",
+          enum: [
+            "cash",
+            "transfer",
+            "card",
+            "barter",
+            "check",
+            "bill_of_sale",
+            "delivery",
+            "compensation",
+            "accredited",
+            "paypal",
+            "payu",
+            "tpay",
+            "przelewy24",
+            "dotpay",
+            "other",
+          ],
+        },
+        supplier_id: {
+          type: "number",
+          description: "ID of existing supplier (alternative to providing supplier details)",
+        },
+        supplier_company_name: {
+          type: "string",
+          description: "Supplier company name (required unless supplier_id is given)",
+        },
+        supplier_tax_code: {
+          type: "string",
+          description: "Supplier NIP tax code",
+        },
+        supplier_street: {
+          type: "string",
+          description: "Supplier street name",
+        },
+        supplier_street_number: {
+          type: "string",
+          description: "Supplier street number",
+        },
+        supplier_flat_number: {
+          type: "string",
+          description: "Supplier flat/apartment number",
+        },
+        supplier_city: {
+          type: "string",
+          description: "Supplier city",
+        },
+        supplier_post_code: {
+          type: "string",
+          description: "Supplier postal code (XX-XXX format)",
+        },
+        supplier_country: {
+          type: "string",
+          description: "Supplier country code (e.g., 'PL')",
+        },
+        currency: {
+          type: "string",
+          description: "ISO 4217 currency code, e.g. 'EUR' (default: PLN)",
+        },
+        category: {
+          type: "string",
+          description: "Cost category, e.g. 'goods', 'services', 'fuel'",
+        },
+        vat_deduction: {
+          type: "string",
+          description:
+            "VAT deduction: 'full' (100%), 'half' (50%, e.g. mixed-use vehicles) or 'none' (default: full)",
+          enum: ["full", "half", "none"],
+        },
+        items: {
+          type: "array",
+          description:
+            "Line items of the cost document (required). Amounts are in the cost currency " +
+            "(PLN by default) and converted to minor units (grosze) automatically",
+          items: {
+            type: "object",
+            properties: {
+              name: {
+                type: "string",
+                description: "Item name (required)",
+              },
+              net_price: {
+                type: "number",
+                description:
+                  "Net price in cost currency (PLN by default), e.g. 123.45 (mutually exclusive with unit_net_price and gross_price)",
+              },
+              unit_net_price: {
+                type: "number",
+                description:
+                  "Unit net price in cost currency (PLN by default), e.g. 123.45 (mutually exclusive with net_price and gross_price)",
+              },
+              gross_price: {
+                type: "number",
+                description:
+                  "Gross price in cost currency (PLN by default), e.g. 123.45 (mutually exclusive with net_price and unit_net_price)",
+              },
+              tax_symbol: {
+                type: ["string", "number"],
+                description: "VAT rate (required): 23, 8, 5, 0, 'zw', 'oo', 'np', etc.",
+              },
+              quantity: {
+                type: "number",
+                description: "Quantity (default: 1)",
+              },
+              unit: {
+                type: "string",
+                description: "Unit of measure (e.g., 'szt', 'kg', 'h')",
+              },
+              category: {
+                type: "string",
+                description: "Cost category of this item (overrides the document category)",
+              },
+              vat_deduction: {
+                type: "string",
+                description: "VAT deduction for this item (overrides the document setting)",
+                enum: ["full", "half", "none"],
+              },
+            },
+            required: ["name", "tax_symbol"],
+          },
+        },
+        notes: {
+          type: "string",
+          description: "Additional notes",
+        },
+      },
+      required: ["number", "issue_date", "items"],
+    },
+  },
+
+  {
+    name: "infakt_update_cost",
+    description:
+      "Update an existing cost document. " +
+      "Only provided fields will be updated; others remain unchanged.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        cost_uuid: {
+          type: "string",
+          description: "Cost document UUID",
+        },
+        number: {
+          type: "string",
+          description: "Update cost document number as printed by the supplier",
+        },
+        issue_date: {
+          type: "string",
+          description: "Update issue date in YYYY-MM-DD format",
+        },
+        sale_date: {
+          type: "string",
+          description: "Update sale/service date in YYYY-MM-DD format",
+        },
+        received_date: {
+          type: "string",
+          description: "Update date the document was received, in YYYY-MM-DD format",
+        },
+        payment_date: {
+          type: "string",
+          description: "Update payment due date in YYYY-MM-DD format",
+        },
+        paid_date: {
+          type: "string",
+          description: "Update date the cost was paid, in YYYY-MM-DD format",
+        },
+        payment_method: {
+          type: "string",
+          description: "Update payment method",
+          enum: [
+            "cash",
+            "transfer",
+            "card",
+            "barter",
+            "check",
+            "bill_of_sale",
+            "delivery",
+            "compensation",
+            "accredited",
+            "paypal",
+            "payu",
+            "tpay",
+            "przelewy24",
+            "dotpay",
+            "other",
+          ],
+        },
+        supplier_id: {
+          type: "number",
+          description: "Update iD of existing supplier (alternative to providing supplier details)",
+        },
+        supplier_company_name: {
+          type: "string",
+          description: "Update supplier company name",
+        },
+        supplier_tax_code: {
+          type: "string",
+          description: "Update supplier NIP tax code",
+        },
+        supplier_street: {
+          type: "string",
+          description: "Update supplier street name",
+        },
+        supplier_street_number: {
+          type: "string",
+          description: "Update supplier street number",
+        },
+        supplier_flat_number: {
+          type: "string",
+          description: "Update supplier flat/apartment number",
+        },
+        supplier_city: {
+          type: "string",
+          description: "Update supplier city",
+        },
+        supplier_post_code: {
+          type: "string",
+          description: "Update supplier postal code (XX-XXX format)",
+        },
+        supplier_country: {
+          type: "string",
+          description: "Update supplier country code (e.g., 'PL')",
+        },
+        currency: {
+          type: "string",
+          description: "Update iSO 4217 currency code, e.g. 'EUR' (default: PLN)",
+        },
+        category: {
+          type: "string",
+          description: "Update cost category, e.g. 'goods', 'services', 'fuel'",
+        },
+        vat_deduction: {
+          type: "string",
+          description:
+            "Update vAT deduction: 'full' (100%), 'half' (50%, e.g. mixed-use vehicles) or 'none' (default: full)",
+          enum: ["full", "half", "none"],
+        },
+        items: {
+          type: "array",
+          description:
+            "Replaces the line items of the document. Amounts are in the cost currency " +
+            "(PLN by default) and converted to minor units (grosze) automatically",
+          items: {
+            type: "object",
+            properties: {
+              name: {
+                type: "string",
+                description: "Item name (required)",
+              },
+              net_price: {
+                type: "number",
+                description:
+                  "Net price in cost currency (PLN by default), e.g. 123.45 (mutually exclusive with unit_net_price and gross_price)",
+              },
+              unit_net_price: {
+                type: "number",
+                description:
+                  "Unit net price in cost currency (PLN by default), e.g. 123.45 (mutually exclusive with net_price and gross_price)",
+              },
+              gross_price: {
+                type: "number",
+                description:
+                  "Gross price in cost currency (PLN by default), e.g. 123.45 (mutually exclusive with net_price and unit_net_price)",
+              },
+              tax_symbol: {
+                type: ["string", "number"],
+                description: "VAT rate (required): 23, 8, 5, 0, 'zw', 'oo', 'np', etc.",
+              },
+              quantity: {
+                type: "number",
+                description: "Quantity (default: 1)",
+              },
+              unit: {
+                type: "string",
+                description: "Unit of measure (e.g., 'szt', 'kg', 'h')",
+              },
+              category: {
+                type: "string",
+                description: "Cost category of this item (overrides the document category)",
+              },
+              vat_deduction: {
+                type: "string",
+                description: "VAT deduction for this item (overrides the document setting)",
+                enum: ["full", "half", "none"],
+              },
+            },
+            required: ["name", "tax_symbol"],
+          },
+        },
+        notes: {
+          type: "string",
+          description: "Update additional notes",
+        },
+      },
+      required: ["cost_uuid"],
+    },
+  },
+
+  {
+    name: "infakt_delete_cost",
+    description:
+      "Delete a cost document by UUID. This operation is permanent and cannot be undone.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        cost_uuid: {
+          type: "string",
+          description: "Cost document UUID",
+        },
+      },
+      required: ["cost_uuid"],
+    },
+  },
+
+  // =========================================================================
+  // Exchange Rate Tools
+  // =========================================================================
+  {
+    name: "infakt_get_exchange_rate",
+    description:
+      "Get the NBP average exchange rate (table A) applicable to a foreign-currency invoice: " +
+      "the rate from the last business day before the sale date, as required by Polish VAT rules. " +
+      "Returns fields ready to pass to infakt_create_invoice (currency, exchange_rate, exchange_rate_date).",
+    inputSchema: {
+      type: "object",
+      properties: {
+        currency: {
+          type: "string",
+          description: "ISO 4217 currency code, e.g. 'EUR', 'USD'",
+        },
+        sale_date: {
+          type: "string",
+          description: "Sale/service date in YYYY-MM-DD format (default: today)",
+        },
+      },
+      required: ["currency"],
+    },
+  },
+
+  // =========================================================================
+  // KSeF Tools
+  // =========================================================================
+  {
+    name: "infakt_export_invoice_ksef_xml",
+    description:
+      "Export a VAT invoice as KSeF (Krajowy System e-Faktur) XML in the FA(2) or FA(3) structure. " +
+      "The seller comes from the account details, the buyer and lines from the invoice. " +
+      "The document is validated offline against the FA(2)/FA(3) content model transcribed from " +
+      "the official XSD: element order, required elements and the values of every element this " +
+      "server emits. The content of optional parts it never emits (third parties, corrections, " +
+      "settlement, footer) is not checked, so KSeF may still reject a document that passes. " +
+      "Returns the XML and a list of schema violations (e.g. missing seller NIP or address) to " +
+      "fix before submission.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        invoice_uuid: {
+          type: "string",
+          description: "Invoice UUID",
+        },
+        schema_version: {
+          type: "string",
+          description: "Logical structure version (default: FA(3))",
+          enum: ["FA(2)", "FA(3)"],
+        },
+        exemption_basis: {
+          type: "string",
+          description:
+            "Legal basis of the VAT exemption (P_19A), required for invoices with 'zw' lines, " +
+            "e.g. 'art. 113 ust. 1 ustawy o VAT'",
+        },
+      },
+      required: ["invoice_uuid"],
+    },
+  },
+  {
+    name: "infakt_submit_invoice_to_ksef",
+    description:
+      "Submit an issued invoice to KSeF (Krajowy System e-Faktur) through inFakt, where the account " +
+      "has the KSeF integration enabled. Returns the submission reference, or with wait: true the " +
+      "final state with the KSeF number once accepted (or the rejection reason).",
+    inputSchema: {
+      type: "object",
+      properties: {
+        invoice_uuid: {
+          type: "string",
+          description: "Invoice UUID (issued, not a draft or proforma)",
+        },
+        wait: {
+          type: "boolean",
+          description: "Wait until KSeF accepts or rejects the invoice (default: false)",
+        },
+        timeout_ms: {
+          type: "number",
+          description: "Maximum time to wait in milliseconds when wait is true (default: 30000, max: 120000)",
+        },
+      },
+      required: ["invoice_uuid"],
+    },
+  },
+  {
+    name: "infakt_get_invoice_ksef_status",
+    description:
+      "Get the KSeF state of an invoice (not_sent, pending, accepted, rejected), its KSeF number, " +
+      "submission reference and rejection reason. Optionally includes the UPO " +
+      "(Urzędowe Poświadczenie Odbioru) XML of accepted invoices.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        invoice_uuid: {
+          type: "string",
+          description: "Invoice UUID",
+        },
+        include_upo: {
+          type: "boolean",
+          description: "Include the UPO XML of an accepted invoice (default: false)",
+        },
+      },
+      required: ["invoice_uuid"],
+    },
+  },
+
+  // =========================================================================
+  // Recurring Invoice Tools
+  // =========================================================================
+  {
+    name: "infakt_create_recurring_invoice",
+    description:
+      "Create a recurring invoice schedule stored locally by the server (INFAKT_RECURRING_FILE). " +
+      "The template is issued as a new invoice on the given day of every month, quarter or year " +
+      "by infakt_run_due_recurring_invoices; invoice, sale and payment dates are set per occurrence.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        name: {
+          type: "string",
+          description: "Schedule name, e.g. 'Monthly hosting - ACME'",
+        },
+        frequency: {
+          type: "string",
+          description: "How often the invoice is issued",
+          enum: ["monthly", "quarterly", "yearly"],
+        },
+        day_of_month: {
+          type: "number",
+          description: "Day of month to issue on (1-31, clamped to the last day of shorter months)",
+        },
+        start_date: {
+          type: "string",
+          description: "First possible issue date in YYYY-MM-DD format (default: today)",
+        },
+        end_date: {
+          type: "string",
+          description: "Last possible issue date in YYYY-MM-DD format (default: no end)",
+        },
+        client_company_name: {
+          type: "string",
+          description: "Client company name (required)",
+        },
+        client_id: {
+          type: "number",
+          description: "ID of existing client",
+        },
+        payment_method: {
+          type: "string",
+          description: "Payment method",
+          enum: [
+            "cash",
+            "transfer",
+            "card",
+            "barter",
+            "check",
+            "bill_of_sale",
+            "delivery",
+            "compensation",
+            "accredited",
+            "paypal",
+            "payu",
+            "tpay",
+            "przelewy24",
+            "dotpay",
+            "other",
+          ],
+        },
+        services: {
+          type: "array",
+          description:
+            "Services/products on each invoice, as in infakt_create_invoice. Amounts are in the " +
+            "invoice currency (PLN by default)",
+          items: {
+            type: "object",
+            properties: {
+              name: {
+                type: "string",
+                description: "Service/product name (required)",
+              },
+              net_price: {
+                type: "number",
+                description: "Net price (mutually exclusive with unit_net_price and gross_price)",
+              },
+              unit_net_price: {
+                type: "number",
+                description: "Unit net price (mutually exclusive with net_price and gross_price)",
+              },
+              gross_price: {
+                type: "number",
+                description: "Gross price (mutually exclusive with net_price and unit_net_price)",
+              },
+              tax_symbol: {
+                type: ["string", "number"],
+                description: "VAT rate (required): 23, 8, 5, 0, 'zw', 'oo', 'np', etc.",
+              },
+              quantity: {
+                type: "number",
+                description: "Quantity (default: 1)",
+              },
+              unit: {
+                type: "string",
+                description: "Unit of measure (e.g., 'szt', 'kg', 'h')",
+              },
+              pkwiu: {
+                type: "string",
+                description: "PKWiU classification code",
+              },
+            },
+            required: ["name", "tax_symbol"],
+          },
+        },
+        payment_days: {
+          type: "number",
+          description: "Payment term in days from the issue date (default: 14)",
+        },
+        currency: {
+          type: "string",
+          description: "Invoice currency (default: PLN)",
+        },
+        bank_account_id: {
+          type: "number",
+          description: "Bank account ID for payment",
+        },
+        notes: {
+          type: "string",
+          description: "Additional notes on each invoice",
+        },
+      },
+      required: ["name", "frequency", "day_of_month", "client_company_name", "payment_method", "services"],
+    },
+  },
+  {
+    name: "infakt_list_recurring_invoices",
+    description:
+      "List recurring invoice schedules with their next run date and the history of recent runs.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        status: {
+          type: "string",
+          description: "Only schedules with this status",
+          enum: ["active", "paused"],
+        },
+      },
+    },
+  },
+  {
+    name: "infakt_pause_recurring_invoice",
+    description:
+      "Pause a recurring invoice schedule, or resume it with paused: false. " +
+      "On resume, occurrences missed while paused are skipped unless catch_up is true, " +
+      "in which case the next run issues them back-dated (up to 12 per schedule).",
+    inputSchema: {
+      type: "object",
+      properties: {
+        schedule_id: {
+          type: "string",
+          description: "Schedule ID",
+        },
+        paused: {
+          type: "boolean",
+          description: "true to pause, false to resume (default: true)",
+        },
+        catch_up: {
+          type: "boolean",
+          description:
+            "On resume, keep the occurrences missed while paused so the next run issues them " +
+            "(default: false, resume from the first occurrence on or after today)",
+        },
+      },
+      required: ["schedule_id"],
+    },
+  },
+  {
+    name: "infakt_delete_recurring_invoice",
+    description:
+      "Delete a recurring invoice schedule. Invoices already issued from it are not affected.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        schedule_id: {
+          type: "string",
+          description: "Schedule ID",
+        },
+      },
+      required: ["schedule_id"],
+    },
+  },
+  {
+    name: "infakt_run_due_recurring_invoices",
+    description:
+      "Create all recurring invoices due on or before a date via infakt_create_invoice. " +
+      "Safe to run repeatedly: every occurrence is recorded and issued at most once. " +
+      "An occurrence left pending by an interrupted run blocks its schedule until checked " +
+      "(e.g. with infakt_list_invoices) and retried with retry_pending: true.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        as_of: {
+          type: "string",
+          description: "Create occurrences due on or before this date, YYYY-MM-DD (default: today)",
+        },
+        dry_run: {
+          type: "boolean",
+          description: "Only report what would be created (default: false)",
+        },
+        retry_pending: {
+          type: "boolean",
+          description: "Retry occurrences left pending by an interrupted run (default: false)",
+        },
+      },
+    },
+  },
+
+  // =========================================================================
+  // Tax Reporting Tools
+  // =========================================================================
+  {
+    name: "infakt_generate_jpk",
+    description:
+      "Generate a JPK file for a settlement period and validate it offline against the content model " +
+      "transcribed from the official XSD: element order, required elements and the values of every " +
+      "element this server emits. Markers and positions it never emits (GTU, procedures, other " +
+      "declaration fields) are not checked, nor are the gateway's arithmetic rules. " +
+      "JPK_V7M (monthly VAT return): sales register of issued VAT invoices by sale date, purchase " +
+      "register of costs by receipt date, and the VAT-7 declaration totals per rate. JPK_FA: invoices " +
+      "issued in the period with their lines. Seller data comes from the account details. Returns the " +
+      "XML, schema violations to fix before filing, and documents left out (advance, final and " +
+      "correction invoices, foreign-currency costs) to be entered manually.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        format: {
+          type: "string",
+          description: "JPK structure",
+          enum: ["JPK_V7M", "JPK_FA"],
+        },
+        year: {
+          type: "number",
+          description: "Year of the period",
+        },
+        month: {
+          type: "number",
+          description: "Month of the period (1-12)",
+        },
+        quarter: {
+          type: "number",
+          description: "Quarter of the period (1-4), JPK_FA only; exclusive with month",
+        },
+        tax_office_code: {
+          type: "string",
+          description: "4-digit code of the tax office (KodUrzedu), e.g. '1471'",
+        },
+        email: {
+          type: "string",
+          description: "Taxpayer contact email, required for JPK_V7M",
+        },
+        phone: {
+          type: "string",
+          description: "Taxpayer contact phone (JPK_V7M)",
+        },
+        first_name: {
+          type: "string",
+          description: "First name of a taxpayer who is a natural person (JPK_V7M)",
+        },
+        last_name: {
+          type: "string",
+          description: "Last name of a taxpayer who is a natural person (JPK_V7M)",
+        },
+        birth_date: {
+          type: "string",
+          description: "Birth date of a taxpayer who is a natural person, YYYY-MM-DD (JPK_V7M)",
+        },
+        purpose: {
+          type: "number",
+          description: "JPK_V7M filing purpose: 1 original (default), 2 correction",
+          enum: [1, 2],
+        },
+        carried_forward_vat: {
+          type: "number",
+          description: "JPK_V7M input VAT surplus carried forward from the previous period, in whole PLN",
+        },
+        exemption_basis: {
+          type: "string",
+          description: "JPK_FA legal basis of the VAT exemption (P_19A), required for invoices with 'zw' lines",
+        },
+        voivodeship: {
+          type: "string",
+          description: "Voivodeship of the seller address, required for JPK_FA",
+        },
+        county: {
+          type: "string",
+          description: "County (powiat) of the seller address, required for JPK_FA",
+        },
+        municipality: {
+          type: "string",
+          description: "Municipality (gmina) of the seller address, required for JPK_FA",
+        },
+      },
+      required: ["format", "year", "tax_office_code"],
+    },
+  },
+  {
+    name: "infakt_vat_summary",
+    description:
+      "Summarize VAT for a month or quarter: sales (issued VAT invoices by sale date) and purchases " +
+      "(costs by receipt date) broken down by rate with net amounts, output VAT and deductible input VAT, " +
+      "and the resulting VAT payable or refundable, in PLN. 'declared' gives the balance in whole PLN " +
+      "as the JPK_V7M declaration rounds it, which may differ by a few PLN from the exact amounts. " +
+      "Documents that cannot be broken down " +
+      "(advance, final and correction invoices, foreign-currency costs) are listed as skipped. " +
+      "Optionally includes a CSV register of all documents included.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        year: {
+          type: "number",
+          description: "Year of the period",
+        },
+        month: {
+          type: "number",
+          description: "Month of the period (1-12); exclusive with quarter",
+        },
+        quarter: {
+          type: "number",
+          description: "Quarter of the period (1-4); exclusive with month",
+        },
+        include_register: {
+          type: "boolean",
+          description: "Include a CSV register with one row per document and rate (default: false)",
+        },
+        raw_amounts: {
+          type: "boolean",
+          description: "Return amounts in grosze as computed, without conversion to PLN (default: false)",
+        },
+      },
+      required: ["year"],
+    },
+  },
 ];
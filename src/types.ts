@@ -34,6 +34,16 @@ export interface PaginationParams {
   limit?: number;
 }
 
+/**
+ * Parameters enabling server-side "fetch all" pagination on list tools
+ */
+export interface FetchAllParams {
+  /** Walk all pages and return a merged result */
+  all?: boolean;
+  /** Maximum number of items to fetch (implies `all`) */
+  max_items?: number;
+}
+
 /**
  * Field selection parameter for partial responses
  */
@@ -87,6 +97,17 @@ export type PaymentMethod =
  */
 export type InvoiceStatus = "draft" | "paid" | "printed" | "sent";
 
+/**
+ * Invoice document kinds
+ *
+ * - vat: regular VAT invoice
+ * - proforma: pro forma, not a tax document; can be converted into a VAT invoice
+ * - advance: advance payment invoice (faktura zaliczkowa)
+ * - final: final invoice settling earlier advance invoices (faktura końcowa)
+ * - correction: correction invoice (faktura korygująca)
+ */
+export type InvoiceKind = "vat" | "proforma" | "advance" | "final" | "correction";
+
 /**
  * PDF document types for invoice downloads
  */
@@ -112,12 +133,17 @@ export type VatRate = number | string;
 
 /**
  * Invoice service/product line item
+ *
+ * Amounts are in minor units of the invoice currency on the API side
+ * (grosze for PLN); tools accept them in major units (PLN, EUR, ...).
  */
 export interface InvoiceService {
   name: string;
   net_price?: number;
   unit_net_price?: number;
   gross_price?: number;
+  /** VAT amount, returned by the API */
+  tax_price?: number;
   tax_symbol: VatRate;
   quantity?: number;
   unit?: string;
@@ -131,6 +157,7 @@ export interface InvoiceService {
 export interface CreateInvoiceRequest {
   client_company_name: string;
   payment_method: PaymentMethod;
+  kind?: InvoiceKind;
   status?: InvoiceStatus;
   paid_date?: ISODateString;
   services: InvoiceService[];
@@ -155,6 +182,17 @@ export interface CreateInvoiceRequest {
   sale_date?: ISODateString;
   payment_date?: ISODateString;
   bank_account_id?: number;
+
+  // Currency (default: PLN); amounts are in minor units of this currency
+  currency?: string;
+  exchange_rate?: number;
+  exchange_rate_date?: ISODateString;
+
+  // Advance invoices: gross advance received; final invoices: advances settled
+  advance_gross_price?: number;
+  advance_invoice_uuids?: UUID[];
+  // Set on VAT invoices converted from a proforma
+  proforma_uuid?: UUID;
 }
 
 /**
@@ -165,6 +203,87 @@ export interface CreateInvoiceResponse {
   status: "pending" | "processing" | "completed" | "failed";
 }
 
+/**
+ * Parameters for waiting on an async invoice task to finish
+ */
+export interface WaitForTaskParams {
+  wait?: boolean;
+  timeout_ms?: number;
+}
+
+/**
+ * Final (or last observed) state of an async invoice task
+ */
+export interface AsyncTaskResult {
+  task_reference_number: string;
+  status: InvoiceStatusResponse["status"];
+  invoice?: Invoice;
+  error?: string;
+  /** True if the timeout elapsed before the task finished */
+  timed_out: boolean;
+  elapsed_ms: number;
+}
+
+/**
+ * Receivables aging bucket (days overdue)
+ */
+export type AgingBucketLabel = "0-30" | "31-60" | "61-90" | "90+";
+
+/**
+ * Overdue amount and invoice count in one aging bucket
+ */
+export interface AgingBucket {
+  count: number;
+  total_pln: number;
+}
+
+/**
+ * Unpaid invoice past its payment date
+ *
+ * `outstanding` is in the invoice currency; `outstanding_pln` is null for
+ * foreign-currency invoices without an exchange rate.
+ */
+export interface OverdueInvoice {
+  uuid: UUID;
+  number: string;
+  invoice_date: ISODateString;
+  payment_date: ISODateString;
+  days_overdue: number;
+  bucket: AgingBucketLabel;
+  currency: string;
+  outstanding: number;
+  outstanding_pln: number | null;
+}
+
+/**
+ * Overdue invoices of one client
+ */
+export interface OverdueClientSummary {
+  client_id?: number;
+  client_company_name: string;
+  client_tax_code?: string;
+  invoice_count: number;
+  total_pln: number;
+  max_days_overdue: number;
+  aging: Record<AgingBucketLabel, AgingBucket>;
+  invoices: OverdueInvoice[];
+}
+
+/**
+ * Overdue receivables report, clients sorted by amount due
+ */
+export interface OverdueReport {
+  as_of: ISODateString;
+  invoice_count: number;
+  total_pln: number;
+  /** Foreign-currency invoices left out of PLN totals (no exchange rate) */
+  unconverted_count: number;
+  aging: Record<AgingBucketLabel, AgingBucket>;
+  clients: OverdueClientSummary[];
+  /** True if the invoice scan hit max_items before the last page */
+  truncated: boolean;
+}
+
 /**
  * Invoice status check response
  */
@@ -185,6 +304,7 @@ export interface Invoice {
   sale_date: ISODateString;
   payment_date: ISODateString;
   paid_date?: ISODateString;
+  kind?: InvoiceKind;
   status: InvoiceStatus;
   payment_method: PaymentMethod;
 
@@ -206,6 +326,26 @@ export interface Invoice {
   gross_price: number;
   tax_price: number;
   currency: string;
+  exchange_rate?: number;
+  exchange_rate_date?: ISODateString;
+
+  // Payments (partial payments reduce left_to_pay)
+  paid_price?: number;
+  left_to_pay?: number;
+
+  // Related documents (advance/final, proforma conversion, corrections)
+  advance_gross_price?: number;
+  advance_invoice_uuids?: UUID[];
+  proforma_uuid?: UUID;
+  corrected_invoice_uuid?: UUID;
+
+  // KSeF (Krajowy System e-Faktur) submission
+  ksef_status?: KsefStatus;
+  ksef_number?: string;
+  ksef_reference_number?: string;
+  ksef_sent_at?: string;
+  ksef_accepted_at?: string;
+  ksef_error?: string;
 
   // Services/products
   services: InvoiceService[];
@@ -223,7 +363,9 @@ export interface Invoice {
 export interface ListInvoicesFilters {
   number?: string;
   client_company_name?: string;
+  kind?: InvoiceKind;
   status?: InvoiceStatus;
+  ksef_status?: KsefStatus;
   invoice_date_from?: ISODateString;
   invoice_date_to?: ISODateString;
 }
@@ -248,6 +390,9 @@ export interface UpdateInvoiceParams {
   invoice_date?: ISODateString;
   sale_date?: ISODateString;
   payment_date?: ISODateString;
+  currency?: string;
+  exchange_rate?: number;
+  exchange_rate_date?: ISODateString;
 }
 
 /**
@@ -272,11 +417,135 @@ export interface SendInvoiceEmailParams {
 /**
  * Parameters for marking invoice as paid
  */
-export interface MarkInvoicePaidParams {
+export interface MarkInvoicePaidParams extends WaitForTaskParams {
   invoice_uuid: UUID;
   paid_date: ISODateString;
 }
 
+/**
+ * Line values on one side (before or after) of a correction
+ *
+ * `unit_net_price` is in minor units of the invoice currency.
+ */
+export interface CorrectionLineValues {
+  name: string;
+  quantity: number;
+  unit_net_price: number;
+  tax_symbol: VatRate;
+}
+
+/**
+ * Net, VAT and gross amounts of a line in minor units
+ */
+export interface LineAmounts {
+  net_price: number;
+  tax_price: number;
+  gross_price: number;
+}
+
+/**
+ * Corrected line with its before/after values and differences
+ */
+export interface CorrectionLine {
+  /** 1-based position on the original invoice; absent for added lines */
+  position?: number;
+  before: CorrectionLineValues & LineAmounts;
+  after: CorrectionLineValues & LineAmounts;
+  difference: LineAmounts;
+}
+
+/**
+ * Computed correction of an invoice, amounts in minor units
+ */
+export interface CorrectionSummary {
+  corrected_invoice_uuid: UUID;
+  corrected_invoice_number: string;
+  correction_reason: string;
+  currency: string;
+  lines: CorrectionLine[];
+  /** Sum of line differences; negative when the correction lowers the amount due */
+  difference: LineAmounts;
+}
+
+/**
+ * Whether line prices are given net (VAT added) or gross (VAT included)
+ */
+export type PriceBasis = "net" | "gross";
+
+/**
+ * Computed invoice line, amounts in minor units
+ */
+export interface InvoicePreviewLine extends LineAmounts {
+  /** 1-based position on the invoice */
+  position: number;
+  name: string;
+  quantity: number;
+  tax_symbol: VatRate;
+  vat_percent: number;
+}
+
+/**
+ * Totals of all lines with one VAT rate, amounts in minor units
+ */
+export interface InvoicePreviewRate extends LineAmounts {
+  tax_symbol: VatRate;
+  vat_percent: number;
+  /** Number of lines with this rate */
+  line_count: number;
+}
+
+/**
+ * Computed invoice totals, amounts in minor units
+ */
+export interface InvoicePreview {
+  currency: string;
+  price_basis: PriceBasis;
+  lines: InvoicePreviewLine[];
+  rates: InvoicePreviewRate[];
+  /** Sum of the per-rate totals (the amounts printed on the invoice) */
+  total: LineAmounts;
+}
+
+/**
+ * Payment (full or partial) recorded against an invoice
+ *
+ * Amount is in minor units of the invoice currency on the API side.
+ */
+export interface InvoicePayment {
+  id: number;
+  amount: number;
+  paid_date: ISODateString;
+  payment_method?: PaymentMethod;
+  description?: string;
+  created_at?: string;
+}
+
+/**
+ * Parameters for recording an invoice payment
+ */
+export interface RecordInvoicePaymentParams {
+  invoice_uuid: UUID;
+  amount: number;
+  paid_date?: ISODateString;
+  payment_method?: PaymentMethod;
+  description?: string;
+}
+
+/**
+ * Payment history and balance of an invoice
+ */
+export interface InvoicePaymentSummary {
+  invoice_uuid: UUID;
+  number: string;
+  status: InvoiceStatus;
+  currency: string;
+  gross_price: number;
+  paid_price: number;
+  left_to_pay: number;
+  fully_paid: boolean;
+  payments: InvoicePayment[];
+}
+
 // ============================================================================
 // Client Types
 // ============================================================================
@@ -424,26 +693,123 @@ export interface UpdateProductParams {
 // Cost Types
 // ============================================================================
 
+/**
+ * VAT deduction settings for a cost: full (100%), half (50%, e.g. mixed-use
+ * vehicles) or none
+ */
+export type VatDeduction = "full" | "half" | "none";
+
+/**
+ * Cost document line item
+ *
+ * Amounts are in minor units of the cost currency on the API side;
+ * tools accept them in major units.
+ */
+export interface CostItem {
+  name: string;
+  net_price?: number;
+  unit_net_price?: number;
+  gross_price?: number;
+  tax_price?: number;
+  tax_symbol: VatRate;
+  quantity?: number;
+  unit?: string;
+  category?: string;
+  vat_deduction?: VatDeduction;
+}
+
+/**
+ * Supplier (seller) details on a cost document
+ */
+export interface CostSupplier {
+  supplier_id?: number;
+  supplier_company_name?: string;
+  supplier_tax_code?: string;
+  supplier_street?: string;
+  supplier_street_number?: string;
+  supplier_flat_number?: string;
+  supplier_city?: string;
+  supplier_post_code?: string;
+  supplier_country?: string;
+}
+
 /**
  * Cost document data structure
  */
-export interface Cost {
+export interface Cost extends CostSupplier {
   uuid: UUID;
   number: string;
   issue_date: ISODateString;
+  sale_date?: ISODateString;
+  received_date?: ISODateString;
+  payment_date?: ISODateString;
+  paid_date?: ISODateString;
+  payment_method?: PaymentMethod;
   net_price: number;
   gross_price: number;
   tax_price: number;
   currency: string;
+  category?: string;
+  vat_deduction?: VatDeduction;
+  items?: CostItem[];
   notes?: string;
   created_at: string;
   updated_at: string;
 }
 
+/**
+ * Request payload for creating a cost document
+ */
+export interface CreateCostRequest extends CostSupplier {
+  number: string;
+  issue_date: ISODateString;
+  sale_date?: ISODateString;
+  received_date?: ISODateString;
+  payment_date?: ISODateString;
+  paid_date?: ISODateString;
+  payment_method?: PaymentMethod;
+  currency?: string;
+  category?: string;
+  vat_deduction?: VatDeduction;
+  items: CostItem[];
+  notes?: string;
+}
+
+/**
+ * Parameters for updating a cost document
+ */
+export interface UpdateCostParams extends Partial<CreateCostRequest> {
+  cost_uuid: UUID;
+}
+
+/**
+ * Payment status filter for cost documents
+ */
+export type CostPaymentStatus = "paid" | "unpaid";
+
+/**
+ * Filters for listing costs
+ *
+ * Amount bounds apply to the gross amount and are given in PLN.
+ */
+export interface ListCostsFilters {
+  number?: string;
+  supplier_company_name?: string;
+  supplier_tax_code?: string;
+  issue_date_from?: ISODateString;
+  issue_date_to?: ISODateString;
+  gross_price_from?: number;
+  gross_price_to?: number;
+  payment_status?: CostPaymentStatus;
+}
+
 /**
  * Parameters for listing costs
  */
-export interface ListCostsParams extends PaginationParams, FieldSelectionParams {}
+export interface ListCostsParams extends PaginationParams, FieldSelectionParams {
+  order?: string;
+  filters?: ListCostsFilters;
+}
 
 // ============================================================================
 // Reference Data Types
@@ -474,6 +840,16 @@ export interface BankAccount {
  */
 export interface AccountInfo {
   company_name: string;
+
+  // Seller details printed on documents (KSeF, JPK)
+  tax_code?: string;
+  street?: string;
+  street_number?: string;
+  flat_number?: string;
+  city?: string;
+  post_code?: string;
+  country?: string;
+
   plan_name: string;
   plan_limits: {
     invoices_per_month?: number;
@@ -487,17 +863,543 @@ export interface AccountInfo {
   };
 }
 
+// ============================================================================
+// Exchange Rate Types
+// ============================================================================
+
+/**
+ * NBP average exchange rate (table A) for one currency on one day
+ */
+export interface ExchangeRate {
+  /** ISO 4217 currency code */
+  currency: string;
+  /** Average (mid) rate in PLN per unit of currency */
+  mid: number;
+  /** Table number, e.g. "001/A/NBP/2024" */
+  table_no: string;
+  /** Publication date of the table */
+  effective_date: ISODateString;
+}
+
+/**
+ * NBP table A as returned by api.nbp.pl (`/api/exchangerates/tables/A/...`)
+ */
+export interface NbpTable {
+  table: string;
+  no: string;
+  effectiveDate: ISODateString;
+  rates: Array<{
+    currency: string;
+    code: string;
+    mid: number;
+  }>;
+}
+
+/**
+ * NBP single-currency rate series (`/api/exchangerates/rates/A/{code}/...`)
+ */
+export interface NbpRateSeries {
+  table: string;
+  currency: string;
+  code: string;
+  rates: Array<{
+    no: string;
+    effectiveDate: ISODateString;
+    mid: number;
+  }>;
+}
+
+/**
+ * Source of NBP exchange rates
+ */
+export interface ExchangeRateProvider {
+  /** Provider name shown in tool responses */
+  readonly name: string;
+  /**
+   * Returns rates for a currency published between two dates (inclusive)
+   */
+  getRates(
+    currency: string,
+    from: ISODateString,
+    to: ISODateString
+  ): Promise<ExchangeRate[]>;
+  /**
+   * Last date the source has tables for (omitted for sources that are
+   * always current)
+   */
+  coveredUntil?(currency: string): ISODateString | undefined;
+}
+
+// ============================================================================
+// Recurring Invoice Types
+// ============================================================================
+
+/**
+ * How often a recurring invoice is issued
+ */
+export type RecurringFrequency = "monthly" | "quarterly" | "yearly";
+
+/**
+ * Issue cadence: every month/quarter/year on the given day, counted from the
+ * start date's month. Days past the end of a month fall on its last day.
+ */
+export interface RecurringCadence {
+  frequency: RecurringFrequency;
+  day_of_month: number;
+}
+
+/**
+ * Invoice template of a schedule
+ *
+ * Same fields as infakt_create_invoice; service amounts are in major units.
+ */
+export interface RecurringInvoiceTemplate {
+  client_id?: number;
+  client_company_name: string;
+  payment_method: PaymentMethod;
+  services: InvoiceService[];
+  /** Payment term in days after the issue date */
+  payment_days: number;
+  currency?: string;
+  bank_account_id?: number;
+  notes?: string;
+}
+
+/**
+ * State of one scheduled occurrence
+ *
+ * `pending` is written before the invoice is requested; an occurrence left
+ * pending by an interrupted run is not retried automatically.
+ */
+export interface RecurringRun {
+  scheduled_date: ISODateString;
+  status: "pending" | "created" | "failed";
+  task_reference_number?: string;
+  error?: string;
+  updated_at: string;
+}
+
+/**
+ * Recurring invoice schedule
+ */
+export interface RecurringSchedule {
+  id: UUID;
+  /** Tenant owning the schedule (see getTenantId) */
+  tenant_id: string;
+  name: string;
+  status: "active" | "paused";
+  cadence: RecurringCadence;
+  start_date: ISODateString;
+  end_date?: ISODateString;
+  /** Index of the next occurrence counted from the start date's month */
+  next_occurrence: number;
+  next_run_date?: ISODateString;
+  template: RecurringInvoiceTemplate;
+  runs: RecurringRun[];
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Outcome of one occurrence processed by a run
+ */
+export interface RecurringRunOutcome {
+  schedule_id: UUID;
+  schedule_name: string;
+  scheduled_date: ISODateString;
+  result: "created" | "failed" | "skipped" | "would_create";
+  task_reference_number?: string;
+  reason?: string;
+}
+
+// ============================================================================
+// VAT Register Types
+// ============================================================================
+
+/**
+ * VAT settlement period: a calendar month or quarter
+ */
+export interface VatPeriod {
+  year: number;
+  month?: number;
+  quarter?: number;
+  from: ISODateString;
+  to: ISODateString;
+}
+
+/**
+ * Net amount and VAT of one rate on a register entry, in grosze (PLN)
+ */
+export interface VatRateAmounts {
+  /** Normalized VAT symbol, e.g. "23", "zw" */
+  tax_symbol: string;
+  net_price: number;
+  tax_price: number;
+}
+
+/**
+ * Sales or purchase VAT register entry
+ */
+export interface VatRegisterEntry {
+  uuid: UUID;
+  number: string;
+  issue_date: ISODateString;
+  /** Tax point: sale date for sales, receipt date for purchases */
+  tax_date: ISODateString;
+  counterparty_name: string;
+  counterparty_tax_code?: string;
+  counterparty_country: string;
+  rates: VatRateAmounts[];
+}
+
+/**
+ * Document of the period left out of the registers
+ */
+export interface SkippedDocument {
+  type: "invoice" | "cost";
+  uuid: UUID;
+  number: string;
+  reason: string;
+}
+
+/**
+ * Sales and purchase VAT registers of a period
+ */
+export interface VatRegisters {
+  period: VatPeriod;
+  sales: VatRegisterEntry[];
+  purchases: VatRegisterEntry[];
+  skipped: SkippedDocument[];
+  /** True if the document limit stopped fetching before the end of the period */
+  truncated: boolean;
+}
+
+/**
+ * Sales and purchase totals of one VAT rate, in grosze (PLN)
+ */
+export interface VatRateSummary {
+  tax_symbol: string;
+  sales_net: number;
+  output_vat: number;
+  purchases_net: number;
+  input_vat: number;
+}
+
+/**
+ * VAT balance in whole złoty, rounded as in the JPK_V7M declaration
+ */
+export interface DeclaredVatBalance {
+  /** Output VAT (P_38): the VAT of each rate rounded separately */
+  output_vat: number;
+  /** Input VAT (P_48), including a surplus carried forward */
+  input_vat: number;
+  /** VAT to pay (P_51) */
+  payable: number;
+  /** Surplus of input VAT (P_53) */
+  refundable: number;
+}
+
+/**
+ * VAT totals of a period, in grosze (PLN)
+ */
+export interface VatSummary {
+  period: VatPeriod;
+  rates: VatRateSummary[];
+  /** Exact output VAT, in grosze */
+  output_vat: number;
+  /** Exact input VAT, in grosze */
+  input_vat: number;
+  /** VAT to pay: output VAT exceeding input VAT, in grosze */
+  payable: number;
+  /** Input VAT exceeding output VAT, to be refunded or carried forward, in grosze */
+  refundable: number;
+  /**
+   * The balance in whole złoty as the JPK_V7M declaration states it; may
+   * differ by a few złoty from the exact amounts
+   */
+  declared: DeclaredVatBalance;
+  sales_count: number;
+  purchase_count: number;
+  skipped: SkippedDocument[];
+  truncated: boolean;
+  /** CSV register of the included documents, one row per document and rate */
+  register_csv?: string;
+}
+
+// ============================================================================
+// Revenue Report Types
+// ============================================================================
+
+/**
+ * Dimension a revenue report is grouped by
+ */
+export type RevenueGroupBy = "client" | "month" | "product" | "payment_method";
+
+/**
+ * Revenue totals of a group or period, in PLN (net and gross)
+ */
+export interface RevenueTotals {
+  invoice_count: number;
+  net_pln: number;
+  gross_pln: number;
+  /** Net revenue per invoice */
+  average_net_pln: number;
+}
+
+/**
+ * Revenue of one client, month, product or payment method
+ */
+export interface RevenueGroup extends RevenueTotals {
+  key: string;
+  label: string;
+  /** Quantity sold (product grouping) */
+  quantity?: number;
+  /** Share of the period's net revenue in percent */
+  share_pct: number;
+  /** Net revenue of the previous period, or of the previous month for month grouping */
+  previous_net_pln?: number;
+  /** Change against previous_net_pln in percent, null if it was zero */
+  change_pct?: number | null;
+  /** Net costs and profit of the month (month grouping with costs) */
+  costs_net_pln?: number;
+  profit_pln?: number;
+}
+
+/**
+ * Revenue report over a date range
+ */
+export interface RevenueReport {
+  date_from: ISODateString;
+  date_to: ISODateString;
+  date_field: "invoice_date" | "sale_date";
+  group_by: RevenueGroupBy;
+  totals: RevenueTotals;
+  /** Totals of the preceding period of the same length */
+  previous?: RevenueTotals & { date_from: ISODateString; date_to: ISODateString };
+  change_pct?: number | null;
+  /** Cost documents issued in the range, in PLN */
+  costs?: { count: number; net_pln: number; gross_pln: number };
+  /** Net revenue less net costs */
+  profit_pln?: number;
+  groups: RevenueGroup[];
+  /** Foreign-currency documents left out of totals (no exchange rate) */
+  unconverted_count: number;
+  /** True if a document limit stopped fetching before the end of the range */
+  truncated: boolean;
+}
+
+// ============================================================================
+// XML Document Types
+// ============================================================================
+
+/**
+ * XML element of a generated document (KSeF invoices, JPK files)
+ *
+ * Elements hold either text or child elements. Namespaces are declared with
+ * `xmlns` attributes on the root element.
+ */
+export interface XmlElement {
+  name: string;
+  attributes?: Record<string, string>;
+  text?: string;
+  children?: XmlElement[];
+}
+
+/**
+ * Schema violation found by offline validation of a generated document
+ */
+export interface SchemaViolation {
+  /** Element path, e.g. "/Faktura/Fa/FaWiersz[2]/P_12" */
+  path: string;
+  message: string;
+}
+
+// ============================================================================
+// KSeF Types
+// ============================================================================
+
+/**
+ * Logical structure of a KSeF e-invoice
+ */
+export type KsefSchemaVersion = "FA(2)" | "FA(3)";
+
+/**
+ * KSeF state of an invoice
+ */
+export type KsefStatus = "not_sent" | "pending" | "accepted" | "rejected";
+
+/**
+ * KSeF submission state as reported by inFakt
+ */
+export interface KsefInvoiceStatus {
+  ksef_status: KsefStatus;
+  /** KSeF number assigned when the invoice is accepted */
+  ksef_number?: string;
+  /** Reference number of the submission */
+  ksef_reference_number?: string;
+  ksef_sent_at?: string;
+  ksef_accepted_at?: string;
+  /** Rejection reason */
+  ksef_error?: string;
+}
+
+/**
+ * Final (or last observed) KSeF state of a submitted invoice
+ */
+export interface KsefStatusResult extends KsefInvoiceStatus {
+  invoice_uuid: UUID;
+  /** True if the timeout elapsed before KSeF accepted or rejected the invoice */
+  timed_out?: boolean;
+  elapsed_ms?: number;
+  /** UPO (Urzędowe Poświadczenie Odbioru) XML of an accepted invoice */
+  upo?: string;
+}
+
+/**
+ * Invoice exported as KSeF XML
+ */
+export interface KsefExportResult {
+  invoice_uuid: UUID;
+  invoice_number: string;
+  schema_version: KsefSchemaVersion;
+  /** Whether the document passed offline schema validation */
+  valid: boolean;
+  violations: SchemaViolation[];
+  xml: string;
+}
+
+// ============================================================================
+// JPK Types
+// ============================================================================
+
+/**
+ * JPK structure: monthly VAT return with registers, or invoice file
+ */
+export type JpkFormat = "JPK_V7M" | "JPK_FA";
+
+/**
+ * Taxpayer data of a JPK file not available from the account
+ */
+export interface JpkTaxpayer {
+  /** Tax office code (KodUrzedu), 4 digits */
+  tax_office_code: string;
+  email?: string;
+  phone?: string;
+  /** Natural persons file JPK_V7M with their first name, last name and birth date */
+  first_name?: string;
+  last_name?: string;
+  birth_date?: ISODateString;
+  /** Administrative address parts required by JPK_FA */
+  voivodeship?: string;
+  county?: string;
+  municipality?: string;
+}
+
+/**
+ * Result of generating a JPK file
+ */
+export interface JpkResult {
+  format: JpkFormat;
+  period: VatPeriod;
+  /** Whether the document passed offline schema validation */
+  valid: boolean;
+  violations: SchemaViolation[];
+  /** Documents of the period left out of the file */
+  skipped: SkippedDocument[];
+  /** True if the document limit stopped fetching before the end of the period */
+  truncated: boolean;
+  xml: string;
+}
+
 // ============================================================================
 // Configuration Types
 // ============================================================================
 
+/**
+ * Retry configuration for API requests
+ */
+export interface RetryConfig {
+  /** Maximum number of retries after the first attempt (0 disables retries) */
+  maxRetries: number;
+  /** Base delay for exponential backoff in milliseconds */
+  baseDelayMs: number;
+  /** Maximum delay between attempts in milliseconds (also caps Retry-After) */
+  maxDelayMs: number;
+}
+
+/**
+ * Client-side rate limit configuration (0 disables a limit)
+ */
+export interface RateLimitConfig {
+  /** Sustained requests per second (bursts up to the same amount) */
+  requestsPerSecond: number;
+  /** Maximum number of requests in flight */
+  maxConcurrency: number;
+  /** Maximum number of requests in flight across all tenants of an HTTP server */
+  globalMaxConcurrency?: number;
+}
+
 /**
  * Server configuration
  */
 export interface ServerConfig {
+  /** Default inFakt API key (empty when every HTTP session brings its own) */
   apiKey: string;
   baseUrl: string;
   useSandbox: boolean;
+  /** Request timeout in milliseconds */
+  timeoutMs: number;
+  retry: RetryConfig;
+  rateLimit: RateLimitConfig;
+}
+
+/**
+ * MCP transport the server listens on
+ */
+export type TransportMode = "stdio" | "http";
+
+/**
+ * Transport configuration
+ */
+export interface TransportConfig {
+  mode: TransportMode;
+  host: string;
+  port: number;
+}
+
+/**
+ * Multi-tenant configuration for HTTP deployments
+ *
+ * Each HTTP session resolves its own inFakt API key, either from a bearer
+ * token mapped through the key store or from the X-inFakt-ApiKey header.
+ */
+export interface TenantConfig {
+  /** Bearer token to inFakt API key mapping (from MCP_TENANT_KEYS_FILE) */
+  tokenKeys?: Map<string, string>;
+  /** Whether clients may pass their own key in the X-inFakt-ApiKey header */
+  allowApiKeyHeader: boolean;
+  /** Whether requests without credentials fall back to INFAKT_API_KEY */
+  allowDefaultApiKey: boolean;
+}
+
+/**
+ * Exchange rate provider configuration
+ */
+export interface ExchangeRateConfig {
+  /** Path to an NBP table A JSON export for offline use */
+  ratesFile?: string;
+  /** Whether to fetch missing rates from the NBP web API */
+  httpEnabled: boolean;
+  /** NBP web API base URL */
+  httpBaseUrl: string;
+}
+
+/**
+ * Recurring invoice schedule storage configuration
+ */
+export interface RecurringConfig {
+  /** Path to the JSON file holding schedules */
+  storeFile: string;
 }
 
 /**
@@ -507,6 +1409,23 @@ export interface EnvironmentVariables {
   INFAKT_API_KEY: string;
   INFAKT_USE_SANDBOX?: string;
   INFAKT_BASE_URL?: string;
+  INFAKT_TIMEOUT_MS?: string;
+  INFAKT_MAX_RETRIES?: string;
+  INFAKT_RETRY_BASE_DELAY_MS?: string;
+  INFAKT_RETRY_MAX_DELAY_MS?: string;
+  INFAKT_RATE_LIMIT_RPS?: string;
+  INFAKT_MAX_CONCURRENCY?: string;
+  INFAKT_GLOBAL_MAX_CONCURRENCY?: string;
+  NBP_RATES_FILE?: string;
+  NBP_HTTP_ENABLED?: string;
+  NBP_API_URL?: string;
+  INFAKT_RECURRING_FILE?: string;
+  MCP_TRANSPORT?: string;
+  MCP_HTTP_HOST?: string;
+  MCP_HTTP_PORT?: string;
+  MCP_TENANT_KEYS_FILE?: string;
+  MCP_ALLOW_API_KEY_HEADER?: string;
+  MCP_ALLOW_DEFAULT_API_KEY?: string;
 }
 
 // ============================================================================
@@ -554,6 +1473,56 @@ export interface RansackQueryParams {
   q?: Record<string, unknown>;
 }
 
+/**
+ * Ransack predicates accepted in structured list filters
+ */
+export type FilterPredicate = "eq" | "cont" | "gteq" | "lteq" | "in" | "null";
+
+/**
+ * Structured list filter condition, mapped to `q[<field>_<predicate>]`
+ */
+export interface FilterCondition {
+  field: string;
+  predicate: FilterPredicate;
+  /** Omitted for `null` (defaults to true); an array for `in` */
+  value?: unknown;
+}
+
+/**
+ * Value type of a filterable field; `money` values are given in PLN
+ * and sent to the API in grosze
+ */
+export type FilterFieldType = "string" | "number" | "date" | "money";
+
+/**
+ * Whitelist of filterable fields of an entity
+ */
+export type FilterFieldMap = Readonly<Record<string, FilterFieldType>>;
+
+/**
+ * Paginated list response envelope returned by inFakt list endpoints
+ */
+export interface EntityListResponse<T> {
+  metainfo?: {
+    count?: number;
+    total_count?: number;
+    next?: string;
+    previous?: string;
+  };
+  entities: T[];
+}
+
+/**
+ * Merged result of walking all pages of a list endpoint
+ */
+export interface FetchAllResult<T> {
+  entities: T[];
+  total_count: number;
+  pages_fetched: number;
+  /** True if more items exist than were fetched (safety cap reached) */
+  truncated: boolean;
+}
+
 /**
  * Generic list response from API
  */
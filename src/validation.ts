@@ -6,6 +6,7 @@
  */
 
 import { McpError, ErrorCode } from "@modelcontextprotocol/sdk/types.js";
+import { isSupportedCurrency } from "./currency.js";
 
 /**
  * Validation error with field context
@@ -56,6 +57,18 @@ export function validateNonNegativeNumber(
   }
 }
 
+/**
+ * Validates that a value is a boolean
+ */
+export function validateBoolean(
+  value: unknown,
+  fieldName: string
+): asserts value is boolean {
+  if (typeof value !== "boolean") {
+    throw new ValidationError(fieldName, "must be a boolean");
+  }
+}
+
 /**
  * Validates ISO date string format (YYYY-MM-DD)
  */
@@ -128,6 +141,22 @@ export function validateUUID(
   }
 }
 
+/**
+ * Validates ISO 4217 currency code (e.g., PLN, EUR, USD)
+ */
+export function validateCurrencyCode(
+  value: unknown,
+  fieldName: string
+): asserts value is string {
+  if (typeof value !== "string" || !/^[A-Z]{3}$/.test(value)) {
+    throw new ValidationError(fieldName, "must be a 3-letter uppercase ISO 4217 code");
+  }
+
+  if (!isSupportedCurrency(value)) {
+    throw new ValidationError(fieldName, `unsupported currency: ${value}`);
+  }
+}
+
 /**
  * Validates that a value is in an allowed set of values
  */
@@ -148,6 +177,30 @@ export function validateEnum<T extends string>(
   }
 }
 
+/**
+ * Validates a sort order of the form "<field>" or "<field> asc|desc"
+ */
+export function validateSortOrder(
+  value: unknown,
+  fieldName: string,
+  sortableFields: readonly string[]
+): asserts value is string {
+  if (typeof value !== "string") {
+    throw new ValidationError(fieldName, "must be a string");
+  }
+
+  const match = /^(\w+)(?:\s+(?:asc|desc))?$/i.exec(value.trim());
+  if (!match) {
+    throw new ValidationError(fieldName, "must be '<field>' or '<field> asc|desc'");
+  }
+  if (!sortableFields.includes(match[1])) {
+    throw new ValidationError(
+      fieldName,
+      `cannot sort by '${match[1]}'. Allowed: ${sortableFields.join(", ")}`
+    );
+  }
+}
+
 /**
  * Type for item validator function
  */
@@ -239,6 +292,174 @@ export function validateInvoiceService(
   }
 }
 
+/**
+ * Payment methods accepted by inFakt documents
+ */
+export const PAYMENT_METHODS = [
+  "cash",
+  "transfer",
+  "card",
+  "barter",
+  "check",
+  "bill_of_sale",
+  "delivery",
+  "compensation",
+  "accredited",
+  "paypal",
+  "payu",
+  "tpay",
+  "przelewy24",
+  "dotpay",
+  "other",
+] as const;
+
+/**
+ * VAT deduction settings for cost documents
+ */
+export const VAT_DEDUCTIONS = ["full", "half", "none"] as const;
+
+/**
+ * Validates a cost document line item
+ */
+export function validateCostItem(
+  value: unknown,
+  index: number
+): asserts value is Record<string, unknown> {
+  if (!value || typeof value !== "object") {
+    throw new ValidationError(`items[${index}]`, "must be an object");
+  }
+
+  const item = value as Record<string, unknown>;
+
+  // Required fields
+  validateRequiredString(item.name, "name");
+
+  if (
+    item.tax_symbol === undefined ||
+    (typeof item.tax_symbol !== "string" && typeof item.tax_symbol !== "number")
+  ) {
+    throw new ValidationError("tax_symbol", "is required and must be a string or number");
+  }
+
+  // Optional numeric fields
+  if (item.net_price !== undefined) {
+    validateNonNegativeNumber(item.net_price, "net_price");
+  }
+  if (item.unit_net_price !== undefined) {
+    validateNonNegativeNumber(item.unit_net_price, "unit_net_price");
+  }
+  if (item.gross_price !== undefined) {
+    validateNonNegativeNumber(item.gross_price, "gross_price");
+  }
+  if (item.quantity !== undefined) {
+    validatePositiveNumber(item.quantity, "quantity");
+  }
+
+  // Optional settings
+  if (item.category !== undefined) {
+    validateRequiredString(item.category, "category");
+  }
+  if (item.vat_deduction !== undefined) {
+    validateEnum(item.vat_deduction, "vat_deduction", VAT_DEDUCTIONS);
+  }
+
+  // At least one price field must be provided
+  if (
+    item.net_price === undefined &&
+    item.unit_net_price === undefined &&
+    item.gross_price === undefined
+  ) {
+    throw new ValidationError(
+      "items",
+      "each item must have at least one of: net_price, unit_net_price, or gross_price"
+    );
+  }
+}
+
+/**
+ * Validates one side (before/after) of a correction line
+ */
+function validateCorrectionValues(value: unknown, side: string): void {
+  if (!value || typeof value !== "object") {
+    throw new ValidationError(side, "must be an object");
+  }
+
+  const values = value as Record<string, unknown>;
+
+  if (values.name !== undefined) {
+    validateRequiredString(values.name, `${side}.name`);
+  }
+  if (values.quantity !== undefined) {
+    validateNonNegativeNumber(values.quantity, `${side}.quantity`);
+  }
+  if (values.unit_net_price !== undefined) {
+    validateNonNegativeNumber(values.unit_net_price, `${side}.unit_net_price`);
+  }
+  if (
+    values.tax_symbol !== undefined &&
+    typeof values.tax_symbol !== "string" &&
+    typeof values.tax_symbol !== "number"
+  ) {
+    throw new ValidationError(`${side}.tax_symbol`, "must be a string or number");
+  }
+}
+
+/**
+ * Validates a correction invoice line
+ */
+export function validateCorrectionLine(
+  value: unknown,
+  index: number
+): asserts value is Record<string, unknown> {
+  if (!value || typeof value !== "object") {
+    throw new ValidationError(`lines[${index}]`, "must be an object");
+  }
+
+  const line = value as Record<string, unknown>;
+
+  if (line.position !== undefined) {
+    validatePositiveNumber(line.position, "position");
+    if (!Number.isInteger(line.position)) {
+      throw new ValidationError("position", "must be an integer");
+    }
+  }
+  if (line.before !== undefined) {
+    validateCorrectionValues(line.before, "before");
+  }
+  if (line.after === undefined) {
+    throw new ValidationError("after", "is required");
+  }
+  validateCorrectionValues(line.after, "after");
+}
+
+/**
+ * Validates a per-line override when cloning an invoice
+ */
+export function validateLineOverride(
+  value: unknown,
+  index: number
+): asserts value is Record<string, unknown> {
+  if (!value || typeof value !== "object") {
+    throw new ValidationError(`line_overrides[${index}]`, "must be an object");
+  }
+
+  const override = value as Record<string, unknown>;
+
+  validatePositiveNumber(override.position, "position");
+  if (!Number.isInteger(override.position)) {
+    throw new ValidationError("position", "must be an integer");
+  }
+  if (override.name !== undefined) {
+    validateRequiredString(override.name, "name");
+  }
+  if (override.quantity !== undefined) {
+    validatePositiveNumber(override.quantity, "quantity");
+  }
+  if (override.unit_net_price !== undefined) {
+    validateNonNegativeNumber(override.unit_net_price, "unit_net_price");
+  }
+}
+
 /**
  * Validates pagination parameters
  */
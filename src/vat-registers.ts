@@ -0,0 +1,467 @@
+/**
+ * Sales and purchase VAT registers
+ *
+ * Collects the documents of a settlement period and breaks them down by VAT
+ * rate in grosze (PLN), as the base of JPK files and VAT summaries.
+ *
+ * - Sales: issued VAT invoices whose sale date falls in the period;
+ *   foreign-currency amounts are converted at the invoice exchange rate.
+ * - Purchases: cost documents received in the period (receipt date, or the
+ *   issue date if none is recorded), with VAT reduced by their deduction
+ *   setting (half for 50% deduction, none for non-deductible items).
+ *
+ * Advance, final and correction invoices and foreign-currency costs cannot be
+ * broken down reliably and are returned as skipped, to be entered manually.
+ */
+
+import type { ApiClient } from "./api-client.js";
+import type {
+  Cost,
+  CostItem,
+  ISODateString,
+  Invoice,
+  VatPeriod,
+  VatRateAmounts,
+  VatRateSummary,
+  VatRegisterEntry,
+  VatRegisters,
+  VatSummary,
+} from "./types.js";
+import { ValidationError, validatePositiveNumber } from "./validation.js";
+import { DEFAULT_CURRENCY, minorToMajor } from "./currency.js";
+import { getIssuedLineAmounts, normalizeVatSymbol, roundHalfAwayFromZero } from "./vat.js";
+import { fetchAllPages, MAX_ITEMS_LIMIT } from "./pagination.js";
+import { computeDeclaredVat } from "./jpk.js";
+
+/**
+ * Invoice statuses of issued invoices
+ */
+const ISSUED_INVOICE_STATUSES = ["printed", "sent", "paid"] as const;
+
+/**
+ * Last day of a month (1-12)
+ */
+function lastDayOfMonth(year: number, month: number): ISODateString {
+  return new Date(Date.UTC(year, month, 0)).toISOString().substring(0, 10);
+}
+
+/**
+ * Resolves and validates a settlement period
+ *
+ * @param year - Year
+ * @param month - Month (1-12), exclusive with quarter
+ * @param quarter - Quarter (1-4), exclusive with month
+ * @throws {ValidationError} If the period is missing, ambiguous or out of range
+ */
+export function resolveVatPeriod(year: unknown, month?: unknown, quarter?: unknown): VatPeriod {
+  validatePositiveNumber(year, "year");
+  if (!Number.isInteger(year) || year < 2000 || year > 2100) {
+    throw new ValidationError("year", "must be a year between 2000 and 2100");
+  }
+  if ((month === undefined) === (quarter === undefined)) {
+    throw new ValidationError("month", "set either month or quarter");
+  }
+
+  if (month !== undefined) {
+    if (!Number.isInteger(month) || (month as number) < 1 || (month as number) > 12) {
+      throw new ValidationError("month", "must be an integer between 1 and 12");
+    }
+    const m = month as number;
+    return {
+      year,
+      month: m,
+      from: `${year}-${String(m).padStart(2, "0")}-01`,
+      to: lastDayOfMonth(year, m),
+    };
+  }
+
+  if (!Number.isInteger(quarter) || (quarter as number) < 1 || (quarter as number) > 4) {
+    throw new ValidationError("quarter", "must be an integer between 1 and 4");
+  }
+  const q = quarter as number;
+  return {
+    year,
+    quarter: q,
+    from: `${year}-${String(q * 3 - 2).padStart(2, "0")}-01`,
+    to: lastDayOfMonth(year, q * 3),
+  };
+}
+
+/**
+ * Converts minor units of a currency to grosze
+ */
+function toGrosze(minor: number, currency: string, exchangeRate?: number): number {
+  if (currency === DEFAULT_CURRENCY) {
+    return Number(minor);
+  }
+  return Math.round(minorToMajor(minor, currency) * exchangeRate! * 100);
+}
+
+/**
+ * Adds a line to the per-rate amounts of an entry
+ */
+function addRateAmounts(
+  rates: Map<string, VatRateAmounts>,
+  symbol: string,
+  netPrice: number,
+  taxPrice: number
+): void {
+  const amounts = rates.get(symbol) ?? { tax_symbol: symbol, net_price: 0, tax_price: 0 };
+  amounts.net_price += netPrice;
+  amounts.tax_price += taxPrice;
+  rates.set(symbol, amounts);
+}
+
+/**
+ * Builds the sales register entry of an invoice
+ *
+ * @returns The entry, or the reason the invoice cannot be included
+ */
+export function buildSalesEntry(invoice: Invoice): VatRegisterEntry | string {
+  const kind = invoice.kind ?? "vat";
+  if (kind !== "vat") {
+    return `${kind} invoices are not broken down automatically; enter it manually`;
+  }
+
+  const currency = invoice.currency ?? DEFAULT_CURRENCY;
+  if (currency !== DEFAULT_CURRENCY && !invoice.exchange_rate) {
+    return `invoice in ${currency} has no exchange_rate`;
+  }
+
+  const rates = new Map<string, VatRateAmounts>();
+  for (const service of invoice.services ?? []) {
+    const amounts = getIssuedLineAmounts(service);
+    addRateAmounts(
+      rates,
+      normalizeVatSymbol(service.tax_symbol),
+      toGrosze(amounts.net_price, currency, invoice.exchange_rate),
+      toGrosze(amounts.tax_price, currency, invoice.exchange_rate)
+    );
+  }
+
+  return {
+    uuid: invoice.uuid,
+    number: invoice.number,
+    issue_date: invoice.invoice_date,
+    tax_date: invoice.sale_date ?? invoice.invoice_date,
+    counterparty_name:
+      invoice.client_company_name ||
+      [invoice.client_first_name, invoice.client_last_name].filter(Boolean).join(" "),
+    counterparty_tax_code: invoice.client_tax_code || undefined,
+    counterparty_country: (invoice.client_country || "PL").toUpperCase(),
+    rates: [...rates.values()],
+  };
+}
+
+/**
+ * Deductible VAT of a cost item in minor units
+ */
+function getDeductibleTax(item: CostItem, cost: Cost, taxPrice: number): number {
+  const deduction = item.vat_deduction ?? cost.vat_deduction ?? "full";
+  if (deduction === "none") {
+    return 0;
+  }
+  return deduction === "half" ? roundHalfAwayFromZero(taxPrice / 2) : taxPrice;
+}
+
+/**
+ * Builds the purchase register entry of a cost document
+ *
+ * @returns The entry, or the reason the cost cannot be included
+ */
+export function buildPurchaseEntry(cost: Cost): VatRegisterEntry | string {
+  if ((cost.currency ?? DEFAULT_CURRENCY) !== DEFAULT_CURRENCY) {
+    return `cost in ${cost.currency} has no PLN amounts; enter it manually`;
+  }
+
+  const rates = new Map<string, VatRateAmounts>();
+  for (const item of cost.items ?? []) {
+    if ((item.vat_deduction ?? cost.vat_deduction) === "none") {
+      continue;
+    }
+    const amounts = getIssuedLineAmounts(item);
+    addRateAmounts(
+      rates,
+      normalizeVatSymbol(item.tax_symbol),
+      amounts.net_price,
+      getDeductibleTax(item, cost, amounts.tax_price)
+    );
+  }
+  if (rates.size === 0) {
+    return "no deductible VAT";
+  }
+
+  return {
+    uuid: cost.uuid,
+    number: cost.number,
+    issue_date: cost.issue_date,
+    tax_date: cost.received_date ?? cost.issue_date,
+    counterparty_name: cost.supplier_company_name ?? "",
+    counterparty_tax_code: cost.supplier_tax_code || undefined,
+    counterparty_country: (cost.supplier_country || "PL").toUpperCase(),
+    rates: [...rates.values()],
+  };
+}
+
+/**
+ * Fetches issued invoices dated within a range, with their services
+ *
+ * @param apiClient - API client
+ * @param dateField - Date the range applies to (sale_date for VAT, invoice_date for JPK_FA)
+ * @param from - First day (inclusive)
+ * @param to - Last day (inclusive)
+ * @param withServices - Fetch line items the list response omits (default: true)
+ * @param maxLineRequests - Most invoices to fetch individually for their line
+ *   items; the invoices from the first one over the limit on are left out and
+ *   the result is marked truncated (default: no limit)
+ */
+export async function fetchIssuedInvoices(
+  apiClient: ApiClient,
+  dateField: "sale_date" | "invoice_date",
+  from: ISODateString,
+  to: ISODateString,
+  withServices: boolean = true,
+  maxLineRequests: number = Infinity
+): Promise<{ invoices: Invoice[]; truncated: boolean }> {
+  const result = await fetchAllPages<Invoice>(
+    apiClient,
+    "/invoices.json",
+    {
+      order: `${dateField} asc`,
+      q: {
+        status_in: [...ISSUED_INVOICE_STATUSES],
+        [`${dateField}_gteq`]: from,
+        [`${dateField}_lteq`]: to,
+      },
+    },
+    { max_items: MAX_ITEMS_LIMIT }
+  );
+
+  const issued = result.entities.filter((invoice) => invoice.kind !== "proforma");
+  let end = issued.length;
+  if (withServices) {
+    let requests = 0;
+    const overLimit = issued.findIndex((invoice) => !invoice.services && ++requests > maxLineRequests);
+    end = overLimit === -1 ? issued.length : overLimit;
+  }
+
+  // List responses may omit line items; fetch those invoices individually
+  const invoices = await Promise.all(
+    issued
+      .slice(0, end)
+      .map((invoice) =>
+        invoice.services || !withServices
+          ? invoice
+          : apiClient.get<Invoice>(`/invoices/${invoice.uuid}.json`)
+      )
+  );
+
+  return { invoices, truncated: result.truncated || end < issued.length };
+}
+
+/**
+ * Fetches cost documents received within a range, with their items
+ *
+ * Costs with a receipt date are filtered on it, however long before the
+ * range they were issued; costs without one are filtered on the issue date.
+ */
+async function fetchReceivedCosts(
+  apiClient: ApiClient,
+  from: ISODateString,
+  to: ISODateString
+): Promise<{ costs: Cost[]; truncated: boolean }> {
+  const [received, undated] = await Promise.all([
+    fetchAllPages<Cost>(
+      apiClient,
+      "/documents/costs.json",
+      {
+        order: "received_date asc",
+        q: { received_date_gteq: from, received_date_lteq: to },
+      },
+      { max_items: MAX_ITEMS_LIMIT }
+    ),
+    fetchAllPages<Cost>(
+      apiClient,
+      "/documents/costs.json",
+      {
+        order: "issue_date asc",
+        q: { received_date_null: true, issue_date_gteq: from, issue_date_lteq: to },
+      },
+      { max_items: MAX_ITEMS_LIMIT }
+    ),
+  ]);
+
+  const costs = await Promise.all(
+    [...received.entities, ...undated.entities].map((cost) =>
+      cost.items ? cost : apiClient.get<Cost>(`/documents/costs/${cost.uuid}.json`)
+    )
+  );
+
+  return { costs, truncated: received.truncated || undated.truncated };
+}
+
+/**
+ * Builds the sales and purchase registers of a period
+ *
+ * @param apiClient - API client
+ * @param period - Settlement period
+ * @returns Registers with skipped documents and the truncation flag
+ */
+export async function fetchVatRegisters(
+  apiClient: ApiClient,
+  period: VatPeriod
+): Promise<VatRegisters> {
+  const [sales, purchases] = await Promise.all([
+    fetchIssuedInvoices(apiClient, "sale_date", period.from, period.to),
+    fetchReceivedCosts(apiClient, period.from, period.to),
+  ]);
+
+  const registers: VatRegisters = {
+    period,
+    sales: [],
+    purchases: [],
+    skipped: [],
+    truncated: sales.truncated || purchases.truncated,
+  };
+
+  for (const invoice of sales.invoices) {
+    const entry = buildSalesEntry(invoice);
+    if (typeof entry === "string") {
+      registers.skipped.push({ type: "invoice", uuid: invoice.uuid, number: invoice.number, reason: entry });
+    } else {
+      registers.sales.push(entry);
+    }
+  }
+  for (const cost of purchases.costs) {
+    const entry = buildPurchaseEntry(cost);
+    if (typeof entry === "string") {
+      registers.skipped.push({ type: "cost", uuid: cost.uuid, number: cost.number, reason: entry });
+    } else {
+      registers.purchases.push(entry);
+    }
+  }
+
+  return registers;
+}
+
+/**
+ * Orders VAT symbols: percent rates from the highest, then zw, np, oo
+ */
+function compareVatSymbols(a: string, b: string): number {
+  const order = (symbol: string) => (isNaN(Number(symbol)) ? -1 : Number(symbol));
+  return order(b) - order(a) || a.localeCompare(b);
+}
+
+/**
+ * Sums the registers of a period per rate and computes the VAT balance
+ *
+ * @param registers - Sales and purchase registers
+ * @returns Per-rate totals, output and input VAT and the payable or
+ *   refundable amount in grosze, and the same balance in whole złoty as
+ *   JPK_V7M declares it
+ */
+export function summarizeVatRegisters(registers: VatRegisters): VatSummary {
+  const rates = new Map<string, VatRateSummary>();
+  const getRate = (symbol: string) => {
+    const summary = rates.get(symbol) ?? {
+      tax_symbol: symbol,
+      sales_net: 0,
+      output_vat: 0,
+      purchases_net: 0,
+      input_vat: 0,
+    };
+    rates.set(symbol, summary);
+    return summary;
+  };
+
+  for (const entry of registers.sales) {
+    for (const amounts of entry.rates) {
+      const summary = getRate(amounts.tax_symbol);
+      summary.sales_net += amounts.net_price;
+      summary.output_vat += amounts.tax_price;
+    }
+  }
+  for (const entry of registers.purchases) {
+    for (const amounts of entry.rates) {
+      const summary = getRate(amounts.tax_symbol);
+      summary.purchases_net += amounts.net_price;
+      summary.input_vat += amounts.tax_price;
+    }
+  }
+
+  const sorted = [...rates.values()].sort((a, b) => compareVatSymbols(a.tax_symbol, b.tax_symbol));
+  const outputVat = sorted.reduce((sum, rate) => sum + rate.output_vat, 0);
+  const inputVat = sorted.reduce((sum, rate) => sum + rate.input_vat, 0);
+
+  return {
+    period: registers.period,
+    rates: sorted,
+    output_vat: outputVat,
+    input_vat: inputVat,
+    payable: Math.max(0, outputVat - inputVat),
+    refundable: Math.max(0, inputVat - outputVat),
+    declared: computeDeclaredVat(registers),
+    sales_count: registers.sales.length,
+    purchase_count: registers.purchases.length,
+    skipped: registers.skipped,
+    truncated: registers.truncated,
+  };
+}
+
+/**
+ * Quotes a CSV text field when it contains a separator, quote or line break
+ *
+ * Text starting with =, +, - or @ is prefixed with an apostrophe, so that a
+ * spreadsheet does not evaluate e.g. a counterparty name as a formula.
+ */
+function csvField(value: string | undefined): string {
+  const text = /^[=+\-@]/.test(value ?? "") ? `'${value}` : (value ?? "");
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Formats the registers as CSV, one row per document and rate
+ *
+ * Amounts are in PLN with a dot as the decimal separator.
+ *
+ * @param registers - Sales and purchase registers
+ */
+export function buildVatRegisterCsv(registers: VatRegisters): string {
+  const header = [
+    "register",
+    "number",
+    "issue_date",
+    "tax_date",
+    "counterparty_name",
+    "counterparty_tax_code",
+    "counterparty_country",
+    "tax_symbol",
+    "net_price",
+    "tax_price",
+  ];
+
+  const rows = (["sales", "purchases"] as const).flatMap((register) =>
+    registers[register].flatMap((entry) =>
+      entry.rates.map((amounts) =>
+        [
+          register,
+          entry.number,
+          entry.issue_date,
+          entry.tax_date,
+          entry.counterparty_name,
+          entry.counterparty_tax_code,
+          entry.counterparty_country,
+          amounts.tax_symbol,
+        ]
+          .map(csvField)
+          .concat(
+            minorToMajor(amounts.net_price, DEFAULT_CURRENCY).toFixed(2),
+            minorToMajor(amounts.tax_price, DEFAULT_CURRENCY).toFixed(2)
+          )
+          .join(",")
+      )
+    )
+  );
+
+  return [header.join(","), ...rows].join("\n") + "\n";
+}
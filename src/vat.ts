@@ -0,0 +1,316 @@
+/**
+ * VAT calculations for invoice lines
+ *
+ * Line amounts follow the usual Polish invoicing practice: the net amount is
+ * rounded to whole grosze, VAT is computed from the rounded net amount and
+ * rounded half away from zero, and gross is net plus VAT.
+ *
+ * Invoice totals are computed per VAT rate from the summed line values
+ * (art. 106e ust. 1 pkt 14 VAT Act): VAT is calculated once from the total
+ * net (or, for gross-priced invoices, extracted from the total gross) of
+ * each rate, so it may differ by a grosz from the sum of line VAT amounts.
+ */
+
+import type {
+  InvoicePreview,
+  InvoicePreviewLine,
+  InvoicePreviewRate,
+  LineAmounts,
+  PriceBasis,
+  VatRate,
+  VatRateConfig,
+} from "./types.js";
+import { ValidationError } from "./validation.js";
+
+/**
+ * VAT symbols without a percentage (exempt, not subject, reverse charge)
+ */
+export const NON_PERCENT_VAT_SYMBOLS = ["zw", "np", "oo"] as const;
+
+/**
+ * Rounds half away from zero (0.5 grosza rounds up, -0.5 rounds down)
+ *
+ * Negative values that round to zero give 0 rather than -0.
+ */
+export function roundHalfAwayFromZero(value: number): number {
+  return Math.sign(value) * Math.round(Math.abs(value)) || 0;
+}
+
+/**
+ * Resolves the VAT percentage of a tax symbol
+ *
+ * @example
+ * getVatPercent(23) // returns 23
+ * getVatPercent("8") // returns 8
+ * getVatPercent("zw") // returns 0
+ * @throws {Error} If the symbol is neither a percentage nor a known symbol
+ */
+export function getVatPercent(symbol: VatRate): number {
+  const normalized = String(symbol).trim().toLowerCase().replace(/%$/, "");
+
+  if ((NON_PERCENT_VAT_SYMBOLS as readonly string[]).includes(normalized)) {
+    return 0;
+  }
+
+  const percent = Number(normalized);
+  if (normalized === "" || !Number.isFinite(percent) || percent < 0) {
+    throw new Error(`Unknown VAT rate symbol: ${symbol}`);
+  }
+  return percent;
+}
+
+/**
+ * Normalizes a VAT symbol for comparison ("23%", " ZW" -> "23", "zw")
+ */
+export function normalizeVatSymbol(symbol: VatRate): string {
+  return String(symbol).trim().toLowerCase().replace(/%$/, "");
+}
+
+/**
+ * EU member state codes as used in VAT numbers (TKodyKrajowUE)
+ */
+export const EU_COUNTRY_CODES = [
+  "AT", "BE", "BG", "CY", "CZ", "DK", "EE", "FI", "FR", "DE", "EL", "HR", "HU", "IE",
+  "IT", "LV", "LT", "LU", "MT", "NL", "PL", "PT", "RO", "SK", "SI", "ES", "SE", "XI",
+] as const;
+
+/**
+ * Converts an ISO country code to its EU VAT prefix (Greece uses EL)
+ */
+export function toEuCountryCode(country: string): string {
+  const code = country.toUpperCase();
+  return code === "GR" ? "EL" : code;
+}
+
+/**
+ * Classifies a normalized VAT symbol by where the buyer is
+ *
+ * 0% sales are domestic ("0 KR"), intra-Community supply to an EU VAT payer
+ * ("0 WDT") or export ("0 EX"). Sales not subject to Polish VAT are services
+ * taxed where an EU VAT payer is (art. 100 ust. 1 pkt 4, "np II") or other
+ * supply outside the country ("np I"). The codes are those of KSeF FA(3);
+ * other symbols are returned unchanged.
+ *
+ * @param symbol - Normalized VAT symbol
+ * @param buyerCountry - Buyer's ISO country code (default PL)
+ * @param buyerTaxCode - Buyer's tax identifier, if any
+ * @returns Rate code, or the reason the sale cannot be classified
+ */
+export function classifyVatRate(
+  symbol: string,
+  buyerCountry: string | undefined,
+  buyerTaxCode: string | undefined
+): string | { reason: string } {
+  const country = toEuCountryCode(buyerCountry || "PL");
+  const euVatPayer =
+    country !== "PL" &&
+    (EU_COUNTRY_CODES as readonly string[]).includes(country) &&
+    Boolean(buyerTaxCode);
+
+  if (symbol === "0") {
+    if (country === "PL") {
+      return "0 KR";
+    }
+    if (!(EU_COUNTRY_CODES as readonly string[]).includes(country)) {
+      return "0 EX";
+    }
+    return euVatPayer
+      ? "0 WDT"
+      : { reason: "0% sale to an EU buyer without a VAT number is not an intra-Community supply" };
+  }
+  if (symbol === "np") {
+    return euVatPayer ? "np II" : "np I";
+  }
+  return symbol;
+}
+
+/**
+ * Calculates net, VAT and gross amounts of a line
+ *
+ * @param quantity - Quantity
+ * @param unitNetPrice - Unit net price in minor units
+ * @param symbol - VAT rate symbol
+ * @returns Amounts in minor units
+ */
+export function calculateLineAmounts(
+  quantity: number,
+  unitNetPrice: number,
+  symbol: VatRate
+): LineAmounts {
+  const netPrice = roundHalfAwayFromZero(quantity * unitNetPrice);
+  const taxPrice = roundHalfAwayFromZero((netPrice * getVatPercent(symbol)) / 100);
+  return {
+    net_price: netPrice,
+    tax_price: taxPrice,
+    gross_price: netPrice + taxPrice,
+  };
+}
+
+/**
+ * Net, VAT and gross amounts of an issued document line (invoice service
+ * or cost item), computed from the unit price when the API omits them
+ *
+ * @param line - Line with amounts in minor units
+ */
+export function getIssuedLineAmounts(line: {
+  net_price?: number;
+  tax_price?: number;
+  gross_price?: number;
+  unit_net_price?: number;
+  quantity?: number;
+  tax_symbol: VatRate;
+}): LineAmounts {
+  if (line.net_price !== undefined && line.tax_price !== undefined) {
+    return {
+      net_price: Number(line.net_price),
+      tax_price: Number(line.tax_price),
+      gross_price: Number(line.gross_price ?? Number(line.net_price) + Number(line.tax_price)),
+    };
+  }
+  return calculateLineAmounts(
+    Number(line.quantity ?? 1),
+    Number(line.unit_net_price ?? 0),
+    line.tax_symbol
+  );
+}
+
+/**
+ * Extracts VAT from a gross amount and splits it into net and VAT
+ *
+ * @param grossPrice - Gross amount in minor units
+ * @param percent - VAT percentage
+ */
+export function splitGrossAmount(grossPrice: number, percent: number): LineAmounts {
+  const taxPrice = roundHalfAwayFromZero((grossPrice * percent) / (100 + percent));
+  return {
+    net_price: grossPrice - taxPrice,
+    tax_price: taxPrice,
+    gross_price: grossPrice,
+  };
+}
+
+
+/**
+ * Resolves the VAT percentage of a symbol from the account's VAT rates
+ *
+ * The API reports rates as fractions (0.23); percentages are accepted too.
+ *
+ * @throws {ValidationError} If the symbol is not available on the account
+ */
+function resolveVatPercent(
+  symbol: VatRate,
+  vatRates: VatRateConfig[],
+  field: string
+): number {
+  const config = vatRates.find(
+    (rate) => normalizeVatSymbol(rate.symbol) === normalizeVatSymbol(symbol)
+  );
+  if (!config) {
+    throw new ValidationError(
+      field,
+      `unknown VAT rate ${symbol} (available: ${vatRates.map((rate) => rate.symbol).join(", ")})`
+    );
+  }
+
+  const rate = Number(config.rate);
+  if (!Number.isFinite(rate)) {
+    return getVatPercent(config.symbol);
+  }
+  return rate > 0 && rate < 1 ? Math.round(rate * 10000) / 100 : rate;
+}
+
+/**
+ * Computes per-line and per-rate totals of an invoice
+ *
+ * Each line is priced by exactly one of `unit_net_price` (times quantity),
+ * `net_price` (line net) or `gross_price` (line gross). Gross prices cannot
+ * be mixed with net prices on one invoice.
+ *
+ * @param services - Validated invoice lines with prices in minor units
+ * @param vatRates - VAT rates of the account (GET /vat_rates.json)
+ * @param currency - Invoice currency
+ * @throws {ValidationError} On unknown VAT rates or ambiguous line prices
+ * @returns Line, per-rate and invoice totals in minor units
+ */
+export function buildInvoicePreview(
+  services: Record<string, unknown>[],
+  vatRates: VatRateConfig[],
+  currency: string
+): InvoicePreview {
+  let priceBasis: PriceBasis | undefined;
+  const lines: InvoicePreviewLine[] = [];
+  const rates = new Map<string, InvoicePreviewRate>();
+
+  services.forEach((service, index) => {
+    const field = `services[${index}]`;
+    const priceFields = (["unit_net_price", "net_price", "gross_price"] as const).filter(
+      (key) => service[key] !== undefined
+    );
+    if (priceFields.length > 1) {
+      throw new ValidationError(field, `set only one of ${priceFields.join(", ")}`);
+    }
+
+    const linePriceBasis: PriceBasis = priceFields[0] === "gross_price" ? "gross" : "net";
+    if (priceBasis !== undefined && priceBasis !== linePriceBasis) {
+      throw new ValidationError(field, "gross_price cannot be mixed with net prices on one invoice");
+    }
+    priceBasis = linePriceBasis;
+
+    const symbol = service.tax_symbol as VatRate;
+    const percent = resolveVatPercent(symbol, vatRates, `${field}.tax_symbol`);
+    const quantity = (service.quantity as number | undefined) ?? 1;
+
+    let amounts: LineAmounts;
+    if (priceFields[0] === "gross_price") {
+      amounts = splitGrossAmount(service.gross_price as number, percent);
+    } else if (priceFields[0] === "net_price") {
+      amounts = calculateLineAmounts(1, service.net_price as number, percent);
+    } else {
+      amounts = calculateLineAmounts(quantity, service.unit_net_price as number, percent);
+    }
+
+    lines.push({
+      position: index + 1,
+      name: service.name as string,
+      quantity,
+      tax_symbol: symbol,
+      vat_percent: percent,
+      ...amounts,
+    });
+
+    const key = normalizeVatSymbol(symbol);
+    const rate = rates.get(key) ?? {
+      tax_symbol: symbol,
+      vat_percent: percent,
+      line_count: 0,
+      net_price: 0,
+      tax_price: 0,
+      gross_price: 0,
+    };
+    rate.line_count++;
+    rate.net_price += amounts.net_price;
+    rate.gross_price += amounts.gross_price;
+    rates.set(key, rate);
+  });
+
+  const total: LineAmounts = { net_price: 0, tax_price: 0, gross_price: 0 };
+  for (const rate of rates.values()) {
+    const amounts =
+      priceBasis === "gross"
+        ? splitGrossAmount(rate.gross_price, rate.vat_percent)
+        : calculateLineAmounts(1, rate.net_price, rate.vat_percent);
+    Object.assign(rate, amounts);
+
+    total.net_price += amounts.net_price;
+    total.tax_price += amounts.tax_price;
+    total.gross_price += amounts.gross_price;
+  }
+
+  return {
+    currency,
+    price_basis: priceBasis ?? "net",
+    lines,
+    rates: [...rates.values()],
+    total,
+  };
+}
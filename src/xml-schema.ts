@@ -0,0 +1,441 @@
+/**
+ * Offline validation of generated XML documents
+ *
+ * Schemas are transcriptions of the official XSD files into the subset of
+ * XML Schema they use: element sequences and choices with occurrence
+ * bounds, fixed attributes and simple types restricted by pattern,
+ * enumeration, length, digits and value range. Rules the XSD only states
+ * in its documentation (e.g. one field required when another is set) are
+ * declared as assertions on the element. Optional subtrees that a generator
+ * never emits can be declared opaque: their position and occurrence bounds
+ * are checked, their content is not. Validation walks the element tree
+ * before serialization and collects every violation instead of stopping at
+ * the first one.
+ */
+
+import type { SchemaViolation, XmlElement } from "./types.js";
+
+/**
+ * Simple type restricted by XSD facets
+ */
+export interface SimpleTypeDef {
+  base: "string" | "decimal" | "integer" | "boolean" | "date" | "dateTime";
+  /** XSD pattern (implicitly anchored, like in XSD) */
+  pattern?: string;
+  enumeration?: readonly string[];
+  minLength?: number;
+  maxLength?: number;
+  totalDigits?: number;
+  fractionDigits?: number;
+  minInclusive?: number | string;
+  maxInclusive?: number | string;
+}
+
+/**
+ * Attribute declaration
+ */
+export interface AttributeDef {
+  name: string;
+  type: SimpleTypeDef;
+  required?: boolean;
+  fixed?: string;
+}
+
+/**
+ * Rule an element must satisfy beyond its content model
+ */
+export interface ElementAssertion {
+  /** Returns true if the element satisfies the rule */
+  test: (element: XmlElement) => boolean;
+  message: string;
+}
+
+/**
+ * Element declaration with a simple type or a sequence of particles
+ */
+export interface ElementDef {
+  kind: "element";
+  name: string;
+  type?: SimpleTypeDef;
+  content?: ParticleDef[];
+  attributes?: AttributeDef[];
+  assertions?: ElementAssertion[];
+  /** Content and attributes are not checked */
+  opaque?: boolean;
+  minOccurs: number;
+  maxOccurs: number;
+}
+
+/**
+ * Sequence or choice of particles
+ */
+export interface GroupDef {
+  kind: "sequence" | "choice";
+  particles: ParticleDef[];
+  minOccurs: number;
+  maxOccurs: number;
+}
+
+export type ParticleDef = ElementDef | GroupDef;
+
+/**
+ * Occurrence bounds (XSD minOccurs/maxOccurs, default 1..1)
+ */
+export interface Occurs {
+  min?: number;
+  max?: number;
+}
+
+/**
+ * Declares an element
+ *
+ * @param name - Element name
+ * @param type - Simple type, or the particles of its content sequence
+ * @param occurs - Occurrence bounds (`max: Infinity` for unbounded)
+ * @param attributes - Attribute declarations
+ */
+export function element(
+  name: string,
+  type: SimpleTypeDef | ParticleDef[],
+  occurs: Occurs = {},
+  attributes?: AttributeDef[]
+): ElementDef {
+  return {
+    kind: "element",
+    name,
+    ...(Array.isArray(type) ? { content: type } : { type }),
+    attributes,
+    minOccurs: occurs.min ?? 1,
+    maxOccurs: occurs.max ?? 1,
+  };
+}
+
+/**
+ * Declares an optional element (minOccurs="0")
+ */
+export function optional(
+  name: string,
+  type: SimpleTypeDef | ParticleDef[],
+  attributes?: AttributeDef[]
+): ElementDef {
+  return element(name, type, { min: 0 }, attributes);
+}
+
+/**
+ * Declares an element whose content and attributes are not checked
+ *
+ * @param name - Element name
+ * @param occurs - Occurrence bounds (default: optional)
+ */
+export function opaque(name: string, occurs: Occurs = { min: 0 }): ElementDef {
+  return { ...element(name, [], occurs), opaque: true };
+}
+
+/**
+ * Adds assertions to an element declaration
+ */
+export function withAssertions(def: ElementDef, assertions: ElementAssertion[]): ElementDef {
+  return { ...def, assertions: [...(def.assertions ?? []), ...assertions] };
+}
+
+/**
+ * Text of an element's first child with the given name
+ */
+export function childText(element: XmlElement, name: string): string | undefined {
+  return element.children?.find((child) => child.name === name)?.text;
+}
+
+/**
+ * Declares a sequence group
+ */
+export function sequence(particles: ParticleDef[], occurs: Occurs = {}): GroupDef {
+  return { kind: "sequence", particles, minOccurs: occurs.min ?? 1, maxOccurs: occurs.max ?? 1 };
+}
+
+/**
+ * Declares a choice group
+ */
+export function choice(particles: ParticleDef[], occurs: Occurs = {}): GroupDef {
+  return { kind: "choice", particles, minOccurs: occurs.min ?? 1, maxOccurs: occurs.max ?? 1 };
+}
+
+/**
+ * Element names a particle can start with
+ */
+function firstNames(particle: ParticleDef): Set<string> {
+  if (particle.kind === "element") {
+    return new Set([particle.name]);
+  }
+
+  const names = new Set<string>();
+  for (const child of particle.particles) {
+    firstNames(child).forEach((name) => names.add(name));
+    if (particle.kind === "sequence" && !isNullable(child)) {
+      break;
+    }
+  }
+  return names;
+}
+
+/**
+ * Whether a particle may match no elements at all
+ */
+function isNullable(particle: ParticleDef): boolean {
+  if (particle.minOccurs === 0) {
+    return true;
+  }
+  if (particle.kind === "element") {
+    return false;
+  }
+  return particle.kind === "sequence"
+    ? particle.particles.every(isNullable)
+    : particle.particles.some(isNullable);
+}
+
+/**
+ * Counts significant digits of a decimal literal (XSD totalDigits)
+ */
+function countDigits(value: string): { total: number; fraction: number } {
+  const [integerPart, fractionPart = ""] = value.replace(/^[-+]/, "").split(".");
+  const integer = integerPart.replace(/^0+/, "");
+  const fraction = fractionPart.replace(/0+$/, "");
+  return { total: integer.length + fraction.length || 1, fraction: fraction.length };
+}
+
+/**
+ * Validates a text value against a simple type
+ *
+ * @returns Violation message, or undefined if the value is valid
+ */
+function checkSimpleValue(value: string, type: SimpleTypeDef): string | undefined {
+  switch (type.base) {
+    case "decimal":
+      if (!/^[-+]?(\d+(\.\d*)?|\.\d+)$/.test(value)) {
+        return `'${value}' is not a decimal number`;
+      }
+      break;
+    case "integer":
+      if (!/^[-+]?\d+$/.test(value)) {
+        return `'${value}' is not an integer`;
+      }
+      break;
+    case "boolean":
+      if (!["true", "false", "1", "0"].includes(value)) {
+        return `'${value}' is not a boolean`;
+      }
+      break;
+    case "date":
+      if (!/^\d{4}-\d{2}-\d{2}$/.test(value) || isNaN(Date.parse(value))) {
+        return `'${value}' is not a date (YYYY-MM-DD)`;
+      }
+      break;
+    case "dateTime":
+      if (!/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?(Z|[+-]\d{2}:\d{2})?$/.test(value)) {
+        return `'${value}' is not a date-time`;
+      }
+      break;
+  }
+
+  if (type.enumeration && !type.enumeration.includes(value)) {
+    return `'${value}' is not one of: ${type.enumeration.join(", ")}`;
+  }
+  if (type.pattern && !new RegExp(`^(?:${type.pattern})$`, "u").test(value)) {
+    return `'${value}' does not match the pattern ${type.pattern}`;
+  }
+
+  const length = [...value].length;
+  if (type.minLength !== undefined && length < type.minLength) {
+    return `must be at least ${type.minLength} characters long`;
+  }
+  if (type.maxLength !== undefined && length > type.maxLength) {
+    return `must be at most ${type.maxLength} characters long`;
+  }
+
+  if (type.base === "decimal" || type.base === "integer") {
+    const digits = countDigits(value);
+    if (type.totalDigits !== undefined && digits.total > type.totalDigits) {
+      return `'${value}' has more than ${type.totalDigits} digits`;
+    }
+    if (type.fractionDigits !== undefined && digits.fraction > type.fractionDigits) {
+      return `'${value}' has more than ${type.fractionDigits} decimal places`;
+    }
+  }
+
+  const comparable = type.base === "decimal" || type.base === "integer" ? Number(value) : value;
+  if (type.minInclusive !== undefined && comparable < type.minInclusive) {
+    return `'${value}' is less than ${type.minInclusive}`;
+  }
+  if (type.maxInclusive !== undefined && comparable > type.maxInclusive) {
+    return `'${value}' is greater than ${type.maxInclusive}`;
+  }
+
+  return undefined;
+}
+
+/**
+ * Validation state of one element's children
+ */
+interface MatchState {
+  children: XmlElement[];
+  position: number;
+  path: string;
+  violations: SchemaViolation[];
+}
+
+/**
+ * Describes what was found at the current position, for missing-element messages
+ */
+function describeFound(state: MatchState): string {
+  const found = state.children[state.position];
+  return found ? ` (found ${found.name})` : "";
+}
+
+/**
+ * Matches a particle against the children at the current position
+ *
+ * Matching is greedy with one element of lookahead, which is unambiguous
+ * for schemas satisfying the XSD unique particle attribution rule.
+ */
+function matchParticle(particle: ParticleDef, state: MatchState): void {
+  if (particle.kind === "element") {
+    let count = 0;
+    while (
+      count < particle.maxOccurs &&
+      state.children[state.position]?.name === particle.name
+    ) {
+      const child = state.children[state.position];
+      const index = particle.maxOccurs > 1 ? `[${count + 1}]` : "";
+      validateElement(child, particle, `${state.path}/${particle.name}${index}`, state.violations);
+      state.position++;
+      count++;
+    }
+    if (count < particle.minOccurs) {
+      state.violations.push({
+        path: state.path,
+        message:
+          count === 0
+            ? `missing required element ${particle.name}${describeFound(state)}`
+            : `expected at least ${particle.minOccurs} ${particle.name} elements, found ${count}`,
+      });
+    }
+    return;
+  }
+
+  const first = firstNames(particle);
+  for (let occurrence = 0; occurrence < particle.maxOccurs; occurrence++) {
+    const next = state.children[state.position];
+    const starts = next !== undefined && first.has(next.name);
+    if (!starts && (occurrence >= particle.minOccurs || isNullable(particle))) {
+      return;
+    }
+
+    const start = state.position;
+    if (particle.kind === "sequence") {
+      particle.particles.forEach((child) => matchParticle(child, state));
+    } else {
+      const alternative = particle.particles.find(
+        (child) => next !== undefined && firstNames(child).has(next.name)
+      );
+      if (!alternative) {
+        state.violations.push({
+          path: state.path,
+          message:
+            `missing one of: ${[...first].join(", ")}` + describeFound(state),
+        });
+        return;
+      }
+      matchParticle(alternative, state);
+    }
+
+    if (state.position === start) {
+      return;
+    }
+  }
+}
+
+/**
+ * Validates an element against its declaration
+ */
+function validateElement(
+  element: XmlElement,
+  def: ElementDef,
+  path: string,
+  violations: SchemaViolation[]
+): void {
+  if (def.opaque) {
+    return;
+  }
+
+  const attributes = element.attributes ?? {};
+  for (const attribute of def.attributes ?? []) {
+    const value = attributes[attribute.name];
+    if (value === undefined) {
+      if (attribute.required || attribute.fixed !== undefined) {
+        violations.push({ path, message: `missing required attribute ${attribute.name}` });
+      }
+      continue;
+    }
+    const message =
+      attribute.fixed !== undefined && value !== attribute.fixed
+        ? `must be '${attribute.fixed}'`
+        : checkSimpleValue(value, attribute.type);
+    if (message) {
+      violations.push({ path: `${path}/@${attribute.name}`, message });
+    }
+  }
+  for (const name of Object.keys(attributes)) {
+    if (!name.startsWith("xmlns") && !def.attributes?.some((attribute) => attribute.name === name)) {
+      violations.push({ path, message: `unexpected attribute ${name}` });
+    }
+  }
+
+  if (def.type) {
+    if (element.children && element.children.length > 0) {
+      violations.push({ path, message: "must not contain elements" });
+    }
+    const message = checkSimpleValue(element.text ?? "", def.type);
+    if (message) {
+      violations.push({ path, message });
+    }
+    return;
+  }
+
+  if (element.text !== undefined) {
+    violations.push({ path, message: "must not contain text" });
+  }
+
+  const state: MatchState = {
+    children: element.children ?? [],
+    position: 0,
+    path,
+    violations,
+  };
+  (def.content ?? []).forEach((particle) => matchParticle(particle, state));
+
+  for (const unexpected of state.children.slice(state.position)) {
+    violations.push({ path, message: `unexpected element ${unexpected.name}` });
+  }
+
+  for (const assertion of def.assertions ?? []) {
+    if (!assertion.test(element)) {
+      violations.push({ path, message: assertion.message });
+    }
+  }
+}
+
+/**
+ * Validates a document against the declaration of its root element
+ *
+ * @param root - Document root
+ * @param schema - Root element declaration
+ * @returns All violations found (empty if the document is valid)
+ */
+export function validateXml(root: XmlElement, schema: ElementDef): SchemaViolation[] {
+  if (root.name !== schema.name) {
+    return [{ path: `/${root.name}`, message: `root element must be ${schema.name}` }];
+  }
+
+  const violations: SchemaViolation[] = [];
+  validateElement(root, schema, `/${root.name}`, violations);
+  return violations;
+}
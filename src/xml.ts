@@ -0,0 +1,91 @@
+/**
+ * XML document building
+ *
+ * Generated documents (KSeF invoices, JPK files) are built as element trees,
+ * validated against their schema and only then serialized. Elements with no
+ * value are dropped while building, so optional fields can be passed as-is.
+ */
+
+import type { XmlElement } from "./types.js";
+
+/**
+ * Creates an element with child elements, dropping missing children
+ *
+ * @param name - Element name
+ * @param children - Child elements; `undefined` entries are skipped
+ * @param attributes - Element attributes
+ */
+export function xmlElement(
+  name: string,
+  children: Array<XmlElement | undefined>,
+  attributes?: Record<string, string>
+): XmlElement {
+  return {
+    name,
+    ...(attributes && { attributes }),
+    children: children.filter((child): child is XmlElement => child !== undefined),
+  };
+}
+
+/**
+ * Creates a text element, or `undefined` when there is no value
+ *
+ * @example
+ * xmlText("P_2", "FV 1/2024") // <P_2>FV 1/2024</P_2>
+ * xmlText("P_1M", undefined) // undefined (element omitted)
+ */
+export function xmlText(
+  name: string,
+  value: string | number | undefined | null,
+  attributes?: Record<string, string>
+): XmlElement | undefined {
+  if (value === undefined || value === null || value === "") {
+    return undefined;
+  }
+  return {
+    name,
+    ...(attributes && { attributes }),
+    text: String(value),
+  };
+}
+
+/**
+ * Escapes text and attribute values
+ */
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+/**
+ * Serializes an element and its descendants with two-space indentation
+ */
+function serializeElement(element: XmlElement, depth: number): string {
+  const indent = "  ".repeat(depth);
+  const attributes = Object.entries(element.attributes ?? {})
+    .map(([key, value]) => ` ${key}="${escapeXml(value)}"`)
+    .join("");
+
+  if (element.text !== undefined) {
+    return `${indent}<${element.name}${attributes}>${escapeXml(element.text)}</${element.name}>`;
+  }
+  if (!element.children || element.children.length === 0) {
+    return `${indent}<${element.name}${attributes}/>`;
+  }
+
+  return [
+    `${indent}<${element.name}${attributes}>`,
+    ...element.children.map((child) => serializeElement(child, depth + 1)),
+    `${indent}</${element.name}>`,
+  ].join("\n");
+}
+
+/**
+ * Serializes a document with an XML declaration (UTF-8)
+ */
+export function serializeXml(root: XmlElement): string {
+  return `<?xml version="1.0" encoding="UTF-8"?>\n${serializeElement(root, 0)}\n`;
+}
@@ -0,0 +1,300 @@
+/**
+ * Retry policy of the API client against a local mock of the inFakt API
+ */
+
+import { after, before, beforeEach, describe, it, mock } from "node:test";
+import assert from "node:assert/strict";
+import { createServer, IncomingMessage, Server, ServerResponse } from "node:http";
+import type { AddressInfo } from "node:net";
+import axios, { AxiosError, type AxiosInstance, type AxiosResponse } from "axios";
+import { McpError } from "@modelcontextprotocol/sdk/types.js";
+import {
+  ApiClient,
+  computeBackoffDelay,
+  isRetryableError,
+  parseRetryAfter,
+} from "../src/api-client.js";
+import type { RetryConfig } from "../src/types.js";
+
+const RETRY: RetryConfig = { maxRetries: 2, baseDelayMs: 1, maxDelayMs: 50 };
+
+/**
+ * Scripted response of the mock API
+ */
+interface MockResponse {
+  status: number;
+  headers?: Record<string, string>;
+  /** Delay before responding, in milliseconds */
+  delayMs?: number;
+}
+
+/**
+ * Mock API answering each request with the next scripted response; once the
+ * script is used up, requests succeed
+ */
+class MockInfaktApi {
+  responses: MockResponse[] = [];
+  /** Requests received, as "METHOD /path" */
+  requests: string[] = [];
+
+  private readonly server: Server = createServer((req, res) => this.handle(req, res));
+
+  async start(): Promise<string> {
+    await new Promise<void>((resolve) => this.server.listen(0, "127.0.0.1", resolve));
+    const { port } = this.server.address() as AddressInfo;
+    return `http://127.0.0.1:${port}`;
+  }
+
+  stop(): Promise<void> {
+    this.server.closeAllConnections();
+    return new Promise((resolve, reject) =>
+      this.server.close((error) => (error ? reject(error) : resolve()))
+    );
+  }
+
+  reset(responses: MockResponse[] = []): void {
+    this.responses = responses;
+    this.requests = [];
+  }
+
+  private handle(req: IncomingMessage, res: ServerResponse): void {
+    this.requests.push(`${req.method} ${new URL(req.url ?? "/", "http://localhost").pathname}`);
+    const response = this.responses.shift() ?? { status: 200 };
+
+    setTimeout(() => {
+      if (res.destroyed) {
+        return;
+      }
+      res.writeHead(response.status, { "Content-Type": "application/json", ...response.headers });
+      res.end(JSON.stringify(response.status < 300 ? { ok: true } : { error: `status ${response.status}` }));
+    }, response.delayMs ?? 0);
+  }
+}
+
+/**
+ * Builds an axios error with the given response status and headers
+ */
+function responseError(status: number, headers: Record<string, string> = {}): AxiosError {
+  const response = { status, statusText: "", headers, data: {}, config: {} } as AxiosResponse;
+  return new AxiosError(`status ${status}`, AxiosError.ERR_BAD_RESPONSE, undefined, undefined, response);
+}
+
+/**
+ * Asserts that a request fails with an MCP error carrying the HTTP status
+ */
+async function assertFailsWith(request: Promise<unknown>, status: number | undefined): Promise<void> {
+  await assert.rejects(request, (error) => {
+    assert.ok(error instanceof McpError);
+    assert.deepEqual(error.data, { status });
+    return true;
+  });
+}
+
+describe("ApiClient retry policy", () => {
+  const api = new MockInfaktApi();
+  let http: AxiosInstance;
+  let apiClient: ApiClient;
+
+  before(async () => {
+    http = axios.create({ baseURL: await api.start(), timeout: 200 });
+    apiClient = new ApiClient(http, RETRY);
+    // Retries are logged to stderr; keep the test output readable
+    mock.method(console, "error", () => {});
+  });
+
+  after(() => {
+    mock.restoreAll();
+    return api.stop();
+  });
+
+  beforeEach(() => api.reset());
+
+  for (const status of [408, 429, 500, 502, 503, 504]) {
+    it(`retries GET on ${status} up to maxRetries`, async () => {
+      api.reset(Array.from({ length: 3 }, () => ({ status })));
+
+      await assertFailsWith(apiClient.get("/invoices.json"), status);
+      assert.equal(api.requests.length, RETRY.maxRetries + 1);
+    });
+  }
+
+  for (const status of [400, 401, 404, 422, 501]) {
+    it(`does not retry GET on ${status}`, async () => {
+      api.reset([{ status }]);
+
+      await assertFailsWith(apiClient.get("/invoices.json"), status);
+      assert.equal(api.requests.length, 1);
+    });
+  }
+
+  it("returns the response once a retry succeeds", async () => {
+    api.reset([{ status: 503 }, { status: 502 }]);
+
+    assert.deepEqual(await apiClient.get("/invoices.json"), { ok: true });
+    assert.equal(api.requests.length, 3);
+  });
+
+  it("retries PUT and DELETE on 503", async () => {
+    api.reset([{ status: 503 }, { status: 503 }]);
+
+    await apiClient.put("/clients/1.json", {});
+    await apiClient.delete("/clients/1.json");
+
+    assert.deepEqual(api.requests, [
+      "PUT /clients/1.json",
+      "PUT /clients/1.json",
+      "PUT /clients/1.json",
+      "DELETE /clients/1.json",
+    ]);
+  });
+
+  for (const status of [500, 502, 503, 504]) {
+    it(`does not retry POST on ${status}`, async () => {
+      api.reset([{ status }]);
+
+      await assertFailsWith(apiClient.post("/clients.json", {}), status);
+      assert.equal(api.requests.length, 1);
+    });
+  }
+
+  it("does not repeat an invoice creation that failed with 503", async () => {
+    api.reset([{ status: 503 }]);
+
+    await assertFailsWith(apiClient.post("/async/invoices.json", { invoice: {} }), 503);
+    assert.deepEqual(api.requests, ["POST /async/invoices.json"]);
+  });
+
+  it("retries POST on 429", async () => {
+    api.reset([{ status: 429 }]);
+
+    assert.deepEqual(await apiClient.post("/async/invoices.json", {}), { ok: true });
+    assert.equal(api.requests.length, 2);
+  });
+
+  it("retries GET but not POST after a timeout", async () => {
+    api.reset([{ status: 200, delayMs: 400 }]);
+    assert.deepEqual(await apiClient.get("/invoices.json"), { ok: true });
+    assert.equal(api.requests.length, 2);
+
+    api.reset([{ status: 200, delayMs: 400 }]);
+    await assertFailsWith(apiClient.post("/async/invoices.json", {}), undefined);
+    assert.equal(api.requests.length, 1);
+  });
+
+  it("retries POST when the connection is refused", async () => {
+    const closed = createServer();
+    await new Promise<void>((resolve) => closed.listen(0, "127.0.0.1", resolve));
+    const { port } = closed.address() as AddressInfo;
+    await new Promise((resolve) => closed.close(resolve));
+
+    const unreachable = axios.create({ baseURL: `http://127.0.0.1:${port}` });
+    let attempts = 0;
+    unreachable.interceptors.request.use((config) => {
+      attempts++;
+      return config;
+    });
+
+    await assertFailsWith(new ApiClient(unreachable, RETRY).post("/async/invoices.json", {}), undefined);
+    assert.equal(attempts, RETRY.maxRetries + 1);
+  });
+
+  it("waits for Retry-After", async () => {
+    api.reset([{ status: 503, headers: { "Retry-After": "0" } }]);
+
+    assert.deepEqual(await apiClient.get("/invoices.json"), { ok: true });
+    assert.equal(api.requests.length, 2);
+  });
+
+  it("gives up when Retry-After exceeds the maximum delay", async () => {
+    api.reset([{ status: 429, headers: { "Retry-After": "120" } }]);
+
+    await assertFailsWith(apiClient.get("/invoices.json"), 429);
+    assert.equal(api.requests.length, 1);
+  });
+
+  it("does not retry when retries are disabled", async () => {
+    api.reset([{ status: 503 }]);
+
+    await assertFailsWith(new ApiClient(http, { ...RETRY, maxRetries: 0 }).get("/invoices.json"), 503);
+    assert.equal(api.requests.length, 1);
+  });
+});
+
+describe("isRetryableError", () => {
+  it("retries POST only when the request provably did not reach the API", () => {
+    for (const code of ["ECONNREFUSED", "ENOTFOUND", "EAI_AGAIN"]) {
+      assert.equal(isRetryableError(new AxiosError("failed", code), "post"), true);
+    }
+    assert.equal(isRetryableError(new AxiosError("timeout", AxiosError.ECONNABORTED), "post"), false);
+    assert.equal(isRetryableError(new AxiosError("reset", "ECONNRESET"), "post"), false);
+    assert.equal(isRetryableError(new AxiosError("reset", "ECONNRESET"), "get"), true);
+  });
+
+  it("does not retry canceled requests", () => {
+    assert.equal(isRetryableError(new AxiosError("canceled", AxiosError.ERR_CANCELED), "get"), false);
+  });
+
+  it("does not retry errors other than axios errors", () => {
+    assert.equal(isRetryableError(new Error("bug"), "get"), false);
+  });
+
+  it("ignores the case of the method", () => {
+    assert.equal(isRetryableError(responseError(503), "GET"), true);
+    assert.equal(isRetryableError(responseError(503), "POST"), false);
+  });
+});
+
+describe("parseRetryAfter", () => {
+  it("parses a delay in seconds", () => {
+    assert.equal(parseRetryAfter(responseError(429, { "retry-after": "2" })), 2000);
+    assert.equal(parseRetryAfter(responseError(429, { "retry-after": "0" })), 0);
+  });
+
+  it("parses an HTTP date", () => {
+    const date = new Date(Date.now() + 5000).toUTCString();
+    const delay = parseRetryAfter(responseError(503, { "retry-after": date }));
+
+    assert.ok(delay !== undefined && delay > 3000 && delay <= 5000, `delay ${delay}`);
+  });
+
+  it("does not wait for a date in the past", () => {
+    assert.equal(parseRetryAfter(responseError(503, { "retry-after": "Wed, 21 Oct 2015 07:28:00 GMT" })), 0);
+  });
+
+  for (const header of ["", "-1", "soon"]) {
+    it(`ignores '${header}'`, () => {
+      assert.equal(parseRetryAfter(responseError(503, { "retry-after": header })), undefined);
+    });
+  }
+
+  it("ignores a missing header", () => {
+    assert.equal(parseRetryAfter(responseError(503)), undefined);
+    assert.equal(parseRetryAfter(new Error("bug")), undefined);
+  });
+});
+
+describe("computeBackoffDelay", () => {
+  const retry: RetryConfig = { maxRetries: 5, baseDelayMs: 500, maxDelayMs: 10000 };
+
+  it("stays below the exponential ceiling", (t) => {
+    t.mock.method(Math, "random", () => 0.999999);
+
+    assert.deepEqual(
+      [0, 1, 2, 3, 4].map((attempt) => computeBackoffDelay(attempt, retry)),
+      [499, 999, 1999, 3999, 7999]
+    );
+  });
+
+  it("caps the ceiling at the maximum delay", (t) => {
+    t.mock.method(Math, "random", () => 0.999999);
+
+    assert.equal(computeBackoffDelay(5, retry), 9999);
+    assert.equal(computeBackoffDelay(30, retry), 9999);
+  });
+
+  it("may retry immediately", (t) => {
+    t.mock.method(Math, "random", () => 0);
+
+    assert.equal(computeBackoffDelay(3, retry), 0);
+  });
+});
@@ -0,0 +1,203 @@
+/**
+ * Before/after values and differences of correction invoices
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { buildCorrection, toCorrectionServices, type CorrectionLineInput } from "../src/corrections.js";
+import type { Invoice, LineAmounts } from "../src/types.js";
+import { ValidationError } from "../src/validation.js";
+
+/**
+ * Issued invoice with three lines; the last two come without a unit price
+ */
+const INVOICE: Invoice = {
+  id: 1,
+  uuid: "3f2b8c1e-7a4d-4e6f-9b0a-1c2d3e4f5a6b",
+  number: "FV 1/03/2026",
+  invoice_date: "2026-03-02",
+  sale_date: "2026-03-02",
+  payment_date: "2026-03-16",
+  kind: "vat",
+  status: "sent",
+  payment_method: "transfer",
+  client_id: 1,
+  client_company_name: "Nabywca S.A.",
+  net_price: 45000,
+  tax_price: 8550,
+  gross_price: 53550,
+  currency: "PLN",
+  services: [
+    { name: "Hosting", quantity: 2, unit_net_price: 15000, net_price: 30000, tax_symbol: "23" },
+    { name: "Domena", quantity: 1, net_price: 5000, tax_symbol: "23" },
+    { name: "Książka", quantity: 3, net_price: 10000, tax_symbol: "5" },
+  ],
+  created_at: "2026-03-02T10:00:00Z",
+  updated_at: "2026-03-02T10:00:00Z",
+};
+
+/**
+ * Net, VAT and gross of a line or difference
+ */
+function amounts({ net_price, tax_price, gross_price }: LineAmounts): [number, number, number] {
+  return [net_price, tax_price, gross_price];
+}
+
+/**
+ * Asserts that the correction fails validation of the given field
+ */
+function assertInvalid(inputs: CorrectionLineInput[], field: string, message: RegExp): void {
+  assert.throws(
+    () => buildCorrection(INVOICE, inputs, "Błąd w cenie"),
+    (error) => {
+      assert.ok(error instanceof ValidationError);
+      assert.equal(error.field, field);
+      assert.match(error.message, message);
+      return true;
+    }
+  );
+}
+
+describe("buildCorrection", () => {
+  it("computes the differences of a lowered price", () => {
+    const correction = buildCorrection(INVOICE, [{ position: 1, after: { unit_net_price: 12000 } }], "Rabat");
+
+    const [line] = correction.lines;
+    assert.deepEqual(amounts(line.before), [30000, 6900, 36900]);
+    assert.deepEqual(amounts(line.after), [24000, 5520, 29520]);
+    assert.deepEqual(amounts(line.difference), [-6000, -1380, -7380]);
+    assert.equal(line.after.name, "Hosting");
+    assert.equal(line.after.quantity, 2);
+    assert.deepEqual(amounts(correction.difference), [-6000, -1380, -7380]);
+    assert.equal(correction.corrected_invoice_uuid, INVOICE.uuid);
+    assert.equal(correction.corrected_invoice_number, "FV 1/03/2026");
+    assert.equal(correction.correction_reason, "Rabat");
+    assert.equal(correction.currency, "PLN");
+  });
+
+  it("reverses a line corrected to zero quantity", () => {
+    const correction = buildCorrection(INVOICE, [{ position: 2, after: { quantity: 0 } }], "Zwrot");
+
+    assert.deepEqual(amounts(correction.lines[0].after), [0, 0, 0]);
+    assert.deepEqual(amounts(correction.difference), [-5000, -1150, -6150]);
+  });
+
+  it("changes only VAT when the rate is corrected", () => {
+    const correction = buildCorrection(INVOICE, [{ position: 1, after: { tax_symbol: "8" } }], "Stawka");
+
+    assert.deepEqual(amounts(correction.difference), [0, -4500, -4500]);
+  });
+
+  it("adds a line without a position", () => {
+    const correction = buildCorrection(
+      INVOICE,
+      [{ after: { name: "Wdrożenie", quantity: 1, unit_net_price: 2000, tax_symbol: "8" } }],
+      "Pominięta usługa"
+    );
+
+    const [line] = correction.lines;
+    assert.equal(line.position, undefined);
+    assert.deepEqual([line.before.quantity, line.before.unit_net_price, line.before.name], [0, 0, "Wdrożenie"]);
+    assert.deepEqual(amounts(line.difference), [2000, 160, 2160]);
+  });
+
+  it("sums the differences of all lines", () => {
+    const correction = buildCorrection(
+      INVOICE,
+      [
+        { position: 1, after: { unit_net_price: 12000 } },
+        { position: 2, after: { quantity: 0 } },
+        { after: { name: "Wdrożenie", quantity: 1, unit_net_price: 2000, tax_symbol: "8" } },
+      ],
+      "Korekta"
+    );
+
+    assert.deepEqual(amounts(correction.difference), [-9000, -2370, -11370]);
+  });
+
+  it("derives the unit price of an original line from its net amount", () => {
+    const correction = buildCorrection(INVOICE, [{ position: 3, after: { quantity: 2 } }], "Zwrot");
+
+    const [line] = correction.lines;
+    // 100.00 zł for 3 pieces: 33.33 zł each, so the before values are recomputed
+    assert.equal(line.before.unit_net_price, 3333);
+    assert.deepEqual(amounts(line.before), [9999, 500, 10499]);
+    assert.deepEqual(amounts(line.after), [6666, 333, 6999]);
+    assert.deepEqual(amounts(line.difference), [-3333, -167, -3500]);
+  });
+
+  it("takes the given before values over the original line", () => {
+    const correction = buildCorrection(
+      INVOICE,
+      [{ position: 1, before: { unit_net_price: 14000 }, after: { unit_net_price: 12000 } }],
+      "Korekta"
+    );
+
+    assert.deepEqual(amounts(correction.lines[0].before), [28000, 6440, 34440]);
+    assert.deepEqual(amounts(correction.difference), [-4000, -920, -4920]);
+  });
+
+  it("rounds negative amounts half away from zero", () => {
+    const correction = buildCorrection(
+      INVOICE,
+      [{ after: { name: "Rabat", quantity: 1, unit_net_price: -150, tax_symbol: "23" } }],
+      "Rabat"
+    );
+
+    // -1.50 zł at 23% is -34.5 gr of VAT
+    assert.deepEqual(amounts(correction.difference), [-150, -35, -185]);
+  });
+
+  it("maps the lines to services with their original values", () => {
+    const correction = buildCorrection(INVOICE, [{ position: 1, after: { unit_net_price: 12000 } }], "Rabat");
+
+    assert.deepEqual(toCorrectionServices(correction), [
+      {
+        name: "Hosting",
+        tax_symbol: "23",
+        quantity: 2,
+        unit_net_price: 12000,
+        correction_before: { name: "Hosting", tax_symbol: "23", quantity: 2, unit_net_price: 15000 },
+      },
+    ]);
+  });
+
+  it("rejects a position beyond the invoice lines", () => {
+    assertInvalid([{ position: 4, after: { quantity: 1 } }], "lines[0].position", /has 3 line\(s\)/);
+  });
+
+  it("rejects a line corrected twice", () => {
+    assertInvalid(
+      [
+        { position: 1, after: { quantity: 1 } },
+        { position: 1, after: { unit_net_price: 100 } },
+      ],
+      "lines[1].position",
+      /line 1 is corrected twice/
+    );
+  });
+
+  it("rejects a line that changes nothing", () => {
+    assertInvalid(
+      [{ position: 1, after: { quantity: 2, tax_symbol: "23" } }],
+      "lines[0]",
+      /does not change anything/
+    );
+  });
+
+  it("requires every value of an added line", () => {
+    assertInvalid(
+      [{ after: { name: "Wdrożenie", quantity: 1, tax_symbol: "8" } }],
+      "lines[0].after.unit_net_price",
+      /is required/
+    );
+  });
+
+  it("rejects an unknown VAT symbol", () => {
+    assertInvalid(
+      [{ position: 1, after: { tax_symbol: "xx" } }],
+      "lines[0].after.tax_symbol",
+      /Unknown VAT rate symbol: xx/
+    );
+  });
+});
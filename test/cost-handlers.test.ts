@@ -0,0 +1,139 @@
+/**
+ * Cost listing queries against a local mock of the inFakt API
+ */
+
+import { after, before, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { createServer, IncomingMessage, Server, ServerResponse } from "node:http";
+import type { AddressInfo } from "node:net";
+import axios from "axios";
+import { ApiClient } from "../src/api-client.js";
+import { listCosts } from "../src/handlers/cost-handlers.js";
+import { ValidationError } from "../src/validation.js";
+
+/**
+ * In-memory inFakt API recording the query of each cost listing
+ */
+class MockInfaktApi {
+  /** Query parameters of GET /documents/costs.json */
+  queries: URLSearchParams[] = [];
+
+  private readonly server: Server = createServer((req, res) => this.handle(req, res));
+
+  async start(): Promise<string> {
+    await new Promise<void>((resolve) => this.server.listen(0, "127.0.0.1", resolve));
+    const { port } = this.server.address() as AddressInfo;
+    return `http://127.0.0.1:${port}`;
+  }
+
+  stop(): Promise<void> {
+    return new Promise((resolve, reject) =>
+      this.server.close((error) => (error ? reject(error) : resolve()))
+    );
+  }
+
+  private handle(req: IncomingMessage, res: ServerResponse): void {
+    const url = new URL(req.url ?? "/", "http://localhost");
+    const send = (status: number, body: unknown) => {
+      res.writeHead(status, { "Content-Type": "application/json" });
+      res.end(JSON.stringify(body));
+    };
+
+    if (req.method === "GET" && url.pathname === "/documents/costs.json") {
+      this.queries.push(url.searchParams);
+      return send(200, { entities: [], metainfo: { count: 0, total_count: 0 } });
+    }
+    send(404, { error: "Not found" });
+  }
+}
+
+describe("listCosts", () => {
+  const api = new MockInfaktApi();
+  let apiClient: ApiClient;
+
+  before(async () => {
+    apiClient = new ApiClient(axios.create({ baseURL: await api.start() }));
+  });
+
+  after(() => api.stop());
+
+  beforeEach(() => {
+    api.queries = [];
+  });
+
+  /**
+   * Query parameters of the only listing request
+   */
+  function query(): Record<string, string> {
+    assert.equal(api.queries.length, 1);
+    return Object.fromEntries(api.queries[0]);
+  }
+
+  /**
+   * Asserts that listing fails validation of the given field without calling the API
+   */
+  async function assertInvalid(args: Record<string, unknown>, field: string, message: RegExp): Promise<void> {
+    await assert.rejects(listCosts(apiClient, args), (error) => {
+      assert.ok(error instanceof ValidationError);
+      assert.equal(error.field, field);
+      assert.match(error.message, message);
+      return true;
+    });
+    assert.deepEqual(api.queries, []);
+  }
+
+  it("passes a sort order on a cost field", async () => {
+    await listCosts(apiClient, { order: "issue_date desc" });
+    assert.equal(query().order, "issue_date desc");
+  });
+
+  it("accepts a sort field without a direction", async () => {
+    await listCosts(apiClient, { order: "gross_price" });
+    assert.equal(query().order, "gross_price");
+  });
+
+  it("rejects a sort order on an unknown field", async () => {
+    await assertInvalid({ order: "password desc" }, "order", /cannot sort by 'password'/);
+  });
+
+  it("rejects a malformed sort order", async () => {
+    await assertInvalid({ order: "issue_date sideways" }, "order", /'<field> asc\|desc'/);
+    await assertInvalid({ order: "issue_date desc; drop" }, "order", /'<field> asc\|desc'/);
+  });
+
+  it("converts amount filters from PLN by default", async () => {
+    await listCosts(apiClient, {
+      gross_price_from: 100,
+      gross_price_to: 250.5,
+      filters: [{ field: "net_price", predicate: "gteq", value: 50 }],
+    });
+
+    const params = query();
+    assert.equal(params["q[gross_price_gteq]"], "10000");
+    assert.equal(params["q[gross_price_lteq]"], "25050");
+    assert.equal(params["q[net_price_gteq]"], "5000");
+  });
+
+  it("converts amount filters in the filtered currency", async () => {
+    await listCosts(apiClient, {
+      gross_price_from: 1000,
+      filters: [
+        { field: "currency", predicate: "eq", value: "JPY" },
+        { field: "net_price", predicate: "lteq", value: 5000 },
+      ],
+    });
+
+    const params = query();
+    assert.equal(params["q[currency_eq]"], "JPY");
+    assert.equal(params["q[gross_price_gteq]"], "1000");
+    assert.equal(params["q[net_price_lteq]"], "5000");
+  });
+
+  it("rejects an invalid filtered currency code", async () => {
+    await assertInvalid(
+      { gross_price_from: 100, filters: [{ field: "currency", predicate: "eq", value: "eur" }] },
+      "filters[0].value",
+      /3-letter uppercase ISO 4217 code/
+    );
+  });
+});
@@ -0,0 +1,139 @@
+/**
+ * NBP rate resolution across rate sources
+ */
+
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  ChainedRateProvider,
+  FileRateProvider,
+  resolveRateForSaleDate,
+} from "../src/exchange-rates.js";
+import type { ExchangeRate, ExchangeRateProvider, ISODateString, NbpTable } from "../src/types.js";
+
+/**
+ * Table A with one EUR rate
+ */
+function table(effectiveDate: ISODateString, mid: number): NbpTable {
+  return {
+    table: "A",
+    no: `${effectiveDate.replace(/-/g, "")}/A/NBP`,
+    effectiveDate,
+    rates: [{ currency: "euro", code: "EUR", mid }],
+  };
+}
+
+/**
+ * In-memory source standing in for the NBP web API
+ */
+class StaticRateProvider implements ExchangeRateProvider {
+  readonly name = "nbp-api";
+  /** Ranges requested, as "from..to" */
+  requests: string[] = [];
+
+  constructor(private readonly rates: ExchangeRate[]) {}
+
+  async getRates(currency: string, from: ISODateString, to: ISODateString): Promise<ExchangeRate[]> {
+    this.requests.push(`${from}..${to}`);
+    return this.rates.filter(
+      (rate) => rate.currency === currency && rate.effective_date >= from && rate.effective_date <= to
+    );
+  }
+}
+
+const HTTP_RATES: ExchangeRate[] = (
+  [
+    ["2026-03-05", 4.3],
+    ["2026-03-06", 4.31],
+    ["2026-03-09", 4.32],
+  ] as const
+).map(([date, mid]) => ({
+  currency: "EUR",
+  mid,
+  table_no: `${date}/A/NBP/http`,
+  effective_date: date,
+}));
+
+describe("ChainedRateProvider", () => {
+  let directory: string;
+
+  before(async () => {
+    directory = await mkdtemp(join(tmpdir(), "infakt-rates-"));
+  });
+
+  after(() => rm(directory, { recursive: true, force: true }));
+
+  /**
+   * Writes a rates file with the given tables
+   */
+  async function ratesFile(name: string, tables: NbpTable[]): Promise<FileRateProvider> {
+    const path = join(directory, `${name}.json`);
+    await writeFile(path, JSON.stringify(tables));
+    return new FileRateProvider(path);
+  }
+
+  it("does not let a stale rates file shadow the web API", async () => {
+    const file = await ratesFile("stale", [table("2026-03-02", 4.25), table("2026-03-03", 4.26)]);
+    const http = new StaticRateProvider(HTTP_RATES);
+
+    const rate = await resolveRateForSaleDate(new ChainedRateProvider([file, http]), "EUR", "2026-03-10");
+
+    assert.equal(rate?.effective_date, "2026-03-09");
+    assert.equal(rate?.table_no, "2026-03-09/A/NBP/http");
+    assert.deepEqual(http.requests, ["2026-02-28..2026-03-09"]);
+  });
+
+  it("uses a rates file covering the day before the sale date alone", async () => {
+    const file = await ratesFile("current", [table("2026-03-06", 4.27), table("2026-03-09", 4.28)]);
+    const http = new StaticRateProvider(HTTP_RATES);
+
+    const rate = await resolveRateForSaleDate(new ChainedRateProvider([file, http]), "EUR", "2026-03-10");
+
+    assert.equal(rate?.table_no, "20260309/A/NBP");
+    assert.equal(rate?.mid, 4.28);
+    assert.deepEqual(http.requests, []);
+  });
+
+  it("prefers the earlier source for tables of the same date", async () => {
+    const file = await ratesFile("overlap", [table("2026-03-05", 4.2)]);
+
+    const rates = await new ChainedRateProvider([file, new StaticRateProvider(HTTP_RATES)]).getRates(
+      "EUR",
+      "2026-03-01",
+      "2026-03-09"
+    );
+
+    assert.deepEqual(
+      rates.map((rate) => [rate.effective_date, rate.mid]),
+      [
+        ["2026-03-05", 4.2],
+        ["2026-03-06", 4.31],
+        ["2026-03-09", 4.32],
+      ]
+    );
+  });
+
+  it("falls through when the file has no rates of the currency", async () => {
+    const file = await ratesFile("other", [table("2026-03-09", 4.28)]);
+    const http = new StaticRateProvider([{ ...HTTP_RATES[2], currency: "USD" }]);
+
+    const rate = await resolveRateForSaleDate(new ChainedRateProvider([file, http]), "USD", "2026-03-10");
+
+    assert.equal(rate?.currency, "USD");
+  });
+
+  it("returns nothing when no source has rates", async () => {
+    const file = await ratesFile("empty", []);
+
+    const rate = await resolveRateForSaleDate(
+      new ChainedRateProvider([file, new StaticRateProvider([])]),
+      "EUR",
+      "2026-03-10"
+    );
+
+    assert.equal(rate, undefined);
+  });
+});
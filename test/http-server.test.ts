@@ -0,0 +1,167 @@
+/**
+ * Session handling of the HTTP transport
+ */
+
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { HttpError, startHttpServer, type HttpServerHandle } from "../src/http-server.js";
+
+const INITIALIZE = {
+  jsonrpc: "2.0",
+  id: 1,
+  method: "initialize",
+  params: {
+    protocolVersion: "2025-03-26",
+    capabilities: {},
+    clientInfo: { name: "test", version: "1.0.0" },
+  },
+};
+
+const INITIALIZED = { jsonrpc: "2.0", method: "notifications/initialized" };
+
+describe("HTTP transport sessions", () => {
+  let handle: HttpServerHandle;
+  /** Tenants of the sessions reported closed */
+  const closedSessions: string[] = [];
+
+  before(async () => {
+    handle = await startHttpServer({
+      host: "127.0.0.1",
+      port: 0,
+      authenticate: (req) => {
+        const tenant = req.headers["x-tenant"];
+        if (typeof tenant !== "string") {
+          throw new HttpError(401, "Missing tenant");
+        }
+        return { id: tenant, apiKey: `key-${tenant}` };
+      },
+      createServer: () => new Server({ name: "test", version: "1.0.0" }, { capabilities: { tools: {} } }),
+      onSessionClosed: (tenant) => closedSessions.push(tenant.id),
+    });
+  });
+
+  after(() => handle.close());
+
+  /**
+   * Sends a request to /mcp as a tenant
+   */
+  function mcp(
+    method: string,
+    options: { tenant?: string; sessionId?: string; body?: unknown } = {}
+  ): Promise<Response> {
+    return fetch(`${handle.url}/mcp`, {
+      method,
+      headers: {
+        "Content-Type": "application/json",
+        Accept: "application/json, text/event-stream",
+        "x-tenant": options.tenant ?? "tenant-a",
+        ...(options.sessionId && { "mcp-session-id": options.sessionId }),
+      },
+      body: options.body === undefined ? undefined : JSON.stringify(options.body),
+    });
+  }
+
+  /**
+   * Opens a session and returns its ID
+   */
+  async function openSession(tenant = "tenant-a"): Promise<string> {
+    const response = await mcp("POST", { tenant, body: INITIALIZE });
+    assert.equal(response.status, 200);
+    await response.text();
+    const sessionId = response.headers.get("mcp-session-id");
+    assert.ok(sessionId);
+    return sessionId;
+  }
+
+  /**
+   * Status and JSON-RPC error message of a response
+   */
+  async function error(response: Response): Promise<[number, string]> {
+    const body = (await response.json()) as { error: { message: string } };
+    return [response.status, body.error.message];
+  }
+
+  it("rejects requests without a session ID with 400", async () => {
+    assert.deepEqual(await error(await mcp("GET")), [400, "Invalid or missing session ID"]);
+    assert.deepEqual(await error(await mcp("POST", { body: INITIALIZED })), [
+      400,
+      "Invalid or missing session ID",
+    ]);
+  });
+
+  for (const method of ["GET", "POST", "DELETE"]) {
+    it(`answers ${method} with an unknown session ID with 404`, async () => {
+      const response = await mcp(method, {
+        sessionId: "0b7c1f3e-0000-4000-8000-000000000000",
+        body: method === "POST" ? INITIALIZED : undefined,
+      });
+
+      assert.deepEqual(await error(response), [404, "Session not found"]);
+    });
+  }
+
+  it("serves an open session to its tenant only", async () => {
+    const sessionId = await openSession();
+
+    const accepted = await mcp("POST", { sessionId, body: INITIALIZED });
+    assert.equal(accepted.status, 202);
+    await accepted.text();
+
+    assert.deepEqual(await error(await mcp("POST", { tenant: "tenant-b", sessionId, body: INITIALIZED })), [
+      403,
+      "Session belongs to a different tenant",
+    ]);
+  });
+
+  it("answers requests for a closed session with 404", async () => {
+    const sessionId = await openSession();
+
+    const closed = await mcp("DELETE", { sessionId });
+    assert.equal(closed.status, 200);
+    await closed.text();
+
+    assert.deepEqual(await error(await mcp("POST", { sessionId, body: INITIALIZED })), [
+      404,
+      "Session not found",
+    ]);
+  });
+
+  it("reports a deleted session closed once", async () => {
+    const sessionId = await openSession("tenant-c");
+
+    const closed = await mcp("DELETE", { tenant: "tenant-c", sessionId });
+    assert.equal(closed.status, 200);
+    await closed.text();
+
+    assert.deepEqual(
+      closedSessions.filter((tenant) => tenant === "tenant-c"),
+      ["tenant-c"]
+    );
+  });
+
+  it("reports a session closed when its initialization is rejected", async () => {
+    const response = await fetch(`${handle.url}/mcp`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", Accept: "application/json", "x-tenant": "tenant-d" },
+      body: JSON.stringify(INITIALIZE),
+    });
+
+    assert.equal(response.status, 406);
+    await response.text();
+    assert.deepEqual(
+      closedSessions.filter((tenant) => tenant === "tenant-d"),
+      ["tenant-d"]
+    );
+  });
+
+  it("answers messages for an unknown SSE session with 404", async () => {
+    const response = await fetch(`${handle.url}/messages?sessionId=unknown`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", "x-tenant": "tenant-a" },
+      body: JSON.stringify(INITIALIZED),
+    });
+
+    assert.deepEqual(await error(response), [404, "Unknown SSE session"]);
+  });
+});
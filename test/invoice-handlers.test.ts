@@ -0,0 +1,155 @@
+/**
+ * Invoice cloning against a local mock of the inFakt API
+ */
+
+import { after, before, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { createServer, IncomingMessage, Server, ServerResponse } from "node:http";
+import type { AddressInfo } from "node:net";
+import axios from "axios";
+import { ApiClient } from "../src/api-client.js";
+import { cloneInvoice } from "../src/handlers/invoice-handlers.js";
+import type { Invoice, InvoiceService } from "../src/types.js";
+import { ValidationError } from "../src/validation.js";
+
+const INVOICE_UUID = "3f2b8c1e-7a4d-4e6f-9b0a-1c2d3e4f5a6b";
+
+/**
+ * In-memory inFakt API serving one invoice and recording created invoices
+ */
+class MockInfaktApi {
+  invoice: Partial<Invoice> = {};
+  /** Bodies of POST /async/invoices.json */
+  created: Array<{ invoice: Record<string, unknown> }> = [];
+
+  private readonly server: Server = createServer((req, res) => this.handle(req, res));
+
+  async start(): Promise<string> {
+    await new Promise<void>((resolve) => this.server.listen(0, "127.0.0.1", resolve));
+    const { port } = this.server.address() as AddressInfo;
+    return `http://127.0.0.1:${port}`;
+  }
+
+  stop(): Promise<void> {
+    return new Promise((resolve, reject) =>
+      this.server.close((error) => (error ? reject(error) : resolve()))
+    );
+  }
+
+  reset(services: InvoiceService[]): void {
+    this.invoice = {
+      uuid: INVOICE_UUID,
+      number: "FV 1/03/2026",
+      kind: "vat",
+      status: "sent",
+      payment_method: "transfer",
+      client_id: 1,
+      client_company_name: "Nabywca S.A.",
+      invoice_date: "2026-03-02",
+      payment_date: "2026-03-16",
+      currency: "PLN",
+      services,
+    };
+    this.created = [];
+  }
+
+  private async handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const path = new URL(req.url ?? "/", "http://localhost").pathname;
+    const send = (status: number, body: unknown) => {
+      res.writeHead(status, { "Content-Type": "application/json" });
+      res.end(JSON.stringify(body));
+    };
+
+    if (req.method === "GET" && path === `/invoices/${INVOICE_UUID}.json`) {
+      return send(200, this.invoice);
+    }
+    if (req.method === "POST" && path === "/async/invoices.json") {
+      let body = "";
+      for await (const chunk of req) {
+        body += chunk;
+      }
+      this.created.push(JSON.parse(body));
+      return send(201, { task_reference_number: "TASK-1" });
+    }
+    send(404, { error: "Not found" });
+  }
+}
+
+describe("cloneInvoice", () => {
+  const api = new MockInfaktApi();
+  let apiClient: ApiClient;
+
+  before(async () => {
+    apiClient = new ApiClient(axios.create({ baseURL: await api.start() }));
+  });
+
+  after(() => api.stop());
+
+  beforeEach(() => api.reset([]));
+
+  /**
+   * Services of the created clone
+   */
+  function clonedServices(): Record<string, unknown>[] {
+    assert.equal(api.created.length, 1);
+    return api.created[0].invoice.services as Record<string, unknown>[];
+  }
+
+  it("copies the price field of each line", async () => {
+    api.reset([
+      { name: "Hosting", quantity: 2, unit_net_price: 15000, net_price: 30000, tax_symbol: "23" },
+      { name: "Wdrożenie", quantity: 1, net_price: 50000, tax_symbol: "23" },
+    ]);
+
+    await cloneInvoice(apiClient, { invoice_uuid: INVOICE_UUID, invoice_date: "2026-04-01" });
+
+    assert.deepEqual(clonedServices(), [
+      { name: "Hosting", tax_symbol: "23", quantity: 2, unit_net_price: 15000 },
+      { name: "Wdrożenie", tax_symbol: "23", quantity: 1, net_price: 50000 },
+    ]);
+    assert.equal(api.created[0].invoice.payment_date, "2026-04-15");
+  });
+
+  it("reprices a line without a unit price when its quantity changes", async () => {
+    api.reset([{ name: "Licencja", quantity: 4, net_price: 40000, tax_symbol: "23" }]);
+
+    await cloneInvoice(apiClient, {
+      invoice_uuid: INVOICE_UUID,
+      line_overrides: [{ position: 1, quantity: 6 }],
+    });
+
+    assert.deepEqual(clonedServices(), [
+      { name: "Licencja", tax_symbol: "23", quantity: 6, unit_net_price: 10000 },
+    ]);
+  });
+
+  it("takes a given unit price over the derived one", async () => {
+    api.reset([{ name: "Licencja", quantity: 3, net_price: 10000, tax_symbol: "23" }]);
+
+    await cloneInvoice(apiClient, {
+      invoice_uuid: INVOICE_UUID,
+      line_overrides: [{ position: 1, quantity: 2, unit_net_price: 40 }],
+    });
+
+    assert.deepEqual(clonedServices(), [
+      { name: "Licencja", tax_symbol: "23", quantity: 2, unit_net_price: 4000 },
+    ]);
+  });
+
+  it("refuses a new quantity when the unit price cannot be derived exactly", async () => {
+    api.reset([{ name: "Licencja", quantity: 3, net_price: 10000, tax_symbol: "23" }]);
+
+    await assert.rejects(
+      cloneInvoice(apiClient, {
+        invoice_uuid: INVOICE_UUID,
+        line_overrides: [{ position: 1, quantity: 2 }],
+      }),
+      (error) => {
+        assert.ok(error instanceof ValidationError);
+        assert.match(error.message, /line 1 has no unit price.*100 PLN.*quantity 3/);
+        return true;
+      }
+    );
+    assert.deepEqual(api.created, []);
+  });
+});
@@ -0,0 +1,319 @@
+/**
+ * JPK_V7M(2) and JPK_FA(4) generation from VAT registers and invoices
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { buildJpkFa, buildJpkV7m, finalizeJpk, type JpkOptions } from "../src/jpk.js";
+import type {
+  AccountInfo,
+  Invoice,
+  VatPeriod,
+  VatRateAmounts,
+  VatRegisterEntry,
+  VatRegisters,
+} from "../src/types.js";
+
+const SELLER: AccountInfo = {
+  company_name: "Przykład sp. z o.o.",
+  tax_code: "5252248481",
+  street: "Prosta",
+  street_number: "1",
+  post_code: "00-001",
+  city: "Warszawa",
+  plan_name: "test",
+  plan_limits: {},
+  usage: {},
+};
+
+const PERIOD: VatPeriod = { year: 2026, month: 3, from: "2026-03-01", to: "2026-03-31" };
+
+const OPTIONS: JpkOptions = {
+  taxpayer: {
+    tax_office_code: "1471",
+    email: "biuro@example.com",
+    voivodeship: "mazowieckie",
+    county: "Warszawa",
+    municipality: "Warszawa",
+  },
+  generatedAt: new Date("2026-04-10T08:00:00Z"),
+};
+
+/**
+ * Register entry of a counterparty with the given rates
+ */
+function entry(
+  number: string,
+  rates: VatRateAmounts[],
+  counterparty: Partial<VatRegisterEntry> = {}
+): VatRegisterEntry {
+  return {
+    uuid: `00000000-0000-4000-8000-${number.replace(/\D/g, "").padStart(12, "0")}`,
+    number,
+    issue_date: "2026-03-10",
+    tax_date: "2026-03-10",
+    counterparty_name: "Kontrahent S.A.",
+    counterparty_tax_code: "7740001454",
+    counterparty_country: "PL",
+    rates,
+    ...counterparty,
+  };
+}
+
+/**
+ * Registers of March 2026
+ */
+function registers(sales: VatRegisterEntry[], purchases: VatRegisterEntry[] = []): VatRegisters {
+  return { period: PERIOD, sales, purchases, skipped: [], truncated: false };
+}
+
+/**
+ * Text of every element with the given name in a serialized document
+ */
+function values(xml: string, name: string): string[] {
+  return [...xml.matchAll(new RegExp(`<${name}>([^<]*)</${name}>`, "g"))].map((match) => match[1]);
+}
+
+/**
+ * Text of the single element with the given name, or undefined if absent
+ */
+function value(xml: string, name: string): string | undefined {
+  const found = values(xml, name);
+  assert.ok(found.length <= 1, `${name} occurs ${found.length} times`);
+  return found[0];
+}
+
+const DE_VAT_PAYER = { counterparty_country: "DE", counterparty_tax_code: "DE123456789" };
+
+const SALES = [
+  entry("FV 1/03/2026", [{ tax_symbol: "23", net_price: 123450, tax_price: 28394 }]),
+  entry("FV 2/03/2026", [{ tax_symbol: "8", net_price: 1049, tax_price: 84 }]),
+  entry("FV 3/03/2026", [{ tax_symbol: "0", net_price: 500000, tax_price: 0 }], DE_VAT_PAYER),
+  entry("FV 4/03/2026", [{ tax_symbol: "0", net_price: 200000, tax_price: 0 }], {
+    counterparty_country: "US",
+    counterparty_tax_code: "12-3456789",
+  }),
+  entry("FV 5/03/2026", [{ tax_symbol: "np", net_price: 30000, tax_price: 0 }], DE_VAT_PAYER),
+  entry("FV 6/03/2026", [{ tax_symbol: "np", net_price: 10000, tax_price: 0 }]),
+];
+
+const PURCHASES = [entry("Z/1/2026", [{ tax_symbol: "23", net_price: 50000, tax_price: 11500 }])];
+
+describe("buildJpkV7m", () => {
+  it("produces a valid document", () => {
+    const result = finalizeJpk(
+      "JPK_V7M",
+      PERIOD,
+      buildJpkV7m(registers(SALES, PURCHASES), SELLER, OPTIONS),
+      [],
+      false
+    );
+
+    assert.deepEqual(result.violations, []);
+    assert.equal(result.valid, true);
+    assert.deepEqual(result.skipped, []);
+  });
+
+  it("reports 0% and not-subject sales by the buyer's country", () => {
+    const { xml } = finalizeJpk("JPK_V7M", PERIOD, buildJpkV7m(registers(SALES), SELLER, OPTIONS), [], false);
+
+    assert.deepEqual(values(xml, "K_21"), ["5000.00"]);
+    assert.deepEqual(values(xml, "K_22"), ["2000.00"]);
+    assert.deepEqual(values(xml, "K_11"), ["300.00", "100.00"]);
+    assert.deepEqual(values(xml, "K_12"), ["300.00"]);
+    assert.deepEqual(values(xml, "K_13"), []);
+    assert.equal(value(xml, "P_11"), "400");
+    assert.equal(value(xml, "P_12"), "300");
+    assert.equal(value(xml, "P_21"), "5000");
+    assert.equal(value(xml, "P_22"), "2000");
+  });
+
+  it("reports domestic 0% sales in K_13", () => {
+    const { xml } = finalizeJpk(
+      "JPK_V7M",
+      PERIOD,
+      buildJpkV7m(
+        registers([entry("FV 1/03/2026", [{ tax_symbol: "0", net_price: 1000, tax_price: 0 }])]),
+        SELLER,
+        OPTIONS
+      ),
+      [],
+      false
+    );
+
+    assert.deepEqual(values(xml, "K_13"), ["10.00"]);
+    assert.equal(value(xml, "P_13"), "10");
+  });
+
+  it("skips 0% sales to EU buyers without a VAT number", () => {
+    const sale = entry("FV 7/03/2026", [{ tax_symbol: "0", net_price: 1000, tax_price: 0 }], {
+      counterparty_country: "FR",
+      counterparty_tax_code: undefined,
+    });
+
+    const { skipped } = buildJpkV7m(registers([sale]), SELLER, OPTIONS);
+
+    assert.equal(skipped.length, 1);
+    assert.equal(skipped[0].number, "FV 7/03/2026");
+    assert.match(skipped[0].reason, /not an intra-Community supply; enter it manually/);
+  });
+
+  it("rounds declaration fields from the register totals to whole złoty", () => {
+    const sales = [
+      entry("FV 1/03/2026", [{ tax_symbol: "23", net_price: 123450, tax_price: 28394 }]),
+      entry("FV 2/03/2026", [{ tax_symbol: "8", net_price: 1049, tax_price: 84 }]),
+      entry("FV 3/03/2026", [{ tax_symbol: "8", net_price: 1049, tax_price: 84 }]),
+    ];
+    const { xml } = finalizeJpk("JPK_V7M", PERIOD, buildJpkV7m(registers(sales), SELLER, OPTIONS), [], false);
+
+    assert.equal(value(xml, "P_19"), "1235");
+    assert.equal(value(xml, "P_20"), "284");
+    // 2 x 10.49 = 20.98, not 2 x 10
+    assert.equal(value(xml, "P_17"), "21");
+    assert.equal(value(xml, "P_18"), "2");
+    assert.equal(value(xml, "PodatekNalezny"), "285.62");
+  });
+
+  it("computes the tax payable", () => {
+    const { xml } = finalizeJpk(
+      "JPK_V7M",
+      PERIOD,
+      buildJpkV7m(registers(SALES, PURCHASES), SELLER, { ...OPTIONS, carriedForwardVat: 20 }),
+      [],
+      false
+    );
+
+    // P_10 + P_11 + P_13 + P_15 + P_17 + P_19 + P_21 + P_22 + P_31, without P_12
+    assert.equal(value(xml, "P_37"), String(400 + 10 + 1235 + 5000 + 2000));
+    assert.equal(value(xml, "P_38"), "285");
+    assert.equal(value(xml, "P_39"), "20");
+    assert.equal(value(xml, "P_42"), "500");
+    assert.equal(value(xml, "P_43"), "115");
+    assert.equal(value(xml, "P_48"), "135");
+    assert.equal(value(xml, "P_51"), "150");
+    assert.equal(value(xml, "P_53"), undefined);
+    assert.equal(value(xml, "P_62"), undefined);
+    assert.equal(value(xml, "LiczbaWierszySprzedazy"), "6");
+    assert.equal(value(xml, "PodatekNalezny"), "284.78");
+    assert.equal(value(xml, "PodatekNaliczony"), "115.00");
+  });
+
+  it("carries an input VAT surplus forward", () => {
+    const purchases = [entry("Z/1/2026", [{ tax_symbol: "23", net_price: 200000, tax_price: 46000 }])];
+    const { xml } = finalizeJpk(
+      "JPK_V7M",
+      PERIOD,
+      buildJpkV7m(registers(SALES, purchases), SELLER, { ...OPTIONS, carriedForwardVat: 20 }),
+      [],
+      false
+    );
+
+    assert.equal(value(xml, "P_48"), "480");
+    assert.equal(value(xml, "P_51"), "0");
+    assert.equal(value(xml, "P_53"), "195");
+    assert.equal(value(xml, "P_62"), "195");
+  });
+});
+
+/**
+ * Invoice with one line per [symbol, net, VAT] in minor units
+ */
+function invoice(number: string, lines: Array<[string, number, number]>, overrides: Partial<Invoice> = {}): Invoice {
+  const services = lines.map(([tax_symbol, net_price, tax_price]) => ({
+    name: "Usługa",
+    tax_symbol,
+    quantity: 1,
+    unit: "szt.",
+    unit_net_price: net_price,
+    net_price,
+    tax_price,
+    gross_price: net_price + tax_price,
+  }));
+  return {
+    id: 1,
+    uuid: "3f2b8c1e-7a4d-4e6f-9b0a-1c2d3e4f5a6b",
+    number,
+    invoice_date: "2026-03-10",
+    sale_date: "2026-03-10",
+    payment_date: "2026-03-24",
+    kind: "vat",
+    status: "sent",
+    payment_method: "transfer",
+    client_id: 1,
+    client_company_name: "Nabywca S.A.",
+    client_tax_code: "7740001454",
+    client_street: "Długa",
+    client_street_number: "5",
+    client_post_code: "80-001",
+    client_city: "Gdańsk",
+    client_country: "PL",
+    net_price: services.reduce((sum, service) => sum + service.net_price, 0),
+    tax_price: services.reduce((sum, service) => sum + service.tax_price, 0),
+    gross_price: services.reduce((sum, service) => sum + service.gross_price, 0),
+    currency: "PLN",
+    services,
+    created_at: "2026-03-10T10:00:00Z",
+    updated_at: "2026-03-10T10:00:00Z",
+    ...overrides,
+  };
+}
+
+describe("buildJpkFa", () => {
+  const invoices = [
+    invoice("FV 1/03/2026", [["23", 10000, 2300], ["8", 1049, 84]]),
+    invoice("FV 2/03/2026", [["23", 5001, 1150]], { currency: "EUR", exchange_rate: 4.2537 }),
+    invoice("FV 3/03/2026", [["zw", 50000, 0]]),
+  ];
+
+  it("produces a valid document", () => {
+    const result = finalizeJpk(
+      "JPK_FA",
+      PERIOD,
+      buildJpkFa(invoices, SELLER, PERIOD, { ...OPTIONS, exemptionBasis: "art. 43 ust. 1 pkt 29" }),
+      [],
+      false
+    );
+
+    assert.deepEqual(result.violations, []);
+    assert.equal(result.valid, true);
+  });
+
+  it("reports exempt invoices without an exemption basis", () => {
+    const result = finalizeJpk("JPK_FA", PERIOD, buildJpkFa(invoices, SELLER, PERIOD, OPTIONS), [], false);
+
+    assert.equal(result.valid, false);
+    assert.ok(result.violations.some((violation) => violation.path.startsWith("/JPK/Faktura[3]")));
+  });
+
+  it("sums control totals as stated, in whole hundredths", () => {
+    const many = Array.from({ length: 30 }, (_, index) =>
+      invoice(`FV ${index + 1}/03/2026`, [["23", 8, 2]])
+    );
+    const { xml } = finalizeJpk("JPK_FA", PERIOD, buildJpkFa(many, SELLER, PERIOD, OPTIONS), [], false);
+
+    assert.equal(value(xml, "LiczbaFaktur"), "30");
+    assert.equal(value(xml, "WartoscFaktur"), "3.00");
+    assert.equal(value(xml, "LiczbaWierszyFaktur"), "30");
+    assert.equal(value(xml, "WartoscWierszyFaktur"), "2.40");
+  });
+
+  it("adds foreign-currency amounts as stated", () => {
+    const { xml } = finalizeJpk("JPK_FA", PERIOD, buildJpkFa(invoices, SELLER, PERIOD, OPTIONS), [], false);
+
+    // 123.00 + 11.33 PLN, 61.51 EUR and 500.00 PLN
+    assert.equal(value(xml, "WartoscFaktur"), "695.84");
+    assert.equal(value(xml, "WartoscWierszyFaktur"), "660.50");
+    assert.equal(value(xml, "P_14_1W"), "48.92");
+  });
+
+  it("skips invoices in a foreign currency without an exchange rate", () => {
+    const { skipped } = buildJpkFa(
+      [invoice("FV 4/03/2026", [["23", 100, 23]], { currency: "EUR" })],
+      SELLER,
+      PERIOD,
+      OPTIONS
+    );
+
+    assert.deepEqual(skipped.map((document) => document.reason), ["invoice in EUR has no exchange_rate"]);
+  });
+});
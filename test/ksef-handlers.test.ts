@@ -0,0 +1,256 @@
+/**
+ * KSeF submission and status tools against a local mock of the inFakt API
+ */
+
+import { after, before, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { createServer, IncomingMessage, Server, ServerResponse } from "node:http";
+import type { AddressInfo } from "node:net";
+import axios from "axios";
+import { ApiClient } from "../src/api-client.js";
+import { waitForKsefStatus } from "../src/async-tasks.js";
+import { getInvoiceKsefStatus, submitInvoiceToKsef } from "../src/handlers/ksef-handlers.js";
+import type { Invoice, KsefInvoiceStatus, KsefStatusResult, ToolResponse } from "../src/types.js";
+import { ValidationError } from "../src/validation.js";
+
+const INVOICE_UUID = "3f2b8c1e-7a4d-4e6f-9b0a-1c2d3e4f5a6b";
+const UPO_XML = '<?xml version="1.0" encoding="UTF-8"?><Potwierdzenie>UPO</Potwierdzenie>';
+
+type MockInvoice = Pick<Invoice, "number" | "kind" | "status" | "ksef_status" | "ksef_number">;
+
+/**
+ * In-memory inFakt API serving one invoice and its KSeF endpoints
+ */
+class MockInfaktApi {
+  invoice: MockInvoice = { number: "FV 1/2026", kind: "vat", status: "sent" };
+  /** Successive responses of GET /invoices/{uuid}/ksef.json; the last one repeats */
+  statuses: KsefInvoiceStatus[] = [];
+  /** Requests received, as "METHOD /path" */
+  requests: string[] = [];
+
+  private readonly server: Server = createServer((req, res) => this.handle(req, res));
+
+  async start(): Promise<string> {
+    await new Promise<void>((resolve) => this.server.listen(0, "127.0.0.1", resolve));
+    const { port } = this.server.address() as AddressInfo;
+    return `http://127.0.0.1:${port}`;
+  }
+
+  stop(): Promise<void> {
+    return new Promise((resolve, reject) =>
+      this.server.close((error) => (error ? reject(error) : resolve()))
+    );
+  }
+
+  reset(): void {
+    this.invoice = { number: "FV 1/2026", kind: "vat", status: "sent" };
+    this.statuses = [];
+    this.requests = [];
+  }
+
+  private handle(req: IncomingMessage, res: ServerResponse): void {
+    const path = new URL(req.url ?? "/", "http://localhost").pathname;
+    this.requests.push(`${req.method} ${path}`);
+
+    const send = (status: number, body: string, contentType = "application/json") => {
+      res.writeHead(status, { "Content-Type": contentType });
+      res.end(body);
+    };
+
+    if (req.method === "GET" && path === `/invoices/${INVOICE_UUID}.json`) {
+      return send(200, JSON.stringify(this.invoice));
+    }
+    if (req.method === "POST" && path === `/invoices/${INVOICE_UUID}/ksef.json`) {
+      return send(201, JSON.stringify({ ksef_status: "pending", ksef_reference_number: "REF-1" }));
+    }
+    if (req.method === "GET" && path === `/invoices/${INVOICE_UUID}/ksef.json`) {
+      const status = this.statuses.length > 1 ? this.statuses.shift()! : this.statuses[0];
+      return send(200, JSON.stringify(status ?? { ksef_status: "not_sent" }));
+    }
+    if (req.method === "GET" && path === `/invoices/${INVOICE_UUID}/ksef/upo.xml`) {
+      return send(200, UPO_XML, "application/xml");
+    }
+    send(404, JSON.stringify({ error: "Not found" }));
+  }
+}
+
+/**
+ * Parses the JSON body of a tool response
+ */
+function parseResult(response: ToolResponse): KsefStatusResult {
+  return JSON.parse(response.content[0].text) as KsefStatusResult;
+}
+
+const ACCEPTED: KsefInvoiceStatus = {
+  ksef_status: "accepted",
+  ksef_number: "5252248481-20260301-ABCDEF123456-7F",
+  ksef_reference_number: "REF-1",
+};
+const REJECTED: KsefInvoiceStatus = {
+  ksef_status: "rejected",
+  ksef_reference_number: "REF-1",
+  ksef_error: "Invalid buyer NIP",
+};
+const PENDING: KsefInvoiceStatus = { ksef_status: "pending", ksef_reference_number: "REF-1" };
+
+describe("KSeF tools", () => {
+  const api = new MockInfaktApi();
+  let apiClient: ApiClient;
+
+  before(async () => {
+    apiClient = new ApiClient(axios.create({ baseURL: await api.start() }));
+  });
+
+  after(() => api.stop());
+
+  beforeEach(() => api.reset());
+
+  describe("submitInvoiceToKsef", () => {
+    const guards: Array<[string, Partial<MockInvoice>, RegExp]> = [
+      ["a draft", { status: "draft" }, /is a draft/],
+      ["a proforma", { kind: "proforma" }, /is a proforma/],
+      [
+        "an accepted invoice",
+        { ksef_status: "accepted", ksef_number: ACCEPTED.ksef_number },
+        /already in KSeF/,
+      ],
+      ["a pending invoice", { ksef_status: "pending" }, /already being processed/],
+    ];
+
+    for (const [name, invoice, message] of guards) {
+      it(`refuses ${name} without submitting`, async () => {
+        Object.assign(api.invoice, invoice);
+
+        await assert.rejects(
+          submitInvoiceToKsef(apiClient, { invoice_uuid: INVOICE_UUID }),
+          (error) => {
+            assert.ok(error instanceof ValidationError);
+            assert.match(error.message, message);
+            return true;
+          }
+        );
+        assert.ok(!api.requests.some((request) => request.startsWith("POST")));
+      });
+    }
+
+    it("returns the submission state without wait", async () => {
+      const response = await submitInvoiceToKsef(apiClient, { invoice_uuid: INVOICE_UUID });
+
+      assert.equal(response.isError, undefined);
+      assert.deepEqual(parseResult(response), {
+        invoice_uuid: INVOICE_UUID,
+        ksef_status: "pending",
+        ksef_reference_number: "REF-1",
+      });
+      assert.deepEqual(api.requests, [
+        `GET /invoices/${INVOICE_UUID}.json`,
+        `POST /invoices/${INVOICE_UUID}/ksef.json`,
+      ]);
+    });
+
+    it("polls until KSeF accepts the invoice with wait", async () => {
+      api.statuses = [PENDING, ACCEPTED];
+
+      const response = await submitInvoiceToKsef(apiClient, {
+        invoice_uuid: INVOICE_UUID,
+        wait: true,
+      });
+      const result = parseResult(response);
+
+      assert.equal(response.isError, undefined);
+      assert.equal(result.ksef_status, "accepted");
+      assert.equal(result.ksef_number, ACCEPTED.ksef_number);
+      assert.equal(result.timed_out, false);
+      const polls = api.requests.filter(
+        (request) => request === `GET /invoices/${INVOICE_UUID}/ksef.json`
+      );
+      assert.equal(polls.length, 2);
+    });
+
+    it("flags a rejection as an error with wait", async () => {
+      api.statuses = [PENDING, REJECTED];
+
+      const response = await submitInvoiceToKsef(apiClient, {
+        invoice_uuid: INVOICE_UUID,
+        wait: true,
+      });
+      const result = parseResult(response);
+
+      assert.equal(response.isError, true);
+      assert.equal(result.ksef_status, "rejected");
+      assert.equal(result.ksef_error, REJECTED.ksef_error);
+      assert.equal(result.timed_out, false);
+    });
+
+    it("returns the last state when the wait times out", async () => {
+      api.statuses = [PENDING];
+
+      const response = await submitInvoiceToKsef(apiClient, {
+        invoice_uuid: INVOICE_UUID,
+        wait: true,
+        timeout_ms: 1000,
+      });
+      const result = parseResult(response);
+
+      assert.equal(response.isError, undefined);
+      assert.equal(result.ksef_status, "pending");
+      assert.equal(result.timed_out, true);
+      assert.ok(result.elapsed_ms! < 1000);
+    });
+  });
+
+  describe("waitForKsefStatus", () => {
+    it("returns immediately when the invoice is no longer pending", async () => {
+      api.statuses = [ACCEPTED];
+
+      const result = await waitForKsefStatus(apiClient, INVOICE_UUID);
+
+      assert.equal(result.ksef_status, "accepted");
+      assert.equal(result.timed_out, false);
+      assert.equal(api.requests.length, 1);
+    });
+  });
+
+  describe("getInvoiceKsefStatus", () => {
+    it("includes the UPO of an accepted invoice", async () => {
+      api.statuses = [ACCEPTED];
+
+      const response = await getInvoiceKsefStatus(apiClient, {
+        invoice_uuid: INVOICE_UUID,
+        include_upo: true,
+      });
+      const result = parseResult(response);
+
+      assert.equal(result.ksef_status, "accepted");
+      assert.equal(result.upo, UPO_XML);
+      assert.ok(api.requests.includes(`GET /invoices/${INVOICE_UUID}/ksef/upo.xml`));
+    });
+
+    for (const status of [PENDING, REJECTED]) {
+      it(`does not fetch the UPO of a ${status.ksef_status} invoice`, async () => {
+        api.statuses = [status];
+
+        const response = await getInvoiceKsefStatus(apiClient, {
+          invoice_uuid: INVOICE_UUID,
+          include_upo: true,
+        });
+        const result = parseResult(response);
+
+        assert.equal(result.upo, undefined);
+        assert.equal(response.isError, status.ksef_status === "rejected" ? true : undefined);
+        assert.deepEqual(api.requests, [`GET /invoices/${INVOICE_UUID}/ksef.json`]);
+      });
+    }
+
+    it("does not fetch the UPO unless asked", async () => {
+      api.statuses = [ACCEPTED];
+
+      const result = parseResult(
+        await getInvoiceKsefStatus(apiClient, { invoice_uuid: INVOICE_UUID })
+      );
+
+      assert.equal(result.upo, undefined);
+      assert.deepEqual(api.requests, [`GET /invoices/${INVOICE_UUID}/ksef.json`]);
+    });
+  });
+});
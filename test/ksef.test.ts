@@ -0,0 +1,241 @@
+/**
+ * KSeF FA(2)/FA(3) export of inFakt invoices
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { exportKsefInvoice, KSEF_SCHEMA_VERSIONS } from "../src/ksef.js";
+import type { AccountInfo, Invoice, InvoiceService } from "../src/types.js";
+import { ValidationError } from "../src/validation.js";
+
+const SELLER: AccountInfo = {
+  company_name: "Przykład sp. z o.o.",
+  tax_code: "525-224-84-81",
+  street: "Prosta",
+  street_number: "1",
+  post_code: "00-001",
+  city: "Warszawa",
+  plan_name: "test",
+  plan_limits: {},
+  usage: {},
+};
+
+const GENERATED_AT = new Date("2026-03-02T10:00:00Z");
+
+/**
+ * Invoice of a Polish company buyer with the given lines
+ */
+function invoice(services: InvoiceService[], overrides: Partial<Invoice> = {}): Invoice {
+  return {
+    id: 1,
+    uuid: "3f2b8c1e-7a4d-4e6f-9b0a-1c2d3e4f5a6b",
+    number: "FV 1/03/2026",
+    invoice_date: "2026-03-02",
+    sale_date: "2026-02-27",
+    payment_date: "2026-03-16",
+    kind: "vat",
+    status: "sent",
+    payment_method: "transfer",
+    client_id: 1,
+    client_company_name: "Nabywca S.A.",
+    client_tax_code: "7740001454",
+    client_street: "Długa",
+    client_street_number: "5",
+    client_post_code: "80-001",
+    client_city: "Gdańsk",
+    client_country: "PL",
+    net_price: 0,
+    tax_price: 0,
+    gross_price: services.reduce((sum, service) => sum + (service.gross_price ?? 0), 0),
+    currency: "PLN",
+    services,
+    created_at: "2026-03-02T10:00:00Z",
+    updated_at: "2026-03-02T10:00:00Z",
+    ...overrides,
+  };
+}
+
+/**
+ * Line with amounts in grosze, VAT computed by the caller
+ */
+function line(name: string, tax_symbol: string, net_price: number, tax_price = 0): InvoiceService {
+  return {
+    name,
+    tax_symbol,
+    quantity: 1,
+    unit: "szt.",
+    unit_net_price: net_price,
+    net_price,
+    tax_price,
+    gross_price: net_price + tax_price,
+  };
+}
+
+/**
+ * Text of every element with the given name in a serialized document
+ */
+function values(xml: string, name: string): string[] {
+  return [...xml.matchAll(new RegExp(`<${name}>([^<]*)</${name}>`, "g"))].map((match) => match[1]);
+}
+
+describe("exportKsefInvoice", () => {
+  for (const version of KSEF_SCHEMA_VERSIONS) {
+    it(`produces a valid ${version} document for a domestic invoice`, () => {
+      const result = exportKsefInvoice(
+        invoice([
+          line("Usługa", "23", 10000, 2300),
+          line("Książka", "5", 4999, 250),
+          line("Szkolenie", "zw", 50000),
+        ]),
+        SELLER,
+        { version, exemptionBasis: "art. 43 ust. 1 pkt 29 lit. c", generatedAt: GENERATED_AT }
+      );
+
+      assert.deepEqual(result.violations, []);
+      assert.equal(result.valid, true);
+      assert.deepEqual(values(result.xml, "P_13_1"), ["100.00"]);
+      assert.deepEqual(values(result.xml, "P_14_1"), ["23.00"]);
+      assert.deepEqual(values(result.xml, "P_13_3"), ["49.99"]);
+      assert.deepEqual(values(result.xml, "P_14_3"), ["2.50"]);
+      assert.deepEqual(values(result.xml, "P_13_7"), ["500.00"]);
+      assert.deepEqual(values(result.xml, "P_15"), ["675.49"]);
+      assert.deepEqual(values(result.xml, "P_19A"), ["art. 43 ust. 1 pkt 29 lit. c"]);
+      assert.deepEqual(values(result.xml, "NIP"), ["5252248481", "7740001454"]);
+      assert.deepEqual(values(result.xml, "P_6"), ["2026-02-27"]);
+    });
+  }
+
+  it("reports exempt lines without an exemption basis", () => {
+    const result = exportKsefInvoice(invoice([line("Szkolenie", "zw", 50000)]), SELLER, {
+      version: "FA(3)",
+      generatedAt: GENERATED_AT,
+    });
+
+    assert.equal(result.valid, false);
+    assert.ok(result.violations.some((violation) => violation.path.includes("Zwolnienie")));
+  });
+
+  it("reports a missing seller NIP", () => {
+    const result = exportKsefInvoice(
+      invoice([line("Usługa", "23", 10000, 2300)]),
+      { ...SELLER, tax_code: undefined },
+      { version: "FA(3)", generatedAt: GENERATED_AT }
+    );
+
+    assert.equal(result.valid, false);
+    assert.deepEqual(
+      result.violations.map((violation) => violation.path),
+      ["/Faktura/Podmiot1/DaneIdentyfikacyjne"]
+    );
+  });
+
+  describe("buyer-country rates", () => {
+    const cases: Array<{
+      name: string;
+      symbol: string;
+      buyer: Partial<Invoice>;
+      field: string;
+      rates: Record<string, string>;
+    }> = [
+      {
+        name: "a domestic 0% sale",
+        symbol: "0",
+        buyer: {},
+        field: "P_13_6_1",
+        rates: { "FA(2)": "0", "FA(3)": "0 KR" },
+      },
+      {
+        name: "an intra-Community supply",
+        symbol: "0",
+        buyer: { client_country: "DE", client_tax_code: "DE123456789" },
+        field: "P_13_6_2",
+        rates: { "FA(2)": "0", "FA(3)": "0 WDT" },
+      },
+      {
+        name: "an export",
+        symbol: "0",
+        buyer: { client_country: "US", client_tax_code: "12-3456789" },
+        field: "P_13_6_3",
+        rates: { "FA(2)": "0", "FA(3)": "0 EX" },
+      },
+      {
+        name: "a service taxed where the EU buyer is",
+        symbol: "np",
+        buyer: { client_country: "GR", client_tax_code: "EL123456789" },
+        field: "P_13_9",
+        rates: { "FA(2)": "np", "FA(3)": "np II" },
+      },
+      {
+        name: "a service to a non-EU buyer",
+        symbol: "np",
+        buyer: { client_country: "CH", client_tax_code: "CHE-123.456.789" },
+        field: "P_13_8",
+        rates: { "FA(2)": "np", "FA(3)": "np I" },
+      },
+    ];
+
+    for (const { name, symbol, buyer, field, rates } of cases) {
+      for (const version of KSEF_SCHEMA_VERSIONS) {
+        it(`reports ${name} in ${field} (${version})`, () => {
+          const result = exportKsefInvoice(invoice([line("Towar", symbol, 100000)], buyer), SELLER, {
+            version,
+            generatedAt: GENERATED_AT,
+          });
+
+          assert.deepEqual(result.violations, []);
+          assert.deepEqual(values(result.xml, field), ["1000.00"]);
+          assert.deepEqual(values(result.xml, "P_12"), [rates[version]]);
+        });
+      }
+    }
+
+    it("identifies an EU buyer by its VAT number", () => {
+      const result = exportKsefInvoice(
+        invoice([line("Towar", "0", 100000)], { client_country: "GR", client_tax_code: "EL 123456789" }),
+        SELLER,
+        { version: "FA(3)", generatedAt: GENERATED_AT }
+      );
+
+      assert.deepEqual(values(result.xml, "KodUE"), ["EL"]);
+      assert.deepEqual(values(result.xml, "NrVatUE"), ["123456789"]);
+    });
+
+    it("refuses a 0% sale to an EU buyer without a VAT number", () => {
+      assert.throws(
+        () =>
+          exportKsefInvoice(
+            invoice([line("Towar", "0", 100000)], { client_country: "DE", client_tax_code: undefined }),
+            SELLER,
+            { version: "FA(3)", generatedAt: GENERATED_AT }
+          ),
+        (error) => {
+          assert.ok(error instanceof ValidationError);
+          assert.match(error.message, /not an intra-Community supply/);
+          return true;
+        }
+      );
+    });
+  });
+
+  it("states the VAT of a foreign-currency invoice in PLN", () => {
+    const result = exportKsefInvoice(
+      invoice([line("Usługa", "23", 10000, 2300)], { currency: "EUR", exchange_rate: 4.2537 }),
+      SELLER,
+      { version: "FA(3)", generatedAt: GENERATED_AT }
+    );
+
+    assert.deepEqual(result.violations, []);
+    assert.deepEqual(values(result.xml, "KodWaluty"), ["EUR"]);
+    assert.deepEqual(values(result.xml, "P_14_1W"), ["97.84"]);
+  });
+
+  it("refuses non-VAT invoices", () => {
+    assert.throws(
+      () =>
+        exportKsefInvoice(invoice([line("Usługa", "23", 10000, 2300)], { kind: "proforma" }), SELLER, {
+          version: "FA(3)",
+        }),
+      ValidationError
+    );
+  });
+});
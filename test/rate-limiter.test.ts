@@ -0,0 +1,141 @@
+/**
+ * Request queueing of the client-side rate limiter
+ */
+
+import { after, before, describe, it, mock } from "node:test";
+import assert from "node:assert/strict";
+import { RateLimiter } from "../src/rate-limiter.js";
+
+/**
+ * Task that runs until released
+ */
+interface HeldTask {
+  started: boolean;
+  release: () => void;
+  done: Promise<void>;
+}
+
+/**
+ * Schedules a task on a limiter that stays in flight until released
+ */
+function hold(limiter: RateLimiter): HeldTask {
+  const held = { started: false } as HeldTask;
+  const finished = new Promise<void>((resolve) => {
+    held.release = resolve;
+  });
+  held.done = limiter.schedule(async () => {
+    held.started = true;
+    await finished;
+  });
+  return held;
+}
+
+/**
+ * Lets queued tasks start
+ */
+function settle(): Promise<void> {
+  return new Promise((resolve) => setImmediate(resolve));
+}
+
+describe("RateLimiter", () => {
+  before(() => {
+    // Queued requests are logged to stderr; keep the test output readable
+    mock.method(console, "error", () => {});
+  });
+
+  after(() => mock.restoreAll());
+
+  it("queues requests over the concurrency cap in order", async () => {
+    const limiter = new RateLimiter({ requestsPerSecond: 0, maxConcurrency: 2 });
+    const tasks = [hold(limiter), hold(limiter), hold(limiter), hold(limiter)];
+    await settle();
+
+    assert.deepEqual(tasks.map((task) => task.started), [true, true, false, false]);
+    assert.equal(limiter.activeCount, 2);
+    assert.equal(limiter.queueDepth, 2);
+
+    tasks[1].release();
+    await settle();
+    assert.deepEqual(tasks.map((task) => task.started), [true, true, true, false]);
+
+    tasks[0].release();
+    tasks[2].release();
+    tasks[3].release();
+    await Promise.all(tasks.map((task) => task.done));
+    assert.equal(limiter.activeCount, 0);
+    assert.equal(limiter.queueDepth, 0);
+  });
+
+  it("frees the slot of a failed request", async () => {
+    const limiter = new RateLimiter({ requestsPerSecond: 0, maxConcurrency: 1 });
+
+    await assert.rejects(limiter.schedule(() => Promise.reject(new Error("failed"))), /failed/);
+
+    assert.equal(await limiter.schedule(async () => "next"), "next");
+    assert.equal(limiter.activeCount, 0);
+  });
+
+  it("holds requests beyond a one-second burst until tokens refill", async () => {
+    const limiter = new RateLimiter({ requestsPerSecond: 50, maxConcurrency: 0 });
+    const startedAt: number[] = [];
+    const begin = Date.now();
+
+    await Promise.all(
+      Array.from({ length: 52 }, () => limiter.schedule(async () => startedAt.push(Date.now() - begin)))
+    );
+
+    assert.ok(startedAt.slice(0, 50).every((elapsed) => elapsed < 30), `burst ${startedAt.slice(0, 50)}`);
+    // Two more tokens at 50 per second take at least 40 ms
+    assert.ok(startedAt[51] >= 35, `last request after ${startedAt[51]} ms`);
+  });
+
+  it("does not limit when both limits are 0", async () => {
+    const limiter = new RateLimiter({ requestsPerSecond: 0, maxConcurrency: 0 });
+    const tasks = Array.from({ length: 20 }, () => hold(limiter));
+    await settle();
+
+    assert.ok(tasks.every((task) => task.started));
+    tasks.forEach((task) => task.release());
+    await Promise.all(tasks.map((task) => task.done));
+  });
+
+  describe("with a parent limiter", () => {
+    it("caps requests in flight across its children", async () => {
+      const global = new RateLimiter({ requestsPerSecond: 0, maxConcurrency: 1 });
+      const tenantA = new RateLimiter({ requestsPerSecond: 0, maxConcurrency: 2 }, global);
+      const tenantB = new RateLimiter({ requestsPerSecond: 0, maxConcurrency: 2 }, global);
+
+      const first = hold(tenantA);
+      const second = hold(tenantB);
+      await settle();
+      assert.deepEqual([first.started, second.started], [true, false]);
+      assert.equal(global.queueDepth, 1);
+
+      first.release();
+      await settle();
+      assert.equal(second.started, true);
+
+      second.release();
+      await Promise.all([first.done, second.done]);
+      assert.equal(global.activeCount, 0);
+    });
+
+    it("does not hold up a tenant behind another tenant's queue", async () => {
+      const global = new RateLimiter({ requestsPerSecond: 0, maxConcurrency: 4 });
+      const tenantA = new RateLimiter({ requestsPerSecond: 0, maxConcurrency: 1 }, global);
+      const tenantB = new RateLimiter({ requestsPerSecond: 0, maxConcurrency: 1 }, global);
+
+      const backlog = [hold(tenantA), hold(tenantA), hold(tenantA)];
+      const other = hold(tenantB);
+      await settle();
+
+      assert.deepEqual(backlog.map((task) => task.started), [true, false, false]);
+      assert.equal(other.started, true);
+      assert.equal(tenantA.queueDepth, 2);
+      assert.equal(global.activeCount, 2);
+
+      [...backlog, other].forEach((task) => task.release());
+      await Promise.all([...backlog, other].map((task) => task.done));
+    });
+  });
+});
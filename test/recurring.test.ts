@@ -0,0 +1,307 @@
+/**
+ * Recurring invoice runs and schedule management against a temporary store
+ */
+
+import { after, before, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtemp, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import axios from "axios";
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import { ApiClient } from "../src/api-client.js";
+import {
+  RecurringScheduleStore,
+  runDueSchedules,
+  setRecurringStore,
+  updateNextRunDate,
+} from "../src/recurring.js";
+import { listRecurringInvoices, pauseRecurringInvoice } from "../src/handlers/recurring-handlers.js";
+import type { RecurringSchedule, ToolResponse } from "../src/types.js";
+import { ValidationError } from "../src/validation.js";
+
+/**
+ * Monthly schedule issued on the 15th from January 2026
+ */
+function schedule(id: string, tenantId: string, overrides: Partial<RecurringSchedule> = {}): RecurringSchedule {
+  const created: RecurringSchedule = {
+    id,
+    tenant_id: tenantId,
+    name: `Hosting ${id.substring(0, 4)}`,
+    status: "active",
+    cadence: { frequency: "monthly", day_of_month: 15 },
+    start_date: "2026-01-01",
+    next_occurrence: 0,
+    template: {
+      client_company_name: "ACME",
+      payment_method: "transfer",
+      services: [{ name: "Hosting", tax_symbol: "23", unit_net_price: 100 }],
+      payment_days: 14,
+    },
+    runs: [],
+    created_at: "2026-01-01T00:00:00Z",
+    updated_at: "2026-01-01T00:00:00Z",
+    ...overrides,
+  };
+  updateNextRunDate(created);
+  return created;
+}
+
+const ID_A = "11111111-1111-4111-8111-111111111111";
+const ID_B = "22222222-2222-4222-8222-222222222222";
+
+/**
+ * Error of a request whose outcome is unknown (server error)
+ */
+const SERVER_ERROR = new McpError(ErrorCode.InternalError, "inFakt API error (503)", { status: 503 });
+
+/**
+ * Error of a request rejected by inFakt
+ */
+const REJECTED = new McpError(ErrorCode.InvalidParams, "inFakt API error (422)", { status: 422 });
+
+describe("recurring invoices", () => {
+  let directory: string;
+  let store: RecurringScheduleStore;
+
+  before(async () => {
+    directory = await mkdtemp(join(tmpdir(), "infakt-recurring-"));
+  });
+
+  after(async () => {
+    setRecurringStore(null);
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  beforeEach(async (t) => {
+    store = new RecurringScheduleStore(join(directory, `${t.name.replace(/\W+/g, "-")}.json`));
+    setRecurringStore(store);
+  });
+
+  /**
+   * Stores the given schedules
+   */
+  function seed(...schedules: RecurringSchedule[]): Promise<void> {
+    return store.update((stored) => {
+      stored.push(...schedules);
+    });
+  }
+
+  /**
+   * Reads a stored schedule
+   */
+  async function read(id: string, tenantId = "tenant-a"): Promise<RecurringSchedule> {
+    const found = (await store.list(tenantId)).find((entry) => entry.id === id);
+    assert.ok(found, `schedule ${id} not stored`);
+    return found;
+  }
+
+  describe("runDueSchedules", () => {
+    it("records each occurrence as pending, then created", async () => {
+      await seed(schedule(ID_A, "tenant-a"));
+      const statusesDuringRequest: string[] = [];
+
+      const outcomes = await runDueSchedules(store, "tenant-a", "2026-03-20", async (_, date) => {
+        // The pending state is persisted before the invoice is requested
+        const stored = JSON.parse(await readFile(store.path, "utf8")) as {
+          schedules: RecurringSchedule[];
+        };
+        statusesDuringRequest.push(
+          stored.schedules[0].runs.find((run) => run.scheduled_date === date)!.status
+        );
+        return `TASK-${date}`;
+      });
+
+      assert.deepEqual(
+        outcomes.map((outcome) => [outcome.scheduled_date, outcome.result, outcome.task_reference_number]),
+        [
+          ["2026-01-15", "created", "TASK-2026-01-15"],
+          ["2026-02-15", "created", "TASK-2026-02-15"],
+          ["2026-03-15", "created", "TASK-2026-03-15"],
+        ]
+      );
+      assert.deepEqual(statusesDuringRequest, ["pending", "pending", "pending"]);
+
+      const stored = await read(ID_A);
+      assert.deepEqual(stored.runs.map((run) => run.status), ["created", "created", "created"]);
+      assert.equal(stored.next_occurrence, 3);
+      assert.equal(stored.next_run_date, "2026-04-15");
+    });
+
+    it("does not issue an occurrence twice", async () => {
+      await seed(schedule(ID_A, "tenant-a"));
+      let requests = 0;
+      const createInvoice = async () => `TASK-${++requests}`;
+
+      await runDueSchedules(store, "tenant-a", "2026-01-31", createInvoice);
+      const outcomes = await runDueSchedules(store, "tenant-a", "2026-01-31", createInvoice);
+
+      assert.deepEqual(outcomes, []);
+      assert.equal(requests, 1);
+    });
+
+    it("leaves an occurrence with unknown outcome pending until retry_pending", async () => {
+      await seed(schedule(ID_A, "tenant-a"));
+
+      const [failed] = await runDueSchedules(store, "tenant-a", "2026-02-28", async () => {
+        throw SERVER_ERROR;
+      });
+      assert.equal(failed.result, "failed");
+      assert.match(failed.reason!, /may have been created/);
+      assert.equal((await read(ID_A)).runs[0].status, "pending");
+
+      let requests = 0;
+      const createInvoice = async (_: RecurringSchedule, date: string) => {
+        requests++;
+        return `TASK-${date}`;
+      };
+
+      const [blocked] = await runDueSchedules(store, "tenant-a", "2026-02-28", createInvoice);
+      assert.equal(blocked.result, "skipped");
+      assert.match(blocked.reason!, /retry_pending: true/);
+      assert.equal(requests, 0);
+
+      const retried = await runDueSchedules(store, "tenant-a", "2026-02-28", createInvoice, {
+        retry_pending: true,
+      });
+      assert.deepEqual(
+        retried.map((outcome) => [outcome.scheduled_date, outcome.result]),
+        [
+          ["2026-01-15", "created"],
+          ["2026-02-15", "created"],
+        ]
+      );
+      const stored = await read(ID_A);
+      assert.deepEqual(stored.runs.map((run) => [run.status, run.error]), [
+        ["created", undefined],
+        ["created", undefined],
+      ]);
+    });
+
+    it("retries an occurrence rejected by inFakt on the next run", async () => {
+      await seed(schedule(ID_A, "tenant-a"));
+
+      const [failed] = await runDueSchedules(store, "tenant-a", "2026-01-31", async () => {
+        throw REJECTED;
+      });
+      assert.equal(failed.result, "failed");
+      assert.equal((await read(ID_A)).runs[0].status, "failed");
+
+      const [created] = await runDueSchedules(store, "tenant-a", "2026-01-31", async () => "TASK-1");
+      assert.equal(created.result, "created");
+    });
+
+    it("does not persist a dry run", async () => {
+      await seed(schedule(ID_A, "tenant-a"));
+
+      const outcomes = await runDueSchedules(
+        store,
+        "tenant-a",
+        "2026-02-28",
+        async () => assert.fail("dry run must not create invoices"),
+        { dry_run: true }
+      );
+
+      assert.deepEqual(outcomes.map((outcome) => outcome.result), ["would_create", "would_create"]);
+      const stored = await read(ID_A);
+      assert.equal(stored.next_occurrence, 0);
+      assert.deepEqual(stored.runs, []);
+    });
+
+    it("runs only the calling tenant's active schedules", async () => {
+      await seed(
+        schedule(ID_A, "tenant-a"),
+        schedule(ID_B, "tenant-b"),
+        schedule("33333333-3333-4333-8333-333333333333", "tenant-a", { status: "paused" })
+      );
+
+      const outcomes = await runDueSchedules(store, "tenant-b", "2026-01-31", async () => "TASK-1");
+
+      assert.deepEqual(outcomes.map((outcome) => outcome.schedule_id), [ID_B]);
+      assert.deepEqual((await read(ID_A)).runs, []);
+    });
+  });
+
+  describe("pauseRecurringInvoice", () => {
+    const tenantA = new ApiClient(axios.create(), undefined, undefined, "tenant-a");
+    const tenantB = new ApiClient(axios.create(), undefined, undefined, "tenant-b");
+
+    /**
+     * Parses the schedule of a tool response
+     */
+    function parseSchedule(response: ToolResponse): RecurringSchedule {
+      return JSON.parse(response.content[0].text) as RecurringSchedule;
+    }
+
+    /**
+     * First 15th of a month on or after today
+     */
+    function nextFifteenth(): string {
+      const now = new Date();
+      const day = now.getUTCDate() <= 15 ? now : new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1));
+      return new Date(Date.UTC(day.getUTCFullYear(), day.getUTCMonth(), 15)).toISOString().substring(0, 10);
+    }
+
+    it("resumes from the first occurrence on or after today", async () => {
+      await seed(schedule(ID_A, "tenant-a", { status: "paused" }));
+
+      const resumed = parseSchedule(await pauseRecurringInvoice(tenantA, { schedule_id: ID_A, paused: false }));
+
+      assert.equal(resumed.status, "active");
+      assert.equal(resumed.next_run_date, nextFifteenth());
+      assert.deepEqual(resumed, await read(ID_A));
+    });
+
+    it("keeps missed occurrences with catch_up", async () => {
+      await seed(schedule(ID_A, "tenant-a", { status: "paused" }));
+
+      const resumed = parseSchedule(
+        await pauseRecurringInvoice(tenantA, { schedule_id: ID_A, paused: false, catch_up: true })
+      );
+
+      assert.equal(resumed.status, "active");
+      assert.equal(resumed.next_run_date, "2026-01-15");
+    });
+
+    it("does not skip an occurrence left pending", async () => {
+      await seed(
+        schedule(ID_A, "tenant-a", {
+          status: "paused",
+          next_occurrence: 1,
+          runs: [
+            { scheduled_date: "2026-01-15", status: "created", updated_at: "2026-01-15T08:00:00Z" },
+            { scheduled_date: "2026-02-15", status: "pending", updated_at: "2026-02-15T08:00:00Z" },
+          ],
+        })
+      );
+
+      const resumed = parseSchedule(await pauseRecurringInvoice(tenantA, { schedule_id: ID_A, paused: false }));
+
+      assert.equal(resumed.next_run_date, "2026-02-15");
+    });
+
+    it("does not move an active schedule", async () => {
+      await seed(schedule(ID_A, "tenant-a"));
+
+      const resumed = parseSchedule(await pauseRecurringInvoice(tenantA, { schedule_id: ID_A, paused: false }));
+
+      assert.equal(resumed.next_run_date, "2026-01-15");
+    });
+
+    it("pauses a schedule", async () => {
+      await seed(schedule(ID_A, "tenant-a"));
+
+      await pauseRecurringInvoice(tenantA, { schedule_id: ID_A });
+
+      assert.equal((await read(ID_A)).status, "paused");
+    });
+
+    it("does not touch another tenant's schedule", async () => {
+      await seed(schedule(ID_A, "tenant-a"));
+
+      await assert.rejects(pauseRecurringInvoice(tenantB, { schedule_id: ID_A }), ValidationError);
+      assert.equal((await read(ID_A)).status, "active");
+      assert.deepEqual(JSON.parse((await listRecurringInvoices(tenantB, {})).content[0].text), []);
+    });
+  });
+});
@@ -0,0 +1,168 @@
+/**
+ * Revenue report grouping and period comparison
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { buildRevenueReport } from "../src/revenue.js";
+import type { Invoice, InvoiceService } from "../src/types.js";
+
+/**
+ * PLN invoice issued on a date, net amount in grosze
+ */
+function invoice(
+  number: number,
+  invoice_date: string,
+  net_price: number,
+  services: InvoiceService[] = []
+): Invoice {
+  return {
+    id: number,
+    uuid: `00000000-0000-4000-8000-${String(number).padStart(12, "0")}`,
+    number: `FV ${number}`,
+    invoice_date,
+    sale_date: invoice_date,
+    payment_date: invoice_date,
+    kind: "vat",
+    status: "sent",
+    payment_method: "transfer",
+    client_id: 1,
+    client_company_name: "Nabywca S.A.",
+    net_price,
+    tax_price: Math.round(net_price * 0.23),
+    gross_price: net_price + Math.round(net_price * 0.23),
+    currency: "PLN",
+    services,
+    created_at: `${invoice_date}T10:00:00Z`,
+    updated_at: `${invoice_date}T10:00:00Z`,
+  };
+}
+
+describe("buildRevenueReport", () => {
+  describe("by month", () => {
+    it("lists months without invoices and compares the next month with zero", () => {
+      const report = buildRevenueReport({
+        dateField: "invoice_date",
+        groupBy: "month",
+        current: {
+          from: "2026-01-01",
+          to: "2026-04-30",
+          invoices: [invoice(1, "2026-01-10", 100000), invoice(2, "2026-03-05", 50000)],
+        },
+        truncated: false,
+      });
+
+      assert.deepEqual(
+        report.groups.map((group) => [
+          group.key,
+          group.net_pln,
+          group.invoice_count,
+          group.previous_net_pln,
+          group.change_pct,
+        ]),
+        [
+          ["2026-01", 1000, 1, undefined, undefined],
+          ["2026-02", 0, 0, 1000, -100],
+          ["2026-03", 500, 1, 0, null],
+          ["2026-04", 0, 0, 500, -100],
+        ]
+      );
+      assert.equal(report.groups[1].share_pct, 0);
+      assert.equal(report.groups[1].average_net_pln, 0);
+    });
+
+    it("spans the months of a range across a year end", () => {
+      const report = buildRevenueReport({
+        dateField: "invoice_date",
+        groupBy: "month",
+        current: { from: "2025-11-15", to: "2026-02-03", invoices: [] },
+        truncated: false,
+      });
+
+      assert.deepEqual(
+        report.groups.map((group) => group.key),
+        ["2025-11", "2025-12", "2026-01", "2026-02"]
+      );
+    });
+
+    it("compares the first month with the same month of the previous period, or zero", () => {
+      const input = {
+        dateField: "invoice_date" as const,
+        groupBy: "month" as const,
+        current: { from: "2026-03-01", to: "2026-04-30", invoices: [invoice(1, "2026-03-10", 30000)] },
+        truncated: false,
+      };
+
+      const compared = buildRevenueReport({
+        ...input,
+        previous: { from: "2026-01-01", to: "2026-02-28", invoices: [invoice(2, "2026-02-10", 20000)] },
+      });
+      assert.deepEqual([compared.groups[0].previous_net_pln, compared.groups[0].change_pct], [200, 50]);
+
+      const empty = buildRevenueReport({
+        ...input,
+        previous: { from: "2026-01-01", to: "2026-02-28", invoices: [] },
+      });
+      assert.deepEqual([empty.groups[0].previous_net_pln, empty.groups[0].change_pct], [0, null]);
+    });
+
+    it("attributes costs to empty months", () => {
+      const report = buildRevenueReport({
+        dateField: "invoice_date",
+        groupBy: "month",
+        current: { from: "2026-01-01", to: "2026-02-28", invoices: [invoice(1, "2026-01-10", 100000)] },
+        costs: [
+          {
+            uuid: "00000000-0000-4000-8000-000000000099",
+            number: "K/1",
+            issue_date: "2026-02-12",
+            net_price: 20000,
+            tax_price: 4600,
+            gross_price: 24600,
+            currency: "PLN",
+            created_at: "2026-02-12T10:00:00Z",
+            updated_at: "2026-02-12T10:00:00Z",
+          },
+        ],
+        truncated: false,
+      });
+
+      assert.deepEqual(
+        report.groups.map((group) => [group.key, group.costs_net_pln, group.profit_pln]),
+        [
+          ["2026-01", 0, 1000],
+          ["2026-02", 200, -200],
+        ]
+      );
+    });
+  });
+
+  it("groups invoice lines by product name", () => {
+    const report = buildRevenueReport({
+      dateField: "invoice_date",
+      groupBy: "product",
+      current: {
+        from: "2026-03-01",
+        to: "2026-03-31",
+        invoices: [
+          invoice(1, "2026-03-02", 30000, [
+            { name: "Hosting", quantity: 2, net_price: 20000, tax_price: 4600, tax_symbol: "23" },
+            { name: "Domena", quantity: 1, net_price: 10000, tax_price: 2300, tax_symbol: "23" },
+          ]),
+          invoice(2, "2026-03-20", 10000, [
+            { name: "hosting ", quantity: 1, net_price: 10000, tax_price: 2300, tax_symbol: "23" },
+          ]),
+        ],
+      },
+      truncated: false,
+    });
+
+    assert.deepEqual(
+      report.groups.map((group) => [group.label, group.net_pln, group.quantity, group.invoice_count]),
+      [
+        ["Hosting", 300, 3, 2],
+        ["Domena", 100, 1, 1],
+      ]
+    );
+  });
+});
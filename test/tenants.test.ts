@@ -0,0 +1,52 @@
+/**
+ * Per-tenant API client pool
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { TenantClientPool } from "../src/tenants.js";
+import type { ServerConfig } from "../src/types.js";
+
+const CONFIG: ServerConfig = {
+  apiKey: "",
+  baseUrl: "http://127.0.0.1:1",
+  useSandbox: true,
+  timeoutMs: 1000,
+  retry: { maxRetries: 0, baseDelayMs: 1, maxDelayMs: 1 },
+  rateLimit: { requestsPerSecond: 10, maxConcurrency: 2 },
+};
+
+const TENANT_A = { id: "tenant-a", apiKey: "key-a" };
+const TENANT_B = { id: "tenant-b", apiKey: "key-b" };
+
+describe("TenantClientPool", () => {
+  it("shares a client between sessions of one tenant only", () => {
+    const pool = new TenantClientPool(CONFIG);
+
+    const first = pool.acquire(TENANT_A);
+    assert.equal(pool.acquire(TENANT_A), first);
+    assert.notEqual(pool.acquire(TENANT_B), first);
+    assert.equal(pool.size, 2);
+  });
+
+  it("drops a tenant's client with its last session", () => {
+    const pool = new TenantClientPool(CONFIG);
+    const first = pool.acquire(TENANT_A);
+    pool.acquire(TENANT_A);
+
+    pool.release(TENANT_A.id);
+    assert.equal(pool.size, 1);
+
+    pool.release(TENANT_A.id);
+    assert.equal(pool.size, 0);
+    assert.notEqual(pool.acquire(TENANT_A), first);
+  });
+
+  it("ignores the release of an unknown tenant", () => {
+    const pool = new TenantClientPool(CONFIG);
+
+    pool.release(TENANT_A.id);
+
+    assert.equal(pool.size, 0);
+  });
+});
@@ -0,0 +1,301 @@
+/**
+ * VAT registers built from a local mock of the inFakt API
+ */
+
+import { after, before, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { createServer, IncomingMessage, Server, ServerResponse } from "node:http";
+import type { AddressInfo } from "node:net";
+import axios from "axios";
+import { ApiClient } from "../src/api-client.js";
+import {
+  buildVatRegisterCsv,
+  fetchIssuedInvoices,
+  fetchVatRegisters,
+  resolveVatPeriod,
+  summarizeVatRegisters,
+} from "../src/vat-registers.js";
+import type { Cost, Invoice, VatRateAmounts, VatRegisterEntry, VatRegisters } from "../src/types.js";
+
+/**
+ * In-memory inFakt API serving cost documents with ransack date filters and
+ * invoices listed without their lines
+ */
+class MockInfaktApi {
+  costs: Cost[] = [];
+  /** Query strings of the cost list requests */
+  costQueries: URLSearchParams[] = [];
+  invoices: Invoice[] = [];
+  /** UUIDs of the invoices fetched individually */
+  invoiceRequests: string[] = [];
+
+  private readonly server: Server = createServer((req, res) => this.handle(req, res));
+
+  async start(): Promise<string> {
+    await new Promise<void>((resolve) => this.server.listen(0, "127.0.0.1", resolve));
+    const { port } = this.server.address() as AddressInfo;
+    return `http://127.0.0.1:${port}`;
+  }
+
+  stop(): Promise<void> {
+    return new Promise((resolve, reject) =>
+      this.server.close((error) => (error ? reject(error) : resolve()))
+    );
+  }
+
+  reset(): void {
+    this.costs = [];
+    this.costQueries = [];
+    this.invoices = [];
+    this.invoiceRequests = [];
+  }
+
+  private handle(req: IncomingMessage, res: ServerResponse): void {
+    const url = new URL(req.url ?? "/", "http://localhost");
+    const send = (body: unknown) => {
+      res.writeHead(200, { "Content-Type": "application/json" });
+      res.end(JSON.stringify(body));
+    };
+
+    if (url.pathname === "/invoices.json") {
+      const entities = this.invoices.map(({ services: _, ...listed }) => listed);
+      return send({ entities, metainfo: { total_count: entities.length } });
+    }
+    const invoice = this.invoices.find((entry) => url.pathname === `/invoices/${entry.uuid}.json`);
+    if (invoice) {
+      this.invoiceRequests.push(invoice.uuid);
+      return send(invoice);
+    }
+    if (url.pathname === "/documents/costs.json") {
+      this.costQueries.push(url.searchParams);
+      const q = (name: string) => url.searchParams.get(`q[${name}]`) ?? undefined;
+      const entities = this.costs.filter((cost) => {
+        if (q("received_date_null") === "true" && cost.received_date !== undefined) {
+          return false;
+        }
+        const within = (date: string | undefined, field: string) =>
+          (q(`${field}_gteq`) === undefined || (date !== undefined && date >= q(`${field}_gteq`)!)) &&
+          (q(`${field}_lteq`) === undefined || (date !== undefined && date <= q(`${field}_lteq`)!));
+        return within(cost.received_date, "received_date") && within(cost.issue_date, "issue_date");
+      });
+      return send({ entities, metainfo: { total_count: entities.length } });
+    }
+    res.writeHead(404, { "Content-Type": "application/json" });
+    res.end(JSON.stringify({ error: "Not found" }));
+  }
+}
+
+/**
+ * PLN cost with one 23% item
+ */
+function cost(number: string, issue_date: string, received_date?: string): Cost {
+  return {
+    uuid: `00000000-0000-4000-8000-${number.replace(/\D/g, "").padStart(12, "0")}`,
+    number,
+    issue_date,
+    received_date,
+    supplier_company_name: "Dostawca sp. z o.o.",
+    supplier_tax_code: "7740001454",
+    net_price: 10000,
+    tax_price: 2300,
+    gross_price: 12300,
+    currency: "PLN",
+    items: [{ name: "Usługa", tax_symbol: "23", net_price: 10000, tax_price: 2300, gross_price: 12300 }],
+    created_at: `${issue_date}T10:00:00Z`,
+    updated_at: `${issue_date}T10:00:00Z`,
+  };
+}
+
+describe("fetchVatRegisters", () => {
+  const api = new MockInfaktApi();
+  let apiClient: ApiClient;
+
+  before(async () => {
+    apiClient = new ApiClient(axios.create({ baseURL: await api.start() }));
+  });
+
+  after(() => api.stop());
+
+  beforeEach(() => api.reset());
+
+  it("includes costs received in the period however long ago they were issued", async () => {
+    api.costs = [
+      cost("K/1", "2025-06-30", "2026-03-05"),
+      cost("K/2", "2026-03-02", "2026-03-03"),
+      cost("K/3", "2026-03-10"),
+      cost("K/4", "2026-02-25", "2026-04-01"),
+      cost("K/5", "2026-02-27"),
+    ];
+
+    const registers = await fetchVatRegisters(apiClient, resolveVatPeriod(2026, 3));
+
+    assert.deepEqual(
+      registers.purchases.map((entry) => [entry.number, entry.tax_date]),
+      [
+        ["K/1", "2026-03-05"],
+        ["K/2", "2026-03-03"],
+        ["K/3", "2026-03-10"],
+      ]
+    );
+    assert.equal(registers.truncated, false);
+  });
+
+  it("filters costs by receipt date and undated costs by issue date", async () => {
+    await fetchVatRegisters(apiClient, resolveVatPeriod(2026, 3));
+
+    const filters = api.costQueries
+      .map((query) => [...query.keys()].filter((key) => key.startsWith("q[")).sort().join(" "))
+      .sort();
+    assert.deepEqual(filters, [
+      "q[issue_date_gteq] q[issue_date_lteq] q[received_date_null]",
+      "q[received_date_gteq] q[received_date_lteq]",
+    ]);
+  });
+});
+
+describe("fetchIssuedInvoices", () => {
+  const api = new MockInfaktApi();
+  let apiClient: ApiClient;
+
+  before(async () => {
+    apiClient = new ApiClient(axios.create({ baseURL: await api.start() }));
+  });
+
+  after(() => api.stop());
+
+  beforeEach(() => {
+    api.reset();
+    api.invoices = [1, 2, 3, 4].map(
+      (number) =>
+        ({
+          uuid: `00000000-0000-4000-8000-00000000000${number}`,
+          number: `FV ${number}`,
+          kind: number === 2 ? "proforma" : "vat",
+          invoice_date: `2026-03-0${number}`,
+          services: [{ name: "Usługa", tax_symbol: "23", net_price: 10000 }],
+        }) as Invoice
+    );
+  });
+
+  it("fetches the lines the list omits", async () => {
+    const { invoices, truncated } = await fetchIssuedInvoices(
+      apiClient,
+      "invoice_date",
+      "2026-03-01",
+      "2026-03-31"
+    );
+
+    assert.deepEqual(invoices.map((invoice) => [invoice.number, invoice.services?.length]), [
+      ["FV 1", 1],
+      ["FV 3", 1],
+      ["FV 4", 1],
+    ]);
+    assert.equal(api.invoiceRequests.length, 3);
+    assert.equal(truncated, false);
+  });
+
+  it("stops at the line request limit", async () => {
+    const { invoices, truncated } = await fetchIssuedInvoices(
+      apiClient,
+      "invoice_date",
+      "2026-03-01",
+      "2026-03-31",
+      true,
+      2
+    );
+
+    assert.deepEqual(invoices.map((invoice) => invoice.number), ["FV 1", "FV 3"]);
+    assert.equal(api.invoiceRequests.length, 2);
+    assert.equal(truncated, true);
+  });
+
+  it("does not fetch lines when they are not needed", async () => {
+    const { invoices } = await fetchIssuedInvoices(
+      apiClient,
+      "invoice_date",
+      "2026-03-01",
+      "2026-03-31",
+      false,
+      0
+    );
+
+    assert.equal(invoices.length, 3);
+    assert.deepEqual(api.invoiceRequests, []);
+  });
+});
+
+/**
+ * Register entry of a Polish counterparty
+ */
+function entry(number: string, counterparty_name: string, rates: VatRateAmounts[]): VatRegisterEntry {
+  return {
+    uuid: `00000000-0000-4000-8000-${number.replace(/\D/g, "").padStart(12, "0")}`,
+    number,
+    issue_date: "2026-03-02",
+    tax_date: "2026-03-02",
+    counterparty_name,
+    counterparty_tax_code: "7740001454",
+    counterparty_country: "PL",
+    rates,
+  };
+}
+
+/**
+ * Registers of March 2026 with the given entries
+ */
+function registers(sales: VatRegisterEntry[], purchases: VatRegisterEntry[] = []): VatRegisters {
+  return { period: resolveVatPeriod(2026, 3), sales, purchases, skipped: [], truncated: false };
+}
+
+describe("summarizeVatRegisters", () => {
+  it("reports the exact balance in grosze and the declared one in whole złoty", () => {
+    const summary = summarizeVatRegisters(
+      registers(
+        [
+          entry("FV/1", "Nabywca", [{ tax_symbol: "23", net_price: 43691, tax_price: 10049 }]),
+          entry("FV/2", "Nabywca", [{ tax_symbol: "8", net_price: 1000612, tax_price: 80049 }]),
+        ],
+        [entry("K/1", "Dostawca", [{ tax_symbol: "23", net_price: 174135, tax_price: 40051 }])]
+      )
+    );
+
+    assert.deepEqual(
+      [summary.output_vat, summary.input_vat, summary.payable, summary.refundable],
+      [90098, 40051, 50047, 0]
+    );
+    // 100.49 + 800.49 zł of output VAT is declared per rate as 100 + 800 zł
+    assert.deepEqual(summary.declared, { output_vat: 900, input_vat: 401, payable: 499, refundable: 0 });
+  });
+
+  it("declares a surplus of input VAT as refundable", () => {
+    const summary = summarizeVatRegisters(
+      registers([], [entry("K/1", "Dostawca", [{ tax_symbol: "23", net_price: 10000, tax_price: 2300 }])])
+    );
+
+    assert.equal(summary.refundable, 2300);
+    assert.deepEqual(summary.declared, { output_vat: 0, input_vat: 23, payable: 0, refundable: 23 });
+  });
+});
+
+describe("buildVatRegisterCsv", () => {
+  it("keeps spreadsheets from evaluating text as formulas", () => {
+    const csv = buildVatRegisterCsv(
+      registers([
+        entry("FV/1", '=HYPERLINK("http://example.com")', [{ tax_symbol: "23", net_price: 100, tax_price: 23 }]),
+        entry("FV/2", "+48 Sklep", [{ tax_symbol: "23", net_price: 100, tax_price: 23 }]),
+        entry("FV/3", "@SUM(A1)", [{ tax_symbol: "23", net_price: -100, tax_price: -23 }]),
+        entry("FV/4", "-Firma, sp. z o.o.", [{ tax_symbol: "23", net_price: 100, tax_price: 23 }]),
+      ])
+    );
+
+    assert.deepEqual(
+      csv.trimEnd().split("\n").slice(1).map((row) => row.replace(/,2026-03-02,2026-03-02/, "")),
+      [
+        `sales,FV/1,"'=HYPERLINK(""http://example.com"")",7740001454,PL,23,1.00,0.23`,
+        "sales,FV/2,'+48 Sklep,7740001454,PL,23,1.00,0.23",
+        "sales,FV/3,'@SUM(A1),7740001454,PL,23,-1.00,-0.23",
+        `sales,FV/4,"'-Firma, sp. z o.o.",7740001454,PL,23,1.00,0.23`,
+      ]
+    );
+  });
+});
@@ -0,0 +1,264 @@
+/**
+ * VAT amounts of invoice lines and per-rate invoice totals
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { buildInvoicePreview, calculateLineAmounts, roundHalfAwayFromZero } from "../src/vat.js";
+import type { LineAmounts, VatRateConfig } from "../src/types.js";
+import { ValidationError } from "../src/validation.js";
+
+/**
+ * VAT rates as reported by GET /vat_rates.json (fractions)
+ */
+const VAT_RATES: VatRateConfig[] = [
+  { symbol: "23", rate: 0.23, name: "23%" },
+  { symbol: "8", rate: 0.08, name: "8%" },
+  { symbol: "5", rate: 0.05, name: "5%" },
+  { symbol: "zw", rate: 0, name: "zw" },
+];
+
+/**
+ * Net, VAT and gross of a line or rate total
+ */
+function amounts({ net_price, tax_price, gross_price }: LineAmounts): [number, number, number] {
+  return [net_price, tax_price, gross_price];
+}
+
+/**
+ * Asserts that building the preview fails validation of the given field
+ */
+function assertInvalid(services: Record<string, unknown>[], field: string, message: RegExp): void {
+  assert.throws(
+    () => buildInvoicePreview(services, VAT_RATES, "PLN"),
+    (error) => {
+      assert.ok(error instanceof ValidationError);
+      assert.equal(error.field, field);
+      assert.match(error.message, message);
+      return true;
+    }
+  );
+}
+
+describe("roundHalfAwayFromZero", () => {
+  it("rounds halves away from zero on both sides", () => {
+    assert.deepEqual([2.5, 3.5, -2.5, -3.5].map(roundHalfAwayFromZero), [3, 4, -3, -4]);
+  });
+
+  it("rounds other values to the nearest integer", () => {
+    assert.deepEqual([2.4, 2.6, -2.4, -2.6, -7].map(roundHalfAwayFromZero), [2, 3, -2, -3, -7]);
+  });
+
+  it("does not return negative zero", () => {
+    assert.equal(roundHalfAwayFromZero(-0.4), 0);
+    assert.equal(roundHalfAwayFromZero(-0), 0);
+  });
+});
+
+describe("calculateLineAmounts", () => {
+  it("mirrors positive amounts for a negative quantity or price", () => {
+    assert.deepEqual(amounts(calculateLineAmounts(1, 150, "23")), [150, 35, 185]);
+    assert.deepEqual(amounts(calculateLineAmounts(-1, 150, "23")), [-150, -35, -185]);
+    assert.deepEqual(amounts(calculateLineAmounts(1, -150, "23")), [-150, -35, -185]);
+  });
+
+  it("rounds a negative net amount half away from zero", () => {
+    // -1.5 × 0.33 zł is -49.5 gr net, -11.5 gr of VAT
+    assert.deepEqual(amounts(calculateLineAmounts(-1.5, 33, 23)), [-50, -12, -62]);
+  });
+
+  it("keeps gross equal to net plus VAT", () => {
+    // -0.02 zł at 23% is -0.46 gr of VAT
+    assert.deepEqual(amounts(calculateLineAmounts(-2, 1, "23%")), [-2, 0, -2]);
+    assert.deepEqual(amounts(calculateLineAmounts(-3, 999, "zw")), [-2997, 0, -2997]);
+  });
+});
+
+describe("buildInvoicePreview", () => {
+  it("computes VAT of a rate from its total net, not as the sum of line VAT", () => {
+    const services = Array.from({ length: 3 }, (_, index) => ({
+      name: `Usługa ${index + 1}`,
+      tax_symbol: "23",
+      unit_net_price: 10,
+    }));
+
+    const preview = buildInvoicePreview(services, VAT_RATES, "PLN");
+
+    // 10 gr net: 2.3 gr of VAT per line, 6.9 gr for the rate
+    assert.deepEqual(preview.lines.map(amounts), [
+      [10, 2, 12],
+      [10, 2, 12],
+      [10, 2, 12],
+    ]);
+    assert.equal(preview.rates.length, 1);
+    assert.deepEqual(amounts(preview.rates[0]), [30, 7, 37]);
+    assert.equal(preview.rates[0].line_count, 3);
+    assert.deepEqual(amounts(preview.total), [30, 7, 37]);
+  });
+
+  it("totals each rate separately", () => {
+    const preview = buildInvoicePreview(
+      [
+        { name: "Usługa", tax_symbol: "23", unit_net_price: 10000 },
+        { name: "Książka", tax_symbol: "5", unit_net_price: 4990, quantity: 2 },
+        { name: "Nocleg", tax_symbol: "8", net_price: 35000 },
+        { name: "Szkolenie", tax_symbol: "zw", unit_net_price: 50000 },
+        { name: "Doradztwo", tax_symbol: "23%", unit_net_price: 2500 },
+      ],
+      VAT_RATES,
+      "PLN"
+    );
+
+    assert.deepEqual(
+      preview.rates.map((rate) => [rate.tax_symbol, rate.line_count, ...amounts(rate)]),
+      [
+        ["23", 2, 12500, 2875, 15375],
+        ["5", 1, 9980, 499, 10479],
+        ["8", 1, 35000, 2800, 37800],
+        ["zw", 1, 50000, 0, 50000],
+      ]
+    );
+    assert.deepEqual(amounts(preview.total), [107480, 6174, 113654]);
+    assert.equal(preview.price_basis, "net");
+    assert.equal(preview.currency, "PLN");
+  });
+
+  it("extracts VAT of a gross-priced invoice from the gross total of each rate", () => {
+    const preview = buildInvoicePreview(
+      [
+        { name: "Bilet", tax_symbol: "23", gross_price: 100 },
+        { name: "Bilet", tax_symbol: "23", gross_price: 100 },
+        { name: "Bilet", tax_symbol: "23", gross_price: 100 },
+        { name: "Nocleg", tax_symbol: "8", gross_price: 10800 },
+      ],
+      VAT_RATES,
+      "PLN"
+    );
+
+    assert.equal(preview.price_basis, "gross");
+    // 100 gr gross: 18.7 gr of VAT per line, 56.1 gr for the rate
+    assert.deepEqual(amounts(preview.lines[0]), [81, 19, 100]);
+    assert.deepEqual(
+      preview.rates.map(amounts),
+      [
+        [244, 56, 300],
+        [10000, 800, 10800],
+      ]
+    );
+    assert.deepEqual(amounts(preview.total), [10244, 856, 11100]);
+  });
+
+  it("converts VAT rates given as fractions to percentages", () => {
+    const preview = buildInvoicePreview(
+      [
+        { name: "A", tax_symbol: "23", unit_net_price: 10000 },
+        { name: "B", tax_symbol: "5,5", unit_net_price: 10000 },
+        { name: "C", tax_symbol: "8", unit_net_price: 10000 },
+      ],
+      [
+        ...VAT_RATES.filter((rate) => rate.symbol !== "8"),
+        { symbol: "5,5", rate: 0.055, name: "5,5%" },
+        { symbol: "8", rate: 8, name: "8%" },
+      ],
+      "PLN"
+    );
+
+    assert.deepEqual(
+      preview.lines.map((line) => [line.vat_percent, line.tax_price]),
+      [
+        [23, 2300],
+        [5.5, 550],
+        [8, 800],
+      ]
+    );
+  });
+
+  it("rejects a VAT rate the account does not have", () => {
+    assertInvalid(
+      [{ name: "A", tax_symbol: "7", unit_net_price: 100 }],
+      "services[0].tax_symbol",
+      /unknown VAT rate 7 \(available: 23, 8, 5, zw\)/
+    );
+  });
+
+  it("accepts unit and line net prices on one invoice", () => {
+    const preview = buildInvoicePreview(
+      [
+        { name: "A", tax_symbol: "23", unit_net_price: 1000, quantity: 3 },
+        { name: "B", tax_symbol: "23", net_price: 500 },
+      ],
+      VAT_RATES,
+      "PLN"
+    );
+
+    assert.deepEqual(amounts(preview.rates[0]), [3500, 805, 4305]);
+  });
+
+  it("rejects gross prices mixed with net prices", () => {
+    assertInvalid(
+      [
+        { name: "A", tax_symbol: "23", unit_net_price: 1000 },
+        { name: "B", tax_symbol: "23", gross_price: 1230 },
+      ],
+      "services[1]",
+      /cannot be mixed/
+    );
+    assertInvalid(
+      [
+        { name: "A", tax_symbol: "23", gross_price: 1230 },
+        { name: "B", tax_symbol: "23", net_price: 1000 },
+      ],
+      "services[1]",
+      /cannot be mixed/
+    );
+  });
+
+  it("rejects a line with more than one price", () => {
+    assertInvalid(
+      [{ name: "A", tax_symbol: "23", unit_net_price: 1000, gross_price: 1230 }],
+      "services[0]",
+      /set only one of unit_net_price, gross_price/
+    );
+  });
+
+  describe("at grosz boundaries", () => {
+    /**
+     * Amounts of a single-line invoice
+     */
+    function single(service: Record<string, unknown>): [number, number, number] {
+      const preview = buildInvoicePreview([{ name: "A", ...service }], VAT_RATES, "PLN");
+      assert.deepEqual(amounts(preview.total), amounts(preview.lines[0]));
+      return amounts(preview.lines[0]);
+    }
+
+    it("rounds half a grosz of VAT up", () => {
+      // 1.50 zł at 23% is 34.5 gr of VAT
+      assert.deepEqual(single({ tax_symbol: "23", unit_net_price: 150 }), [150, 35, 185]);
+      // 0.50 zł at 5% is 2.5 gr
+      assert.deepEqual(single({ tax_symbol: "5", unit_net_price: 50 }), [50, 3, 53]);
+    });
+
+    it("rounds just below half a grosz down", () => {
+      // 0.02 zł at 23% is 0.46 gr of VAT
+      assert.deepEqual(single({ tax_symbol: "23", unit_net_price: 2 }), [2, 0, 2]);
+      // 0.06 zł at 8% is 0.48 gr
+      assert.deepEqual(single({ tax_symbol: "8", unit_net_price: 6 }), [6, 0, 6]);
+    });
+
+    it("rounds the net amount of a fractional quantity to whole grosze", () => {
+      // 1.5 × 0.33 zł is 49.5 gr net
+      assert.deepEqual(single({ tax_symbol: "23", unit_net_price: 33, quantity: 1.5 }), [50, 12, 62]);
+      // 0.333 × 3.00 zł is 99.9 gr net
+      assert.deepEqual(single({ tax_symbol: "8", unit_net_price: 300, quantity: 0.333 }), [100, 8, 108]);
+    });
+
+    it("extracts VAT from a gross amount to the nearest grosz", () => {
+      // 1.05 zł gross at 5% holds exactly 5 gr of VAT, 0.27 zł at 8% exactly 2 gr
+      assert.deepEqual(single({ tax_symbol: "5", gross_price: 105 }), [100, 5, 105]);
+      assert.deepEqual(single({ tax_symbol: "8", gross_price: 27 }), [25, 2, 27]);
+      // 0.03 zł at 23% holds 0.56 gr, 0.02 zł holds 0.37 gr
+      assert.deepEqual(single({ tax_symbol: "23", gross_price: 3 }), [2, 1, 3]);
+      assert.deepEqual(single({ tax_symbol: "23", gross_price: 2 }), [2, 0, 2]);
+    });
+  });
+});
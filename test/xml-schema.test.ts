@@ -0,0 +1,200 @@
+/**
+ * Offline XML validation engine
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  childText,
+  choice,
+  element,
+  opaque,
+  optional,
+  sequence,
+  validateXml,
+  withAssertions,
+  type SimpleTypeDef,
+} from "../src/xml-schema.js";
+import { xmlElement, xmlText } from "../src/xml.js";
+import type { XmlElement } from "../src/types.js";
+
+const TText: SimpleTypeDef = { base: "string", minLength: 1, maxLength: 5 };
+const TAmount: SimpleTypeDef = { base: "decimal", totalDigits: 6, fractionDigits: 2 };
+const TCode: SimpleTypeDef = { base: "string", enumeration: ["X", "Y"] };
+
+/**
+ * Doc: A, B?, (C | D), E{1,2}, F? (opaque), (G, H)*, @version fixed "1"
+ */
+const SCHEMA = withAssertions(
+  element(
+    "Doc",
+    [
+      element("A", TText),
+      optional("B", TAmount),
+      choice([element("C", TCode), element("D", TText)]),
+      element("E", TText, { min: 1, max: 2 }),
+      opaque("F"),
+      sequence([element("G", TText), element("H", TText)], { min: 0, max: Infinity }),
+    ],
+    {},
+    [{ name: "version", type: TText, fixed: "1" }]
+  ),
+  [
+    {
+      test: (doc) => childText(doc, "B") === undefined || childText(doc, "D") === undefined,
+      message: "B and D cannot both be set",
+    },
+  ]
+);
+
+/**
+ * Builds a Doc element from [name, text] pairs
+ */
+function doc(children: Array<[string, string] | XmlElement>, version = "1"): XmlElement {
+  return xmlElement(
+    "Doc",
+    children.map((child) => (Array.isArray(child) ? xmlText(child[0], child[1]) : child)),
+    { version }
+  );
+}
+
+/**
+ * Violation messages of a document
+ */
+function messages(document: XmlElement): string[] {
+  return validateXml(document, SCHEMA).map((violation) => violation.message);
+}
+
+describe("validateXml", () => {
+  it("accepts a document matching the content model", () => {
+    assert.deepEqual(validateXml(doc([["A", "a"], ["B", "1.50"], ["C", "X"], ["E", "e"]]), SCHEMA), []);
+    assert.deepEqual(
+      validateXml(
+        doc([["A", "a"], ["D", "d"], ["E", "e1"], ["E", "e2"], ["G", "g"], ["H", "h"], ["G", "g"], ["H", "h"]]),
+        SCHEMA
+      ),
+      []
+    );
+  });
+
+  it("rejects the wrong root element", () => {
+    assert.deepEqual(validateXml(xmlElement("Other", []), SCHEMA), [
+      { path: "/Other", message: "root element must be Doc" },
+    ]);
+  });
+
+  describe("sequence", () => {
+    it("reports elements out of order", () => {
+      const found = messages(doc([["B", "1"], ["A", "a"], ["C", "X"], ["E", "e"]]));
+
+      assert.equal(found[0], "missing required element A (found B)");
+      assert.ok(found.includes("unexpected element A"));
+    });
+
+    it("reports an element after the end of the content model", () => {
+      assert.deepEqual(messages(doc([["A", "a"], ["C", "X"], ["E", "e"], ["B", "1"]])), [
+        "unexpected element B",
+      ]);
+    });
+
+    it("reports an incomplete repeated group", () => {
+      assert.deepEqual(
+        messages(doc([["A", "a"], ["C", "X"], ["E", "e"], ["G", "g"], ["H", "h"], ["G", "g"]])),
+        ["missing required element H"]
+      );
+    });
+  });
+
+  describe("choice", () => {
+    it("requires one alternative", () => {
+      assert.deepEqual(messages(doc([["A", "a"], ["E", "e"]])), [
+        "missing one of: C, D (found E)",
+      ]);
+    });
+
+    it("rejects more than one alternative", () => {
+      const found = messages(doc([["A", "a"], ["C", "X"], ["D", "d"], ["E", "e"]]));
+
+      assert.equal(found[0], "missing required element E (found D)");
+      assert.ok(found.includes("unexpected element D"));
+    });
+  });
+
+  describe("occurrence bounds", () => {
+    it("reports a missing required element", () => {
+      assert.deepEqual(messages(doc([["A", "a"], ["C", "X"]])), ["missing required element E"]);
+    });
+
+    it("reports elements above maxOccurs", () => {
+      assert.deepEqual(
+        messages(doc([["A", "a"], ["C", "X"], ["E", "1"], ["E", "2"], ["E", "3"]])),
+        ["unexpected element E"]
+      );
+    });
+
+    it("indexes the path of repeated elements", () => {
+      assert.deepEqual(validateXml(doc([["A", "a"], ["C", "X"], ["E", "e"], ["E", "toolong"]]), SCHEMA), [
+        { path: "/Doc/E[2]", message: "must be at most 5 characters long" },
+      ]);
+    });
+  });
+
+  describe("simple types", () => {
+    const cases: Array<[string, Array<[string, string]>, string]> = [
+      ["decimal places", [["B", "1.005"]], "'1.005' has more than 2 decimal places"],
+      ["total digits", [["B", "12345.67"]], "'12345.67' has more than 6 digits"],
+      ["non-numeric decimals", [["B", "1,50"]], "'1,50' is not a decimal number"],
+    ];
+
+    for (const [name, fields, message] of cases) {
+      it(`checks ${name}`, () => {
+        assert.deepEqual(messages(doc([["A", "a"], ...fields, ["C", "X"], ["E", "e"]])), [message]);
+      });
+    }
+
+    it("checks enumerations", () => {
+      assert.deepEqual(messages(doc([["A", "a"], ["C", "Z"], ["E", "e"]])), [
+        "'Z' is not one of: X, Y",
+      ]);
+    });
+
+    it("rejects child elements in a simple-typed element", () => {
+      assert.deepEqual(
+        messages(doc([xmlElement("A", [xmlText("X", "x")]), ["C", "X"], ["E", "e"]])),
+        ["must not contain elements", "must be at least 1 characters long"]
+      );
+    });
+  });
+
+  describe("attributes", () => {
+    it("checks fixed values", () => {
+      assert.deepEqual(validateXml(doc([["A", "a"], ["C", "X"], ["E", "e"]], "2"), SCHEMA), [
+        { path: "/Doc/@version", message: "must be '1'" },
+      ]);
+    });
+
+    it("reports missing and unexpected attributes", () => {
+      const document = xmlElement("Doc", [xmlText("A", "a"), xmlText("C", "X"), xmlText("E", "e")], {
+        xmlns: "urn:test",
+        extra: "1",
+      });
+
+      assert.deepEqual(messages(document), [
+        "missing required attribute version",
+        "unexpected attribute extra",
+      ]);
+    });
+  });
+
+  it("does not check the content of opaque elements", () => {
+    const anything = xmlElement("F", [xmlText("Whatever", "x")], { any: "1" });
+
+    assert.deepEqual(messages(doc([["A", "a"], ["C", "X"], ["E", "e"], anything])), []);
+  });
+
+  it("checks assertions", () => {
+    assert.deepEqual(messages(doc([["A", "a"], ["B", "1"], ["D", "d"], ["E", "e"]])), [
+      "B and D cannot both be set",
+    ]);
+  });
+});